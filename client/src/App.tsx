@@ -5,7 +5,10 @@ import { Toaster } from "@/components/ui/toaster";
 import NotFound from "@/pages/not-found";
 import Home from "@/pages/Home";
 import AuthPage from "@/pages/auth-page";
+import QRApprovalPage from "@/pages/qr-approval-page";
+import ResetPasswordPage from "@/pages/reset-password-page";
 import { AuthProvider } from "@/context/AuthContext";
+import { VaultProvider } from "@/context/VaultContext";
 import { ProtectedRoute } from "@/lib/protected-route";
 
 function Router() {
@@ -13,6 +16,8 @@ function Router() {
     <Switch>
       <ProtectedRoute path="/" component={Home} />
       <Route path="/auth" component={AuthPage} />
+      <Route path="/reset-password" component={ResetPasswordPage} />
+      <ProtectedRoute path="/qr/approve" component={QRApprovalPage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -22,8 +27,10 @@ function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <AuthProvider>
-        <Router />
-        <Toaster />
+        <VaultProvider>
+          <Router />
+          <Toaster />
+        </VaultProvider>
       </AuthProvider>
     </QueryClientProvider>
   );
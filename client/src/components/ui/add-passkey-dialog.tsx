@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { KeyRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useAuth } from "@/context/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { addPasskey, reauthenticateWithPassword, reauthenticateWithPasskey } from "@/lib/webAuthn";
+
+interface AddPasskeyDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type Step = "confirm" | "create" | "done";
+
+export function AddPasskeyDialog({ isOpen, onClose }: AddPasskeyDialogProps) {
+  const { user, setUser } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [step, setStep] = useState<Step>("confirm");
+  const [password, setPassword] = useState("");
+  const [nickname, setNickname] = useState("");
+  const [isPending, setIsPending] = useState(false);
+
+  const hasPassword = !!user?.password;
+
+  const handleClose = () => {
+    setStep("confirm");
+    setPassword("");
+    setNickname("");
+    onClose();
+  };
+
+  // Run one step of the flow, surfacing failures as a toast
+  const runStep = async (action: () => Promise<void>, failure: string) => {
+    try {
+      setIsPending(true);
+      await action();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : failure,
+        variant: "destructive",
+      });
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  // Adding a sign-in method requires confirming identity first
+  const handleConfirm = () => runStep(async () => {
+    if (hasPassword) {
+      await reauthenticateWithPassword(password);
+    } else {
+      await reauthenticateWithPasskey();
+    }
+    setPassword("");
+    setStep("create");
+  }, "Could not confirm your identity");
+
+  const handleCreate = () => runStep(async () => {
+    await addPasskey(nickname.trim() || undefined);
+    queryClient.invalidateQueries({ queryKey: ['/api/credentials'] });
+    toast({
+      title: "Passkey added",
+      description: "You can now sign in with this passkey.",
+    });
+    if (hasPassword) {
+      setStep("done");
+    } else {
+      handleClose();
+    }
+  }, "Failed to add passkey");
+
+  const handleRemovePassword = () => runStep(async () => {
+    const response = await apiRequest('DELETE', '/api/user/password');
+    const data = await response.json();
+    setUser(data.user);
+    toast({
+      title: "Password removed",
+      description: "Your account now signs in with passkeys only.",
+    });
+    handleClose();
+  }, "Failed to remove password");
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="rounded-xl">
+        {step === "confirm" && (
+          <>
+            <DialogHeader>
+              <DialogTitle>Add a Passkey</DialogTitle>
+              <DialogDescription>
+                {hasPassword
+                  ? "Enter your password to confirm it's you."
+                  : "Confirm it's you with one of your existing passkeys."}
+              </DialogDescription>
+            </DialogHeader>
+            {hasPassword && (
+              <div className="space-y-2">
+                <Label htmlFor="confirm-password">Password</Label>
+                <Input
+                  id="confirm-password"
+                  type="password"
+                  autoComplete="current-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && password && handleConfirm()}
+                  autoFocus
+                />
+              </div>
+            )}
+            <DialogFooter>
+              <Button variant="outline" onClick={handleClose}>Cancel</Button>
+              <Button onClick={handleConfirm} disabled={isPending || (hasPassword && !password)}>
+                {isPending ? "Confirming..." : "Continue"}
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+
+        {step === "create" && (
+          <>
+            <DialogHeader>
+              <DialogTitle>Add a Passkey</DialogTitle>
+              <DialogDescription>
+                Give the passkey a name so you can recognize it later, then follow your browser's prompts.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="passkey-nickname">Name (optional)</Label>
+              <Input
+                id="passkey-nickname"
+                placeholder="e.g. Work laptop"
+                maxLength={64}
+                value={nickname}
+                onChange={(e) => setNickname(e.target.value)}
+                autoFocus
+              />
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={handleClose}>Cancel</Button>
+              <Button onClick={handleCreate} disabled={isPending}>
+                <KeyRound className="h-4 w-4 mr-2" />
+                {isPending ? "Waiting for passkey..." : "Create passkey"}
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+
+        {step === "done" && (
+          <>
+            <DialogHeader>
+              <DialogTitle>Go passwordless?</DialogTitle>
+              <DialogDescription>
+                Your passkey is ready. You can remove your password so the account can only be
+                signed into with passkeys. Make sure you can use this passkey on the devices you need.
+              </DialogDescription>
+            </DialogHeader>
+            <DialogFooter>
+              <Button variant="outline" onClick={handleClose}>Keep password</Button>
+              <Button variant="destructive" onClick={handleRemovePassword} disabled={isPending}>
+                {isPending ? "Removing..." : "Remove password"}
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { PasswordPolicyViolation } from "@shared/password-policy";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { PasswordPolicyHints, getPolicyViolations } from "@/components/ui/password-policy-hints";
+import { useAuth } from "@/context/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { confirmIdentity } from "@/lib/webAuthn";
+
+interface ChangePasswordDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Change the account password, or add one to a passkey-only account. This is
+// the sign-in password, not the vault's master password.
+export function ChangePasswordDialog({ isOpen, onClose }: ChangePasswordDialogProps) {
+  const { user, setUser } = useAuth();
+  const { toast } = useToast();
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  // Server violations and the password they apply to
+  const [rejected, setRejected] = useState<{ password: string; violations: PasswordPolicyViolation[] } | null>(null);
+  const [isPending, setIsPending] = useState(false);
+  // Confirm with a passkey instead of typing the current password
+  const [usePasskey, setUsePasskey] = useState(false);
+
+  const hasPassword = !!user?.password;
+  const needsCurrentPassword = hasPassword && !usePasskey;
+  const mismatch = !!confirmPassword && confirmPassword !== newPassword;
+
+  const handleClose = () => {
+    setCurrentPassword("");
+    setNewPassword("");
+    setConfirmPassword("");
+    setError(null);
+    setRejected(null);
+    setUsePasskey(false);
+    onClose();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setRejected(null);
+    try {
+      setIsPending(true);
+      // Without the current password, the user confirms with a passkey first
+      if (!needsCurrentPassword) {
+        await confirmIdentity();
+      }
+      const response = await apiRequest("PUT", "/api/user/password", {
+        currentPassword: needsCurrentPassword ? currentPassword : undefined,
+        newPassword,
+      });
+      const data = await response.json();
+      setUser(data.user);
+      toast({
+        title: hasPassword ? "Password changed" : "Password added",
+        description: "Use your new password the next time you sign in.",
+      });
+      handleClose();
+    } catch (err) {
+      const violations = getPolicyViolations(err);
+      if (violations.length > 0) {
+        setRejected({ password: newPassword, violations });
+      } else {
+        setError(err instanceof Error ? err.message : "Failed to change password");
+      }
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="rounded-xl max-w-sm">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{hasPassword ? "Change Password" : "Add a Password"}</DialogTitle>
+            <DialogDescription>
+              This is the password you sign in with. Your vault's master password doesn't change.
+            </DialogDescription>
+          </DialogHeader>
+          {needsCurrentPassword && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="current-password">Current password</Label>
+                <button
+                  type="button"
+                  className="text-xs text-[#007AFF] hover:underline"
+                  onClick={() => setUsePasskey(true)}
+                >
+                  Use a passkey instead
+                </button>
+              </div>
+              <Input
+                id="current-password"
+                type="password"
+                autoComplete="current-password"
+                value={currentPassword}
+                onChange={(e) => setCurrentPassword(e.target.value)}
+              />
+            </div>
+          )}
+          {hasPassword && usePasskey && (
+            <p className="text-sm text-gray-600">
+              You'll confirm with one of your passkeys when you save.{" "}
+              <button type="button" className="text-[#007AFF] hover:underline" onClick={() => setUsePasskey(false)}>
+                Use your current password
+              </button>
+            </p>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="new-password">New password</Label>
+            <Input
+              id="new-password"
+              type="password"
+              autoComplete="new-password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+            />
+            <PasswordPolicyHints
+              password={newPassword}
+              username={user?.username}
+              email={user?.email}
+              violations={rejected?.password === newPassword ? rejected.violations : []}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="confirm-new-password">Confirm new password</Label>
+            <Input
+              id="confirm-new-password"
+              type="password"
+              autoComplete="new-password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+            />
+            {mismatch && <p className="text-xs text-red-500">Passwords don't match</p>}
+          </div>
+          {error && <p className="text-sm text-red-500">{error}</p>}
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={handleClose}>Cancel</Button>
+            <Button
+              type="submit"
+              disabled={isPending || !newPassword || newPassword !== confirmPassword || (needsCurrentPassword && !currentPassword)}
+            >
+              {hasPassword ? "Change Password" : "Add Password"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,214 @@
+import { useState } from "react";
+import { Download } from "lucide-react";
+import { Folder } from "@shared/schema";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { useAuth } from "@/context/AuthContext";
+import { useVault } from "@/context/VaultContext";
+import { useToast } from "@/hooks/use-toast";
+import { ExportFormat, createEncryptedBackup, downloadFile, toBitwardenJson, toCsv, toExportedItem } from "@/lib/backup";
+import { apiRequest } from "@/lib/queryClient";
+import { EncryptedVaultRow, decryptVaultRow } from "@/lib/vault";
+import { confirmIdentity } from "@/lib/webAuthn";
+
+const MIN_PASSPHRASE_LENGTH = 12;
+
+const FORMAT_OPTIONS: { value: ExportFormat; label: string; description: string }[] = [
+  {
+    value: "encrypted",
+    label: "Encrypted backup",
+    description: "Protected by a passphrase you choose. Restore it here with Import.",
+  },
+  {
+    value: "bitwarden",
+    label: "Bitwarden JSON (unencrypted)",
+    description: "Readable by Bitwarden and most other password managers.",
+  },
+  {
+    value: "csv",
+    label: "CSV (unencrypted)",
+    description: "Logins only. Readable by browsers and spreadsheets.",
+  },
+];
+
+interface ExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Download the vault as an encrypted backup or a plaintext export
+export function ExportDialog({ isOpen, onClose }: ExportDialogProps) {
+  const { user } = useAuth();
+  const { vaultKey, itemsBound } = useVault();
+  const { toast } = useToast();
+  const [format, setFormat] = useState<ExportFormat>("encrypted");
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmPassphrase, setConfirmPassphrase] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, setIsPending] = useState(false);
+
+  const hasPassword = !!user?.password;
+  const isPlaintext = format !== "encrypted";
+
+  const handleClose = () => {
+    setFormat("encrypted");
+    setPassphrase("");
+    setConfirmPassphrase("");
+    setPassword("");
+    setError(null);
+    onClose();
+  };
+
+  const handleExport = async () => {
+    setError(null);
+    if (!isPlaintext) {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setError(`Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters`);
+        return;
+      }
+      if (passphrase !== confirmPassphrase) {
+        setError("Passphrases don't match");
+        return;
+      }
+    }
+
+    try {
+      setIsPending(true);
+      if (!vaultKey) {
+        throw new Error("Unlock your vault first");
+      }
+
+      // Unencrypted exports ask for the password or a passkey first, so someone
+      // at an unlocked vault can't walk off with it in the clear. The server
+      // only hands out ciphertext, so this check is up to the browser.
+      if (isPlaintext) {
+        await confirmIdentity(hasPassword ? password : undefined);
+      }
+
+      const response = await apiRequest("GET", `/api/passwords/export?format=${format}`);
+      const { items: rows }: { items: EncryptedVaultRow[] } = await response.json();
+      const folders: Folder[] = await (await apiRequest("GET", "/api/folders")).json();
+      const items = await Promise.all(rows.map(async (row) =>
+        toExportedItem(await decryptVaultRow(vaultKey, row, !itemsBound), folders),
+      ));
+
+      const date = new Date().toISOString().slice(0, 10);
+      if (format === "encrypted") {
+        const backup = await createEncryptedBackup(items, passphrase);
+        downloadFile(`passwords-backup-${date}.json`, JSON.stringify(backup, null, 2), "application/json");
+      } else if (format === "bitwarden") {
+        downloadFile(`passwords-bitwarden-${date}.json`, toBitwardenJson(items), "application/json");
+      } else {
+        downloadFile(`passwords-${date}.csv`, toCsv(items.map(({ item }) => item)), "text/csv");
+      }
+
+      toast({
+        title: "Export ready",
+        description: isPlaintext
+          ? `${items.length} items exported. The file is not encrypted; delete it when you no longer need it.`
+          : `${items.length} items exported.`,
+      });
+      handleClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Export failed");
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="rounded-xl">
+        <DialogHeader>
+          <DialogTitle>Export Passwords</DialogTitle>
+          <DialogDescription>
+            Your vault is decrypted on this device and saved as a file.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={format} onValueChange={(value) => setFormat(value as ExportFormat)} className="space-y-2">
+          {FORMAT_OPTIONS.map((option) => (
+            <Label key={option.value} className="flex items-start gap-3 font-normal cursor-pointer">
+              <RadioGroupItem value={option.value} className="mt-1" />
+              <div>
+                <p className="font-medium">{option.label}</p>
+                <p className="text-sm text-gray-500">{option.description}</p>
+              </div>
+            </Label>
+          ))}
+        </RadioGroup>
+
+        {isPlaintext ? (
+          <>
+            <Alert variant="destructive">
+              <AlertDescription>
+                Anyone who gets this file can read all of your passwords.
+              </AlertDescription>
+            </Alert>
+            {hasPassword && (
+              <div className="space-y-2">
+                <Label htmlFor="export-password">Confirm with your account password</Label>
+                <Input
+                  id="export-password"
+                  type="password"
+                  autoComplete="current-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+              </div>
+            )}
+          </>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="backup-passphrase">Backup passphrase</Label>
+              <Input
+                id="backup-passphrase"
+                type="password"
+                autoComplete="new-password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="confirm-backup-passphrase">Confirm passphrase</Label>
+              <Input
+                id="confirm-backup-passphrase"
+                type="password"
+                autoComplete="new-password"
+                value={confirmPassphrase}
+                onChange={(e) => setConfirmPassphrase(e.target.value)}
+              />
+            </div>
+          </>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose}>Cancel</Button>
+          <Button onClick={handleExport} disabled={isPending || (isPlaintext && hasPassword && !password)}>
+            <Download className="h-4 w-4 mr-2" />
+            {isPending ? "Exporting..." : isPlaintext && !hasPassword ? "Confirm with passkey and export" : "Export"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,95 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { MailCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { apiRequest } from "@/lib/queryClient";
+
+interface ForgotPasswordDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Ask for a password reset link by email
+export function ForgotPasswordDialog({ isOpen, onClose }: ForgotPasswordDialogProps) {
+  const [email, setEmail] = useState("");
+
+  const forgotMutation = useMutation({
+    mutationFn: async (address: string) => {
+      const response = await apiRequest("POST", "/api/password/forgot", { email: address });
+      return (await response.json()) as { message: string };
+    },
+  });
+
+  const handleClose = () => {
+    setEmail("");
+    forgotMutation.reset();
+    onClose();
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    forgotMutation.mutate(email);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="rounded-xl max-w-sm">
+        {forgotMutation.isSuccess ? (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center">
+                <MailCheck className="h-5 w-5 mr-2 text-[#34C759]" />
+                Check your email
+              </DialogTitle>
+              <DialogDescription>
+                {forgotMutation.data.message}. The link expires in an hour.
+              </DialogDescription>
+            </DialogHeader>
+            <DialogFooter>
+              <Button onClick={handleClose}>Done</Button>
+            </DialogFooter>
+          </>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>Forgot your password?</DialogTitle>
+              <DialogDescription>
+                Enter your account's email address and we'll send you a link to choose a new password.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="forgot-email">Email</Label>
+              <Input
+                id="forgot-email"
+                type="email"
+                placeholder="you@example.com"
+                autoComplete="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+              />
+            </div>
+            {forgotMutation.error && (
+              <p className="text-sm text-red-500">{forgotMutation.error.message}</p>
+            )}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={handleClose}>Cancel</Button>
+              <Button type="submit" disabled={forgotMutation.isPending || !email}>
+                {forgotMutation.isPending ? "Sending..." : "Send Reset Link"}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
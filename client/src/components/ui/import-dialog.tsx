@@ -0,0 +1,323 @@
+import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { FileUp } from "lucide-react";
+import { Folder, MAX_TAGS_PER_ITEM, VaultItemMetadata } from "@shared/schema";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useAuth } from "@/context/AuthContext";
+import { useVault } from "@/context/VaultContext";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  BackupPassphraseRequiredError,
+  IMPORT_FORMAT_LABELS,
+  ImportCandidate,
+  ParsedImport,
+  findDuplicates,
+  parseImportFile,
+} from "@/lib/importers";
+import { ExportedItem } from "@/lib/backup";
+import { VaultItem } from "@/lib/vault";
+import { ITEM_TYPE_LABELS, getItemSubtitle } from "@/lib/vault-items";
+import { confirmIdentity } from "@/lib/webAuthn";
+
+// The server creates at most this many items per request
+const MAX_BATCH_ITEMS = 200;
+
+// Limits the server puts on folder names and tags
+const MAX_FOLDER_NAME_LENGTH = 64;
+const MAX_TAG_LENGTH = 32;
+
+// The folder at the end of a path, creating any folder along it that doesn't
+// exist yet. New folders are added to folders.
+async function resolveFolder(folders: Folder[], folderPath: string[]): Promise<number | null> {
+  let parentId: number | null = null;
+  for (const fullName of folderPath) {
+    const name = fullName.slice(0, MAX_FOLDER_NAME_LENGTH);
+    let folder = folders.find((f) => f.parentId === parentId && f.name === name);
+    if (!folder) {
+      folder = (await (await apiRequest('POST', '/api/folders', { name, parentId })).json()) as Folder;
+      folders.push(folder);
+    }
+    parentId = folder.id;
+  }
+  return parentId;
+}
+
+// Where to file an imported item, within the server's limits
+async function toMetadata(folders: Folder[], { folderPath, tags, favorite }: ExportedItem): Promise<VaultItemMetadata> {
+  return {
+    folderId: await resolveFolder(folders, folderPath),
+    tags: Array.from(new Set(tags.map((tag) => tag.trim().slice(0, MAX_TAG_LENGTH)).filter(Boolean))).slice(0, MAX_TAGS_PER_ITEM),
+    favorite,
+  };
+}
+
+interface ImportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  existingItems: VaultItem[];
+}
+
+// Import a browser or password manager export, or restore an encrypted
+// backup, either merged into the vault or replacing its contents
+export function ImportDialog({ isOpen, onClose, existingItems }: ImportDialogProps) {
+  const { user } = useAuth();
+  const { fillNewItems } = useVault();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [file, setFile] = useState<File | null>(null);
+  const [needsPassphrase, setNeedsPassphrase] = useState(false);
+  const [passphrase, setPassphrase] = useState("");
+  const [parsed, setParsed] = useState<ParsedImport | null>(null);
+  const [replace, setReplace] = useState(false);
+  const [password, setPassword] = useState("");
+  const [candidates, setCandidates] = useState<ImportCandidate[]>([]);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+
+  const hasPassword = !!user?.password;
+
+  // Check for duplicates whenever the file or mode changes. When replacing,
+  // nothing in the current vault counts as a duplicate.
+  useEffect(() => {
+    const checked = parsed ? findDuplicates(parsed.items, replace ? [] : existingItems) : [];
+    setCandidates(checked);
+    // Duplicates are left out unless the user picks them
+    setSelected(new Set(checked.flatMap((candidate, index) => candidate.duplicate ? [] : [index])));
+  }, [parsed, replace]);
+
+  const handleClose = () => {
+    setFile(null);
+    setNeedsPassphrase(false);
+    setPassphrase("");
+    setParsed(null);
+    setReplace(false);
+    setPassword("");
+    setError(null);
+    setProgress(null);
+    onClose();
+  };
+
+  const readFile = async (selectedFile: File, backupPassphrase?: string) => {
+    setError(null);
+    try {
+      setParsed(await parseImportFile(selectedFile, backupPassphrase));
+      setNeedsPassphrase(false);
+    } catch (err) {
+      setParsed(null);
+      if (err instanceof BackupPassphraseRequiredError) {
+        setNeedsPassphrase(true);
+      } else {
+        setError(err instanceof Error ? err.message : "Could not read this file");
+      }
+    }
+  };
+
+  const handleFile = (selectedFile: File | undefined) => {
+    if (!selectedFile) return;
+    setFile(selectedFile);
+    setNeedsPassphrase(false);
+    setPassphrase("");
+    readFile(selectedFile);
+  };
+
+  const toggle = (index: number) => {
+    const next = new Set(selected);
+    if (next.has(index)) {
+      next.delete(index);
+    } else {
+      next.add(index);
+    }
+    setSelected(next);
+  };
+
+  const handleImport = async () => {
+    const items = candidates.filter((_, index) => selected.has(index));
+    try {
+      setProgress(0);
+
+      // Replacing deletes the current items, which needs a fresh identity check
+      if (replace) {
+        await confirmIdentity(hasPassword ? password : undefined);
+      }
+
+      // Items go back into folders of the same name, which are created as needed
+      const folders: Folder[] = await (await apiRequest('GET', '/api/folders')).json();
+
+      let batch: ExportedItem[] = [];
+      let imported = 0;
+      const sendBatch = async () => {
+        const metadata: VaultItemMetadata[] = [];
+        for (const entry of batch) {
+          metadata.push(await toMetadata(folders, entry));
+        }
+        // Create empty items first, then fill each one encrypted bound to its new ID
+        const response = await apiRequest('POST', '/api/passwords/import', { items: metadata });
+        const { ids }: { ids: number[] } = await response.json();
+        await fillNewItems(ids.map((id, i) => ({ id, data: batch[i].item })));
+        imported += batch.length;
+        setProgress(imported);
+        batch = [];
+      };
+
+      for (const entry of items) {
+        if (batch.length >= MAX_BATCH_ITEMS) {
+          await sendBatch();
+        }
+        batch.push(entry);
+      }
+      if (batch.length > 0) {
+        await sendBatch();
+      }
+
+      // Old items are only removed once everything new is safely stored
+      if (replace && existingItems.length > 0) {
+        await apiRequest('POST', '/api/passwords/delete', { ids: existingItems.map((item) => item.id) });
+      }
+
+      toast({
+        title: replace ? "Vault restored" : "Import complete",
+        description: `${imported} item${imported === 1 ? "" : "s"} added to your vault.`,
+      });
+      handleClose();
+    } catch (err) {
+      toast({
+        title: "Import failed",
+        description: err instanceof Error ? err.message : "Could not import your passwords",
+        variant: "destructive",
+      });
+      setProgress(null);
+    } finally {
+      queryClient.invalidateQueries({ queryKey: ['/api/passwords'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/folders'] });
+    }
+  };
+
+  const duplicateCount = candidates.filter((candidate) => candidate.duplicate).length;
+  const isImporting = progress !== null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isImporting && handleClose()}>
+      <DialogContent className="rounded-xl max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import or Restore</DialogTitle>
+          <DialogDescription>
+            Restore an encrypted backup, or import an export from Chrome, Edge, Firefox, Bitwarden,
+            1Password, LastPass or KeePass. The file is read and encrypted on this device; delete
+            unencrypted exports once the import is done.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Input
+          type="file"
+          accept=".csv,.json,.1pux,.xml"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+          disabled={isImporting}
+        />
+
+        {needsPassphrase && file && (
+          <div className="flex gap-2">
+            <Input
+              type="password"
+              placeholder="Backup passphrase"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && passphrase && readFile(file, passphrase)}
+              autoFocus
+            />
+            <Button onClick={() => readFile(file, passphrase)} disabled={!passphrase}>
+              Decrypt
+            </Button>
+          </div>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {parsed && (
+          <div className="space-y-2">
+            <p className="text-sm text-gray-600">
+              {IMPORT_FORMAT_LABELS[parsed.format]}: {candidates.length} item{candidates.length === 1 ? "" : "s"}
+              {duplicateCount > 0 && `, ${duplicateCount} already in your vault`}
+              {parsed.skipped > 0 && `, ${parsed.skipped} other item${parsed.skipped === 1 ? "" : "s"} skipped`}
+            </p>
+            <div className="max-h-72 overflow-y-auto border rounded-lg divide-y">
+              {candidates.map((candidate, index) => (
+                <label key={index} className="flex items-center gap-3 px-3 py-2 cursor-pointer">
+                  <Checkbox
+                    checked={selected.has(index)}
+                    onCheckedChange={() => toggle(index)}
+                    disabled={isImporting}
+                  />
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-medium truncate">{candidate.item.name}</p>
+                    <p className="text-xs text-gray-500 truncate">
+                      {ITEM_TYPE_LABELS[candidate.item.type]}
+                      {getItemSubtitle(candidate.item) && ` · ${getItemSubtitle(candidate.item)}`}
+                    </p>
+                  </div>
+                  {candidate.duplicate && <Badge variant="outline">Duplicate</Badge>}
+                </label>
+              ))}
+            </div>
+
+            {existingItems.length > 0 && (
+              <label className="flex items-center gap-2 text-sm cursor-pointer pt-2">
+                <Checkbox
+                  checked={replace}
+                  onCheckedChange={(checked) => setReplace(checked === true)}
+                  disabled={isImporting}
+                />
+                Replace the {existingItems.length} item{existingItems.length === 1 ? "" : "s"} currently in my vault (moved to the trash)
+              </label>
+            )}
+            {replace && hasPassword && (
+              <div className="space-y-2">
+                <Label htmlFor="restore-password">Confirm with your account password</Label>
+                <Input
+                  id="restore-password"
+                  type="password"
+                  autoComplete="current-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  disabled={isImporting}
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose} disabled={isImporting}>Cancel</Button>
+          <Button
+            onClick={handleImport}
+            disabled={isImporting || selected.size === 0 || (replace && hasPassword && !password)}
+            variant={replace ? "destructive" : "default"}
+          >
+            <FileUp className="h-4 w-4 mr-2" />
+            {isImporting
+              ? `Importing ${progress} of ${selected.size}...`
+              : `${replace ? "Replace with" : "Import"} ${selected.size} item${selected.size === 1 ? "" : "s"}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
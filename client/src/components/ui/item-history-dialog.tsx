@@ -0,0 +1,197 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { Copy, Eye, EyeOff, History, Laptop, RotateCcw } from "lucide-react";
+import { VaultItemVersion } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useVault } from "@/context/VaultContext";
+import { useToast } from "@/hooks/use-toast";
+import { describeDevice } from "@/lib/devices";
+import { apiRequest } from "@/lib/queryClient";
+import { VaultItem, VaultItemData, decryptVaultItem, toVaultItemData } from "@/lib/vault";
+import { ITEM_FIELD_LABELS, diffItemFields } from "@/lib/vault-items";
+
+// A stored version with its contents decrypted, or null if they can't be read
+type DecryptedVersion = VaultItemVersion & { data: VaultItemData | null };
+
+interface ItemHistoryDialogProps {
+  item: VaultItem;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Earlier versions of an item, with the option to put one back
+export function ItemHistoryDialog({ item, isOpen, onClose }: ItemHistoryDialogProps) {
+  const { vaultKey, itemsBound } = useVault();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [revealed, setRevealed] = useState<Set<number>>(new Set());
+  const [restoring, setRestoring] = useState<DecryptedVersion | null>(null);
+
+  const historyQuery = useQuery<DecryptedVersion[]>({
+    queryKey: ["/api/passwords", "history", item.id],
+    queryFn: async () => {
+      const versions: VaultItemVersion[] = await (await apiRequest("GET", `/api/passwords/${item.id}/history`)).json();
+      return Promise.all(versions.map(async (version) => ({
+        ...version,
+        data: await decryptVaultItem(vaultKey!, version.encryptedData, item.id, !itemsBound).catch(() => null),
+      })));
+    },
+    enabled: isOpen && !!vaultKey,
+  });
+  const versions = historyQuery.data || [];
+
+  const toggleReveal = (id: number) => {
+    const next = new Set(revealed);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setRevealed(next);
+  };
+
+  const copyPassword = (password: string) => {
+    navigator.clipboard.writeText(password);
+    toast({
+      title: "Copied to clipboard",
+      description: "Previous password has been copied",
+      duration: 2000,
+    });
+  };
+
+  const restoreVersion = async () => {
+    if (!restoring?.data) return;
+    try {
+      // Label the version being replaced with what the restore changes
+      const changedFields = diffItemFields(toVaultItemData(item), restoring.data);
+      await apiRequest("POST", `/api/passwords/${item.id}/history/${restoring.id}/restore`, { changedFields });
+      queryClient.invalidateQueries({ queryKey: ["/api/passwords"] });
+      toast({
+        title: "Version restored",
+        description: `${item.name} is back to how it was on ${format(new Date(restoring.createdAt), "MMM d, yyyy")}`,
+      });
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to restore version",
+        variant: "destructive",
+      });
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const describeChanges = (version: VaultItemVersion) =>
+    version.changedFields.length > 0
+      ? `Changed ${version.changedFields.map((field) => ITEM_FIELD_LABELS[field] || field).join(", ")}`
+      : "Contents changed";
+
+  return (
+    <>
+      <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+        <DialogContent className="rounded-xl max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="flex items-center">
+              <History className="h-5 w-5 mr-2" />
+              History of {item.name}
+            </DialogTitle>
+            <DialogDescription>
+              Each entry is the item as it was before a change. Restoring one keeps the current version here too.
+            </DialogDescription>
+          </DialogHeader>
+
+          {historyQuery.isLoading ? (
+            <p className="text-sm text-gray-500 py-4 text-center">Loading history...</p>
+          ) : historyQuery.isError ? (
+            <p className="text-sm text-red-500 py-4 text-center">Could not load the history of this item.</p>
+          ) : versions.length === 0 ? (
+            <p className="text-sm text-gray-500 py-4 text-center">This item hasn't been changed since it was saved.</p>
+          ) : (
+            <div className="max-h-[60vh] overflow-y-auto space-y-3 pr-1">
+              {versions.map((version) => {
+                const password = version.data?.type === "login" ? version.data.password : undefined;
+                return (
+                  <div key={version.id} className="rounded-lg border p-3 space-y-2">
+                    <div className="flex justify-between items-start gap-2">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium" title={format(new Date(version.createdAt), "PPpp")}>
+                          {formatDistanceToNow(new Date(version.createdAt), { addSuffix: true })}
+                        </p>
+                        <p className="text-xs text-gray-500 flex items-center">
+                          <Laptop className="h-3 w-3 mr-1 shrink-0" />
+                          {describeDevice(version.userAgent)}
+                        </p>
+                        <p className="text-xs text-gray-500 mt-1">{describeChanges(version)}</p>
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setRestoring(version)}
+                        disabled={!version.data}
+                      >
+                        <RotateCcw className="h-3 w-3 mr-1" />
+                        Restore
+                      </Button>
+                    </div>
+
+                    {!version.data && (
+                      <p className="text-xs text-red-500">This version can't be decrypted with your vault key.</p>
+                    )}
+                    {version.data && version.data.name !== item.name && (
+                      <p className="text-xs text-gray-500">Named "{version.data.name}"</p>
+                    )}
+                    {password && (
+                      <div className="flex justify-between items-center">
+                        <span className="text-sm font-medium text-gray-500">Password</span>
+                        <div className="flex items-center space-x-1 min-w-0">
+                          <span className="text-sm truncate max-w-[180px]">
+                            {revealed.has(version.id) ? password : "••••••••••••"}
+                          </span>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 w-6 rounded-full"
+                            onClick={() => toggleReveal(version.id)}
+                          >
+                            {revealed.has(version.id) ? <EyeOff className="h-3 w-3" /> : <Eye className="h-3 w-3" />}
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 w-6 rounded-full"
+                            onClick={() => copyPassword(password)}
+                          >
+                            <Copy className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        isOpen={!!restoring}
+        onClose={() => setRestoring(null)}
+        onConfirm={restoreVersion}
+        title="Restore Version"
+        description={`Replace the current contents of "${item.name}" with this earlier version? The current version stays in the history.`}
+        confirmText="Restore"
+      />
+    </>
+  );
+}
@@ -0,0 +1,282 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Check, Cloud, KeyRound, LockOpen, Pencil, Plus, Smartphone, Trash2, X } from "lucide-react";
+import { AddPasskeyDialog } from "@/components/ui/add-passkey-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { Input } from "@/components/ui/input";
+import { useVault } from "@/context/VaultContext";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { reauthenticateWithPasskey } from "@/lib/webAuthn";
+
+// Shape returned by GET /api/credentials
+interface PasskeySummary {
+  id: number;
+  credentialId: string;
+  nickname: string | null;
+  authenticatorName: string | null;
+  authenticatorIcon: string | null;
+  aaguid: string | null;
+  transports: string[];
+  backupEligible: boolean;
+  backedUp: boolean;
+  prfSupported: boolean;
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+const TRANSPORT_LABELS: Record<string, string> = {
+  internal: "This device",
+  hybrid: "Phone",
+  usb: "USB",
+  nfc: "NFC",
+  ble: "Bluetooth",
+};
+
+function getPasskeyName(passkey: PasskeySummary): string {
+  return passkey.nickname || passkey.authenticatorName || "Passkey";
+}
+
+export function PasskeyManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [nickname, setNickname] = useState("");
+  const [deletePasskeyId, setDeletePasskeyId] = useState<number | null>(null);
+  const [isAddOpen, setIsAddOpen] = useState(false);
+  const { status: vaultStatus, vaultKeys, enablePasskeyUnlock } = useVault();
+
+  const { data: passkeys = [], isLoading } = useQuery<PasskeySummary[]>({
+    queryKey: ['/api/credentials'],
+    refetchOnWindowFocus: false,
+  });
+
+  const renameMutation = useMutation({
+    mutationFn: async ({ id, nickname }: { id: number; nickname: string }) => {
+      const response = await apiRequest('PATCH', `/api/credentials/${id}`, { nickname });
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/credentials'] });
+      setEditingId(null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to rename passkey",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      // Removing a passkey requires confirming identity first
+      await reauthenticateWithPasskey();
+      const response = await apiRequest('DELETE', `/api/credentials/${id}`);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/credentials'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/vault/keys'] });
+      toast({
+        title: "Passkey removed",
+        description: "The passkey can no longer be used to sign in.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove passkey",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const vaultUnlockMutation = useMutation({
+    mutationFn: async (credentialId: string) => {
+      await enablePasskeyUnlock(credentialId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/credentials'] });
+      toast({
+        title: "Passkey can unlock your vault",
+        description: "You can now unlock your passwords with this passkey instead of your master password.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to set up vault unlock",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const unlocksVault = (passkey: PasskeySummary) =>
+    vaultKeys.some((key) => key.type === "prf" && key.credentialId === passkey.credentialId);
+
+  const startEditing = (passkey: PasskeySummary) => {
+    setEditingId(passkey.id);
+    setNickname(getPasskeyName(passkey));
+  };
+
+  const saveNickname = (id: number) => {
+    if (!nickname.trim()) return;
+    renameMutation.mutate({ id, nickname: nickname.trim() });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        {[1, 2].map((i) => (
+          <Card key={i} className="h-20 animate-pulse" />
+        ))}
+      </div>
+    );
+  }
+
+  const addPasskeyDialog = (
+    <AddPasskeyDialog isOpen={isAddOpen} onClose={() => setIsAddOpen(false)} />
+  );
+
+  if (passkeys.length === 0) {
+    return (
+      <div className="text-center py-10">
+        <KeyRound className="h-10 w-10 text-gray-300 mx-auto mb-3" />
+        <p className="text-gray-500 mb-4">You have no passkeys yet.</p>
+        <Button onClick={() => setIsAddOpen(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add a passkey
+        </Button>
+        {addPasskeyDialog}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-end">
+        <Button size="sm" onClick={() => setIsAddOpen(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add a passkey
+        </Button>
+      </div>
+
+      {passkeys.map((passkey) => (
+        <Card key={passkey.id}>
+          <CardContent className="p-4 flex items-start gap-4">
+            {passkey.authenticatorIcon ? (
+              <img src={passkey.authenticatorIcon} alt="" className="h-10 w-10 rounded-lg" />
+            ) : (
+              <div className="h-10 w-10 bg-blue-100 rounded-lg flex items-center justify-center">
+                <Smartphone className="h-5 w-5 text-blue-600" />
+              </div>
+            )}
+
+            <div className="flex-1 min-w-0">
+              {editingId === passkey.id ? (
+                <div className="flex items-center gap-2">
+                  <Input
+                    value={nickname}
+                    maxLength={64}
+                    onChange={(e) => setNickname(e.target.value)}
+                    onKeyDown={(e) => e.key === "Enter" && saveNickname(passkey.id)}
+                    className="h-8"
+                    autoFocus
+                  />
+                  <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => saveNickname(passkey.id)}>
+                    <Check className="h-4 w-4" />
+                  </Button>
+                  <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => setEditingId(null)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ) : (
+                <h3 className="font-medium truncate">{getPasskeyName(passkey)}</h3>
+              )}
+
+              <p className="text-sm text-gray-500 mt-1">
+                Created {format(new Date(passkey.createdAt), "MMM d, yyyy")}
+                {" · "}
+                {passkey.lastUsedAt
+                  ? `Last used ${format(new Date(passkey.lastUsedAt), "MMM d, yyyy")}`
+                  : "Never used"}
+              </p>
+
+              <div className="flex flex-wrap gap-1 mt-2">
+                {passkey.backedUp ? (
+                  <Badge variant="secondary">
+                    <Cloud className="h-3 w-3 mr-1" />
+                    Synced
+                  </Badge>
+                ) : passkey.backupEligible ? (
+                  <Badge variant="outline">Sync available</Badge>
+                ) : (
+                  <Badge variant="outline">Device-bound</Badge>
+                )}
+                {unlocksVault(passkey) && (
+                  <Badge variant="secondary">
+                    <LockOpen className="h-3 w-3 mr-1" />
+                    Unlocks vault
+                  </Badge>
+                )}
+                {passkey.transports.map((transport) => (
+                  <Badge key={transport} variant="outline">
+                    {TRANSPORT_LABELS[transport] || transport}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+
+            {editingId !== passkey.id && (
+              <div className="flex gap-1">
+                {passkey.prfSupported && vaultStatus === "unlocked" && !unlocksVault(passkey) && (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8"
+                    title="Use to unlock vault"
+                    onClick={() => vaultUnlockMutation.mutate(passkey.credentialId)}
+                    disabled={vaultUnlockMutation.isPending}
+                  >
+                    <LockOpen className="h-4 w-4" />
+                  </Button>
+                )}
+                <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => startEditing(passkey)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-8 w-8 text-red-500 hover:text-red-600"
+                  onClick={() => setDeletePasskeyId(passkey.id)}
+                  disabled={deleteMutation.isPending}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+
+      <ConfirmDialog
+        isOpen={deletePasskeyId !== null}
+        onClose={() => setDeletePasskeyId(null)}
+        onConfirm={() => deletePasskeyId !== null && deleteMutation.mutate(deletePasskeyId)}
+        title="Remove Passkey"
+        description="You will be asked to confirm with one of your passkeys. The removed passkey will no longer work for signing in."
+        confirmText="Remove"
+        cancelText="Cancel"
+        variant="destructive"
+      />
+
+      {addPasskeyDialog}
+    </div>
+  );
+}
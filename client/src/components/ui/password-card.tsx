@@ -1,22 +1,114 @@
 import { useState } from "react";
-import { SavedPassword } from "@shared/schema";
-import { Copy, Edit, Eye, EyeOff, Trash2, ExternalLink } from "lucide-react";
+import { VaultItem } from "@/lib/vault";
+import { ITEM_TYPE_LABELS, formatCardNumber, maskCardNumber } from "@/lib/vault-items";
+import {
+  Copy,
+  CreditCard,
+  Edit,
+  Eye,
+  EyeOff,
+  ExternalLink,
+  Globe,
+  History,
+  KeyRound,
+  LucideIcon,
+  Star,
+  StickyNote,
+  Terminal,
+  Trash2,
+  UserSquare,
+} from "lucide-react";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
+import { ItemHistoryDialog } from "@/components/ui/item-history-dialog";
+import { TotpCode } from "@/components/ui/totp-code";
 import { useToast } from "@/hooks/use-toast";
 
+const ITEM_TYPE_ICONS: Record<VaultItem["type"], LucideIcon> = {
+  login: Globe,
+  note: StickyNote,
+  card: CreditCard,
+  identity: UserSquare,
+  "ssh-key": Terminal,
+  "api-token": KeyRound,
+};
+
+// One labelled value on a card. Secret values stay masked until revealed.
+interface FieldRow {
+  label: string;
+  value?: string;
+  secret?: boolean;
+  masked?: string;
+  multiline?: boolean;
+}
+
+function getFieldRows(item: VaultItem): FieldRow[] {
+  switch (item.type) {
+    case "login":
+      return [
+        { label: "Username", value: item.username },
+        { label: "Password", value: item.password, secret: true },
+      ];
+    case "note":
+      return [];
+    case "card":
+      return [
+        { label: "Cardholder", value: item.cardholderName },
+        { label: "Number", value: formatCardNumber(item.number), secret: true, masked: maskCardNumber(item.number) },
+        {
+          label: "Expires",
+          value: item.expiryMonth && item.expiryYear ? `${item.expiryMonth.padStart(2, "0")}/${item.expiryYear}` : undefined,
+        },
+        { label: "Security code", value: item.securityCode, secret: true },
+      ];
+    case "identity":
+      return [
+        { label: "Full name", value: item.fullName },
+        { label: "Email", value: item.email },
+        { label: "Phone", value: item.phone },
+        { label: "Company", value: item.company },
+        { label: "Address", value: item.address, multiline: true },
+      ];
+    case "ssh-key":
+      return [
+        { label: "Public key", value: item.publicKey },
+        { label: "Private key", value: item.privateKey, secret: true },
+        { label: "Passphrase", value: item.passphrase, secret: true },
+      ];
+    case "api-token":
+      return [
+        { label: "Token", value: item.token, secret: true },
+        { label: "Expires", value: item.expiresAt },
+      ];
+  }
+}
+
 interface PasswordCardProps {
-  password: SavedPassword;
-  onEdit: (password: SavedPassword) => void;
+  password: VaultItem;
+  onEdit: (password: VaultItem) => void;
   onDelete: (id: number) => void;
+  onToggleFavorite: (password: VaultItem) => void;
+  onTagClick: (tag: string) => void;
 }
 
-export function PasswordCard({ password, onEdit, onDelete }: PasswordCardProps) {
-  const [showPassword, setShowPassword] = useState(false);
+export function PasswordCard({ password, onEdit, onDelete, onToggleFavorite, onTagClick }: PasswordCardProps) {
+  const [revealed, setRevealed] = useState<Set<string>>(new Set());
+  const [showHistory, setShowHistory] = useState(false);
   const { toast } = useToast();
 
-  const togglePasswordVisibility = () => {
-    setShowPassword(!showPassword);
+  const Icon = ITEM_TYPE_ICONS[password.type];
+  const link = password.type === "login" || password.type === "api-token" ? password.url : undefined;
+  const rows = getFieldRows(password).filter((row) => row.value);
+
+  const toggleReveal = (label: string) => {
+    const next = new Set(revealed);
+    if (next.has(label)) {
+      next.delete(label);
+    } else {
+      next.add(label);
+    }
+    setRevealed(next);
   };
 
   const copyToClipboard = (text: string, field: string) => {
@@ -30,12 +122,12 @@ export function PasswordCard({ password, onEdit, onDelete }: PasswordCardProps)
 
   const openWebsite = (url: string) => {
     if (!url) return;
-    
+
     let finalUrl = url;
     if (!url.startsWith('http://') && !url.startsWith('https://')) {
       finalUrl = 'https://' + url;
     }
-    
+
     window.open(finalUrl, '_blank');
   };
 
@@ -43,23 +135,35 @@ export function PasswordCard({ password, onEdit, onDelete }: PasswordCardProps)
     <Card className="overflow-hidden transition-shadow hover:shadow-md">
       <CardContent className="p-4">
         <div className="flex justify-between items-start mb-2">
-          <div className="flex-1">
-            <h3 className="font-medium text-lg">{password.website}</h3>
-            {password.url && (
+          <div className="flex-1 min-w-0">
+            <h3 className="font-medium text-lg flex items-center">
+              <Icon className="h-4 w-4 mr-2 text-[#007AFF] shrink-0" aria-label={ITEM_TYPE_LABELS[password.type]} />
+              <span className="truncate">{password.name}</span>
+            </h3>
+            {link && (
               <div className="flex items-center text-sm text-gray-500 mt-1">
                 <Button
                   variant="ghost"
                   size="sm"
                   className="h-6 px-0 text-gray-500 hover:text-blue-600"
-                  onClick={() => openWebsite(password.url!)}
+                  onClick={() => openWebsite(link)}
                 >
                   <ExternalLink className="h-3 w-3 mr-1" />
-                  <span className="truncate max-w-[200px]">{password.url}</span>
+                  <span className="truncate max-w-[200px]">{link}</span>
                 </Button>
               </div>
             )}
           </div>
           <div className="flex space-x-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 rounded-full"
+              onClick={() => onToggleFavorite(password)}
+              title={password.favorite ? "Remove from favorites" : "Add to favorites"}
+            >
+              <Star className={`h-4 w-4 ${password.favorite ? "fill-yellow-400 text-yellow-400" : ""}`} />
+            </Button>
             <Button
               variant="ghost"
               size="sm"
@@ -68,6 +172,15 @@ export function PasswordCard({ password, onEdit, onDelete }: PasswordCardProps)
             >
               <Edit className="h-4 w-4" />
             </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 rounded-full"
+              onClick={() => setShowHistory(true)}
+              title="History"
+            >
+              <History className="h-4 w-4" />
+            </Button>
             <Button
               variant="ghost"
               size="sm"
@@ -79,57 +192,73 @@ export function PasswordCard({ password, onEdit, onDelete }: PasswordCardProps)
           </div>
         </div>
 
-        <div className="space-y-2 mt-3">
-          <div className="flex justify-between items-center">
-            <span className="text-sm font-medium text-gray-500">Username</span>
-            <div className="flex items-center space-x-1">
-              <span className="text-sm truncate max-w-[180px]">{password.username}</span>
-              <Button
-                variant="ghost"
-                size="sm"
-                className="h-6 w-6 rounded-full"
-                onClick={() => copyToClipboard(password.username, "Username")}
+        {password.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1 mt-2">
+            {password.tags.map((tag) => (
+              <Badge
+                key={tag}
+                variant="secondary"
+                className="cursor-pointer font-normal"
+                onClick={() => onTagClick(tag)}
               >
-                <Copy className="h-3 w-3" />
-              </Button>
-            </div>
+                {tag}
+              </Badge>
+            ))}
           </div>
+        )}
 
-          <div className="flex justify-between items-center">
-            <span className="text-sm font-medium text-gray-500">Password</span>
-            <div className="flex items-center space-x-1">
-              <span className="text-sm max-w-[180px] truncate">
-                {showPassword ? password.password : "••••••••••••"}
-              </span>
-              <Button
-                variant="ghost"
-                size="sm"
-                className="h-6 w-6 rounded-full"
-                onClick={togglePasswordVisibility}
-              >
-                {showPassword ? <EyeOff className="h-3 w-3" /> : <Eye className="h-3 w-3" />}
-              </Button>
-              <Button
-                variant="ghost"
-                size="sm"
-                className="h-6 w-6 rounded-full"
-                onClick={() => copyToClipboard(password.password, "Password")}
-              >
-                <Copy className="h-3 w-3" />
-              </Button>
+        <div className="space-y-2 mt-3">
+          {rows.map((row) => {
+            const isHidden = row.secret && !revealed.has(row.label);
+            return (
+              <div key={row.label} className="flex justify-between items-center">
+                <span className="text-sm font-medium text-gray-500">{row.label}</span>
+                <div className="flex items-center space-x-1 min-w-0">
+                  <span className={`text-sm max-w-[180px] ${row.multiline && !isHidden ? "whitespace-pre-wrap" : "truncate"}`}>
+                    {isHidden ? row.masked || "••••••••••••" : row.value}
+                  </span>
+                  {row.secret && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 rounded-full"
+                      onClick={() => toggleReveal(row.label)}
+                    >
+                      {isHidden ? <Eye className="h-3 w-3" /> : <EyeOff className="h-3 w-3" />}
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 rounded-full"
+                    onClick={() => copyToClipboard(row.value!, row.label)}
+                  >
+                    <Copy className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+
+          {password.type === "login" && password.totp && (
+            <div className="flex justify-between items-center">
+              <span className="text-sm font-medium text-gray-500">One-time code</span>
+              <TotpCode seed={password.totp} onCopy={(code) => copyToClipboard(code, "One-time code")} />
             </div>
-          </div>
+          )}
 
           {password.notes && (
-            <div className="pt-2 mt-2 border-t border-gray-100">
+            <div className={password.type === "note" ? "" : "pt-2 mt-2 border-t border-gray-100"}>
               <div className="text-sm text-gray-500">
-                <p className="text-xs font-medium text-gray-500 mb-1">Notes</p>
-                <p className="text-sm">{password.notes}</p>
+                {password.type !== "note" && <p className="text-xs font-medium text-gray-500 mb-1">Notes</p>}
+                <p className="text-sm whitespace-pre-wrap">{password.notes}</p>
               </div>
             </div>
           )}
         </div>
       </CardContent>
+
+      <ItemHistoryDialog item={password} isOpen={showHistory} onClose={() => setShowHistory(false)} />
     </Card>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,169 @@
+import { useEffect, useState } from "react";
+import { Check, RefreshCw } from "lucide-react";
+import {
+  DEFAULT_GENERATOR_PRESET,
+  GENERATOR_PRESETS,
+  GeneratedPassword,
+  GeneratorOptions,
+  describeEntropy,
+  generatePassword,
+  generatorOptionsSchema,
+  getGeneratorPreset,
+} from "@shared/password-generator";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+
+const ENTROPY_COLORS: Record<ReturnType<typeof describeEntropy>, string> = {
+  Weak: "text-red-500",
+  Fair: "text-orange-500",
+  Strong: "text-green-600",
+  "Very strong": "text-green-700",
+};
+
+interface PasswordGeneratorProps {
+  // Preset last used for this site, if any
+  presetId?: string;
+  onUse: (password: string, presetId?: string) => void;
+}
+
+// Generate a password in the browser. Options start from a preset; changing
+// them switches to a custom policy that isn't remembered for the site.
+export function PasswordGenerator({ presetId, onUse }: PasswordGeneratorProps) {
+  const initialPreset = getGeneratorPreset(presetId) || DEFAULT_GENERATOR_PRESET;
+  const [selectedPreset, setSelectedPreset] = useState<string | undefined>(initialPreset.id);
+  const [options, setOptions] = useState<GeneratorOptions>(initialPreset.options);
+  const [generated, setGenerated] = useState<GeneratedPassword | null>(null);
+
+  const validation = generatorOptionsSchema.safeParse(options);
+
+  const regenerate = () => {
+    setGenerated(validation.success ? generatePassword(validation.data) : null);
+  };
+
+  useEffect(() => {
+    regenerate();
+  }, [options]);
+
+  const selectPreset = (id: string) => {
+    const preset = getGeneratorPreset(id);
+    if (!preset) return;
+    setSelectedPreset(preset.id);
+    setOptions(preset.options);
+  };
+
+  const updateOptions = (changes: Partial<GeneratorOptions>) => {
+    setSelectedPreset(undefined);
+    setOptions({ ...options, ...changes } as GeneratorOptions);
+  };
+
+  const renderCheckbox = (label: string, checked: boolean, onChange: (checked: boolean) => void) => (
+    <label className="flex items-center gap-2 text-sm cursor-pointer">
+      <Checkbox checked={checked} onCheckedChange={(value) => onChange(value === true)} />
+      {label}
+    </label>
+  );
+
+  const renderSlider = (label: string, value: number, min: number, max: number, onChange: (value: number) => void) => (
+    <div className="space-y-2">
+      <div className="flex justify-between text-sm">
+        <Label>{label}</Label>
+        <span className="text-gray-500">{value}</span>
+      </div>
+      <Slider value={[value]} min={min} max={max} step={1} onValueChange={([next]) => onChange(next)} />
+    </div>
+  );
+
+  const rating = generated ? describeEntropy(generated.entropy) : null;
+
+  return (
+    <div className="rounded-lg border bg-gray-50 p-3 space-y-3">
+      <Select value={selectedPreset || "custom"} onValueChange={selectPreset}>
+        <SelectTrigger className="bg-white">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {GENERATOR_PRESETS.map((preset) => (
+            <SelectItem key={preset.id} value={preset.id}>{preset.name}</SelectItem>
+          ))}
+          <SelectItem value="custom" disabled>Custom</SelectItem>
+        </SelectContent>
+      </Select>
+      <p className="text-xs text-gray-500">
+        {getGeneratorPreset(selectedPreset)?.description || "Custom settings, not remembered for this site"}
+      </p>
+
+      {options.mode === "random" && (
+        <>
+          {renderSlider("Length", options.length, 4, 64, (length) => updateOptions({ length }))}
+          <div className="grid grid-cols-2 gap-2">
+            {renderCheckbox("a–z", options.lowercase, (lowercase) => updateOptions({ lowercase }))}
+            {renderCheckbox("A–Z", options.uppercase, (uppercase) => updateOptions({ uppercase }))}
+            {renderCheckbox("0–9", options.digits, (digits) => updateOptions({ digits }))}
+            {renderCheckbox("!@#$%", options.symbols, (symbols) => updateOptions({ symbols }))}
+          </div>
+          {renderCheckbox("Avoid look-alike characters (I, l, 1, O, 0)", options.excludeAmbiguous, (excludeAmbiguous) => updateOptions({ excludeAmbiguous }))}
+        </>
+      )}
+
+      {options.mode === "passphrase" && (
+        <>
+          {renderSlider("Words", options.words, 3, 12, (words) => updateOptions({ words }))}
+          <div className="flex items-center gap-2">
+            <Label htmlFor="generator-separator" className="shrink-0">Separator</Label>
+            <Input
+              id="generator-separator"
+              className="h-8 w-16 bg-white"
+              maxLength={3}
+              value={options.separator}
+              onChange={(e) => updateOptions({ separator: e.target.value })}
+            />
+          </div>
+          {renderCheckbox("Capitalize words", options.capitalize, (capitalize) => updateOptions({ capitalize }))}
+          {renderCheckbox("Add a number", options.includeNumber, (includeNumber) => updateOptions({ includeNumber }))}
+        </>
+      )}
+
+      {options.mode === "pronounceable" && (
+        <>
+          {renderSlider("Length", options.length, 8, 64, (length) => updateOptions({ length }))}
+          {renderCheckbox("Mix in capitals", options.capitalize, (capitalize) => updateOptions({ capitalize }))}
+          {renderCheckbox("End with a number", options.includeNumber, (includeNumber) => updateOptions({ includeNumber }))}
+        </>
+      )}
+
+      {!validation.success ? (
+        <p className="text-sm text-red-500">{validation.error.issues[0].message}</p>
+      ) : generated && rating && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 rounded-md border bg-white px-3 py-2">
+            <span className="flex-1 font-mono text-sm break-all">{generated.password}</span>
+            <Button type="button" variant="ghost" size="icon" className="h-7 w-7 shrink-0" onClick={regenerate} title="Generate another">
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
+          <Progress value={Math.min(100, (generated.entropy / 128) * 100)} className="h-1.5" />
+          <p className="text-xs text-gray-500">
+            About {Math.round(generated.entropy)} bits of entropy ·{" "}
+            <span className={ENTROPY_COLORS[rating]}>{rating}</span>
+          </p>
+        </div>
+      )}
+
+      <Button
+        type="button"
+        size="sm"
+        className="w-full bg-[#007AFF] hover:bg-[#007AFF]/90"
+        disabled={!generated}
+        onClick={() => generated && onUse(generated.password, selectedPreset)}
+      >
+        <Check className="h-4 w-4 mr-2" />
+        Use Password
+      </Button>
+    </div>
+  );
+}
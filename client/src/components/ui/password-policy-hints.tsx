@@ -0,0 +1,42 @@
+import { useQuery } from "@tanstack/react-query";
+import { X } from "lucide-react";
+import { PasswordPolicy, PasswordPolicyViolation, checkPasswordRules } from "@shared/password-policy";
+import { ApiError } from "@/lib/queryClient";
+
+// Violations from a PASSWORD_POLICY error response, or none for other errors
+export function getPolicyViolations(error: unknown): PasswordPolicyViolation[] {
+  return error instanceof ApiError && error.code === "PASSWORD_POLICY" ? error.body.violations || [] : [];
+}
+
+interface PasswordPolicyHintsProps {
+  password: string;
+  username?: string;
+  email?: string;
+  // What the server rejected this password for, e.g. appearing in a breach
+  violations?: PasswordPolicyViolation[];
+}
+
+// Rules the password doesn't meet yet, checked as the user types
+export function PasswordPolicyHints({ password, username, email, violations = [] }: PasswordPolicyHintsProps) {
+  const { data: policy } = useQuery<PasswordPolicy | null>({
+    queryKey: ["/api/password-policy"],
+    staleTime: Infinity,
+  });
+
+  const local = policy && password ? checkPasswordRules(password, policy, { username, email }) : [];
+  const shown = [...local, ...violations.filter((violation) => !local.some((item) => item.code === violation.code))];
+  if (shown.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className="space-y-1 text-xs text-red-500">
+      {shown.map((violation) => (
+        <li key={violation.code} className="flex items-start">
+          <X className="h-3 w-3 mr-1 mt-0.5 shrink-0" />
+          {violation.message}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -1,39 +1,40 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { Button } from './button';
 import { Separator } from './separator';
 import { Progress } from './progress';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from './card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './tabs';
-import { AlertCircle, AlertTriangle, Calendar, Copy, RefreshCw, Shield, ShieldAlert, ShieldCheck } from 'lucide-react';
+import { AlertCircle, AlertTriangle, Calendar, Clock, Copy, RefreshCw, Shield, ShieldAlert, ShieldCheck, ShieldX } from 'lucide-react';
 import { Badge } from './badge';
 import { format } from 'date-fns';
-
-interface SecurityReport {
-  totalPasswords: number;
-  weakPasswords: Array<{ id: number; website: string; username: string; reason: string }>;
-  duplicatePasswords: Array<{ id: number; website: string; username: string; duplicateCount: number }>;
-  oldPasswords: Array<{ id: number; website: string; username: string; lastUpdated: Date }>;
-  reusedPasswords: Array<{ id: number; website: string; username: string; reusedCount: number }>;
-  overallScore: number;
-  recommendations: string[];
-}
+import { useVaultItems } from '@/context/VaultContext';
+import { checkBreachedPasswords } from '@/lib/breach';
+import { generateSecurityReport } from '@/lib/security-report';
+import { isLoginItem } from '@/lib/vault-items';
+import { STRENGTH_LABELS } from '@shared/password-strength';
 
 export const SecurityReport = () => {
   const [showReport, setShowReport] = useState(false);
-  const [authError, setAuthError] = useState(false);
+  const [generation, setGeneration] = useState(0);
+  const { items, isLoading, isError } = useVaultItems();
 
-  const { data: report, isLoading, isError, error, refetch } = useQuery<SecurityReport>({
-    queryKey: ['/api/security-report'],
-    enabled: showReport
+  // Only hash prefixes leave the browser; the key leaves out the passwords so
+  // they don't end up in the query cache
+  const breachQuery = useQuery({
+    queryKey: ['/api/breach/ranges', generation],
+    queryFn: () => checkBreachedPasswords(items.filter(isLoginItem).map((item) => item.password)),
+    enabled: showReport && !isLoading,
   });
+  const isChecking = isLoading || breachQuery.isLoading;
+
+  // Analyze the decrypted passwords locally; nothing is sent to the server
+  const report = useMemo(
+    () => (showReport && !isChecking ? generateSecurityReport(items, breachQuery.data ?? null) : null),
+    [showReport, isChecking, items, breachQuery.data, generation],
+  );
 
-  // Handle authentication errors
-  React.useEffect(() => {
-    if (error && 'status' in error && error.status === 401) {
-      setAuthError(true);
-    }
-  }, [error]);
+  const refetch = () => setGeneration((count) => count + 1);
 
   const handleGenerateReport = () => {
     setShowReport(true);
@@ -57,7 +58,7 @@ export const SecurityReport = () => {
     );
   }
 
-  if (isLoading) {
+  if (isChecking) {
     return (
       <div className="w-full flex flex-col items-center justify-center p-8 space-y-4">
         <div className="animate-pulse flex flex-col items-center text-center space-y-4">
@@ -71,19 +72,7 @@ export const SecurityReport = () => {
     );
   }
 
-  if (authError) {
-    return (
-      <div className="w-full flex flex-col items-center justify-center p-8 space-y-4">
-        <AlertCircle className="h-16 w-16 text-amber-500" />
-        <h2 className="text-xl font-semibold">Authentication Required</h2>
-        <p className="text-gray-500 text-center max-w-md">
-          You need to be logged in to generate a security report. Please log in first.
-        </p>
-      </div>
-    );
-  }
-
-  if (isError || !report) {
+  if (isError || breachQuery.isError || !report) {
     return (
       <div className="w-full flex flex-col items-center justify-center p-8 space-y-4">
         <AlertCircle className="h-16 w-16 text-destructive" />
@@ -148,7 +137,11 @@ export const SecurityReport = () => {
                 </div>
               </div>
               
-              <div className="grid grid-cols-2 md:grid-cols-4 gap-3 w-full md:w-auto">
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3 w-full md:w-auto">
+                <div className="flex flex-col items-center p-2 bg-gray-50 rounded-lg">
+                  <span className="text-sm text-gray-500">Breached</span>
+                  <span className="text-xl font-bold">{report.breachedPasswords ? report.breachedPasswords.length : '–'}</span>
+                </div>
                 <div className="flex flex-col items-center p-2 bg-gray-50 rounded-lg">
                   <span className="text-sm text-gray-500">Weak</span>
                   <span className="text-xl font-bold">{report.weakPasswords.length}</span>
@@ -190,14 +183,59 @@ export const SecurityReport = () => {
         )}
 
         {/* Detailed Reports */}
-        <Tabs defaultValue="weak" className="w-full">
-          <TabsList className="grid grid-cols-4 mb-4">
+        <Tabs defaultValue="breached" className="w-full">
+          <TabsList className="grid grid-cols-5 mb-4">
+            <TabsTrigger value="breached">Breached</TabsTrigger>
             <TabsTrigger value="weak">Weak</TabsTrigger>
             <TabsTrigger value="duplicate">Duplicated</TabsTrigger>
             <TabsTrigger value="reused">Reused</TabsTrigger>
             <TabsTrigger value="old">Old</TabsTrigger>
           </TabsList>
           
+          <TabsContent value="breached">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Breached Passwords</CardTitle>
+                <CardDescription>
+                  {report.breachedPasswords === null
+                    ? "Breached passwords couldn't be checked this time."
+                    : report.breachedPasswords.length === 0
+                      ? "Great job! None of your passwords appear in known data breaches."
+                      : `Found ${report.breachedPasswords.length} passwords that appear in known data breaches`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {report.breachedPasswords && report.breachedPasswords.length > 0 ? (
+                  <div className="space-y-4">
+                    {report.breachedPasswords.map((pw, index) => (
+                      <div key={index} className="border rounded-lg p-3">
+                        <div className="flex justify-between items-start">
+                          <div>
+                            <h3 className="font-medium">{pw.website}</h3>
+                            <p className="text-sm text-gray-500">{pw.username}</p>
+                            <Badge variant="destructive" className="mt-2">
+                              Seen {pw.breachCount.toLocaleString()} time{pw.breachCount === 1 ? '' : 's'} in breaches
+                            </Badge>
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ) : report.breachedPasswords ? (
+                  <div className="flex flex-col items-center justify-center py-8 text-center">
+                    <ShieldCheck className="h-12 w-12 text-green-500 mb-2" />
+                    <p className="text-gray-500">None of your passwords were found in the breach database</p>
+                  </div>
+                ) : (
+                  <div className="flex flex-col items-center justify-center py-8 text-center">
+                    <ShieldX className="h-12 w-12 text-gray-400 mb-2" />
+                    <p className="text-gray-500">Try again later. If this keeps happening, ask your administrator to set up a breached password database</p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
           <TabsContent value="weak">
             <Card>
               <CardHeader>
@@ -205,7 +243,7 @@ export const SecurityReport = () => {
                 <CardDescription>
                   {report.weakPasswords.length === 0 
                     ? "Great job! You don't have any weak passwords."
-                    : `Found ${report.weakPasswords.length} passwords with security issues`}
+                    : `Found ${report.weakPasswords.length} passwords that would be quick to guess, weakest first`}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -218,7 +256,19 @@ export const SecurityReport = () => {
                             <h3 className="font-medium">{pw.website}</h3>
                             <p className="text-sm text-gray-500">{pw.username}</p>
                             <Badge variant="destructive" className="mt-2">{pw.reason}</Badge>
+                            <div className="flex items-center mt-2 text-sm">
+                              <Clock className="h-3 w-3 mr-1 text-gray-400" />
+                              <span>Could be cracked in {pw.crackTime}</span>
+                            </div>
+                            {pw.suggestions.length > 0 && (
+                              <ul className="mt-2 text-sm text-gray-500 list-disc pl-5">
+                                {pw.suggestions.map((suggestion) => (
+                                  <li key={suggestion}>{suggestion}</li>
+                                ))}
+                              </ul>
+                            )}
                           </div>
+                          <Badge variant="outline" className="shrink-0">{STRENGTH_LABELS[pw.score]}</Badge>
                         </div>
                       </div>
                     ))}
@@ -226,7 +276,7 @@ export const SecurityReport = () => {
                 ) : (
                   <div className="flex flex-col items-center justify-center py-8 text-center">
                     <ShieldCheck className="h-12 w-12 text-green-500 mb-2" />
-                    <p className="text-gray-500">All your passwords meet the minimum strength requirements</p>
+                    <p className="text-gray-500">All your passwords would take an attacker a long time to guess</p>
                   </div>
                 )}
               </CardContent>
@@ -0,0 +1,72 @@
+import { useEffect, useMemo, useState } from "react";
+import { Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { generateTotp, parseTotpSeed, totpSecondsRemaining } from "@/lib/totp";
+
+interface TotpCodeProps {
+  seed: string;
+  onCopy: (code: string) => void;
+}
+
+// Live one-time code for a login's authenticator key, refreshed every period
+export function TotpCode({ seed, onCopy }: TotpCodeProps) {
+  const params = useMemo(() => {
+    try {
+      return parseTotpSeed(seed);
+    } catch {
+      return null;
+    }
+  }, [seed]);
+  const [code, setCode] = useState<string | null>(null);
+  const [remaining, setRemaining] = useState(0);
+
+  useEffect(() => {
+    if (!params) return;
+    let cancelled = false;
+    let counter = -1;
+
+    const tick = () => {
+      const now = Date.now();
+      setRemaining(totpSecondsRemaining(params.period, now));
+      const current = Math.floor(now / 1000 / params.period);
+      if (current !== counter) {
+        counter = current;
+        generateTotp(params, now).then((next) => {
+          if (!cancelled) setCode(next);
+        });
+      }
+    };
+
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [params]);
+
+  if (!params) {
+    return <span className="text-sm text-red-500">Invalid authenticator key</span>;
+  }
+
+  // Split for readability, e.g. "123 456"
+  const display = code ? code.replace(/^(\d{3,4})(\d{3,4})$/, "$1 $2") : "••• •••";
+
+  return (
+    <div className="flex items-center space-x-1">
+      <span className="text-sm font-mono tracking-wider">{display}</span>
+      <span className={`text-xs w-6 text-right ${remaining <= 5 ? "text-red-500" : "text-gray-400"}`}>
+        {remaining}s
+      </span>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 w-6 rounded-full"
+        onClick={() => code && onCopy(code)}
+        disabled={!code}
+      >
+        <Copy className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { RotateCcw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useAuth } from "@/context/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { VaultItem } from "@/lib/vault";
+import { ITEM_TYPE_LABELS, getItemSubtitle } from "@/lib/vault-items";
+import { confirmIdentity } from "@/lib/webAuthn";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Whole days left before the purge job deletes an item for good
+function daysUntilPurge(item: VaultItem, retentionDays: number): number {
+  const purgeAt = new Date(item.deletedAt!).getTime() + retentionDays * DAY_MS;
+  return Math.max(0, Math.ceil((purgeAt - Date.now()) / DAY_MS));
+}
+
+interface EmptyTrashDialogProps {
+  isOpen: boolean;
+  count: number;
+  onClose: () => void;
+}
+
+// Deleting everything at once can't be undone, so it needs a fresh sign-in
+function EmptyTrashDialog({ isOpen, count, onClose }: EmptyTrashDialogProps) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, setIsPending] = useState(false);
+
+  const hasPassword = !!user?.password;
+
+  const handleClose = () => {
+    setPassword("");
+    setError(null);
+    onClose();
+  };
+
+  const handleEmpty = async () => {
+    setError(null);
+    try {
+      setIsPending(true);
+      await confirmIdentity(hasPassword ? password : undefined);
+      const response = await apiRequest("DELETE", "/api/trash");
+      const { deleted }: { deleted: number } = await response.json();
+      queryClient.invalidateQueries({ queryKey: ["/api/passwords"] });
+      toast({
+        title: "Trash emptied",
+        description: `${deleted} item${deleted === 1 ? "" : "s"} deleted permanently.`,
+      });
+      handleClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to empty the trash");
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="rounded-xl max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Empty Trash</DialogTitle>
+          <DialogDescription>
+            {count} item{count === 1 ? "" : "s"} and {count === 1 ? "its" : "their"} history will be deleted permanently.
+            This can't be undone.
+          </DialogDescription>
+        </DialogHeader>
+        {hasPassword && (
+          <div className="space-y-2">
+            <Label htmlFor="empty-trash-password">Confirm with your account password</Label>
+            <Input
+              id="empty-trash-password"
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+          </div>
+        )}
+        {error && <p className="text-sm text-red-500">{error}</p>}
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose}>Cancel</Button>
+          <Button variant="destructive" onClick={handleEmpty} disabled={isPending || (hasPassword && !password)}>
+            Empty Trash
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface TrashViewProps {
+  items: VaultItem[];
+  retentionDays: number;
+}
+
+// Deleted items, which can be restored until the retention period runs out
+export function TrashView({ items, retentionDays }: TrashViewProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [deletingItem, setDeletingItem] = useState<VaultItem | null>(null);
+  const [isEmptying, setIsEmptying] = useState(false);
+
+  const restoreItem = async (item: VaultItem) => {
+    try {
+      await apiRequest("POST", `/api/trash/${item.id}/restore`);
+      queryClient.invalidateQueries({ queryKey: ["/api/passwords"] });
+      toast({
+        title: "Item restored",
+        description: `${item.name} is back in your vault.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to restore item",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const deleteItem = async () => {
+    if (!deletingItem) return;
+    try {
+      await apiRequest("DELETE", `/api/trash/${deletingItem.id}`);
+      queryClient.invalidateQueries({ queryKey: ["/api/passwords"] });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete item",
+        variant: "destructive",
+      });
+    } finally {
+      setDeletingItem(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-4">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2 mb-4">
+        <p className="text-sm text-gray-600">
+          Items in the trash are deleted permanently after {retentionDays} day{retentionDays === 1 ? "" : "s"}.
+        </p>
+        <Button
+          variant="outline"
+          size="sm"
+          className="rounded-full text-red-500 hover:text-red-600"
+          onClick={() => setIsEmptying(true)}
+          disabled={items.length === 0}
+        >
+          <Trash2 className="h-4 w-4 mr-2" />
+          Empty Trash
+        </Button>
+      </div>
+
+      {items.length === 0 ? (
+        <p className="text-sm text-gray-500 py-8 text-center">The trash is empty.</p>
+      ) : (
+        <div className="divide-y">
+          {items.map((item) => {
+            const daysLeft = daysUntilPurge(item, retentionDays);
+            return (
+              <div key={item.id} className="flex justify-between items-center gap-2 py-3">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{item.name}</p>
+                  <p className="text-sm text-gray-500 truncate">
+                    {ITEM_TYPE_LABELS[item.type]}
+                    {getItemSubtitle(item) && ` · ${getItemSubtitle(item)}`}
+                  </p>
+                  <p className="text-xs text-gray-400">
+                    Deleted {formatDistanceToNow(new Date(item.deletedAt!), { addSuffix: true })}
+                    {" · "}
+                    {daysLeft === 0 ? "removed soon" : `removed in ${daysLeft} day${daysLeft === 1 ? "" : "s"}`}
+                  </p>
+                </div>
+                <div className="flex space-x-1 shrink-0">
+                  <Button variant="outline" size="sm" onClick={() => restoreItem(item)}>
+                    <RotateCcw className="h-3 w-3 mr-1" />
+                    Restore
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 rounded-full text-red-500 hover:text-red-600 hover:bg-red-50"
+                    onClick={() => setDeletingItem(item)}
+                    title="Delete permanently"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <ConfirmDialog
+        isOpen={!!deletingItem}
+        onClose={() => setDeletingItem(null)}
+        onConfirm={deleteItem}
+        title="Delete Permanently"
+        description={`Delete "${deletingItem?.name}" and its history for good? This action cannot be undone.`}
+        confirmText="Delete"
+        variant="destructive"
+      />
+
+      <EmptyTrashDialog isOpen={isEmptying} count={items.length} onClose={() => setIsEmptying(false)} />
+    </div>
+  );
+}
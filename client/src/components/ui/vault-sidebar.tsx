@@ -0,0 +1,282 @@
+import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Folder as FolderIcon, FolderPlus, Inbox, Layers, MoreHorizontal, Plus, Star, Tag, Trash2 } from "lucide-react";
+import { Folder } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupAction,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuBadge,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from "@/components/ui/sidebar";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { VaultItem } from "@/lib/vault";
+import { FolderNode, VaultFilter, buildFolderTree } from "@/lib/vault-items";
+
+// Create a folder, optionally inside another one, or rename an existing one
+type FolderEdit = { mode: "create"; parentId: number | null } | { mode: "rename"; folder: Folder };
+
+interface FolderDialogProps {
+  edit: FolderEdit | null;
+  onClose: () => void;
+}
+
+function FolderDialog({ edit, onClose }: FolderDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [isPending, setIsPending] = useState(false);
+
+  useEffect(() => {
+    setName(edit?.mode === "rename" ? edit.folder.name : "");
+  }, [edit]);
+
+  const handleSave = async () => {
+    if (!edit) return;
+    try {
+      setIsPending(true);
+      if (edit.mode === "create") {
+        await apiRequest("POST", "/api/folders", { name, parentId: edit.parentId });
+      } else {
+        await apiRequest("PATCH", `/api/folders/${edit.folder.id}`, { name });
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/folders"] });
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save folder",
+        variant: "destructive",
+      });
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!edit} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="rounded-xl max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{edit?.mode === "rename" ? "Rename Folder" : "New Folder"}</DialogTitle>
+          <DialogDescription>
+            Folder names are not end-to-end encrypted, so keep secrets out of them.
+          </DialogDescription>
+        </DialogHeader>
+        <Input
+          placeholder="Folder name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && name.trim() && handleSave()}
+          maxLength={64}
+        />
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSave} disabled={isPending || !name.trim()}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface VaultSidebarProps {
+  folders: Folder[];
+  tags: string[];
+  items: VaultItem[];
+  trashCount: number;
+  filter: VaultFilter;
+  onFilterChange: (filter: VaultFilter) => void;
+}
+
+// Navigation for the vault: everything, favorites, nested folders, tags and the trash
+export function VaultSidebar({ folders, tags, items, trashCount, filter, onFilterChange }: VaultSidebarProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [folderEdit, setFolderEdit] = useState<FolderEdit | null>(null);
+  const [deletingFolder, setDeletingFolder] = useState<Folder | null>(null);
+
+  const isActive = (candidate: VaultFilter) => JSON.stringify(candidate) === JSON.stringify(filter);
+
+  const deleteFolder = async () => {
+    if (!deletingFolder) return;
+    try {
+      await apiRequest("DELETE", `/api/folders/${deletingFolder.id}`);
+      if (filter.kind === "folder") {
+        onFilterChange({ kind: "all" });
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/folders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/passwords"] });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete folder",
+        variant: "destructive",
+      });
+    } finally {
+      setDeletingFolder(null);
+    }
+  };
+
+  const renderFolder = (node: FolderNode, depth: number) => (
+    <SidebarMenuItem key={node.id}>
+      <SidebarMenuButton
+        isActive={isActive({ kind: "folder", folderId: node.id })}
+        onClick={() => onFilterChange({ kind: "folder", folderId: node.id })}
+        style={{ paddingLeft: `${0.5 + depth * 0.75}rem` }}
+      >
+        <FolderIcon />
+        <span>{node.name}</span>
+      </SidebarMenuButton>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <SidebarMenuAction showOnHover>
+            <MoreHorizontal />
+            <span className="sr-only">Folder options</span>
+          </SidebarMenuAction>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent side="right" align="start">
+          <DropdownMenuItem onClick={() => setFolderEdit({ mode: "create", parentId: node.id })}>
+            New subfolder
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setFolderEdit({ mode: "rename", folder: node })}>
+            Rename
+          </DropdownMenuItem>
+          <DropdownMenuItem className="text-red-600" onClick={() => setDeletingFolder(node)}>
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      {node.children.length > 0 && (
+        <SidebarMenu>{node.children.map((child) => renderFolder(child, depth + 1))}</SidebarMenu>
+      )}
+    </SidebarMenuItem>
+  );
+
+  return (
+    <Sidebar>
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>Vault</SidebarGroupLabel>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              <SidebarMenuItem>
+                <SidebarMenuButton isActive={isActive({ kind: "all" })} onClick={() => onFilterChange({ kind: "all" })}>
+                  <Layers />
+                  <span>All Items</span>
+                </SidebarMenuButton>
+                <SidebarMenuBadge>{items.length}</SidebarMenuBadge>
+              </SidebarMenuItem>
+              <SidebarMenuItem>
+                <SidebarMenuButton
+                  isActive={isActive({ kind: "favorites" })}
+                  onClick={() => onFilterChange({ kind: "favorites" })}
+                >
+                  <Star />
+                  <span>Favorites</span>
+                </SidebarMenuButton>
+                <SidebarMenuBadge>{items.filter((item) => item.favorite).length}</SidebarMenuBadge>
+              </SidebarMenuItem>
+              <SidebarMenuItem>
+                <SidebarMenuButton
+                  isActive={isActive({ kind: "unfiled" })}
+                  onClick={() => onFilterChange({ kind: "unfiled" })}
+                >
+                  <Inbox />
+                  <span>No Folder</span>
+                </SidebarMenuButton>
+                <SidebarMenuBadge>{items.filter((item) => item.folderId === null).length}</SidebarMenuBadge>
+              </SidebarMenuItem>
+              <SidebarMenuItem>
+                <SidebarMenuButton
+                  isActive={isActive({ kind: "trash" })}
+                  onClick={() => onFilterChange({ kind: "trash" })}
+                >
+                  <Trash2 />
+                  <span>Trash</span>
+                </SidebarMenuButton>
+                {trashCount > 0 && <SidebarMenuBadge>{trashCount}</SidebarMenuBadge>}
+              </SidebarMenuItem>
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+
+        <SidebarGroup>
+          <SidebarGroupLabel>Folders</SidebarGroupLabel>
+          <SidebarGroupAction title="New folder" onClick={() => setFolderEdit({ mode: "create", parentId: null })}>
+            <Plus />
+            <span className="sr-only">New folder</span>
+          </SidebarGroupAction>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {buildFolderTree(folders).map((node) => renderFolder(node, 0))}
+              {folders.length === 0 && (
+                <SidebarMenuItem>
+                  <SidebarMenuButton onClick={() => setFolderEdit({ mode: "create", parentId: null })}>
+                    <FolderPlus />
+                    <span>Create a folder</span>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+              )}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+
+        {tags.length > 0 && (
+          <SidebarGroup>
+            <SidebarGroupLabel>Tags</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                {tags.map((tag) => (
+                  <SidebarMenuItem key={tag}>
+                    <SidebarMenuButton
+                      isActive={isActive({ kind: "tag", tag })}
+                      onClick={() => onFilterChange({ kind: "tag", tag })}
+                    >
+                      <Tag />
+                      <span>{tag}</span>
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        )}
+      </SidebarContent>
+
+      <FolderDialog edit={folderEdit} onClose={() => setFolderEdit(null)} />
+
+      <ConfirmDialog
+        isOpen={!!deletingFolder}
+        onClose={() => setDeletingFolder(null)}
+        onConfirm={deleteFolder}
+        title="Delete Folder"
+        description={`Delete "${deletingFolder?.name}" and its subfolders? The items in them are kept and moved out of the folder.`}
+        confirmText="Delete"
+        variant="destructive"
+      />
+    </Sidebar>
+  );
+}
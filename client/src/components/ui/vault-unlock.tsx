@@ -0,0 +1,141 @@
+import { useState } from "react";
+import { Fingerprint, Loader2, Lock, ShieldCheck } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useVault } from "@/context/VaultContext";
+
+const MIN_MASTER_PASSWORD_LENGTH = 12;
+
+// Create the vault on first use, or unlock it with the master password
+export function VaultUnlock() {
+  const { status, vaultKeys, createVault, unlockWithPassword, unlockWithPasskey } = useVault();
+  const [masterPassword, setMasterPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, setIsPending] = useState(false);
+
+  const isSetup = status === "uninitialized";
+  const canUsePasskey = vaultKeys.some((key) => key.type === "prf");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (isSetup) {
+      if (masterPassword.length < MIN_MASTER_PASSWORD_LENGTH) {
+        setError(`Use at least ${MIN_MASTER_PASSWORD_LENGTH} characters`);
+        return;
+      }
+      if (masterPassword !== confirmPassword) {
+        setError("Passwords don't match");
+        return;
+      }
+    }
+
+    try {
+      setIsPending(true);
+      if (isSetup) {
+        await createVault(masterPassword);
+      } else {
+        await unlockWithPassword(masterPassword);
+      }
+      setMasterPassword("");
+      setConfirmPassword("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not unlock your vault");
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  const handlePasskeyUnlock = async () => {
+    setError(null);
+    try {
+      setIsPending(true);
+      await unlockWithPasskey();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not unlock your vault");
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  if (status === "loading") {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-[#007AFF]" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-8 max-w-md mx-auto">
+      <div className="flex justify-center">
+        <div className="h-12 w-12 rounded-full bg-[#E5F1FF] flex items-center justify-center mb-4">
+          {isSetup ? <ShieldCheck className="h-6 w-6 text-[#007AFF]" /> : <Lock className="h-6 w-6 text-[#007AFF]" />}
+        </div>
+      </div>
+      <h3 className="text-lg font-medium text-center mb-2">
+        {isSetup ? "Set up your encrypted vault" : "Unlock your vault"}
+      </h3>
+      <p className="text-gray-600 text-sm text-center mb-6">
+        {isSetup
+          ? "Your passwords are encrypted on this device before they are saved. Choose a master password; it is never sent to the server and can't be recovered if you forget it."
+          : "Enter your master password to decrypt your passwords on this device."}
+      </p>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        <div className="space-y-2">
+          <Label htmlFor="master-password">Master password</Label>
+          <Input
+            id="master-password"
+            type="password"
+            autoComplete={isSetup ? "new-password" : "current-password"}
+            value={masterPassword}
+            onChange={(e) => setMasterPassword(e.target.value)}
+            autoFocus
+          />
+        </div>
+        {isSetup && (
+          <div className="space-y-2">
+            <Label htmlFor="confirm-master-password">Confirm master password</Label>
+            <Input
+              id="confirm-master-password"
+              type="password"
+              autoComplete="new-password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+            />
+          </div>
+        )}
+        <Button
+          type="submit"
+          className="w-full bg-[#007AFF] hover:bg-[#007AFF]/90 rounded-full"
+          disabled={isPending || !masterPassword}
+        >
+          {isPending ? "Deriving key..." : isSetup ? "Create vault" : "Unlock"}
+        </Button>
+      </form>
+
+      {!isSetup && canUsePasskey && (
+        <Button
+          type="button"
+          variant="outline"
+          className="w-full mt-3 rounded-full"
+          onClick={handlePasskeyUnlock}
+          disabled={isPending}
+        >
+          <Fingerprint className="mr-2 h-4 w-4" />
+          Unlock with passkey
+        </Button>
+      )}
+    </div>
+  );
+}
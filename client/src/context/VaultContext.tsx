@@ -0,0 +1,313 @@
+import { createContext, ReactNode, useContext, useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { User, VaultItemVersion, VaultKey } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { bufferToBase64URLString } from "@/lib/auth";
+import { useAuth } from "@/context/AuthContext";
+import { hasPrfSecret, reauthenticateWithPasskey, takePrfSecret } from "@/lib/webAuthn";
+import { VaultFilter, toFilterQuery } from "@/lib/vault-items";
+import {
+  EncryptedVaultRow,
+  PBKDF2_ITERATIONS,
+  VaultItem,
+  VaultItemData,
+  decryptVaultItem,
+  decryptVaultRow,
+  deriveKeyFromPassword,
+  deriveKeyFromPrf,
+  encryptVaultItem,
+  generateVaultKey,
+  needsReencryption,
+  randomBytes,
+  toVaultItemData,
+  unwrapVaultKey,
+  wrapVaultKey,
+} from "@/lib/vault";
+
+type VaultStatus = 'loading' | 'uninitialized' | 'locked' | 'unlocked';
+
+interface VaultContextType {
+  status: VaultStatus;
+  vaultKey: CryptoKey | null;
+  vaultKeys: VaultKey[];
+  createVault: (masterPassword: string) => Promise<void>;
+  unlockWithPassword: (masterPassword: string) => Promise<void>;
+  unlockWithKey: (vaultKey: CryptoKey) => Promise<void>;
+  unlockWithPasskey: () => Promise<void>;
+  enablePasskeyUnlock: (credentialId: string) => Promise<void>;
+  lock: () => void;
+  // Whether unbound envelopes and legacy plaintext rows are now rejected
+  itemsBound: boolean;
+  encryptItem: (data: VaultItemData, itemId: number) => Promise<string>;
+  fillNewItems: (items: { id: number; data: VaultItemData }[]) => Promise<void>;
+}
+
+const VaultContext = createContext<VaultContextType | null>(null);
+
+// Wrap the vault key with a master password and store the wrapped copy
+async function saveMasterPasswordKey(vaultKey: CryptoKey, masterPassword: string) {
+  const salt = bufferToBase64URLString(randomBytes(16).buffer as ArrayBuffer);
+  const wrappingKey = await deriveKeyFromPassword(masterPassword, salt, PBKDF2_ITERATIONS);
+  await apiRequest('POST', '/api/vault/keys', {
+    type: 'password',
+    salt,
+    iterations: PBKDF2_ITERATIONS,
+    wrappedKey: await wrapVaultKey(vaultKey, wrappingKey),
+  });
+}
+
+// Unwrap the vault key with a passkey's PRF output, if that passkey has a copy
+async function unwrapWithPrfSecret(vaultKeys: VaultKey[], prfSecret: { credentialId: string; secret: ArrayBuffer }) {
+  const prfKey = vaultKeys.find((key) => key.type === 'prf' && key.credentialId === prfSecret.credentialId);
+  if (!prfKey) {
+    return null;
+  }
+  return await unwrapVaultKey(prfKey.wrappedKey, await deriveKeyFromPrf(prfSecret.secret));
+}
+
+// Keep each request well under the server's JSON body limit
+const MAX_BATCH_ITEMS = 200;
+const MAX_BATCH_BYTES = 64 * 1024;
+
+// Write items, or earlier versions of items, encrypted bound to their item's
+// ID, replacing whatever ciphertext or legacy plaintext the server holds
+async function reencrypt(
+  vaultKey: CryptoKey,
+  kind: 'items' | 'versions',
+  entries: { id: number; itemId: number; data: VaultItemData }[],
+) {
+  let batch: { id: number; encryptedData: string }[] = [];
+  let batchBytes = 0;
+  for (const { id, itemId, data } of entries) {
+    const encryptedData = await encryptVaultItem(vaultKey, data, itemId);
+    if (batch.length >= MAX_BATCH_ITEMS || (batch.length > 0 && batchBytes + encryptedData.length > MAX_BATCH_BYTES)) {
+      await apiRequest('POST', '/api/passwords/reencrypt', { [kind]: batch });
+      batch = [];
+      batchBytes = 0;
+    }
+    batch.push({ id, encryptedData });
+    batchBytes += encryptedData.length;
+  }
+  if (batch.length > 0) {
+    await apiRequest('POST', '/api/passwords/reencrypt', { [kind]: batch });
+  }
+}
+
+// Encrypt any items saved before the vault existed, and bind every item and
+// earlier version not yet bound to its ID, including those in the trash. Then
+// mark the vault as migrated, so nothing unbound is accepted from then on.
+async function migrateItems(vaultKey: CryptoKey): Promise<User> {
+  const rows: EncryptedVaultRow[] = [];
+  for (const query of ['', '?trashed=true']) {
+    const response = await apiRequest('GET', `/api/passwords${query}`);
+    rows.push(...await response.json());
+  }
+  const staleRows = rows.filter((row) => needsReencryption(row.encryptedData));
+  const items = await Promise.all(staleRows.map(async (row) => ({
+    id: row.id,
+    itemId: row.id,
+    data: toVaultItemData(await decryptVaultRow(vaultKey, row, true)),
+  })));
+  await reencrypt(vaultKey, 'items', items);
+
+  // Versions that can't be read are left as they are
+  const versions: VaultItemVersion[] = await (await apiRequest('GET', '/api/passwords/history')).json();
+  const staleVersions = await Promise.all(versions
+    .filter((version) => needsReencryption(version.encryptedData))
+    .map(async (version) => ({
+      id: version.id,
+      itemId: version.itemId,
+      data: await decryptVaultItem(vaultKey, version.encryptedData, version.itemId, true).catch(() => null),
+    })));
+  await reencrypt(vaultKey, 'versions', staleVersions.flatMap((version) => version.data ? [{ ...version, data: version.data }] : []));
+
+  if (staleRows.length > 0) {
+    queryClient.invalidateQueries({ queryKey: ['/api/passwords'] });
+  }
+  return await (await apiRequest('POST', '/api/vault/items-bound')).json();
+}
+
+export function VaultProvider({ children }: { children: ReactNode }) {
+  const { user, setUser } = useAuth();
+  const [vaultKey, setVaultKey] = useState<CryptoKey | null>(null);
+  const itemsBound = !!user?.vaultItemsBound;
+
+  const { data: vaultKeys = [], isLoading } = useQuery<VaultKey[]>({
+    queryKey: ['/api/vault/keys'],
+    enabled: !!user,
+  });
+
+  // Drop the key and every decrypted item from memory
+  const lock = () => {
+    setVaultKey(null);
+    queryClient.removeQueries({ queryKey: ['vault-items'] });
+  };
+
+  // Lock as soon as the user signs out
+  useEffect(() => {
+    if (!user) {
+      lock();
+    }
+  }, [user]);
+
+  const unlockWithKey = async (key: CryptoKey) => {
+    setVaultKey(key);
+    if (!itemsBound) {
+      setUser(await migrateItems(key));
+    }
+  };
+
+  // Unlock straight after a passkey sign-in that produced a PRF output
+  useEffect(() => {
+    if (!user || vaultKey || isLoading || !hasPrfSecret()) {
+      return;
+    }
+
+    const prfSecret = takePrfSecret();
+    if (prfSecret) {
+      unwrapWithPrfSecret(vaultKeys, prfSecret)
+        .then((key) => key && unlockWithKey(key))
+        .catch((error) => console.error('Passkey vault unlock failed:', error));
+    }
+  }, [user, vaultKey, vaultKeys, isLoading]);
+
+  const createVault = async (masterPassword: string) => {
+    const key = await generateVaultKey();
+    await saveMasterPasswordKey(key, masterPassword);
+    await queryClient.invalidateQueries({ queryKey: ['/api/vault/keys'] });
+    await unlockWithKey(key);
+  };
+
+  const unlockWithPassword = async (masterPassword: string) => {
+    const passwordKey = vaultKeys.find((key) => key.type === 'password');
+    if (!passwordKey || !passwordKey.iterations) {
+      throw new Error('This vault has no master password');
+    }
+
+    const wrappingKey = await deriveKeyFromPassword(masterPassword, passwordKey.salt, passwordKey.iterations);
+    let key: CryptoKey;
+    try {
+      key = await unwrapVaultKey(passwordKey.wrappedKey, wrappingKey);
+    } catch (error) {
+      throw new Error('Incorrect master password');
+    }
+    await unlockWithKey(key);
+  };
+
+  const unlockWithPasskey = async () => {
+    await reauthenticateWithPasskey();
+    const prfSecret = takePrfSecret();
+    if (!prfSecret) {
+      throw new Error("This passkey can't unlock your vault");
+    }
+
+    const key = await unwrapWithPrfSecret(vaultKeys, prfSecret);
+    if (!key) {
+      throw new Error("This passkey can't unlock your vault");
+    }
+    await unlockWithKey(key);
+  };
+
+  // Store a copy of the vault key wrapped by the given passkey's PRF output
+  const enablePasskeyUnlock = async (credentialId: string) => {
+    if (!vaultKey) {
+      throw new Error('Unlock your vault first');
+    }
+
+    const salt = bufferToBase64URLString(randomBytes(32).buffer as ArrayBuffer);
+    await reauthenticateWithPasskey({ credentialId, salt });
+    const prfSecret = takePrfSecret(credentialId);
+    if (!prfSecret) {
+      throw new Error("This passkey or browser doesn't support unlocking the vault");
+    }
+
+    await apiRequest('POST', '/api/vault/keys', {
+      type: 'prf',
+      credentialId,
+      salt,
+      wrappedKey: await wrapVaultKey(vaultKey, await deriveKeyFromPrf(prfSecret.secret)),
+    });
+    await queryClient.invalidateQueries({ queryKey: ['/api/vault/keys'] });
+  };
+
+  const encryptItem = async (data: VaultItemData, itemId: number) => {
+    if (!vaultKey) {
+      throw new Error('Unlock your vault first');
+    }
+    return await encryptVaultItem(vaultKey, data, itemId);
+  };
+
+  // Write the contents of items just created empty, e.g. by an import
+  const fillNewItems = async (items: { id: number; data: VaultItemData }[]) => {
+    if (!vaultKey) {
+      throw new Error('Unlock your vault first');
+    }
+    await reencrypt(vaultKey, 'items', items.map(({ id, data }) => ({ id, itemId: id, data })));
+  };
+
+  const status: VaultStatus = vaultKey
+    ? 'unlocked'
+    : isLoading || !user
+      ? 'loading'
+      : vaultKeys.length === 0
+        ? 'uninitialized'
+        : 'locked';
+
+  return (
+    <VaultContext.Provider
+      value={{
+        status,
+        vaultKey,
+        vaultKeys,
+        createVault,
+        unlockWithPassword,
+        unlockWithKey,
+        unlockWithPasskey,
+        enablePasskeyUnlock,
+        lock,
+        itemsBound,
+        encryptItem,
+        fillNewItems,
+      }}
+    >
+      {children}
+    </VaultContext.Provider>
+  );
+}
+
+export function useVault() {
+  const context = useContext(VaultContext);
+  if (!context) {
+    throw new Error("useVault must be used within a VaultProvider");
+  }
+  return context;
+}
+
+// Saved passwords, decrypted locally with the unlocked vault key. The filter
+// is applied by the server; every variant shares the '/api/passwords' key
+// prefix so invalidating it refreshes them all.
+export function useVaultItems(filter: VaultFilter = { kind: 'all' }) {
+  const { vaultKey, itemsBound } = useVault();
+  const query = toFilterQuery(filter);
+
+  const rowsQuery = useQuery<EncryptedVaultRow[]>({
+    queryKey: ['/api/passwords', query],
+    queryFn: async () => (await apiRequest('GET', `/api/passwords${query}`)).json(),
+    refetchOnWindowFocus: false,
+    enabled: !!vaultKey,
+  });
+
+  const itemsQuery = useQuery<VaultItem[]>({
+    queryKey: ['vault-items', query, rowsQuery.dataUpdatedAt, itemsBound],
+    queryFn: () => Promise.all((rowsQuery.data || []).map((row) => decryptVaultRow(vaultKey!, row, !itemsBound))),
+    enabled: !!vaultKey && !!rowsQuery.data,
+    staleTime: Infinity,
+  });
+
+  return {
+    items: itemsQuery.data || [],
+    isLoading: rowsQuery.isLoading || itemsQuery.isLoading,
+    isError: rowsQuery.isError || itemsQuery.isError,
+    error: rowsQuery.error || itemsQuery.error,
+  };
+}
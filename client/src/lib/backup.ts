@@ -0,0 +1,234 @@
+import type { Folder } from '@shared/schema';
+import { base64URLStringToBuffer, bufferToBase64URLString } from './auth';
+import {
+  PBKDF2_ITERATIONS,
+  VaultItem,
+  VaultItemData,
+  deriveKeyFromPassword,
+  normalizeVaultItemData,
+  randomBytes,
+  toVaultItemData,
+} from './vault';
+import { getFolderNames } from './vault-items';
+
+// Vault exports. The server only hands out ciphertext, so every export file is
+// built in the browser from the decrypted items.
+
+export type ExportFormat = 'encrypted' | 'bitwarden' | 'csv';
+
+const BACKUP_FORMAT = 'passkey-manager-backup';
+// Version 2 adds each item's folder, tags and favorite flag
+const BACKUP_VERSION = 2;
+const SUPPORTED_BACKUP_VERSIONS = [1, 2];
+
+// Where an item is filed in the vault, kept with it in exports and restored
+// on import
+export interface ItemOrganization {
+  // Folder names from the top level down; empty for an item in no folder
+  folderPath: string[];
+  tags: string[];
+  favorite: boolean;
+}
+
+export type ExportedItem = { item: VaultItemData } & ItemOrganization;
+
+export const UNFILED: ItemOrganization = { folderPath: [], tags: [], favorite: false };
+
+export function toExportedItem(item: VaultItem, folders: Folder[]): ExportedItem {
+  return {
+    item: toVaultItemData(item),
+    folderPath: item.folderId !== null ? getFolderNames(folders, item.folderId) : [],
+    tags: item.tags,
+    favorite: item.favorite,
+  };
+}
+
+// Passphrase-encrypted backup file. The passphrase is chosen at export time
+// and is independent of the master password.
+export interface EncryptedBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  iv: string;
+  ciphertext: string;
+}
+
+export function isEncryptedBackup(data: any): data is EncryptedBackup {
+  return data?.format === BACKUP_FORMAT && typeof data.ciphertext === 'string';
+}
+
+export async function createEncryptedBackup(items: ExportedItem[], passphrase: string): Promise<EncryptedBackup> {
+  const salt = bufferToBase64URLString(randomBytes(16).buffer as ArrayBuffer);
+  const key = await deriveKeyFromPassword(passphrase, salt, PBKDF2_ITERATIONS, ['encrypt']);
+  const iv = randomBytes(12);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(JSON.stringify({ items })),
+  );
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt },
+    iv: bufferToBase64URLString(iv.buffer as ArrayBuffer),
+    ciphertext: bufferToBase64URLString(ciphertext),
+  };
+}
+
+export async function openEncryptedBackup(backup: EncryptedBackup, passphrase: string): Promise<ExportedItem[]> {
+  if (!SUPPORTED_BACKUP_VERSIONS.includes(backup.version)) {
+    throw new Error(`Unsupported backup version ${backup.version}`);
+  }
+
+  const key = await deriveKeyFromPassword(passphrase, backup.kdf.salt, backup.kdf.iterations, ['decrypt']);
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: base64URLStringToBuffer(backup.iv) },
+      key,
+      base64URLStringToBuffer(backup.ciphertext),
+    );
+  } catch (error) {
+    throw new Error('Incorrect backup passphrase');
+  }
+  const { items } = JSON.parse(new TextDecoder().decode(plaintext));
+  // Version 1 backups hold only the items themselves
+  return backup.version === 1
+    ? items.map((item: any) => ({ item: normalizeVaultItemData(item), ...UNFILED }))
+    : items.map((entry: any) => ({
+      item: normalizeVaultItemData(entry.item),
+      folderPath: Array.isArray(entry.folderPath) ? entry.folderPath.map(String) : [],
+      tags: Array.isArray(entry.tags) ? entry.tags.map(String) : [],
+      favorite: entry.favorite === true,
+    }));
+}
+
+const BITWARDEN_TYPES = { login: 1, note: 2, card: 3, identity: 4, sshKey: 5 };
+
+// Fields specific to each item type in Bitwarden's export format
+function toBitwardenFields(item: VaultItemData): Record<string, unknown> {
+  switch (item.type) {
+    case 'login':
+      return {
+        type: BITWARDEN_TYPES.login,
+        login: {
+          uris: item.url ? [{ match: null, uri: item.url }] : [],
+          username: item.username || null,
+          password: item.password || null,
+          totp: item.totp || null,
+        },
+      };
+    case 'note':
+      return { type: BITWARDEN_TYPES.note, secureNote: { type: 0 } };
+    case 'card':
+      return {
+        type: BITWARDEN_TYPES.card,
+        card: {
+          cardholderName: item.cardholderName || null,
+          brand: null,
+          number: item.number.replace(/\s/g, ''),
+          expMonth: item.expiryMonth || null,
+          expYear: item.expiryYear || null,
+          code: item.securityCode || null,
+        },
+      };
+    case 'identity': {
+      const [firstName, ...rest] = item.fullName.split(' ');
+      return {
+        type: BITWARDEN_TYPES.identity,
+        identity: {
+          firstName,
+          lastName: rest.join(' ') || null,
+          company: item.company || null,
+          email: item.email || null,
+          phone: item.phone || null,
+          address1: item.address || null,
+        },
+      };
+    }
+    case 'ssh-key':
+      return {
+        type: BITWARDEN_TYPES.sshKey,
+        sshKey: { privateKey: item.privateKey, publicKey: item.publicKey || null, keyFingerprint: null },
+        fields: item.passphrase ? [{ name: 'Passphrase', value: item.passphrase, type: 1 }] : [],
+      };
+    case 'api-token':
+      // Bitwarden has no token type; keep it as a note with hidden fields
+      return {
+        type: BITWARDEN_TYPES.note,
+        secureNote: { type: 0 },
+        fields: [
+          { name: 'Token', value: item.token, type: 1 },
+          ...(item.url ? [{ name: 'URL', value: item.url, type: 0 }] : []),
+          ...(item.expiresAt ? [{ name: 'Expires', value: item.expiresAt, type: 0 }] : []),
+        ],
+      };
+  }
+}
+
+// Bitwarden has no tags; they're kept in a custom text field of this name
+export const BITWARDEN_TAGS_FIELD = 'Tags';
+
+// Bitwarden's unencrypted JSON export format, importable by most password
+// managers. Nested folders are named by their path, e.g. "Work/Servers", as
+// Bitwarden does.
+export function toBitwardenJson(items: ExportedItem[]): string {
+  const folderIds = new Map<string, string>();
+  items.forEach(({ folderPath }) => {
+    const name = folderPath.join('/');
+    if (name && !folderIds.has(name)) {
+      folderIds.set(name, crypto.randomUUID());
+    }
+  });
+
+  return JSON.stringify({
+    encrypted: false,
+    folders: Array.from(folderIds, ([name, id]) => ({ id, name })),
+    items: items.map(({ item, folderPath, tags, favorite }) => {
+      const { fields, ...typeFields } = toBitwardenFields(item);
+      const customFields = [
+        ...((fields as unknown[] | undefined) || []),
+        ...(tags.length > 0 ? [{ name: BITWARDEN_TAGS_FIELD, value: tags.join(', '), type: 0 }] : []),
+      ];
+      return {
+        id: crypto.randomUUID(),
+        organizationId: null,
+        folderId: folderIds.get(folderPath.join('/')) || null,
+        reprompt: 0,
+        name: item.name,
+        notes: item.notes || null,
+        favorite,
+        ...typeFields,
+        ...(customFields.length > 0 && { fields: customFields }),
+        collectionIds: null,
+      };
+    }),
+  }, null, 2);
+}
+
+function csvField(value: string | undefined): string {
+  const text = value || '';
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// CSV with the same columns as a Chrome export. Only logins fit these
+// columns, so other item types are left out.
+export function toCsv(items: VaultItemData[]): string {
+  const rows = items.flatMap((item) => item.type === 'login'
+    ? [[item.name, item.url, item.username, item.password, item.notes].map(csvField).join(',')]
+    : []);
+  return ['name,url,username,password,note', ...rows].join('\r\n') + '\r\n';
+}
+
+// Save a file through the browser's download prompt
+export function downloadFile(filename: string, contents: string, type: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
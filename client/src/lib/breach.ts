@@ -0,0 +1,72 @@
+// Breached password checks using k-anonymity: only the first 5 characters of
+// each password's SHA-1 hash are sent, and the full hash is matched here
+// against the suffixes the server returns
+
+const HASH_PREFIX_LENGTH = 5;
+
+async function sha1Hex(password: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(password));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('').toUpperCase();
+}
+
+// The server's limit on hash prefixes per request
+const MAX_PREFIXES_PER_REQUEST = 1000;
+
+// Suffix -> count for each hash prefix, or null if the server has no corpus
+async function fetchRanges(prefixes: string[]): Promise<Map<string, Map<string, number>> | null> {
+  const res = await fetch('/api/breach/ranges', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ prefixes }),
+    credentials: 'include',
+  });
+  if (res.status === 503) {
+    return null;
+  }
+  if (!res.ok) {
+    throw new Error(`Breach check failed: ${res.status} ${res.statusText}`);
+  }
+
+  const { ranges }: { ranges: Record<string, string> } = await res.json();
+  const result = new Map<string, Map<string, number>>();
+  Object.keys(ranges).forEach((prefix) => {
+    const range = new Map<string, number>();
+    ranges[prefix].split(/\r?\n/).forEach((line) => {
+      const [suffix, count] = line.trim().split(':');
+      if (suffix && count) {
+        range.set(suffix.toUpperCase(), Number(count));
+      }
+    });
+    result.set(prefix, range);
+  });
+  return result;
+}
+
+// Times each password has been seen in breaches (0 if never), or null when
+// they couldn't be checked: breach checks aren't configured on the server, or
+// it's unreachable or rate limiting. The rest of a report doesn't need them.
+export async function checkBreachedPasswords(passwords: string[]): Promise<Map<string, number> | null> {
+  const unique = Array.from(new Set(passwords));
+  const hashes = await Promise.all(unique.map(sha1Hex));
+  const prefixes = Array.from(new Set(hashes.map((hash) => hash.slice(0, HASH_PREFIX_LENGTH))));
+  const ranges = new Map<string, Map<string, number>>();
+  try {
+    for (let i = 0; i < prefixes.length; i += MAX_PREFIXES_PER_REQUEST) {
+      const batch = await fetchRanges(prefixes.slice(i, i + MAX_PREFIXES_PER_REQUEST));
+      if (!batch) {
+        return null;
+      }
+      batch.forEach((range, prefix) => ranges.set(prefix, range));
+    }
+  } catch (error) {
+    console.error('Error checking breached passwords:', error);
+    return null;
+  }
+
+  const counts = new Map<string, number>();
+  unique.forEach((password, index) => {
+    const hash = hashes[index];
+    counts.set(password, ranges.get(hash.slice(0, HASH_PREFIX_LENGTH))?.get(hash.slice(HASH_PREFIX_LENGTH)) || 0);
+  });
+  return counts;
+}
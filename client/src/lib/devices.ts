@@ -0,0 +1,18 @@
+// Turn a user agent string into a short "Browser on OS" label
+export function describeDevice(userAgent?: string | null): string {
+  if (!userAgent) return 'Unknown device';
+
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Browser';
+  const os = /Windows/.test(userAgent) ? 'Windows'
+    : /Mac OS X/.test(userAgent) && !/Mobile/.test(userAgent) ? 'macOS'
+    : /Android/.test(userAgent) ? 'Android'
+    : /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : 'an unknown OS';
+
+  return `${browser} on ${os}`;
+}
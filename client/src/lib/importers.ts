@@ -0,0 +1,488 @@
+import { VaultItem, VaultItemData } from './vault';
+import { BITWARDEN_TAGS_FIELD, ExportedItem, ItemOrganization, UNFILED, isEncryptedBackup, openEncryptedBackup } from './backup';
+import { parseTags } from './vault-items';
+
+// Parsers for password exports from browsers and other password managers.
+// Everything runs in the browser: exports are plaintext, so they are parsed
+// and encrypted locally and never sent to the server as-is.
+
+export type ImportFormat = 'backup' | 'chrome' | 'firefox' | 'bitwarden' | '1password' | 'lastpass' | 'keepass';
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  backup: 'Encrypted backup',
+  chrome: 'Chrome / Edge',
+  firefox: 'Firefox',
+  bitwarden: 'Bitwarden',
+  '1password': '1Password',
+  lastpass: 'LastPass',
+  keepass: 'KeePass',
+};
+
+export interface ParsedImport {
+  format: ImportFormat;
+  // Each item with its folder, tags and favorite flag, where the format has them
+  items: ExportedItem[];
+  // Entries with nothing usable in them, or of a type we can't store, are skipped
+  skipped: number;
+}
+
+// An imported item with its duplicate check against the vault
+export type ImportCandidate = ExportedItem & { duplicate: boolean };
+
+// Thrown for an encrypted backup opened without its passphrase
+export class BackupPassphraseRequiredError extends Error {
+  constructor() {
+    super('Enter the passphrase for this backup');
+    this.name = 'BackupPassphraseRequiredError';
+  }
+}
+
+type CsvRecord = Record<string, string>;
+
+// RFC 4180 CSV: quoted fields may contain commas, newlines and "" escapes
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+}
+
+// Rows keyed by lower-cased header
+function parseCsvRecords(text: string): { headers: string[]; records: CsvRecord[] } {
+  const [headerRow = [], ...rows] = parseCsv(text);
+  const headers = headerRow.map((header) => header.trim().toLowerCase());
+  // Cells are kept as they are: spaces can be part of a password or a note
+  const records = rows.map((cells) =>
+    Object.fromEntries(headers.map((header, index) => [header, cells[index] || ''])),
+  );
+  return { headers, records };
+}
+
+// Site name for an entry without a title, e.g. "github.com"
+function siteName(url: string | undefined): string {
+  if (!url) return '';
+  try {
+    return new URL(url.includes('://') ? url : `https://${url}`).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+}
+
+// Build a login, dropping entries that have nothing to log in with
+function toItem(fields: {
+  title?: string;
+  url?: string;
+  username?: string;
+  password?: string;
+  notes?: string;
+  totp?: string;
+}): VaultItemData | null {
+  const username = fields.username || '';
+  const password = fields.password || '';
+  if (!username && !password) {
+    return null;
+  }
+
+  const url = fields.url || undefined;
+  return {
+    type: 'login',
+    name: fields.title || siteName(url) || 'Imported login',
+    url,
+    username,
+    password,
+    notes: fields.notes || undefined,
+    totp: fields.totp || undefined,
+  };
+}
+
+// Build a secure note, dropping empty ones
+function toNote(fields: { title?: string; notes?: string }): VaultItemData | null {
+  if (!fields.notes) {
+    return null;
+  }
+  return { type: 'note', name: fields.title || 'Imported note', notes: fields.notes };
+}
+
+// organizations, where the format has them, are the folder, tags and
+// favorite flag of each entry
+function collect(entries: (VaultItemData | null)[], format: ImportFormat, organizations: ItemOrganization[] = []): ParsedImport {
+  const items = entries.flatMap((item, index) => item ? [{ item, ...(organizations[index] || UNFILED) }] : []);
+  return { format, items, skipped: entries.length - items.length };
+}
+
+// Tell the CSV exports apart by their headers
+function detectCsvFormat(headers: string[]): ImportFormat | null {
+  const has = (...names: string[]) => names.every((name) => headers.includes(name));
+
+  if (has('login_uri', 'login_username', 'login_password')) return 'bitwarden';
+  if (has('httprealm', 'formactionorigin')) return 'firefox';
+  if (has('grouping', 'extra')) return 'lastpass';
+  if (has('title', 'password')) return '1password';
+  if (has('name', 'url', 'username', 'password')) return 'chrome';
+  return null;
+}
+
+function parseCsvExport(text: string): ParsedImport {
+  const { headers, records } = parseCsvRecords(text);
+  const format = detectCsvFormat(headers);
+
+  switch (format) {
+    case 'chrome':
+      return collect(records.map((record) => toItem({
+        title: record.name,
+        url: record.url,
+        username: record.username,
+        password: record.password,
+        notes: record.note,
+      })), format);
+    case 'firefox':
+      return collect(records.map((record) => toItem({
+        url: record.url,
+        username: record.username,
+        password: record.password,
+      })), format);
+    case 'bitwarden':
+      return collect(records.map((record) => {
+        if (record.type === 'note') {
+          return toNote({ title: record.name, notes: record.notes });
+        }
+        return record.type && record.type !== 'login' ? null : toItem({
+          title: record.name,
+          url: record.login_uri.split(',')[0],
+          username: record.login_username,
+          password: record.login_password,
+          notes: record.notes,
+          totp: record.login_totp,
+        });
+      }), format);
+    case '1password':
+      return collect(records.map((record) => toItem({
+        title: record.title,
+        url: record.url || record.website,
+        username: record.username,
+        password: record.password,
+        notes: record.notes || record.notesplain,
+      })), format);
+    case 'lastpass':
+      // LastPass stores secure notes as rows with the URL "http://sn"
+      return collect(records.map((record) => record.url === 'http://sn'
+        ? toNote({ title: record.name, notes: record.extra })
+        : toItem({
+          title: record.name,
+          url: record.url,
+          username: record.username,
+          password: record.password,
+          notes: record.extra,
+          totp: record.totp,
+        })), format);
+    default:
+      throw new Error("Couldn't recognise this CSV file. Export it again from your browser or password manager.");
+  }
+}
+
+// Bitwarden unencrypted JSON export
+function parseBitwardenJson(data: any): ParsedImport {
+  if (data.encrypted) {
+    throw new Error('This Bitwarden export is password protected. Export it again as unencrypted JSON.');
+  }
+
+  // Nested folders are named by their path, e.g. "Work/Servers"
+  const folderNames = new Map<string, string>((data.folders || []).map((folder: any) => [folder.id, folder.name || '']));
+  const items: any[] = data.items || [];
+  return collect(items.map((item) => parseBitwardenItem(item)), 'bitwarden', items.map((item) => ({
+    folderPath: (folderNames.get(item.folderId) || '').split('/').map((name) => name.trim()).filter(Boolean),
+    tags: parseTags((item.fields || []).find((field: any) => field.name === BITWARDEN_TAGS_FIELD)?.value || ''),
+    favorite: item.favorite === true,
+  })));
+}
+
+function parseBitwardenItem(item: any): VaultItemData | null {
+  const name = item.name || '';
+  const notes = item.notes || undefined;
+
+  switch (item.type) {
+    case 1:
+      return toItem({
+        title: item.name,
+        url: item.login?.uris?.[0]?.uri,
+        username: item.login?.username,
+        password: item.login?.password,
+        notes: item.notes,
+        totp: item.login?.totp,
+      });
+    case 2:
+      return toNote({ title: item.name, notes: item.notes });
+    case 3:
+      if (!item.card?.number) return null;
+      return {
+        type: 'card',
+        name: name || 'Imported card',
+        notes,
+        cardholderName: item.card.cardholderName || undefined,
+        number: item.card.number,
+        expiryMonth: item.card.expMonth || undefined,
+        expiryYear: item.card.expYear || undefined,
+        securityCode: item.card.code || undefined,
+      };
+    case 4: {
+      const identity = item.identity || {};
+      const fullName = [identity.firstName, identity.middleName, identity.lastName].filter(Boolean).join(' ');
+      if (!fullName) return null;
+      return {
+        type: 'identity',
+        name: name || fullName,
+        notes,
+        fullName,
+        email: identity.email || undefined,
+        phone: identity.phone || undefined,
+        address: [identity.address1, identity.address2, identity.city, identity.postalCode, identity.country]
+          .filter(Boolean).join(', ') || undefined,
+        company: identity.company || undefined,
+      };
+    }
+    case 5:
+      if (!item.sshKey?.privateKey) return null;
+      return {
+        type: 'ssh-key',
+        name: name || 'Imported SSH key',
+        notes,
+        privateKey: item.sshKey.privateKey,
+        publicKey: item.sshKey.publicKey || undefined,
+      };
+    default:
+      return null;
+  }
+}
+
+// 1Password 1PUX: export.data inside a zip archive
+function parse1PasswordData(data: any): ParsedImport {
+  const items = (data.accounts || []).flatMap((account: any) =>
+    (account.vaults || []).flatMap((vault: any) => vault.items || []),
+  );
+
+  return collect(items.map((item: any) => {
+    if (item.state === 'archived') {
+      return null;
+    }
+    // Secure notes use the "003" category
+    if (item.categoryUuid === '003') {
+      return toNote({ title: item.overview?.title, notes: item.details?.notesPlain });
+    }
+    const loginFields: any[] = item.details?.loginFields || [];
+    const designated = (designation: string) => loginFields.find((field) => field.designation === designation)?.value;
+    const sectionFields: any[] = (item.details?.sections || []).flatMap((section: any) => section.fields || []);
+    return toItem({
+      title: item.overview?.title,
+      url: item.overview?.url,
+      username: designated('username'),
+      password: designated('password') || item.details?.password,
+      notes: item.details?.notesPlain,
+      totp: sectionFields.find((field) => field.value?.totp)?.value.totp,
+    });
+  }), '1password');
+}
+
+// KeePass 2 XML export. History entries and the recycle bin are left out.
+function parseKeePassXml(text: string): ParsedImport {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0 || !doc.querySelector('KeePassFile')) {
+    throw new Error("Couldn't read this KeePass XML file");
+  }
+
+  const isInRecycleBin = (entry: Element) => {
+    for (let group = entry.parentElement; group; group = group.parentElement) {
+      if (group.tagName === 'Group' && group.querySelector(':scope > Name')?.textContent === 'Recycle Bin') {
+        return true;
+      }
+    }
+    return false;
+  };
+
+  const entries = Array.from(doc.getElementsByTagName('Entry'))
+    .filter((entry) => entry.parentElement?.tagName !== 'History' && !isInRecycleBin(entry));
+
+  return collect(entries.map((entry) => {
+    const strings = new Map<string, string>();
+    for (const field of Array.from(entry.querySelectorAll(':scope > String'))) {
+      strings.set(field.querySelector('Key')?.textContent || '', field.querySelector('Value')?.textContent || '');
+    }
+    return toItem({
+      title: strings.get('Title'),
+      url: strings.get('URL'),
+      username: strings.get('UserName'),
+      password: strings.get('Password'),
+      notes: strings.get('Notes'),
+      // KeePassXC keeps the authenticator key in an "otp" field
+      totp: strings.get('otp'),
+    });
+  }), 'keepass');
+}
+
+// Read one file out of a zip archive (stored or deflated entries). Every
+// offset comes from the file itself, so each is checked against its length.
+async function readZipEntry(buffer: ArrayBuffer, name: string): Promise<Uint8Array | null> {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const invalid = () => new Error('Not a valid 1PUX archive');
+  const inBounds = (start: number, length: number) => start >= 0 && start + length <= buffer.byteLength;
+
+  // The end of central directory record sits in the last 64KB
+  let eocd = -1;
+  for (let offset = buffer.byteLength - 22; offset >= Math.max(0, buffer.byteLength - 65557); offset--) {
+    if (view.getUint32(offset, true) === 0x06054b50) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw invalid();
+  }
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  for (let i = 0; i < entryCount; i++) {
+    if (!inBounds(offset, 46) || view.getUint32(offset, true) !== 0x02014b50) {
+      throw invalid();
+    }
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const uncompressedSize = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeader = view.getUint32(offset + 42, true);
+    if (!inBounds(offset + 46, nameLength + extraLength + commentLength)) {
+      throw invalid();
+    }
+    const entryName = new TextDecoder().decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    if (entryName === name) {
+      if (flags & 0x1) {
+        throw new Error("Encrypted zip entries aren't supported");
+      }
+      if (compressedSize === 0xffffffff || uncompressedSize === 0xffffffff) {
+        throw new Error("Zip64 archives aren't supported");
+      }
+      if (!inBounds(localHeader, 30) || view.getUint32(localHeader, true) !== 0x04034b50) {
+        throw invalid();
+      }
+      // With a data descriptor (flag bit 3) the local header's sizes are zero
+      // and the real ones follow the data, so always use the central directory's
+      const dataStart = localHeader + 30 + view.getUint16(localHeader + 26, true) + view.getUint16(localHeader + 28, true);
+      if (!inBounds(dataStart, compressedSize)) {
+        throw invalid();
+      }
+      const data = bytes.slice(dataStart, dataStart + compressedSize);
+      if (method === 0) {
+        if (compressedSize !== uncompressedSize) {
+          throw invalid();
+        }
+        return data;
+      }
+      if (method !== 8) {
+        throw new Error(`Unsupported zip compression method ${method}`);
+      }
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw' as CompressionFormat));
+      let inflated: Uint8Array;
+      try {
+        inflated = new Uint8Array(await new Response(stream).arrayBuffer());
+      } catch {
+        throw invalid();
+      }
+      if (inflated.length !== uncompressedSize) {
+        throw invalid();
+      }
+      return inflated;
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return null;
+}
+
+// Parse an export file, picking the format from its extension and contents.
+// Encrypted backups need their passphrase.
+export async function parseImportFile(file: File, passphrase?: string): Promise<ParsedImport> {
+  const extension = file.name.toLowerCase().split('.').pop();
+
+  if (extension === '1pux') {
+    const data = await readZipEntry(await file.arrayBuffer(), 'export.data');
+    if (!data) {
+      throw new Error('This 1PUX file has no export data');
+    }
+    return parse1PasswordData(JSON.parse(new TextDecoder().decode(data)));
+  }
+
+  const text = await file.text();
+  if (extension === 'xml') {
+    return parseKeePassXml(text);
+  }
+  if (extension === 'json') {
+    const data = JSON.parse(text);
+    if (isEncryptedBackup(data)) {
+      if (!passphrase) {
+        throw new BackupPassphraseRequiredError();
+      }
+      return { format: 'backup', items: await openEncryptedBackup(data, passphrase), skipped: 0 };
+    }
+    return parseBitwardenJson(data);
+  }
+  return parseCsvExport(text);
+}
+
+// Key used to spot the same item twice: site plus username for logins,
+// otherwise the item type and name
+function itemKey(item: VaultItemData): string {
+  if (item.type !== 'login') {
+    return `${item.type}\n${item.name.trim().toLowerCase()}`;
+  }
+  const site = siteName(item.url) || item.name.trim().toLowerCase();
+  return `${site}\n${item.username.trim().toLowerCase()}`;
+}
+
+// Flag items that are already in the vault, or repeated within the import
+export function findDuplicates(items: ExportedItem[], existing: VaultItem[]): ImportCandidate[] {
+  const seen = new Set(existing.map(itemKey));
+  return items.map((entry) => {
+    const key = itemKey(entry.item);
+    const duplicate = seen.has(key);
+    seen.add(key);
+    return { ...entry, duplicate };
+  });
+}
@@ -1,5 +1,18 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+// Error for a non-OK API response, keeping the status and the JSON body so
+// callers can act on fields like `code`
+export class ApiError extends Error {
+  constructor(message: string, public status: number, public body: any = null) {
+    super(message);
+    this.name = 'ApiError';
+  }
+
+  get code(): string | undefined {
+    return this.body?.code;
+  }
+}
+
 async function handleResponse(res: Response) {
   if (!res.ok) {
     console.warn(`API response not OK: ${res.status} ${res.statusText}`);
@@ -17,18 +30,17 @@ async function handleResponse(res: Response) {
       console.warn('Error details:', errorText);
       
       // Safely try to parse the error response as JSON
+      let errorMessage = res.statusText || 'Request failed';
+      let errorJson: any = null;
       try {
         if (errorText && errorText.trim() !== '') {
-          const errorJson = JSON.parse(errorText);
-          const errorMessage = errorJson?.message || 'Unknown error occurred';
-          throw new Error(errorMessage);
-        } else {
-          throw new Error(res.statusText || 'Request failed');
+          errorJson = JSON.parse(errorText);
+          errorMessage = errorJson?.message || 'Unknown error occurred';
         }
       } catch (jsonError) {
-        // If parsing fails, use the status text
-        throw new Error(res.statusText || 'Request failed');
+        // If parsing fails, keep the status text
       }
+      throw new ApiError(errorMessage, res.status, errorJson);
     } catch (e) {
       // If any step fails, throw the error
       if (e instanceof Error) {
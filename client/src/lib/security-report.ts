@@ -0,0 +1,150 @@
+import { StrengthScore, estimatePasswordStrength } from '@shared/password-strength';
+import type { LoginVaultItem, VaultItem } from './vault';
+import { isLoginItem } from './vault-items';
+
+// Passwords scoring below this are reported as weak
+const MIN_STRONG_SCORE: StrengthScore = 3;
+
+// Security health report, computed in the browser because only the client can
+// read the decrypted passwords
+export interface SecurityReport {
+  totalPasswords: number;
+  weakPasswords: Array<{
+    id: number;
+    website: string;
+    username: string;
+    reason: string;
+    score: StrengthScore;
+    crackTime: string;
+    suggestions: string[];
+  }>;
+  // Passwords found in the breach corpus; null if breach checks are unavailable
+  breachedPasswords: Array<{ id: number; website: string; username: string; breachCount: number }> | null;
+  duplicatePasswords: Array<{ id: number; website: string; username: string; duplicateCount: number }>;
+  oldPasswords: Array<{ id: number; website: string; username: string; lastUpdated: Date }>;
+  reusedPasswords: Array<{ id: number; website: string; username: string; reusedCount: number }>;
+  overallScore: number;
+  recommendations: string[];
+}
+
+type SiteRef = { id: number; website: string; username: string };
+
+// Group items by a key and return the groups with more than one member
+function findSharedGroups(items: LoginVaultItem[], getKey: (item: LoginVaultItem) => string): SiteRef[][] {
+  const groups = new Map<string, SiteRef[]>();
+  items.forEach(item => {
+    const key = getKey(item);
+    if (!groups.has(key)) {
+      groups.set(key, []);
+    }
+    groups.get(key)?.push({ id: item.id, website: item.name, username: item.username });
+  });
+  return Array.from(groups.values()).filter(sites => sites.length > 1);
+}
+
+// Details an attacker targeting the account would try first. URLs are split
+// into words, so "https://github.com" also yields "github".
+function getUserInputs(item: LoginVaultItem): string[] {
+  return [item.name, item.username, item.url || ''];
+}
+
+// breachCounts maps each password to the times it has been seen in breaches,
+// from checkBreachedPasswords
+export function generateSecurityReport(
+  vaultItems: VaultItem[],
+  breachCounts: Map<string, number> | null = null,
+): SecurityReport {
+  // Only logins have passwords to check
+  const items = vaultItems.filter(isLoginItem);
+  const report: SecurityReport = {
+    totalPasswords: items.length,
+    weakPasswords: [],
+    breachedPasswords: breachCounts ? [] : null,
+    duplicatePasswords: [],
+    oldPasswords: [],
+    reusedPasswords: [],
+    overallScore: 0,
+    recommendations: [],
+  };
+
+  // Estimate how guessable each password is, using the account's own details
+  // as extra dictionary words
+  let scoreTotal = 0;
+  items.forEach(item => {
+    const strength = estimatePasswordStrength(item.password, getUserInputs(item));
+    scoreTotal += strength.score;
+    if (strength.score < MIN_STRONG_SCORE) {
+      report.weakPasswords.push({
+        id: item.id,
+        website: item.name,
+        username: item.username,
+        reason: strength.feedback.warning || `Could be cracked in ${strength.crackTimeDisplay}`,
+        score: strength.score,
+        crackTime: strength.crackTimeDisplay,
+        suggestions: strength.feedback.suggestions,
+      });
+    }
+  });
+  report.weakPasswords.sort((a, b) => a.score - b.score);
+
+  // Passwords known from data breaches, most widely seen first
+  if (breachCounts) {
+    const breached = items
+      .map(item => ({ id: item.id, website: item.name, username: item.username, breachCount: breachCounts.get(item.password) || 0 }))
+      .filter(entry => entry.breachCount > 0);
+    report.breachedPasswords = breached.sort((a, b) => b.breachCount - a.breachCount);
+  }
+
+  // Find duplicate passwords (same password used on multiple sites)
+  findSharedGroups(items, item => item.password).forEach(sites => {
+    sites.forEach(site => report.duplicatePasswords.push({ ...site, duplicateCount: sites.length }));
+  });
+
+  // Check for old passwords (based on updatedAt)
+  const threeMonthsAgo = new Date();
+  threeMonthsAgo.setMonth(threeMonthsAgo.getMonth() - 3);
+  items.forEach(item => {
+    const lastUpdated = new Date(item.updatedAt);
+    if (lastUpdated < threeMonthsAgo) {
+      report.oldPasswords.push({ id: item.id, website: item.name, username: item.username, lastUpdated });
+    }
+  });
+
+  // Check for reused username/password combinations across different domains
+  findSharedGroups(items, item => `${item.username}:${item.password}`).forEach(sites => {
+    sites.forEach(site => report.reusedPasswords.push({ ...site, reusedCount: sites.length }));
+  });
+
+  // Calculate overall score (100 is best, 0 is worst)
+  let score = 100;
+  // Up to 50 points for average password strength (score 4 loses nothing)
+  if (items.length > 0) {
+    score -= Math.round(50 * (1 - scoreTotal / items.length / 4));
+  }
+  score -= Math.min(40, (report.breachedPasswords?.length || 0) * 10);
+  score -= Math.min(30, report.duplicatePasswords.length * 3);
+  score -= Math.min(20, report.oldPasswords.length * 2);
+  report.overallScore = Math.max(0, score);
+
+  // Add recommendations based on findings
+  if (report.breachedPasswords?.length) {
+    report.recommendations.push('Change breached passwords right away; attackers try passwords from known breaches first');
+  }
+  if (report.weakPasswords.length > 0) {
+    report.recommendations.push('Replace weak passwords with generated ones or passphrases of several uncommon words');
+  }
+  if (report.duplicatePasswords.length > 0) {
+    report.recommendations.push('Use unique passwords for each website to prevent multiple accounts being compromised');
+  }
+  if (report.oldPasswords.length > 0) {
+    report.recommendations.push('Regularly update your passwords (at least every 3 months)');
+  }
+  if (report.reusedPasswords.length > 0) {
+    report.recommendations.push('Avoid using the same username and password combination across different websites');
+  }
+  if (items.length === 0) {
+    report.recommendations.push('Start saving your passwords in the password manager for better security');
+  }
+
+  return report;
+}
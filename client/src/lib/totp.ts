@@ -0,0 +1,101 @@
+// Time-based one-time passwords (RFC 6238) for logins with an attached
+// authenticator seed, generated locally from the decrypted item
+
+export interface TotpParams {
+  secret: Uint8Array;
+  algorithm: 'SHA-1' | 'SHA-256' | 'SHA-512';
+  digits: number;
+  period: number;
+}
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export function base32Decode(input: string): Uint8Array {
+  const clean = input.toUpperCase().replace(/[\s-]/g, '').replace(/=+$/, '');
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+
+  for (const char of clean) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value < 0) {
+      throw new Error('Invalid character in authenticator key');
+    }
+    buffer = (buffer << 5) | value;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+// Accept a bare base32 seed or an otpauth://totp/ URI as shown in QR codes
+export function parseTotpSeed(seed: string): TotpParams {
+  const trimmed = seed.trim();
+  let secret = trimmed;
+  let algorithm: TotpParams['algorithm'] = 'SHA-1';
+  let digits = 6;
+  let period = 30;
+
+  if (trimmed.toLowerCase().startsWith('otpauth://')) {
+    const url = new URL(trimmed);
+    if (url.host !== 'totp') {
+      throw new Error('Only time-based (TOTP) authenticator keys are supported');
+    }
+    secret = url.searchParams.get('secret') || '';
+    const algorithmParam = (url.searchParams.get('algorithm') || 'SHA1').toUpperCase();
+    algorithm = algorithmParam === 'SHA256' ? 'SHA-256' : algorithmParam === 'SHA512' ? 'SHA-512' : 'SHA-1';
+    digits = Number(url.searchParams.get('digits') || digits);
+    period = Number(url.searchParams.get('period') || period);
+  }
+
+  const decoded = base32Decode(secret);
+  if (decoded.length < 10) {
+    throw new Error('Authenticator key is too short');
+  }
+  if (![6, 7, 8].includes(digits) || !(period > 0)) {
+    throw new Error('Unsupported authenticator settings');
+  }
+  return { secret: decoded, algorithm, digits, period };
+}
+
+export function isValidTotpSeed(seed: string): boolean {
+  try {
+    parseTotpSeed(seed);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Seconds until the current code expires
+export function totpSecondsRemaining(period: number, timestamp: number = Date.now()): number {
+  return period - (Math.floor(timestamp / 1000) % period);
+}
+
+export async function generateTotp(params: TotpParams, timestamp: number = Date.now()): Promise<string> {
+  const counter = Math.floor(timestamp / 1000 / params.period);
+  const message = new ArrayBuffer(8);
+  const view = new DataView(message);
+  view.setUint32(0, Math.floor(counter / 0x100000000));
+  view.setUint32(4, counter % 0x100000000);
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    params.secret,
+    { name: 'HMAC', hash: params.algorithm },
+    false,
+    ['sign'],
+  );
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, message));
+
+  // Dynamic truncation (RFC 4226 section 5.3)
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = ((hmac[offset] & 0x7f) << 24)
+    | (hmac[offset + 1] << 16)
+    | (hmac[offset + 2] << 8)
+    | hmac[offset + 3];
+  return String(binary % 10 ** params.digits).padStart(params.digits, '0');
+}
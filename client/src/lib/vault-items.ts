@@ -0,0 +1,174 @@
+import type { Folder } from '@shared/schema';
+import type { LoginVaultItem, VaultItem, VaultItemData, VaultItemType } from './vault';
+
+// Display helpers shared by the vault list, cards and forms
+
+export const ITEM_TYPE_LABELS: Record<VaultItemType, string> = {
+  login: 'Login',
+  note: 'Secure note',
+  card: 'Payment card',
+  identity: 'Identity',
+  'ssh-key': 'SSH key',
+  'api-token': 'API token',
+};
+
+export function isLoginItem(item: VaultItem): item is LoginVaultItem {
+  return item.type === 'login';
+}
+
+// Last four digits, e.g. "•••• 4242"
+export function maskCardNumber(number: string): string {
+  const digits = number.replace(/\D/g, '');
+  return `•••• ${digits.slice(-4)}`;
+}
+
+// Groups of four, e.g. "4242 4242 4242 4242"
+export function formatCardNumber(number: string): string {
+  return number.replace(/\D/g, '').replace(/(.{4})(?=.)/g, '$1 ');
+}
+
+// Short secondary line shown under an item's name
+export function getItemSubtitle(item: VaultItemData): string {
+  switch (item.type) {
+    case 'login':
+      return item.username;
+    case 'note':
+      return item.notes.split('\n')[0];
+    case 'card':
+      return maskCardNumber(item.number);
+    case 'identity':
+      return item.email || item.fullName;
+    case 'ssh-key':
+      // Key algorithm, e.g. "ssh-ed25519"
+      return item.publicKey?.split(' ')[0] || '';
+    case 'api-token':
+      return item.url || '';
+  }
+}
+
+// Readable names for item fields, e.g. in an item's history
+export const ITEM_FIELD_LABELS: Record<string, string> = {
+  type: 'Type',
+  name: 'Name',
+  notes: 'Notes',
+  url: 'URL',
+  username: 'Username',
+  password: 'Password',
+  totp: 'Authenticator key',
+  generatorPreset: 'Generator preset',
+  cardholderName: 'Cardholder',
+  number: 'Card number',
+  expiryMonth: 'Expiry month',
+  expiryYear: 'Expiry year',
+  securityCode: 'Security code',
+  fullName: 'Full name',
+  email: 'Email',
+  phone: 'Phone',
+  company: 'Company',
+  address: 'Address',
+  publicKey: 'Public key',
+  privateKey: 'Private key',
+  passphrase: 'Passphrase',
+  token: 'Token',
+  expiresAt: 'Expires',
+};
+
+// Names of the fields that differ between two versions of an item
+export function diffItemFields(before: VaultItemData, after: VaultItemData): string[] {
+  const previous = before as Record<string, unknown>;
+  const next = after as Record<string, unknown>;
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)]);
+  return Array.from(keys).filter((key) => previous[key] !== next[key]);
+}
+
+// Search only fields that are safe to match on, never secrets
+export function matchesSearch(item: VaultItemData, term: string): boolean {
+  const searchable: (string | undefined)[] = [item.name, item.notes, ITEM_TYPE_LABELS[item.type]];
+  switch (item.type) {
+    case 'login':
+      searchable.push(item.username, item.url);
+      break;
+    case 'card':
+      searchable.push(item.cardholderName);
+      break;
+    case 'identity':
+      searchable.push(item.fullName, item.email, item.company);
+      break;
+    case 'api-token':
+      searchable.push(item.url);
+      break;
+  }
+  const needle = term.toLowerCase();
+  return searchable.some((value) => value?.toLowerCase().includes(needle));
+}
+
+// What the vault list is showing, as picked in the sidebar
+export type VaultFilter =
+  | { kind: 'all' }
+  | { kind: 'favorites' }
+  | { kind: 'unfiled' }
+  | { kind: 'folder'; folderId: number }
+  | { kind: 'tag'; tag: string }
+  | { kind: 'trash' };
+
+// Query string for GET /api/passwords
+export function toFilterQuery(filter: VaultFilter): string {
+  switch (filter.kind) {
+    case 'all':
+      return '';
+    case 'favorites':
+      return '?favorite=true';
+    case 'unfiled':
+      return '?folder=none';
+    case 'folder':
+      return `?folder=${filter.folderId}`;
+    case 'tag':
+      return `?tag=${encodeURIComponent(filter.tag)}`;
+    case 'trash':
+      return '?trashed=true';
+  }
+}
+
+export interface FolderNode extends Folder {
+  children: FolderNode[];
+}
+
+// Arrange folders into a tree sorted by name. Folders whose parent is
+// missing are shown at the top level.
+export function buildFolderTree(folders: Folder[]): FolderNode[] {
+  const nodes = new Map(folders.map((folder) => [folder.id, { ...folder, children: [] as FolderNode[] }]));
+  const roots: FolderNode[] = [];
+  nodes.forEach((node) => {
+    const parent = node.parentId !== null ? nodes.get(node.parentId) : undefined;
+    (parent ? parent.children : roots).push(node);
+  });
+
+  const sort = (list: FolderNode[]) => {
+    list.sort((a, b) => a.name.localeCompare(b.name));
+    list.forEach((node) => sort(node.children));
+  };
+  sort(roots);
+  return roots;
+}
+
+// Names of a folder and its parents, from the top level down
+export function getFolderNames(folders: Folder[], folderId: number): string[] {
+  const names: string[] = [];
+  const seen = new Set<number>();
+  for (let folder = folders.find((f) => f.id === folderId); folder && !seen.has(folder.id);
+    folder = folders.find((f) => f.id === folder!.parentId)) {
+    seen.add(folder.id);
+    names.unshift(folder.name);
+  }
+  return names;
+}
+
+// Full path of a folder, e.g. "Work / Servers"
+export function getFolderPath(folders: Folder[], folderId: number): string {
+  return getFolderNames(folders, folderId).join(' / ');
+}
+
+// Split "work, email  ,personal" into distinct tags
+export function parseTags(input: string): string[] {
+  return Array.from(new Set(input.split(',').map((tag) => tag.trim()).filter(Boolean)));
+}
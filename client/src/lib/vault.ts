@@ -0,0 +1,222 @@
+import type { VaultItemData } from '@shared/schema';
+import { base64URLStringToBuffer, bufferToBase64URLString } from './auth';
+
+export type { VaultItemData, VaultItemType } from '@shared/schema';
+
+// End-to-end encryption for the password vault. Every item is encrypted with a
+// random AES-GCM vault key; the vault key itself is only stored wrapped by
+// keys derived from secrets the server never sees (a master password, or a
+// passkey's PRF output).
+
+// OWASP's 2023 recommendation for PBKDF2-HMAC-SHA256
+export const PBKDF2_ITERATIONS = 600000;
+
+// Version 2 envelopes authenticate the item's ID as AES-GCM additional data,
+// so the server can't swap ciphertexts between items. Version 1 envelopes,
+// written before that, aren't bound to an ID. They're only read until the
+// vault has been migrated (the user's vaultItemsBound); after that they and
+// legacy plaintext rows are rejected.
+const ENVELOPE_VERSION = 2;
+const UNBOUND_ENVELOPE_VERSION = 1;
+
+// A decrypted item together with its server-side metadata
+export type VaultItem = VaultItemData & {
+  id: number;
+  folderId: number | null;
+  tags: string[];
+  favorite: boolean;
+  deletedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type LoginVaultItem = Extract<VaultItem, { type: 'login' }>;
+
+// Saved password row as returned by GET /api/passwords
+export interface EncryptedVaultRow {
+  id: number;
+  encryptedData: string | null;
+  folderId: number | null;
+  tags: string[];
+  favorite: boolean;
+  deletedAt: string | null; // Set while the item is in the trash
+  // Legacy plaintext fields, set only on rows not yet migrated
+  website: string | null;
+  url: string | null;
+  username: string | null;
+  password: string | null;
+  notes: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export function randomBytes(length: number): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const result = new Uint8Array(a.length + b.length);
+  result.set(a, 0);
+  result.set(b, a.length);
+  return result;
+}
+
+// Create a new vault key. It stays extractable so it can be wrapped again
+// whenever another unlock method is added.
+export async function generateVaultKey(): Promise<CryptoKey> {
+  return await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+}
+
+// Derive a key from a password; by default a key-wrapping key for the vault key
+export async function deriveKeyFromPassword(
+  password: string,
+  salt: string,
+  iterations: number = PBKDF2_ITERATIONS,
+  usages: KeyUsage[] = ['wrapKey', 'unwrapKey'],
+): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveKey'],
+  );
+  return await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: base64URLStringToBuffer(salt), iterations },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    usages,
+  );
+}
+
+// Derive a key-wrapping key from a passkey's PRF output. The output is already
+// uniformly random, so HKDF only needs to bind it to its purpose.
+export async function deriveKeyFromPrf(secret: ArrayBuffer): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey('raw', secret, 'HKDF', false, ['deriveKey']);
+  return await crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: new Uint8Array(0),
+      info: new TextEncoder().encode('SecurePasskey vault key wrapping'),
+    },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey'],
+  );
+}
+
+// Wrap the vault key; the result is base64url(IV || ciphertext)
+export async function wrapVaultKey(vaultKey: CryptoKey, wrappingKey: CryptoKey): Promise<string> {
+  const iv = randomBytes(12);
+  const wrapped = await crypto.subtle.wrapKey('raw', vaultKey, wrappingKey, { name: 'AES-GCM', iv });
+  return bufferToBase64URLString(concatBytes(iv, new Uint8Array(wrapped)).buffer as ArrayBuffer);
+}
+
+// Unwrap a vault key. AES-GCM authentication fails if the wrapping key is wrong.
+export async function unwrapVaultKey(wrappedKey: string, wrappingKey: CryptoKey): Promise<CryptoKey> {
+  const bytes = new Uint8Array(base64URLStringToBuffer(wrappedKey));
+  try {
+    return await crypto.subtle.unwrapKey(
+      'raw',
+      bytes.slice(12),
+      wrappingKey,
+      { name: 'AES-GCM', iv: bytes.slice(0, 12) },
+      { name: 'AES-GCM', length: 256 },
+      true,
+      ['encrypt', 'decrypt'],
+    );
+  } catch (error) {
+    throw new Error('Could not unlock the vault with this secret');
+  }
+}
+
+function itemAdditionalData(itemId: number): Uint8Array {
+  return new TextEncoder().encode(String(itemId));
+}
+
+// Encrypt an item into the JSON envelope stored by the server, bound to its ID
+export async function encryptVaultItem(vaultKey: CryptoKey, data: VaultItemData, itemId: number): Promise<string> {
+  const iv = randomBytes(12);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: itemAdditionalData(itemId) },
+    vaultKey,
+    new TextEncoder().encode(JSON.stringify(data)),
+  );
+  return JSON.stringify({
+    v: ENVELOPE_VERSION,
+    iv: bufferToBase64URLString(iv.buffer as ArrayBuffer),
+    ct: bufferToBase64URLString(ciphertext),
+  });
+}
+
+// Items saved before typed items existed are logins keyed by "website"
+export function normalizeVaultItemData(data: any): VaultItemData {
+  if (data.type) {
+    return data;
+  }
+  return {
+    type: 'login',
+    name: data.website || '',
+    url: data.url || undefined,
+    username: data.username || '',
+    password: data.password || '',
+    notes: data.notes || undefined,
+  };
+}
+
+// Decrypt an item; unbound envelopes only while the vault is being migrated
+export async function decryptVaultItem(
+  vaultKey: CryptoKey,
+  encryptedData: string,
+  itemId: number,
+  allowUnbound: boolean,
+): Promise<VaultItemData> {
+  const envelope = JSON.parse(encryptedData);
+  if (envelope.v === UNBOUND_ENVELOPE_VERSION && !allowUnbound) {
+    throw new Error('This vault item is not bound to its ID');
+  }
+  if (envelope.v !== ENVELOPE_VERSION && envelope.v !== UNBOUND_ENVELOPE_VERSION) {
+    throw new Error(`Unsupported vault item version ${envelope.v}`);
+  }
+  const iv = base64URLStringToBuffer(envelope.iv);
+  const plaintext = await crypto.subtle.decrypt(
+    envelope.v === ENVELOPE_VERSION ? { name: 'AES-GCM', iv, additionalData: itemAdditionalData(itemId) } : { name: 'AES-GCM', iv },
+    vaultKey,
+    base64URLStringToBuffer(envelope.ct),
+  );
+  return normalizeVaultItemData(JSON.parse(new TextDecoder().decode(plaintext)));
+}
+
+// Legacy plaintext and unbound envelopes are re-encrypted by the migration
+export function needsReencryption(encryptedData: string | null): boolean {
+  return !encryptedData || JSON.parse(encryptedData).v !== ENVELOPE_VERSION;
+}
+
+// Strip the server-side metadata off a decrypted item
+export function toVaultItemData({ id, folderId, tags, favorite, deletedAt, createdAt, updatedAt, ...data }: VaultItem): VaultItemData {
+  return data as VaultItemData;
+}
+
+// Decrypt a row from the server. Legacy plaintext rows are read as-is, and
+// like unbound envelopes only while the vault is being migrated.
+export async function decryptVaultRow(vaultKey: CryptoKey, row: EncryptedVaultRow, allowUnbound: boolean): Promise<VaultItem> {
+  if (!row.encryptedData && !allowUnbound) {
+    throw new Error('This vault item is not encrypted');
+  }
+  const data = row.encryptedData
+    ? await decryptVaultItem(vaultKey, row.encryptedData, row.id, allowUnbound)
+    : normalizeVaultItemData({ ...row, type: undefined });
+  return {
+    ...data,
+    id: row.id,
+    folderId: row.folderId,
+    tags: row.tags || [],
+    favorite: row.favorite,
+    deletedAt: row.deletedAt ?? null,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
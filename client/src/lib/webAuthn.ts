@@ -1,9 +1,73 @@
 import { apiRequest } from './queryClient';
-import { base64URLStringToBuffer, bufferToBase64URLString } from './auth';
+import { base64URLStringToBuffer, bufferToBase64URLString, isWebAuthnSupported } from './auth';
 
 // Keep track of the current challenge - use local variable for immediate access
 let currentChallenge: string | null = null;
 
+// PRF output from the most recent passkey assertion, held until the vault takes it
+let lastPrfSecret: { credentialId: string; secret: ArrayBuffer } | null = null;
+
+// Convert the server's PRF request (base64url salts per credential) into WebAuthn inputs
+function toPrfExtensionInputs(extensions: any): AuthenticationExtensionsClientInputs | undefined {
+  const evalByCredential = extensions?.prf?.evalByCredential;
+  if (!evalByCredential) {
+    return undefined;
+  }
+
+  return {
+    prf: {
+      evalByCredential: Object.fromEntries(
+        Object.entries(evalByCredential).map(([credentialId, values]: [string, any]) => [
+          credentialId,
+          { first: base64URLStringToBuffer(values.first) },
+        ]),
+      ),
+    },
+  } as AuthenticationExtensionsClientInputs;
+}
+
+// Client extension results, including PRF, which TypeScript's DOM lib doesn't declare yet
+interface PrfExtensionOutputs extends AuthenticationExtensionsClientOutputs {
+  prf?: { enabled?: boolean; results?: { first?: ArrayBuffer } };
+}
+
+function getExtensionResults(credential: PublicKeyCredential): PrfExtensionOutputs {
+  return credential.getClientExtensionResults() || {};
+}
+
+// Remember the PRF output of an assertion, if the authenticator produced one
+function capturePrfSecret(credential: PublicKeyCredential) {
+  const results = getExtensionResults(credential).prf?.results;
+  if (results?.first) {
+    lastPrfSecret = { credentialId: bufferToBase64URLString(credential.rawId), secret: results.first };
+  }
+}
+
+// Extension results for the server. PRF outputs are vault secrets and never
+// leave the browser; the server only learns whether PRF worked.
+function serializeExtensionResults(credential: PublicKeyCredential) {
+  const { prf, ...results } = getExtensionResults(credential);
+  if (!prf) {
+    return results;
+  }
+  return { ...results, prf: { enabled: prf.enabled, evaluated: !!prf.results?.first } };
+}
+
+// Hand the PRF output of the last passkey assertion to the caller, once
+export function takePrfSecret(credentialId?: string): { credentialId: string; secret: ArrayBuffer } | null {
+  const prfSecret = lastPrfSecret;
+  if (!prfSecret || (credentialId && prfSecret.credentialId !== credentialId)) {
+    return null;
+  }
+  lastPrfSecret = null;
+  return prfSecret;
+}
+
+// Whether a PRF output is waiting to be used
+export function hasPrfSecret(): boolean {
+  return lastPrfSecret !== null;
+}
+
 // Start WebAuthn registration
 export async function startRegistration(email: string): Promise<PublicKeyCredentialCreationOptions> {
   try {
@@ -111,7 +175,7 @@ export async function completeRegistration(email: string, credential: any) {
       clientDataJSON,
     },
     authenticatorAttachment: credential.authenticatorAttachment,
-    clientExtensionResults: credential.clientExtensionResults || {},
+    clientExtensionResults: serializeExtensionResults(credential),
     transports: credential.response.getTransports ? credential.response.getTransports() : undefined,
   };
 
@@ -199,7 +263,8 @@ export async function startLogin(email: string): Promise<PublicKeyCredentialRequ
       allowCredentials: data.allowCredentials ? data.allowCredentials.map((credential: any) => ({
         ...credential,
         id: base64URLStringToBuffer(credential.id),
-      })) : undefined
+      })) : undefined,
+      extensions: toPrfExtensionInputs(data.extensions),
     };
     
     // Also store the challenge in session storage as a backup
@@ -252,10 +317,12 @@ export async function completeLogin(email: string, credential: any) {
       signature: bufferToBase64URLString(credential.response.signature),
       userHandle: credential.response.userHandle ? bufferToBase64URLString(credential.response.userHandle) : null,
     },
-    // Ensure clientExtensionResults is always a valid object even if undefined
-    clientExtensionResults: credential.clientExtensionResults || {},
+    clientExtensionResults: serializeExtensionResults(credential),
   };
 
+  // Keep the PRF output so the vault can unlock right after sign-in
+  capturePrfSecret(credential);
+
   // Include the expected challenge directly and handle the response properly
   const apiResponse = await apiRequest('POST', '/api/auth/login/complete', { 
     email, 
@@ -292,12 +359,10 @@ export async function completeLogin(email: string, credential: any) {
   return await apiResponse.json();
 }
 
-// Get QR code for login
-export async function getQRCodeChallenge(email?: string) {
+// Get QR code for login; the account is chosen by the phone that approves it
+export async function getQRCodeChallenge() {
   try {
-    // Email is now optional - server supports anonymous QR codes
-    const payload = email ? { email } : {};
-    const response = await apiRequest('POST', '/api/auth/qrcode', payload);
+    const response = await apiRequest('POST', '/api/auth/qrcode', {});
     
     if (!response.ok) {
       let errorMessage;
@@ -369,3 +434,298 @@ export async function verifyQRCode(challengeId: string) {
     throw error;
   }
 }
+
+// Read the server's error message from a failed response
+async function readErrorMessage(response: Response, fallback: string): Promise<string> {
+  try {
+    const errorData = await response.clone().json();
+    return errorData.message || `${fallback} with status ${response.status}`;
+  } catch (e) {
+    return `${fallback} with status ${response.status}`;
+  }
+}
+
+// Serialize an assertion from navigator.credentials.get for the server
+export function serializeAssertion(credential: PublicKeyCredential) {
+  const response = credential.response as AuthenticatorAssertionResponse;
+  return {
+    id: credential.id,
+    rawId: bufferToBase64URLString(credential.rawId),
+    type: credential.type,
+    response: {
+      authenticatorData: bufferToBase64URLString(response.authenticatorData),
+      clientDataJSON: bufferToBase64URLString(response.clientDataJSON),
+      signature: bufferToBase64URLString(response.signature),
+      userHandle: response.userHandle ? bufferToBase64URLString(response.userHandle) : null,
+    },
+    clientExtensionResults: serializeExtensionResults(credential),
+  };
+}
+
+// Start usernameless login: no email, the authenticator picks the account
+export async function startDiscoverableLogin(
+  mediation: 'optional' | 'conditional' = 'optional',
+): Promise<PublicKeyCredentialRequestOptions> {
+  const response = await apiRequest('POST', '/api/auth/login/discoverable/start', { mediation });
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, 'Login start failed'));
+  }
+
+  const data = await response.json();
+  return {
+    ...data,
+    challenge: base64URLStringToBuffer(data.challenge),
+    allowCredentials: [],
+  };
+}
+
+// Complete usernameless login; the server resolves the user from the userHandle
+export async function completeDiscoverableLogin(credential: PublicKeyCredential) {
+  const response = await apiRequest('POST', '/api/auth/login/discoverable/complete', {
+    credential: serializeAssertion(credential),
+  });
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, 'Login failed'));
+  }
+
+  return await response.json();
+}
+
+// Run the whole usernameless ceremony. Resolves with `{ user }` or an MFA challenge.
+export async function signInWithDiscoverablePasskey() {
+  const options = await startDiscoverableLogin();
+  const credential = await navigator.credentials.get({ publicKey: options });
+  if (!credential) {
+    throw new Error('No passkey was selected');
+  }
+  return await completeDiscoverableLogin(credential as PublicKeyCredential);
+}
+
+// Check whether the browser can offer passkeys in form autofill
+export async function isConditionalMediationAvailable(): Promise<boolean> {
+  if (!isWebAuthnSupported() || typeof PublicKeyCredential.isConditionalMediationAvailable !== 'function') {
+    return false;
+  }
+  return await PublicKeyCredential.isConditionalMediationAvailable();
+}
+
+// Passkey autofill: keeps a conditional request pending until the user picks a
+// passkey from the autofill dropdown. Resolves with null if `signal` aborts it,
+// which callers must do before starting any other WebAuthn ceremony.
+export async function signInWithConditionalPasskey(signal: AbortSignal) {
+  try {
+    const options = await startDiscoverableLogin('conditional');
+    const credential = await navigator.credentials.get({
+      mediation: 'conditional',
+      publicKey: options,
+      signal,
+    });
+    if (!credential) {
+      return null;
+    }
+    return await completeDiscoverableLogin(credential as PublicKeyCredential);
+  } catch (error) {
+    if (signal.aborted || (error instanceof DOMException && error.name === 'AbortError')) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Re-confirm the signed-in user's identity with one of their passkeys before a
+// sensitive action; the server accepts the action for a few minutes afterwards.
+// Pass `prfRequest` to use one specific passkey and evaluate PRF with a new salt.
+export async function reauthenticateWithPasskey(prfRequest?: { credentialId: string; salt: string }) {
+  const startResponse = await apiRequest('POST', '/api/auth/reauthenticate/start', {});
+  if (!startResponse.ok) {
+    throw new Error(await readErrorMessage(startResponse, 'Re-authentication failed'));
+  }
+
+  const data = await startResponse.json();
+  const allowCredentials = prfRequest
+    ? data.allowCredentials.filter((allowed: any) => allowed.id === prfRequest.credentialId)
+    : data.allowCredentials;
+  const extensions = prfRequest
+    ? { prf: { evalByCredential: { [prfRequest.credentialId]: { first: prfRequest.salt } } } }
+    : data.extensions;
+
+  const credential = await navigator.credentials.get({
+    publicKey: {
+      ...data,
+      challenge: base64URLStringToBuffer(data.challenge),
+      allowCredentials: allowCredentials.map((allowed: any) => ({
+        ...allowed,
+        id: base64URLStringToBuffer(allowed.id),
+      })),
+      extensions: toPrfExtensionInputs(extensions),
+    },
+  });
+  if (!credential) {
+    throw new Error('No passkey was selected');
+  }
+  capturePrfSecret(credential as PublicKeyCredential);
+
+  const completeResponse = await apiRequest('POST', '/api/auth/reauthenticate/complete', {
+    credential: serializeAssertion(credential as PublicKeyCredential),
+  });
+  if (!completeResponse.ok) {
+    throw new Error(await readErrorMessage(completeResponse, 'Re-authentication failed'));
+  }
+
+  return await completeResponse.json();
+}
+
+// Re-confirm the signed-in user's identity with their account password
+export async function reauthenticateWithPassword(password: string) {
+  const response = await apiRequest('POST', '/api/auth/reauthenticate/complete', { password });
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, 'Re-authentication failed'));
+  }
+
+  return await response.json();
+}
+
+// Re-authenticate with the account password when one is given, otherwise with a passkey
+export async function confirmIdentity(password?: string) {
+  if (password) {
+    return await reauthenticateWithPassword(password);
+  }
+  return await reauthenticateWithPasskey();
+}
+
+// Add a passkey to the signed-in account. The user must have re-authenticated
+// within the last few minutes; passkeys they already have are excluded.
+export async function addPasskey(nickname?: string) {
+  const startResponse = await apiRequest('POST', '/api/credentials/register/start', {});
+  if (!startResponse.ok) {
+    throw new Error(await readErrorMessage(startResponse, 'Adding a passkey failed'));
+  }
+
+  const data = await startResponse.json();
+  const credential = await navigator.credentials.create({
+    publicKey: {
+      ...data,
+      challenge: base64URLStringToBuffer(data.challenge),
+      user: {
+        ...data.user,
+        id: base64URLStringToBuffer(data.user.id),
+      },
+      excludeCredentials: data.excludeCredentials.map((excluded: any) => ({
+        ...excluded,
+        id: base64URLStringToBuffer(excluded.id),
+      })),
+    },
+  }) as PublicKeyCredential | null;
+  if (!credential) {
+    throw new Error('Passkey creation was cancelled');
+  }
+
+  const response = credential.response as AuthenticatorAttestationResponse;
+  const completeResponse = await apiRequest('POST', '/api/credentials/register/complete', {
+    credential: {
+      id: credential.id,
+      rawId: bufferToBase64URLString(credential.rawId),
+      type: credential.type,
+      response: {
+        attestationObject: bufferToBase64URLString(response.attestationObject),
+        clientDataJSON: bufferToBase64URLString(response.clientDataJSON),
+      },
+      authenticatorAttachment: credential.authenticatorAttachment ?? undefined,
+      clientExtensionResults: serializeExtensionResults(credential),
+      transports: response.getTransports ? response.getTransports() : undefined,
+    },
+    ...(nickname ? { nickname } : {}),
+  });
+  if (!completeResponse.ok) {
+    throw new Error(await readErrorMessage(completeResponse, 'Adding a passkey failed'));
+  }
+
+  return await completeResponse.json();
+}
+
+// Phone side of QR login: fetch the requesting device's details and the
+// passkey challenge needed to approve it
+export async function scanQRCode(code: string) {
+  const response = await apiRequest('POST', '/api/auth/qrcode/scan', { code });
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, 'Could not read QR code'));
+  }
+
+  return await response.json();
+}
+
+// Approve a scanned QR login with one of the signed-in user's passkeys
+export async function approveQRCode(code: string, options: any) {
+  const credential = await navigator.credentials.get({
+    publicKey: {
+      ...options,
+      challenge: base64URLStringToBuffer(options.challenge),
+      allowCredentials: options.allowCredentials.map((allowed: any) => ({
+        ...allowed,
+        id: base64URLStringToBuffer(allowed.id),
+      })),
+    },
+  });
+  if (!credential) {
+    throw new Error('No passkey was selected');
+  }
+
+  const response = await apiRequest('POST', '/api/auth/qrcode/approve', {
+    code,
+    credential: serializeAssertion(credential as PublicKeyCredential),
+  });
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, 'Approval failed'));
+  }
+
+  return await response.json();
+}
+
+// Reject a QR login request
+export async function denyQRCode(code: string) {
+  const response = await apiRequest('POST', '/api/auth/qrcode/deny', { code });
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, 'Could not deny sign-in'));
+  }
+
+  return await response.json();
+}
+
+export type QRLoginEvent = 'created' | 'scanned' | 'approved' | 'denied' | 'expired';
+
+// Listen for QR login state changes pushed by the server. Calls `onError` if
+// the stream can't be used (callers fall back to polling). Returns a function
+// that closes the stream.
+export function watchQRCodeStatus(
+  challengeId: string,
+  onEvent: (event: QRLoginEvent) => void,
+  onError: () => void,
+): () => void {
+  if (typeof EventSource === 'undefined') {
+    onError();
+    return () => {};
+  }
+
+  const source = new EventSource(`/api/auth/qrcode/${challengeId}/events`, { withCredentials: true });
+  const events: QRLoginEvent[] = ['created', 'scanned', 'approved', 'denied', 'expired'];
+  let finished = false;
+
+  events.forEach((event) => {
+    source.addEventListener(event, () => {
+      if (event === 'approved' || event === 'denied' || event === 'expired') {
+        finished = true;
+        source.close();
+      }
+      onEvent(event);
+    });
+  });
+
+  source.onerror = () => {
+    // The server closes the stream after a final event; anything else is a failure
+    if (finished) return;
+    source.close();
+    onError();
+  };
+
+  return () => source.close();
+}
@@ -41,9 +41,12 @@ export default function AuthLayout() {
         {/* Screens */}
         <div className="auth-container">
           {currentScreen === "email" && (
-            <EmailInputScreen onNext={(isRegistered) => 
-              setCurrentScreen(isRegistered ? "passkeyLogin" : "passkeyCreation")
-            } />
+            <EmailInputScreen 
+              onNext={(isRegistered) => 
+                setCurrentScreen(isRegistered ? "passkeyLogin" : "passkeyCreation")
+              }
+              onPasskeySignIn={() => setCurrentScreen("success")}
+            />
           )}
           
           {currentScreen === "passkeyCreation" && (
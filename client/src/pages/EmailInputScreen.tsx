@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect, useRef } from "react";
 import { z } from "zod";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -10,6 +10,12 @@ import { useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/context/AuthContext";
+import {
+  signInWithDiscoverablePasskey,
+  signInWithConditionalPasskey,
+  isConditionalMediationAvailable,
+} from "@/lib/webAuthn";
+import MfaVerificationForm from "@/components/MfaVerificationForm";
 
 const formSchema = z.object({
   email: z.string().email("Please enter a valid email address"),
@@ -17,12 +23,17 @@ const formSchema = z.object({
 
 interface EmailInputScreenProps {
   onNext: (isRegistered: boolean) => void;
+  onPasskeySignIn: () => void;
 }
 
-export default function EmailInputScreen({ onNext }: EmailInputScreenProps) {
+export default function EmailInputScreen({ onNext, onPasskeySignIn }: EmailInputScreenProps) {
   const [isLoading, setIsLoading] = useState(false);
+  const [isPasskeyLoading, setIsPasskeyLoading] = useState(false);
+  const [mfaData, setMfaData] = useState<any>(null);
   const { toast } = useToast();
-  const { setEmail } = useAuth();
+  const { setEmail, setUser } = useAuth();
+  const conditionalRequestRef = useRef<AbortController | null>(null);
+  const mountedRef = useRef(false);
   
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
@@ -78,11 +89,97 @@ export default function EmailInputScreen({ onNext }: EmailInputScreenProps) {
     }
   });
   
+  // Handle the result of a passkey sign-in (modal or autofill)
+  const handlePasskeyResult = (result: any) => {
+    if (result.requiresMfa) {
+      setMfaData(result);
+      return;
+    }
+    
+    setUser(result.user);
+    setEmail(result.user.email);
+    onPasskeySignIn();
+  };
+  
+  // Cancel the pending autofill request; only one WebAuthn request may run at a time
+  const abortConditionalRequest = () => {
+    conditionalRequestRef.current?.abort();
+    conditionalRequestRef.current = null;
+  };
+  
+  // Offer passkeys in the email field's autofill dropdown
+  const startConditionalRequest = async () => {
+    if (!(await isConditionalMediationAvailable()) || !mountedRef.current) {
+      return;
+    }
+    
+    const controller = new AbortController();
+    conditionalRequestRef.current = controller;
+    signInWithConditionalPasskey(controller.signal)
+      .then((result) => {
+        if (result) {
+          handlePasskeyResult(result);
+        }
+      })
+      .catch((error) => {
+        console.error("Passkey autofill sign-in failed:", error);
+        toast({
+          title: "Login Error",
+          description: error instanceof Error ? error.message : "Could not sign in with a passkey",
+          variant: "destructive",
+        });
+      });
+  };
+  
+  useEffect(() => {
+    mountedRef.current = true;
+    startConditionalRequest();
+    
+    return () => {
+      mountedRef.current = false;
+      abortConditionalRequest();
+    };
+  }, []);
+  
   function onSubmit(values: z.infer<typeof formSchema>) {
+    abortConditionalRequest();
     setIsLoading(true);
     checkUserMutation.mutate(values.email);
   }
   
+  // Usernameless sign-in with a discoverable passkey, skipping the email step
+  const handlePasskeySignIn = async () => {
+    try {
+      abortConditionalRequest();
+      setIsPasskeyLoading(true);
+      handlePasskeyResult(await signInWithDiscoverablePasskey());
+    } catch (error) {
+      console.error("Error signing in with passkey:", error);
+      const declined = error instanceof DOMException && error.name === "NotAllowedError";
+      toast({
+        title: declined ? "Authentication Declined" : "Login Error",
+        description: declined
+          ? "You declined the authentication request. Please try again."
+          : error instanceof Error ? error.message : "Could not sign in with a passkey",
+        variant: "destructive",
+      });
+    } finally {
+      setIsPasskeyLoading(false);
+      // Bring the autofill suggestions back for another attempt
+      startConditionalRequest();
+    }
+  };
+  
+  if (mfaData) {
+    return (
+      <MfaVerificationForm
+        mfaData={mfaData}
+        onSuccess={onPasskeySignIn}
+        onCancel={() => setMfaData(null)}
+      />
+    );
+  }
+  
   return (
     <Card className="bg-white rounded-xl shadow-[0_4px_14px_0_rgba(0,0,0,0.1)]">
       <CardContent className="pt-6">
@@ -102,6 +199,7 @@ export default function EmailInputScreen({ onNext }: EmailInputScreenProps) {
                   <FormControl>
                     <Input 
                       placeholder="you@example.com" 
+                      autoComplete="username webauthn"
                       className="w-full py-3 px-4 border border-[#E5E5EA] rounded-xl focus:ring-2 focus:ring-[#007AFF]"
                       {...field}
                     />
@@ -119,6 +217,23 @@ export default function EmailInputScreen({ onNext }: EmailInputScreenProps) {
             </Button>
           </form>
         </Form>
+        
+        <div className="relative flex items-center my-5">
+          <div className="flex-grow border-t border-[#E5E5EA]"></div>
+          <span className="mx-3 text-[#8E8E93] text-sm">or</span>
+          <div className="flex-grow border-t border-[#E5E5EA]"></div>
+        </div>
+        
+        <Button
+          type="button"
+          variant="outline"
+          className="w-full py-3 px-4 rounded-[22px] font-medium"
+          onClick={handlePasskeySignIn}
+          disabled={isPasskeyLoading}
+        >
+          <i className="fas fa-fingerprint mr-2"></i>
+          {isPasskeyLoading ? "Waiting for passkey..." : "Sign in with a passkey"}
+        </Button>
       </CardContent>
     </Card>
   );
@@ -1,6 +1,6 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Plus, Search, ShieldCheck, X, LogOut, ShieldAlert } from "lucide-react";
+import { Plus, Search, ShieldCheck, X, LogOut, ShieldAlert, KeyRound, Lock, FileUp, Download } from "lucide-react";
 import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -12,8 +12,19 @@ import { PasswordForm } from "@/components/ui/password-form";
 import { PasswordCard } from "@/components/ui/password-card";
 import { ConfirmDialog } from "@/components/ui/confirm-dialog";
 import { SecurityReport } from "@/components/ui/security-report";
+import { PasskeyManager } from "@/components/ui/passkey-manager";
+import { VaultUnlock } from "@/components/ui/vault-unlock";
+import { ImportDialog } from "@/components/ui/import-dialog";
+import { ExportDialog } from "@/components/ui/export-dialog";
+import { ChangePasswordDialog } from "@/components/ui/change-password-dialog";
+import { SidebarInset, SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
+import { TrashView } from "@/components/ui/trash-view";
+import { VaultSidebar } from "@/components/ui/vault-sidebar";
+import { useVault, useVaultItems } from "@/context/VaultContext";
 import { apiRequest } from "@/lib/queryClient";
-import { SavedPassword } from "@shared/schema";
+import { VaultItem, toVaultItemData } from "@/lib/vault";
+import { VaultFilter, matchesSearch } from "@/lib/vault-items";
+import { Folder, VaultItemMetadata } from "@shared/schema";
 
 export default function Home() {
   const { user, logoutMutation } = useAuth();
@@ -24,22 +35,41 @@ export default function Home() {
   // State for managing UI components
   const [searchTerm, setSearchTerm] = useState("");
   const [isAddingPassword, setIsAddingPassword] = useState(false);
-  const [editingPassword, setEditingPassword] = useState<SavedPassword | null>(null);
+  const [editingPassword, setEditingPassword] = useState<VaultItem | null>(null);
   const [deletePasswordId, setDeletePasswordId] = useState<number | null>(null);
   const [showConfirmDialog, setShowConfirmDialog] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isChangingPassword, setIsChangingPassword] = useState(false);
+  const [filter, setFilter] = useState<VaultFilter>({ kind: "all" });
 
-  // Fetch saved passwords
+  // Fetch saved passwords and decrypt them locally. The whole vault is needed
+  // for sidebar counts and imports; the list shows the selected folder or tag.
+  const { status: vaultStatus, lock } = useVault();
+  const { items: allPasswords } = useVaultItems();
   const { 
-    data: passwords = [], 
+    items: passwords, 
     isLoading, 
     isError, 
     error
-  } = useQuery<SavedPassword[]>({
-    queryKey: ['/api/passwords'],
-    refetchOnWindowFocus: false,
+  } = useVaultItems(filter);
+
+  const { data: folders = [] } = useQuery<Folder[]>({
+    queryKey: ['/api/folders'],
+    enabled: vaultStatus === "unlocked",
+  });
+  const { data: tagData } = useQuery<{ tags: string[] }>({
+    queryKey: ['/api/passwords', 'tags'],
+    queryFn: async () => (await apiRequest('GET', '/api/passwords/tags')).json(),
+    enabled: vaultStatus === "unlocked",
+  });
+  const { data: trash } = useQuery<{ count: number; retentionDays: number }>({
+    queryKey: ['/api/passwords', 'trash'],
+    queryFn: async () => (await apiRequest('GET', '/api/trash')).json(),
+    enabled: vaultStatus === "unlocked",
   });
 
-  // Mutation for deleting passwords
+  // Mutation for moving passwords to the trash
   const deleteMutation = useMutation({
     mutationFn: async (id: number) => {
       const response = await apiRequest('DELETE', `/api/passwords/${id}`);
@@ -52,8 +82,8 @@ export default function Home() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/passwords'] });
       toast({
-        title: "Password deleted",
-        description: "Your saved password has been deleted.",
+        title: "Moved to trash",
+        description: "You can restore the item from the trash.",
       });
     },
     onError: (error) => {
@@ -65,16 +95,38 @@ export default function Home() {
     },
   });
 
+  // Favorites and tags are plain metadata, so no re-encryption is needed
+  const favoriteMutation = useMutation({
+    mutationFn: async (password: VaultItem) => {
+      await apiRequest('PATCH', `/api/passwords/${password.id}`, { favorite: !password.favorite });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/passwords'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update favorite",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // New items start out in whatever the sidebar is showing
+  const getDefaultMetadata = (): VaultItemMetadata => {
+    if (editingPassword) {
+      const { folderId, tags, favorite } = editingPassword;
+      return { folderId, tags, favorite };
+    }
+    return {
+      folderId: filter.kind === "folder" ? filter.folderId : null,
+      tags: filter.kind === "tag" ? [filter.tag] : [],
+      favorite: filter.kind === "favorites",
+    };
+  };
+
   // Filter passwords based on search term
-  const filteredPasswords = passwords ? passwords.filter((password) => {
-    const searchLower = searchTerm.toLowerCase();
-    return (
-      password.website.toLowerCase().includes(searchLower) ||
-      password.username.toLowerCase().includes(searchLower) ||
-      (password.url && password.url.toLowerCase().includes(searchLower)) ||
-      (password.notes && password.notes.toLowerCase().includes(searchLower))
-    );
-  }) : [];
+  const filteredPasswords = passwords ? passwords.filter((password) => matchesSearch(password, searchTerm)) : [];
 
   const handleLogout = () => {
     logoutMutation.mutate(undefined, {
@@ -84,7 +136,7 @@ export default function Home() {
     });
   };
 
-  const handleEditPassword = (password: SavedPassword) => {
+  const handleEditPassword = (password: VaultItem) => {
     setEditingPassword(password);
     setIsAddingPassword(true);
   };
@@ -120,192 +172,255 @@ export default function Home() {
   }
 
   return (
-    <div className="min-h-screen bg-[#F2F2F7]">
-      <div className="max-w-6xl mx-auto p-4 sm:p-6">
-        <header className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-4">
-          <div>
-            <h1 className="text-2xl font-bold flex items-center">
-              <ShieldCheck className="h-6 w-6 mr-2 text-[#007AFF]" />
-              PassKey Manager
-            </h1>
-            <p className="text-gray-600 mt-1">Securely store and manage your passwords</p>
-          </div>
-          <div className="flex items-center space-x-2 self-end sm:self-auto">
-            <Button 
-              variant="outline" 
-              className="rounded-full"
-              onClick={handleLogout}
-            >
-              <LogOut className="h-4 w-4 mr-2" />
-              Sign Out
-            </Button>
-          </div>
-        </header>
-
-        <div className="mb-6 bg-white rounded-xl shadow-sm p-4">
-          <div className="flex items-center space-x-2">
-            <div className="h-10 w-10 rounded-full bg-[#E5F1FF] flex items-center justify-center">
-              <ShieldCheck className="h-5 w-5 text-[#007AFF]" />
-            </div>
+    <SidebarProvider className="bg-[#F2F2F7]">
+      {vaultStatus === "unlocked" && (
+        <VaultSidebar
+          folders={folders}
+          tags={tagData?.tags || []}
+          items={allPasswords}
+          trashCount={trash?.count || 0}
+          filter={filter}
+          onFilterChange={setFilter}
+        />
+      )}
+      <SidebarInset className="bg-[#F2F2F7]">
+        <div className="max-w-6xl w-full mx-auto p-4 sm:p-6">
+          <header className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-4">
             <div>
-              <h2 className="font-medium">Welcome, {user?.username}</h2>
-              <p className="text-sm text-gray-600">{user?.email}</p>
+              <h1 className="text-2xl font-bold flex items-center">
+                {vaultStatus === "unlocked" && <SidebarTrigger className="mr-2" />}
+                <ShieldCheck className="h-6 w-6 mr-2 text-[#007AFF]" />
+                PassKey Manager
+              </h1>
+              <p className="text-gray-600 mt-1">Securely store and manage your passwords</p>
             </div>
-          </div>
-        </div>
-
-        <Tabs defaultValue="all" className="w-full">
-          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-4 gap-4">
-            <TabsList className="h-9 bg-gray-100 rounded-lg p-1">
-              <TabsTrigger value="all" className="rounded-md px-3 py-1 data-[state=active]:bg-white">
-                <ShieldCheck className="h-4 w-4 mr-1 inline-block" />
-                All Passwords
-              </TabsTrigger>
-              <TabsTrigger value="recent" className="rounded-md px-3 py-1 data-[state=active]:bg-white">
-                <Search className="h-4 w-4 mr-1 inline-block" />
-                Recently Used
-              </TabsTrigger>
-              <TabsTrigger value="security" className="rounded-md px-3 py-1 data-[state=active]:bg-white">
-                <ShieldAlert className="h-4 w-4 mr-1 inline-block" />
-                Security Report
-              </TabsTrigger>
-            </TabsList>
-            
-            <div className="flex w-full sm:w-auto space-x-2">
-              <div className="relative flex-1 sm:w-64">
-                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
-                <Input
-                  placeholder="Search passwords..."
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                  className="pl-9 pr-4 py-2 w-full rounded-full border-gray-200"
-                />
-                {searchTerm && (
-                  <button
-                    onClick={() => setSearchTerm("")}
-                    className="absolute right-3 top-1/2 transform -translate-y-1/2"
-                  >
-                    <X className="h-4 w-4 text-gray-400" />
-                  </button>
-                )}
-              </div>
-              
-              <Button
-                onClick={() => {
-                  setEditingPassword(null);
-                  setIsAddingPassword(true);
-                }}
-                className="bg-[#007AFF] hover:bg-[#007AFF]/90 rounded-full"
+            <div className="flex items-center space-x-2 self-end sm:self-auto">
+              {vaultStatus === "unlocked" && (
+                <Button 
+                  variant="outline" 
+                  className="rounded-full"
+                  onClick={lock}
+                >
+                  <Lock className="h-4 w-4 mr-2" />
+                  Lock Vault
+                </Button>
+              )}
+              <Button 
+                variant="outline" 
+                className="rounded-full"
+                onClick={handleLogout}
               >
-                <Plus className="h-4 w-4 mr-2" />
-                Add New
+                <LogOut className="h-4 w-4 mr-2" />
+                Sign Out
               </Button>
             </div>
+          </header>
+
+          <div className="mb-6 bg-white rounded-xl shadow-sm p-4 flex items-center justify-between gap-2">
+            <div className="flex items-center space-x-2">
+              <div className="h-10 w-10 rounded-full bg-[#E5F1FF] flex items-center justify-center">
+                <ShieldCheck className="h-5 w-5 text-[#007AFF]" />
+              </div>
+              <div>
+                <h2 className="font-medium">Welcome, {user?.username}</h2>
+                <p className="text-sm text-gray-600">{user?.email}</p>
+              </div>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => setIsChangingPassword(true)}>
+              <Lock className="h-4 w-4 mr-1" />
+              {user?.password ? "Change Password" : "Add Password"}
+            </Button>
           </div>
-          
-          <TabsContent value="all" className="mt-0">
-            {isLoading ? (
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 mt-4">
-                {[1, 2, 3].map((i) => (
-                  <Card key={i} className="h-32 animate-pulse">
-                    <CardContent className="p-4">
-                      <div className="h-4 bg-gray-200 rounded w-3/4 mb-2"></div>
-                      <div className="h-3 bg-gray-200 rounded w-1/2 mb-4"></div>
-                      <div className="h-3 bg-gray-200 rounded w-full mb-2"></div>
-                      <div className="h-3 bg-gray-200 rounded w-2/3"></div>
-                    </CardContent>
-                  </Card>
-                ))}
+
+          <Tabs defaultValue="all" className="w-full">
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-4 gap-4">
+              <TabsList className="h-9 bg-gray-100 rounded-lg p-1">
+                <TabsTrigger value="all" className="rounded-md px-3 py-1 data-[state=active]:bg-white">
+                  <ShieldCheck className="h-4 w-4 mr-1 inline-block" />
+                  All Passwords
+                </TabsTrigger>
+                <TabsTrigger value="recent" className="rounded-md px-3 py-1 data-[state=active]:bg-white">
+                  <Search className="h-4 w-4 mr-1 inline-block" />
+                  Recently Used
+                </TabsTrigger>
+                <TabsTrigger value="security" className="rounded-md px-3 py-1 data-[state=active]:bg-white">
+                  <ShieldAlert className="h-4 w-4 mr-1 inline-block" />
+                  Security Report
+                </TabsTrigger>
+                <TabsTrigger value="passkeys" className="rounded-md px-3 py-1 data-[state=active]:bg-white">
+                  <KeyRound className="h-4 w-4 mr-1 inline-block" />
+                  Passkeys
+                </TabsTrigger>
+              </TabsList>
+              
+              <div className="flex w-full sm:w-auto space-x-2">
+                <div className="relative flex-1 sm:w-64">
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                  <Input
+                    placeholder="Search vault..."
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    className="pl-9 pr-4 py-2 w-full rounded-full border-gray-200"
+                  />
+                  {searchTerm && (
+                    <button
+                      onClick={() => setSearchTerm("")}
+                      className="absolute right-3 top-1/2 transform -translate-y-1/2"
+                    >
+                      <X className="h-4 w-4 text-gray-400" />
+                    </button>
+                  )}
+                </div>
+                
+                <Button
+                  variant="outline"
+                  onClick={() => setIsImporting(true)}
+                  disabled={vaultStatus !== "unlocked"}
+                  className="rounded-full"
+                >
+                  <FileUp className="h-4 w-4 mr-2" />
+                  Import
+                </Button>
+                
+                <Button
+                  variant="outline"
+                  onClick={() => setIsExporting(true)}
+                  disabled={vaultStatus !== "unlocked"}
+                  className="rounded-full"
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  Export
+                </Button>
+                
+                <Button
+                  onClick={() => {
+                    setEditingPassword(null);
+                    setIsAddingPassword(true);
+                  }}
+                  disabled={vaultStatus !== "unlocked"}
+                  className="bg-[#007AFF] hover:bg-[#007AFF]/90 rounded-full"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add New
+                </Button>
               </div>
-            ) : filteredPasswords.length === 0 ? (
+            </div>
+            
+            <TabsContent value="all" className="mt-0">
+              {vaultStatus !== "unlocked" ? (
+                <VaultUnlock />
+              ) : isLoading ? (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 mt-4">
+                  {[1, 2, 3].map((i) => (
+                    <Card key={i} className="h-32 animate-pulse">
+                      <CardContent className="p-4">
+                        <div className="h-4 bg-gray-200 rounded w-3/4 mb-2"></div>
+                        <div className="h-3 bg-gray-200 rounded w-1/2 mb-4"></div>
+                        <div className="h-3 bg-gray-200 rounded w-full mb-2"></div>
+                        <div className="h-3 bg-gray-200 rounded w-2/3"></div>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              ) : filter.kind === "trash" ? (
+                <TrashView items={filteredPasswords} retentionDays={trash?.retentionDays || 30} />
+              ) : filteredPasswords.length === 0 ? (
+                <div className="bg-white rounded-xl shadow-sm p-8 text-center">
+                  <div className="flex justify-center">
+                    <div className="h-12 w-12 rounded-full bg-[#E5F1FF] flex items-center justify-center mb-4">
+                      <ShieldCheck className="h-6 w-6 text-[#007AFF]" />
+                    </div>
+                  </div>
+                  <h3 className="text-lg font-medium mb-2">
+                    {searchTerm
+                      ? "No matching passwords found"
+                      : filter.kind !== "all" ? "Nothing here yet" : "No saved passwords yet"}
+                  </h3>
+                  <p className="text-gray-600 max-w-md mx-auto mb-6">
+                    {searchTerm
+                      ? "Try a different search term or clear your search."
+                      : filter.kind !== "all"
+                        ? "Items you add while viewing this folder, tag or favorites list are placed here."
+                        : "Add your first password with the 'Add New' button above, or import them from your browser or another password manager."}
+                  </p>
+                  {searchTerm ? (
+                    <Button
+                      variant="outline"
+                      onClick={() => setSearchTerm("")}
+                      className="rounded-full"
+                    >
+                      Clear Search
+                    </Button>
+                  ) : (
+                    <Button
+                      onClick={() => {
+                        setEditingPassword(null);
+                        setIsAddingPassword(true);
+                      }}
+                      className="bg-[#007AFF] hover:bg-[#007AFF]/90 rounded-full"
+                    >
+                      <Plus className="h-4 w-4 mr-2" />
+                      Add New Password
+                    </Button>
+                  )}
+                </div>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 mt-4">
+                  {filteredPasswords.map((password) => (
+                    <PasswordCard
+                      key={password.id}
+                      password={password}
+                      onEdit={handleEditPassword}
+                      onDelete={handleDeletePassword}
+                      onToggleFavorite={(item) => favoriteMutation.mutate(item)}
+                      onTagClick={(tag) => setFilter({ kind: "tag", tag })}
+                    />
+                  ))}
+                </div>
+              )}
+            </TabsContent>
+            
+            <TabsContent value="recent" className="mt-0">
               <div className="bg-white rounded-xl shadow-sm p-8 text-center">
                 <div className="flex justify-center">
                   <div className="h-12 w-12 rounded-full bg-[#E5F1FF] flex items-center justify-center mb-4">
                     <ShieldCheck className="h-6 w-6 text-[#007AFF]" />
                   </div>
                 </div>
-                <h3 className="text-lg font-medium mb-2">
-                  {searchTerm ? "No matching passwords found" : "No saved passwords yet"}
-                </h3>
+                <h3 className="text-lg font-medium mb-2">Recent Passwords</h3>
                 <p className="text-gray-600 max-w-md mx-auto mb-6">
-                  {searchTerm
-                    ? "Try a different search term or clear your search."
-                    : "Add your first password by clicking the 'Add New' button above."}
+                  This feature will track your recently used passwords. 
+                  Feature coming soon!
                 </p>
-                {searchTerm ? (
-                  <Button
-                    variant="outline"
-                    onClick={() => setSearchTerm("")}
-                    className="rounded-full"
-                  >
-                    Clear Search
-                  </Button>
-                ) : (
-                  <Button
-                    onClick={() => {
-                      setEditingPassword(null);
-                      setIsAddingPassword(true);
-                    }}
-                    className="bg-[#007AFF] hover:bg-[#007AFF]/90 rounded-full"
-                  >
-                    <Plus className="h-4 w-4 mr-2" />
-                    Add New Password
-                  </Button>
-                )}
-              </div>
-            ) : (
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 mt-4">
-                {filteredPasswords.map((password) => (
-                  <PasswordCard
-                    key={password.id}
-                    password={password}
-                    onEdit={handleEditPassword}
-                    onDelete={handleDeletePassword}
-                  />
-                ))}
               </div>
-            )}
-          </TabsContent>
-          
-          <TabsContent value="recent" className="mt-0">
-            <div className="bg-white rounded-xl shadow-sm p-8 text-center">
-              <div className="flex justify-center">
-                <div className="h-12 w-12 rounded-full bg-[#E5F1FF] flex items-center justify-center mb-4">
-                  <ShieldCheck className="h-6 w-6 text-[#007AFF]" />
+            </TabsContent>
+            
+            <TabsContent value="security" className="mt-0">
+              {vaultStatus !== "unlocked" ? (
+                <VaultUnlock />
+              ) : (
+                <div className="bg-white rounded-xl shadow-sm p-4">
+                  <SecurityReport />
                 </div>
+              )}
+            </TabsContent>
+            
+            <TabsContent value="passkeys" className="mt-0">
+              <div className="bg-white rounded-xl shadow-sm p-4">
+                <PasskeyManager />
               </div>
-              <h3 className="text-lg font-medium mb-2">Recent Passwords</h3>
-              <p className="text-gray-600 max-w-md mx-auto mb-6">
-                This feature will track your recently used passwords. 
-                Feature coming soon!
-              </p>
-            </div>
-          </TabsContent>
-          
-          <TabsContent value="security" className="mt-0">
-            <div className="bg-white rounded-xl shadow-sm p-4">
-              <SecurityReport />
-            </div>
-          </TabsContent>
-        </Tabs>
-      </div>
+            </TabsContent>
+          </Tabs>
+        </div>
+      </SidebarInset>
 
-      {isAddingPassword && (
+      {isAddingPassword && vaultStatus === "unlocked" && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
           <div className="bg-white rounded-xl shadow-xl w-full max-w-md p-6 max-h-[90vh] overflow-y-auto">
             <PasswordForm
               passwordId={editingPassword?.id}
-              defaultValues={
-                editingPassword
-                  ? {
-                      website: editingPassword.website,
-                      url: editingPassword.url || "",
-                      username: editingPassword.username,
-                      password: editingPassword.password,
-                      notes: editingPassword.notes || "",
-                    }
-                  : undefined
-              }
+              defaultValues={editingPassword ? toVaultItemData(editingPassword) : undefined}
+              defaultMetadata={getDefaultMetadata()}
               onSave={handleSavePassword}
               onCancel={handleCancelForm}
             />
@@ -313,16 +428,32 @@ export default function Home() {
         </div>
       )}
 
+      <ImportDialog
+        isOpen={isImporting && vaultStatus === "unlocked"}
+        onClose={() => setIsImporting(false)}
+        existingItems={allPasswords}
+      />
+
+      <ExportDialog
+        isOpen={isExporting && vaultStatus === "unlocked"}
+        onClose={() => setIsExporting(false)}
+      />
+
+      <ChangePasswordDialog
+        isOpen={isChangingPassword}
+        onClose={() => setIsChangingPassword(false)}
+      />
+
       <ConfirmDialog
         isOpen={showConfirmDialog}
         onClose={() => setShowConfirmDialog(false)}
         onConfirm={confirmDeletePassword}
         title="Delete Password"
-        description="Are you sure you want to delete this password? This action cannot be undone."
+        description={`Move this item to the trash? It can be restored for ${trash?.retentionDays || 30} days before it is deleted permanently.`}
         confirmText="Delete"
         cancelText="Cancel"
         variant="destructive"
       />
-    </div>
+    </SidebarProvider>
   );
 }
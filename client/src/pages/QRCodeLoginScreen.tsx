@@ -1,7 +1,7 @@
 import { useState, useEffect, useRef } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { getQRCodeChallenge, verifyQRCode } from "@/lib/webAuthn";
+import { getQRCodeChallenge, verifyQRCode, watchQRCodeStatus } from "@/lib/webAuthn";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/context/AuthContext";
 import { formatRemainingTime } from "@/lib/auth";
@@ -16,28 +16,27 @@ export default function QRCodeLoginScreen({ onBack, onSuccess }: QRCodeLoginScre
   const [isLoading, setIsLoading] = useState(true);
   const [challenge, setChallenge] = useState<{id: string, qrCode: string, expiresAt: string} | null>(null);
   const [timeRemaining, setTimeRemaining] = useState<string>("5:00");
+  const [isScanned, setIsScanned] = useState(false);
   const qrCanvasRef = useRef<HTMLCanvasElement>(null);
   const pollingRef = useRef<NodeJS.Timeout | null>(null);
+  const streamCloseRef = useRef<(() => void) | null>(null);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
   const { toast } = useToast();
-  const { email, setUser, setEmail } = useAuth();
+  const { setUser, setEmail } = useAuth();
   
   // Generate QR code challenge
   const generateQRCode = async () => {
-    // We'll allow QR code generation even without an email
-    // This makes cross-device login more flexible
-    
     try {
       setIsLoading(true);
+      setIsScanned(false);
       
-      // Stop previous polling and timer
-      if (pollingRef.current) clearInterval(pollingRef.current);
+      // Stop previous status listener and timer
+      stopWatching();
       if (timerRef.current) clearInterval(timerRef.current);
       
       let data;
       try {
-        // We'll pass the email if available, but it's now optional
-        data = await getQRCodeChallenge(email || undefined);
+        data = await getQRCodeChallenge();
       } catch (error) {
         console.error("Error fetching QR challenge:", error);
         toast({
@@ -92,8 +91,8 @@ export default function QRCodeLoginScreen({ onBack, onSuccess }: QRCodeLoginScre
         }
       }, 100);
       
-      // Start polling for verification
-      startPolling(data.id);
+      // Listen for the phone's approval
+      startWatching(data.id);
       
       // Start countdown timer
       startTimer(new Date(data.expiresAt));
@@ -114,7 +113,82 @@ export default function QRCodeLoginScreen({ onBack, onSuccess }: QRCodeLoginScre
     }
   };
   
-  // Start polling for QR code verification
+  // Stop listening for QR code status by either channel
+  const stopWatching = () => {
+    if (pollingRef.current) clearInterval(pollingRef.current);
+    streamCloseRef.current?.();
+    streamCloseRef.current = null;
+  };
+  
+  // Ask the server for the QR code's state and claim the session once approved
+  const checkStatus = async (challengeId: string) => {
+    const response = await verifyQRCode(challengeId);
+    
+    // The phone opened the approval screen but hasn't approved yet
+    setIsScanned(response.status === 'scanned');
+    
+    if (response.status === 'denied') {
+      stopWatching();
+      if (timerRef.current) clearInterval(timerRef.current);
+      
+      toast({
+        title: "Sign-in denied",
+        description: "The sign-in was rejected on your other device.",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    if (response.verified) {
+      stopWatching();
+      
+      // Stop the timer
+      if (timerRef.current) clearInterval(timerRef.current);
+      
+      // Update authentication state
+      setUser(response.user);
+      
+      // Also update the email context with the user's email
+      // This ensures the email is available for future login attempts
+      setEmail(response.user.email);
+      
+      toast({
+        title: "Success",
+        description: "QR code authentication successful",
+      });
+      
+      onSuccess();
+    }
+  };
+  
+  // Wait for the server to push status changes; poll if the stream fails
+  const startWatching = (challengeId: string) => {
+    stopWatching();
+    
+    streamCloseRef.current = watchQRCodeStatus(
+      challengeId,
+      (event) => {
+        if (event === 'scanned') {
+          setIsScanned(true);
+        } else if (event === 'approved' || event === 'denied') {
+          checkStatus(challengeId).catch((error) => {
+            console.error("Error verifying QR code:", error);
+            toast({
+              title: "Error",
+              description: error instanceof Error ? error.message : "Could not complete QR code sign-in",
+              variant: "destructive",
+            });
+          });
+        }
+      },
+      () => {
+        console.warn("QR code status stream unavailable, falling back to polling");
+        startPolling(challengeId);
+      },
+    );
+  };
+  
+  // Fallback: poll for QR code verification
   const startPolling = (challengeId: string) => {
     // Clear existing polling interval
     if (pollingRef.current) {
@@ -124,52 +198,18 @@ export default function QRCodeLoginScreen({ onBack, onSuccess }: QRCodeLoginScre
     let failedAttempts = 0;
     const maxFailedAttempts = 3;
     
-    // Poll every 2 seconds to check if QR code has been verified
+    // Poll every 3 seconds to check if QR code has been verified
     pollingRef.current = setInterval(async () => {
       try {
-        const response = await verifyQRCode(challengeId);
+        await checkStatus(challengeId);
         
         // Reset failed attempts counter
         failedAttempts = 0;
-        
-        if (response.verified) {
-          // Stop polling and update user
-          if (pollingRef.current) clearInterval(pollingRef.current);
-          
-          // Stop the timer
-          if (timerRef.current) clearInterval(timerRef.current);
-          
-          // Update authentication state
-          setUser(response.user);
-          
-          // Also update the email context with the user's email
-          // This ensures the email is available for future login attempts
-          setEmail(response.user.email);
-          
-          toast({
-            title: "Success",
-            description: "QR code authentication successful",
-          });
-          
-          onSuccess();
-        }
       } catch (error) {
         failedAttempts++;
         console.error(`Error verifying QR code (attempt ${failedAttempts}/${maxFailedAttempts}):`, error);
         
-        // Check if error is about anonymous QR code requiring authentication
-        const errorMessage = error instanceof Error ? error.message : "";
-        if (errorMessage.includes("requires authentication") || 
-            errorMessage.includes("requiresAuthentication")) {
-          // Handle anonymous QR code that requires a logged-in user to scan
-          if (pollingRef.current) clearInterval(pollingRef.current);
-          
-          toast({
-            title: "Authentication Required",
-            description: "This QR code requires you to be logged in on the scanning device.",
-            variant: "destructive",
-          });
-        } else if (failedAttempts >= maxFailedAttempts) {
+        if (failedAttempts >= maxFailedAttempts) {
           // If we've had too many failed attempts, stop polling
           if (pollingRef.current) clearInterval(pollingRef.current);
           
@@ -180,7 +220,7 @@ export default function QRCodeLoginScreen({ onBack, onSuccess }: QRCodeLoginScre
           });
         }
       }
-    }, 2000);
+    }, 3000);
   };
   
   // Start countdown timer
@@ -211,7 +251,7 @@ export default function QRCodeLoginScreen({ onBack, onSuccess }: QRCodeLoginScre
     generateQRCode();
     
     return () => {
-      if (pollingRef.current) clearInterval(pollingRef.current);
+      stopWatching();
       if (timerRef.current) clearInterval(timerRef.current);
     };
   }, []);
@@ -227,7 +267,9 @@ export default function QRCodeLoginScreen({ onBack, onSuccess }: QRCodeLoginScre
         </div>
         
         <p className="text-[#636366] text-sm mb-6">
-          Scan this QR code with another device where you're already signed in
+          {isScanned
+            ? "Approve the sign-in with your passkey on your other device"
+            : "Scan this QR code with another device where you're already signed in"}
         </p>
         
         <div className="flex justify-center my-6">
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useLocation } from 'wouter';
 import { useAuth } from '@/context/AuthContext';
 import { Button } from '@/components/ui/button';
@@ -10,6 +10,13 @@ import { KeySquare, ShieldAlert, UserRoundCheck } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import MfaVerificationForm from '@/components/MfaVerificationForm';
+import { PasswordPolicyHints, getPolicyViolations } from '@/components/ui/password-policy-hints';
+import { ForgotPasswordDialog } from '@/components/ui/forgot-password-dialog';
+import {
+  signInWithDiscoverablePasskey,
+  signInWithConditionalPasskey,
+  isConditionalMediationAvailable,
+} from '@/lib/webAuthn';
 
 // Define MfaResponse type
 type MfaResponse = {
@@ -23,13 +30,17 @@ type MfaResponse = {
 
 export default function AuthPage() {
   const [, setLocation] = useLocation();
-  const { user, isLoading, error, loginMutation, registerMutation, verifyMfaMutation } = useAuth();
+  const { user, isLoading, error, loginMutation, registerMutation, verifyMfaMutation, setUser } = useAuth();
   const { toast } = useToast();
   const [username, setUsername] = useState('');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [name, setName] = useState('');
   const [activeTab, setActiveTab] = useState('login');
+  const [isPasskeyPending, setIsPasskeyPending] = useState(false);
+  const [isForgotPasswordOpen, setIsForgotPasswordOpen] = useState(false);
+  const conditionalRequestRef = useRef<AbortController | null>(null);
+  const mountedRef = useRef(false);
   
   // MFA verification state
   const [showMfaVerification, setShowMfaVerification] = useState(false);
@@ -83,6 +94,61 @@ export default function AuthPage() {
     });
   };
 
+  // Handle the result of a passkey sign-in (button or autofill)
+  const handlePasskeyResult = (result: any) => {
+    if (result.requiresMfa) {
+      setMfaData(result as MfaResponse);
+      setShowMfaVerification(true);
+      return;
+    }
+    
+    setUser(result.user);
+  };
+  
+  // Offer passkeys in the username field's autofill dropdown
+  const startConditionalRequest = async () => {
+    if (!(await isConditionalMediationAvailable()) || !mountedRef.current) {
+      return;
+    }
+    
+    const controller = new AbortController();
+    conditionalRequestRef.current = controller;
+    signInWithConditionalPasskey(controller.signal)
+      .then((result) => result && handlePasskeyResult(result))
+      .catch((error) => console.error('Passkey autofill sign-in failed:', error));
+  };
+  
+  useEffect(() => {
+    mountedRef.current = true;
+    startConditionalRequest();
+    
+    return () => {
+      mountedRef.current = false;
+      conditionalRequestRef.current?.abort();
+    };
+  }, []);
+
+  // Usernameless sign-in with a discoverable passkey
+  const handlePasskeyLogin = async () => {
+    try {
+      // Only one WebAuthn request may be pending at a time
+      conditionalRequestRef.current?.abort();
+      setIsPasskeyPending(true);
+      handlePasskeyResult(await signInWithDiscoverablePasskey());
+    } catch (error) {
+      console.error('Passkey login failed:', error);
+      toast({
+        title: 'Login failed',
+        description: error instanceof Error ? error.message : 'Could not sign in with a passkey',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsPasskeyPending(false);
+      // Bring the autofill suggestions back for another attempt
+      startConditionalRequest();
+    }
+  };
+
   // Separate register handler
   const handleRegisterSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -108,6 +174,11 @@ export default function AuthPage() {
     });
   };
 
+  // Policy violations from the last registration attempt, while the password is unchanged
+  const registerViolations = registerMutation.variables?.password === password
+    ? getPolicyViolations(registerMutation.error)
+    : [];
+
   // Handle successful MFA verification
   const handleMfaSuccess = () => {
     setShowMfaVerification(false);
@@ -153,7 +224,7 @@ export default function AuthPage() {
                 </Alert>
               )}
               
-              {registerMutation.error && (
+              {registerMutation.error && getPolicyViolations(registerMutation.error).length === 0 && (
                 <Alert variant="destructive" className="mb-4">
                   <AlertDescription>
                     {registerMutation.error.message || 'Registration failed. Please try again.'}
@@ -169,12 +240,22 @@ export default function AuthPage() {
                       id="username" 
                       type="text" 
                       placeholder="yourusername" 
+                      autoComplete="username webauthn"
                       value={username}
                       onChange={(e) => setUsername(e.target.value)}
                     />
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="password">Password</Label>
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="password">Password</Label>
+                      <button
+                        type="button"
+                        className="text-sm text-primary hover:underline"
+                        onClick={() => setIsForgotPasswordOpen(true)}
+                      >
+                        Forgot password?
+                      </button>
+                    </div>
                     <Input 
                       id="password" 
                       type="password" 
@@ -197,6 +278,16 @@ export default function AuthPage() {
                       'Sign in'
                     )}
                   </Button>
+                  <Button 
+                    type="button" 
+                    variant="outline" 
+                    className="w-full" 
+                    onClick={handlePasskeyLogin}
+                    disabled={isPasskeyPending}
+                  >
+                    <KeySquare className="h-4 w-4 mr-2" />
+                    {isPasskeyPending ? 'Waiting for passkey...' : 'Sign in with a passkey'}
+                  </Button>
                 </form>
               </TabsContent>
               
@@ -238,9 +329,16 @@ export default function AuthPage() {
                       id="password" 
                       type="password" 
                       placeholder="••••••••"
+                      autoComplete="new-password"
                       value={password}
                       onChange={(e) => setPassword(e.target.value)}
                     />
+                    <PasswordPolicyHints
+                      password={password}
+                      username={username}
+                      email={email}
+                      violations={registerViolations}
+                    />
                   </div>
                   <Button 
                     type="submit" 
@@ -265,6 +363,10 @@ export default function AuthPage() {
           </CardFooter>
         </Card>
         )}
+        <ForgotPasswordDialog
+          isOpen={isForgotPasswordOpen}
+          onClose={() => setIsForgotPasswordOpen(false)}
+        />
       </div>
       
       {/* Hero section */}
@@ -0,0 +1,150 @@
+import { useEffect, useState } from 'react';
+import { useLocation } from 'wouter';
+import { formatDistanceToNow } from 'date-fns';
+import { Globe, Laptop, Loader2, MapPin, ShieldAlert, ShieldCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useToast } from '@/hooks/use-toast';
+import { describeDevice } from '@/lib/devices';
+import { approveQRCode, denyQRCode, scanQRCode } from '@/lib/webAuthn';
+
+// Details of the device asking to sign in, as returned by /api/auth/qrcode/scan
+type SignInRequest = {
+  userAgent?: string;
+  ip?: string;
+  location?: string;
+  createdAt: string;
+  expiresAt: string;
+};
+
+export default function QRApprovalPage() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [code] = useState(() => new URLSearchParams(window.location.search).get('code'));
+  const [request, setRequest] = useState<SignInRequest | null>(null);
+  const [options, setOptions] = useState<any>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<'approved' | 'denied' | null>(null);
+  const [isPending, setIsPending] = useState(false);
+
+  useEffect(() => {
+    if (!code) {
+      setError('This QR code link is missing its sign-in code.');
+      return;
+    }
+
+    scanQRCode(code)
+      .then((data) => {
+        setRequest(data.request);
+        setOptions(data.options);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Could not read QR code'));
+  }, [code]);
+
+  const handleApprove = async () => {
+    if (!code) return;
+    try {
+      setIsPending(true);
+      await approveQRCode(code, options);
+      setResult('approved');
+    } catch (err) {
+      toast({
+        title: 'Approval failed',
+        description: err instanceof Error ? err.message : 'Could not approve sign-in',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  const handleDeny = async () => {
+    if (!code) return;
+    try {
+      setIsPending(true);
+      await denyQRCode(code);
+      setResult('denied');
+    } catch (err) {
+      toast({
+        title: 'Error',
+        description: err instanceof Error ? err.message : 'Could not deny sign-in',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-6 bg-gray-50">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="text-xl">Approve sign-in?</CardTitle>
+          <CardDescription>
+            Someone is trying to sign in to your account on another device. Only approve if it's you.
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent>
+          {error ? (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          ) : result === 'approved' ? (
+            <div className="text-center py-6">
+              <ShieldCheck className="h-10 w-10 text-green-600 mx-auto mb-3" />
+              <p className="font-medium">Sign-in approved</p>
+              <p className="text-sm text-gray-500">You can return to your other device.</p>
+            </div>
+          ) : result === 'denied' ? (
+            <div className="text-center py-6">
+              <ShieldAlert className="h-10 w-10 text-red-500 mx-auto mb-3" />
+              <p className="font-medium">Sign-in denied</p>
+              <p className="text-sm text-gray-500">The other device was not signed in.</p>
+            </div>
+          ) : !request ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <div className="flex items-center gap-3">
+                <Laptop className="h-5 w-5 text-gray-500" />
+                <span>{describeDevice(request.userAgent)}</span>
+              </div>
+              <div className="flex items-center gap-3">
+                <Globe className="h-5 w-5 text-gray-500" />
+                <span>{request.ip || 'Unknown IP address'}</span>
+              </div>
+              <div className="flex items-center gap-3">
+                <MapPin className="h-5 w-5 text-gray-500" />
+                <span>{request.location || 'Unknown location'}</span>
+              </div>
+              <p className="text-sm text-gray-500">
+                Requested {formatDistanceToNow(new Date(request.createdAt), { addSuffix: true })}
+              </p>
+            </div>
+          )}
+        </CardContent>
+
+        <CardFooter className="flex gap-2">
+          {request && !result && !error ? (
+            <>
+              <Button variant="outline" className="flex-1" onClick={handleDeny} disabled={isPending}>
+                Deny
+              </Button>
+              <Button className="flex-1" onClick={handleApprove} disabled={isPending}>
+                {isPending ? 'Waiting for passkey...' : 'Approve with passkey'}
+              </Button>
+            </>
+          ) : (
+            <Button variant="outline" className="w-full" onClick={() => setLocation('/')}>
+              Go to my passwords
+            </Button>
+          )}
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import { useLocation } from 'wouter';
+import { ShieldCheck } from 'lucide-react';
+import { PasswordPolicyViolation } from '@shared/password-policy';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { PasswordPolicyHints, getPolicyViolations } from '@/components/ui/password-policy-hints';
+import { useAuth } from '@/context/AuthContext';
+import { apiRequest } from '@/lib/queryClient';
+
+// Choose a new password from the link in a password reset email
+export default function ResetPasswordPage() {
+  const [, setLocation] = useLocation();
+  const { setUser } = useAuth();
+  const [token] = useState(() => new URLSearchParams(window.location.search).get('token'));
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState<string | null>(token ? null : 'This reset link is missing its token.');
+  // Server violations and the password they apply to
+  const [rejected, setRejected] = useState<{ password: string; violations: PasswordPolicyViolation[] } | null>(null);
+  const [isReset, setIsReset] = useState(false);
+  const [isPending, setIsPending] = useState(false);
+
+  const mismatch = !!confirmPassword && confirmPassword !== newPassword;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token) return;
+    setError(null);
+    setRejected(null);
+    try {
+      setIsPending(true);
+      await apiRequest('POST', '/api/password/reset', { token, newPassword });
+      // Every session was signed out, including this browser's if it had one
+      setUser(null);
+      setIsReset(true);
+    } catch (err) {
+      const violations = getPolicyViolations(err);
+      if (violations.length > 0) {
+        setRejected({ password: newPassword, violations });
+      } else {
+        setError(err instanceof Error ? err.message : 'Could not reset password');
+      }
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-6 bg-gray-50">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="text-xl">Reset your password</CardTitle>
+          <CardDescription>
+            Choose a new password for your account. You'll be signed out on all your devices.
+          </CardDescription>
+        </CardHeader>
+
+        {isReset ? (
+          <>
+            <CardContent>
+              <div className="text-center py-6">
+                <ShieldCheck className="h-10 w-10 text-green-600 mx-auto mb-3" />
+                <p className="font-medium">Password reset</p>
+                <p className="text-sm text-gray-500">Sign in with your new password.</p>
+              </div>
+            </CardContent>
+            <CardFooter>
+              <Button className="w-full" onClick={() => setLocation('/auth')}>
+                Go to sign in
+              </Button>
+            </CardFooter>
+          </>
+        ) : (
+          <form onSubmit={handleSubmit}>
+            <CardContent className="space-y-4">
+              {error && (
+                <Alert variant="destructive">
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="new-password">New password</Label>
+                <Input
+                  id="new-password"
+                  type="password"
+                  autoComplete="new-password"
+                  value={newPassword}
+                  onChange={(e) => setNewPassword(e.target.value)}
+                  disabled={!token}
+                />
+                <PasswordPolicyHints
+                  password={newPassword}
+                  violations={rejected?.password === newPassword ? rejected.violations : []}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirm-new-password">Confirm new password</Label>
+                <Input
+                  id="confirm-new-password"
+                  type="password"
+                  autoComplete="new-password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  disabled={!token}
+                />
+                {mismatch && <p className="text-xs text-red-500">Passwords don't match</p>}
+              </div>
+            </CardContent>
+            <CardFooter className="flex gap-2">
+              <Button type="button" variant="outline" className="flex-1" onClick={() => setLocation('/auth')}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                className="flex-1"
+                disabled={!token || isPending || !newPassword || newPassword !== confirmPassword}
+              >
+                {isPending ? 'Resetting...' : 'Reset password'}
+              </Button>
+            </CardFooter>
+          </form>
+        )}
+      </Card>
+    </div>
+  );
+}
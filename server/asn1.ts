@@ -0,0 +1,166 @@
+// Minimal ASN.1 DER reader used to inspect X.509 certificate extensions
+// that Node's X509Certificate does not expose (attestation extensions,
+// certificate version, AAGUID extension).
+
+export const ASN1_CLASS = {
+  UNIVERSAL: 0,
+  APPLICATION: 1,
+  CONTEXT_SPECIFIC: 2,
+  PRIVATE: 3,
+} as const;
+
+export const ASN1_TAG = {
+  BOOLEAN: 0x01,
+  INTEGER: 0x02,
+  OCTET_STRING: 0x04,
+  OID: 0x06,
+  ENUMERATED: 0x0a,
+  SEQUENCE: 0x10,
+  SET: 0x11,
+} as const;
+
+export interface Asn1Node {
+  tagClass: number;
+  tagNumber: number;
+  constructed: boolean;
+  // Content octets (without tag and length)
+  value: Buffer;
+  children: Asn1Node[];
+}
+
+const MAX_DEPTH = 32;
+
+// Parse a single DER element starting at `offset`; returns the node and the offset after it
+function parseElement(buffer: Buffer, offset: number, depth: number): { node: Asn1Node; end: number } {
+  if (depth > MAX_DEPTH) {
+    throw new Error('ASN.1 data is nested too deeply');
+  }
+  if (offset + 2 > buffer.length) {
+    throw new Error('ASN.1 data is truncated');
+  }
+
+  const identifier = buffer[offset++];
+  const tagClass = identifier >> 6;
+  const constructed = (identifier & 0x20) !== 0;
+  let tagNumber = identifier & 0x1f;
+
+  // High-tag-number form (used by Android key attestation, e.g. [600])
+  if (tagNumber === 0x1f) {
+    tagNumber = 0;
+    let byte;
+    do {
+      if (offset >= buffer.length) {
+        throw new Error('ASN.1 tag is truncated');
+      }
+      byte = buffer[offset++];
+      tagNumber = (tagNumber << 7) | (byte & 0x7f);
+    } while (byte & 0x80);
+  }
+
+  let length = buffer[offset++];
+  if (length & 0x80) {
+    const lengthBytes = length & 0x7f;
+    if (lengthBytes === 0 || lengthBytes > 4 || offset + lengthBytes > buffer.length) {
+      throw new Error('Unsupported ASN.1 length encoding');
+    }
+    length = 0;
+    for (let i = 0; i < lengthBytes; i++) {
+      length = length * 256 + buffer[offset++];
+    }
+  }
+
+  const end = offset + length;
+  if (end > buffer.length) {
+    throw new Error('ASN.1 element exceeds available data');
+  }
+
+  const value = buffer.subarray(offset, end);
+  const children: Asn1Node[] = [];
+  if (constructed) {
+    let childOffset = offset;
+    while (childOffset < end) {
+      const child = parseElement(buffer, childOffset, depth + 1);
+      children.push(child.node);
+      childOffset = child.end;
+    }
+  }
+
+  return {
+    node: { tagClass, tagNumber, constructed, value: Buffer.from(value), children },
+    end,
+  };
+}
+
+// Parse a complete DER-encoded structure
+export function parseDer(buffer: Buffer): Asn1Node {
+  const { node, end } = parseElement(buffer, 0, 0);
+  if (end !== buffer.length) {
+    throw new Error('Unexpected trailing bytes after ASN.1 element');
+  }
+  return node;
+}
+
+// Decode an OBJECT IDENTIFIER's content octets into dotted notation
+export function decodeOid(value: Buffer): string {
+  if (value.length === 0) {
+    throw new Error('Empty OBJECT IDENTIFIER');
+  }
+  const parts = [Math.floor(value[0] / 40), value[0] % 40];
+  let current = 0;
+  for (let i = 1; i < value.length; i++) {
+    current = current * 128 + (value[i] & 0x7f);
+    if (!(value[i] & 0x80)) {
+      parts.push(current);
+      current = 0;
+    }
+  }
+  return parts.join('.');
+}
+
+// Decode a (small) non-negative INTEGER or ENUMERATED value
+export function decodeInteger(value: Buffer): number {
+  let result = 0;
+  for (let i = 0; i < value.length; i++) {
+    result = result * 256 + value[i];
+  }
+  return result;
+}
+
+// Get the TBSCertificate sequence of a DER-encoded certificate
+function getTbsCertificate(certificateDer: Buffer): Asn1Node {
+  const certificate = parseDer(certificateDer);
+  const tbs = certificate.children[0];
+  if (!tbs || tbs.tagNumber !== ASN1_TAG.SEQUENCE) {
+    throw new Error('Malformed certificate');
+  }
+  return tbs;
+}
+
+// X.509 version as written in the certificate (1, 2 or 3)
+export function getCertificateVersion(certificateDer: Buffer): number {
+  const tbs = getTbsCertificate(certificateDer);
+  const first = tbs.children[0];
+  if (first && first.tagClass === ASN1_CLASS.CONTEXT_SPECIFIC && first.tagNumber === 0) {
+    return decodeInteger(first.children[0].value) + 1;
+  }
+  return 1;
+}
+
+// Return the extnValue contents of a certificate extension, if present
+export function getCertificateExtension(certificateDer: Buffer, oid: string): Buffer | undefined {
+  const tbs = getTbsCertificate(certificateDer);
+  const extensionsWrapper = tbs.children.find(
+    (child) => child.tagClass === ASN1_CLASS.CONTEXT_SPECIFIC && child.tagNumber === 3,
+  );
+  const extensions = extensionsWrapper?.children[0]?.children ?? [];
+
+  for (const extension of extensions) {
+    const [extnId, ...rest] = extension.children;
+    if (extnId && decodeOid(extnId.value) === oid) {
+      // The optional `critical` BOOLEAN precedes the OCTET STRING value
+      const extnValue = rest[rest.length - 1];
+      return extnValue?.value;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,625 @@
+import crypto, { X509Certificate } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { CborValue } from './cbor';
+import {
+  AttestationConveyance,
+  ParsedAuthenticatorData,
+  decodeCOSEPublicKey,
+  getCOSEHashAlgorithm,
+  verifyCOSESignature,
+} from './webAuthn';
+import { decodeCbor } from './cbor';
+import {
+  ASN1_CLASS,
+  ASN1_TAG,
+  Asn1Node,
+  decodeInteger,
+  getCertificateExtension,
+  getCertificateVersion,
+  parseDer,
+} from './asn1';
+
+// Attestation types from WebAuthn section 6.5.3
+export type AttestationType = 'none' | 'self' | 'basic' | 'attca' | 'anonca';
+
+export interface AttestationInput {
+  fmt: string;
+  attStmt: Map<CborValue, CborValue>;
+  authData: Buffer;
+  clientDataHash: Buffer;
+  authenticatorData: ParsedAuthenticatorData;
+}
+
+export interface AttestationResult {
+  format: string;
+  type: AttestationType;
+  // Certificates from the statement's x5c, leaf first
+  trustPath: X509Certificate[];
+  // Whether the trust path chains to a configured trust anchor
+  trusted: boolean;
+}
+
+// Certificate extension OIDs used by the attestation formats
+const OID = {
+  FIDO_GEN_CE_AAGUID: '1.3.6.1.4.1.45724.1.1.4',
+  ANDROID_KEY_DESCRIPTION: '1.3.6.1.4.1.11129.2.1.17',
+  APPLE_NONCE: '1.2.840.113635.100.8.2',
+  TCG_KP_AIK_CERTIFICATE: '2.23.133.8.3',
+} as const;
+
+const ATTESTATION_POLICIES: AttestationConveyance[] = ['none', 'indirect', 'direct', 'enterprise'];
+
+// Read the per-deployment attestation policy (WEBAUTHN_ATTESTATION)
+export function getAttestationPolicy(): AttestationConveyance {
+  const configured = (process.env.WEBAUTHN_ATTESTATION || 'none').toLowerCase();
+  if (!ATTESTATION_POLICIES.includes(configured as AttestationConveyance)) {
+    console.warn(`Unknown WEBAUTHN_ATTESTATION value "${configured}", falling back to "none"`);
+    return 'none';
+  }
+  return configured as AttestationConveyance;
+}
+
+// Split a PEM bundle into individual certificates
+export function parsePemCertificates(pem: string): X509Certificate[] {
+  const blocks = pem.match(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g) || [];
+  return blocks.map((block) => new X509Certificate(block));
+}
+
+let cachedTrustAnchors: X509Certificate[] | null = null;
+
+// Load trust anchors from WEBAUTHN_TRUST_ANCHORS: a comma-separated list of
+// PEM files or directories containing .pem/.crt files
+export function loadTrustAnchors(): X509Certificate[] {
+  if (cachedTrustAnchors) {
+    return cachedTrustAnchors;
+  }
+
+  const anchors: X509Certificate[] = [];
+  const locations = (process.env.WEBAUTHN_TRUST_ANCHORS || '')
+    .split(',')
+    .map((location) => location.trim())
+    .filter(Boolean);
+
+  for (const location of locations) {
+    try {
+      const files = fs.statSync(location).isDirectory()
+        ? fs.readdirSync(location)
+            .filter((file) => /\.(pem|crt)$/i.test(file))
+            .map((file) => path.join(location, file))
+        : [location];
+
+      for (const file of files) {
+        anchors.push(...parsePemCertificates(fs.readFileSync(file, 'utf8')));
+      }
+    } catch (error) {
+      console.error(`Failed to load attestation trust anchors from ${location}:`, error);
+    }
+  }
+
+  console.log(`Loaded ${anchors.length} attestation trust anchor(s)`);
+  cachedTrustAnchors = anchors;
+  return anchors;
+}
+
+function isValidAt(certificate: X509Certificate, now: Date): boolean {
+  return new Date(certificate.validFrom) <= now && now <= new Date(certificate.validTo);
+}
+
+function isIssuedBy(certificate: X509Certificate, issuer: X509Certificate): boolean {
+  return certificate.checkIssued(issuer) && certificate.verify(issuer.publicKey);
+}
+
+// Verify that a leaf-first certificate path chains to one of the trust anchors
+export function verifyCertificateChain(
+  trustPath: X509Certificate[],
+  trustAnchors: X509Certificate[],
+  now: Date = new Date(),
+): boolean {
+  if (trustPath.length === 0 || trustAnchors.length === 0) {
+    return false;
+  }
+
+  for (let i = 0; i < trustPath.length; i++) {
+    const certificate = trustPath[i];
+    if (!isValidAt(certificate, now)) {
+      return false;
+    }
+
+    // The path may include the anchor itself or stop just below it
+    const anchored = trustAnchors.some((anchor) =>
+      anchor.fingerprint256 === certificate.fingerprint256 ||
+      (isValidAt(anchor, now) && isIssuedBy(certificate, anchor))
+    );
+    if (anchored) {
+      return true;
+    }
+
+    const issuer = trustPath[i + 1];
+    if (!issuer || !isIssuedBy(certificate, issuer)) {
+      return false;
+    }
+  }
+
+  return false;
+}
+
+// Verify an attestation statement and apply the deployment's attestation policy
+export function verifyAttestation(
+  input: AttestationInput,
+  policy: AttestationConveyance,
+  trustAnchors: X509Certificate[] = loadTrustAnchors(),
+): AttestationResult {
+  // Without attestation we neither request nor inspect statements
+  if (policy === 'none') {
+    return { format: input.fmt, type: 'none', trustPath: [], trusted: false };
+  }
+
+  const result = verifyAttestationStatement(input);
+  result.trusted = verifyCertificateChain(result.trustPath, trustAnchors);
+
+  if (result.trustPath.length > 0 && !result.trusted && (policy === 'direct' || policy === 'enterprise')) {
+    throw new Error('Attestation certificate chain is not trusted');
+  }
+
+  if (policy === 'enterprise' && !result.trusted) {
+    throw new Error(`Attestation type "${result.type}" is not accepted by the enterprise attestation policy`);
+  }
+
+  return result;
+}
+
+// Verify the attestation statement signature for the given format
+export function verifyAttestationStatement(input: AttestationInput): AttestationResult {
+  switch (input.fmt) {
+    case 'none':
+      return verifyNoneAttestation(input);
+    case 'packed':
+      return verifyPackedAttestation(input);
+    case 'fido-u2f':
+      return verifyFidoU2FAttestation(input);
+    case 'tpm':
+      return verifyTpmAttestation(input);
+    case 'android-key':
+      return verifyAndroidKeyAttestation(input);
+    case 'apple':
+      return verifyAppleAttestation(input);
+    default:
+      throw new Error(`Unsupported attestation format: ${input.fmt}`);
+  }
+}
+
+// Helpers shared by the format verifiers
+
+function getAttestedCredential(input: AttestationInput) {
+  const attested = input.authenticatorData.attestedCredentialData;
+  if (!attested) {
+    throw new Error('Attestation does not contain attested credential data');
+  }
+  return attested;
+}
+
+function getStatementBytes(attStmt: Map<CborValue, CborValue>, key: string): Buffer {
+  const value = attStmt.get(key);
+  if (!Buffer.isBuffer(value)) {
+    throw new Error(`Attestation statement is missing "${key}"`);
+  }
+  return value;
+}
+
+function getStatementAlg(attStmt: Map<CborValue, CborValue>): number {
+  const alg = attStmt.get('alg');
+  if (typeof alg !== 'number') {
+    throw new Error('Attestation statement is missing "alg"');
+  }
+  return alg;
+}
+
+function getStatementCertificates(attStmt: Map<CborValue, CborValue>): X509Certificate[] {
+  const x5c = attStmt.get('x5c');
+  if (!Array.isArray(x5c) || x5c.length === 0) {
+    throw new Error('Attestation statement is missing "x5c"');
+  }
+  return x5c.map((certificate) => {
+    if (!Buffer.isBuffer(certificate)) {
+      throw new Error('Attestation certificate is not a byte string');
+    }
+    return new X509Certificate(certificate);
+  });
+}
+
+function getSignedData(input: AttestationInput): Buffer {
+  return Buffer.concat([input.authData, input.clientDataHash]);
+}
+
+function publicKeysMatch(a: crypto.KeyObject, b: crypto.KeyObject): boolean {
+  const spkiA = a.export({ type: 'spki', format: 'der' });
+  const spkiB = b.export({ type: 'spki', format: 'der' });
+  return spkiA.equals(spkiB);
+}
+
+function aaguidToBuffer(aaguid: string): Buffer {
+  return Buffer.from(aaguid.replace(/-/g, ''), 'hex');
+}
+
+// When present, the id-fido-gen-ce-aaguid extension must match authData's AAGUID
+function checkAaguidExtension(certificate: X509Certificate, aaguid: string) {
+  const extension = getCertificateExtension(certificate.raw, OID.FIDO_GEN_CE_AAGUID);
+  if (extension && !parseDer(extension).value.equals(aaguidToBuffer(aaguid))) {
+    throw new Error('Attestation certificate AAGUID does not match authenticator data');
+  }
+}
+
+// none (WebAuthn section 8.7)
+function verifyNoneAttestation(input: AttestationInput): AttestationResult {
+  if (input.attStmt.size !== 0) {
+    throw new Error('"none" attestation must have an empty statement');
+  }
+  return { format: 'none', type: 'none', trustPath: [], trusted: false };
+}
+
+// packed (WebAuthn section 8.2)
+function verifyPackedAttestation(input: AttestationInput): AttestationResult {
+  const { attStmt } = input;
+  const alg = getStatementAlg(attStmt);
+  const sig = getStatementBytes(attStmt, 'sig');
+  const attested = getAttestedCredential(input);
+
+  if (attStmt.has('ecdaaKeyId')) {
+    throw new Error('ECDAA attestation is not supported');
+  }
+
+  if (!attStmt.has('x5c')) {
+    // Self attestation: signed with the credential private key itself
+    const credentialKey = decodeCOSEPublicKey(attested.credentialPublicKey);
+    if (credentialKey.alg !== alg) {
+      throw new Error('Self attestation algorithm does not match the credential key');
+    }
+    if (!verifyCOSESignature(alg, credentialKey.keyObject, getSignedData(input), sig)) {
+      throw new Error('Packed self attestation signature is invalid');
+    }
+    return { format: 'packed', type: 'self', trustPath: [], trusted: false };
+  }
+
+  const trustPath = getStatementCertificates(attStmt);
+  const leaf = trustPath[0];
+  if (!verifyCOSESignature(alg, leaf.publicKey, getSignedData(input), sig)) {
+    throw new Error('Packed attestation signature is invalid');
+  }
+
+  // Certificate requirements from WebAuthn section 8.2.1
+  if (getCertificateVersion(leaf.raw) !== 3) {
+    throw new Error('Packed attestation certificate must be X.509 version 3');
+  }
+  const subject = parseDistinguishedName(leaf.subject);
+  if (!/^[A-Z]{2}$/.test(subject.C || '') || !subject.O || !subject.CN ||
+      subject.OU !== 'Authenticator Attestation') {
+    throw new Error('Packed attestation certificate subject is invalid');
+  }
+  if (leaf.ca) {
+    throw new Error('Packed attestation certificate must not be a CA');
+  }
+  checkAaguidExtension(leaf, attested.aaguid);
+
+  return { format: 'packed', type: 'basic', trustPath, trusted: false };
+}
+
+function parseDistinguishedName(name: string): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const line of name.split('\n')) {
+    const separator = line.indexOf('=');
+    if (separator > 0) {
+      fields[line.slice(0, separator)] = line.slice(separator + 1);
+    }
+  }
+  return fields;
+}
+
+// fido-u2f (WebAuthn section 8.6)
+function verifyFidoU2FAttestation(input: AttestationInput): AttestationResult {
+  const { attStmt } = input;
+  const sig = getStatementBytes(attStmt, 'sig');
+  const attested = getAttestedCredential(input);
+
+  const trustPath = getStatementCertificates(attStmt);
+  if (trustPath.length !== 1) {
+    throw new Error('fido-u2f attestation must contain exactly one certificate');
+  }
+  const certificate = trustPath[0];
+  if (certificate.publicKey.asymmetricKeyDetails?.namedCurve !== 'prime256v1') {
+    throw new Error('fido-u2f attestation certificate must use a P-256 key');
+  }
+
+  const coseKey = decodeCbor(attested.credentialPublicKey);
+  const x = coseKey instanceof Map ? coseKey.get(-2) : undefined;
+  const y = coseKey instanceof Map ? coseKey.get(-3) : undefined;
+  if (!Buffer.isBuffer(x) || !Buffer.isBuffer(y) || x.length !== 32 || y.length !== 32) {
+    throw new Error('fido-u2f credential key must be an uncompressed P-256 point');
+  }
+
+  const verificationData = Buffer.concat([
+    Buffer.from([0x00]),
+    input.authenticatorData.rpIdHash,
+    input.clientDataHash,
+    attested.credentialId,
+    Buffer.from([0x04]),
+    x,
+    y,
+  ]);
+  if (!crypto.verify('sha256', verificationData, certificate.publicKey, sig)) {
+    throw new Error('fido-u2f attestation signature is invalid');
+  }
+
+  return { format: 'fido-u2f', type: 'basic', trustPath, trusted: false };
+}
+
+// android-key (WebAuthn section 8.4)
+function verifyAndroidKeyAttestation(input: AttestationInput): AttestationResult {
+  const { attStmt } = input;
+  const alg = getStatementAlg(attStmt);
+  const sig = getStatementBytes(attStmt, 'sig');
+  const attested = getAttestedCredential(input);
+
+  const trustPath = getStatementCertificates(attStmt);
+  const leaf = trustPath[0];
+  if (!verifyCOSESignature(alg, leaf.publicKey, getSignedData(input), sig)) {
+    throw new Error('android-key attestation signature is invalid');
+  }
+
+  const credentialKey = decodeCOSEPublicKey(attested.credentialPublicKey);
+  if (!publicKeysMatch(credentialKey.keyObject, leaf.publicKey)) {
+    throw new Error('android-key certificate key does not match the credential key');
+  }
+
+  const extension = getCertificateExtension(leaf.raw, OID.ANDROID_KEY_DESCRIPTION);
+  if (!extension) {
+    throw new Error('android-key certificate is missing the key description extension');
+  }
+
+  // KeyDescription ::= SEQUENCE { attestationVersion, attestationSecurityLevel,
+  //   keymasterVersion, keymasterSecurityLevel, attestationChallenge,
+  //   uniqueId, softwareEnforced, teeEnforced }
+  const keyDescription = parseDer(extension);
+  const attestationChallenge = keyDescription.children[4];
+  const softwareEnforced = keyDescription.children[6];
+  const teeEnforced = keyDescription.children[7];
+  if (!attestationChallenge || !softwareEnforced || !teeEnforced) {
+    throw new Error('android-key key description is malformed');
+  }
+  if (!attestationChallenge.value.equals(input.clientDataHash)) {
+    throw new Error('android-key attestation challenge does not match client data');
+  }
+
+  const authorizationLists = [softwareEnforced, teeEnforced];
+  // allApplications [600]: the key must be scoped to this RP's application
+  if (authorizationLists.some((list) => findAuthorization(list, 600))) {
+    throw new Error('android-key credential must not be usable by all applications');
+  }
+
+  // origin [702] must be KM_ORIGIN_GENERATED and purpose [1] must include KM_PURPOSE_SIGN
+  const origin = authorizationLists.map((list) => findAuthorization(list, 702)).find(Boolean);
+  const purpose = authorizationLists.map((list) => findAuthorization(list, 1)).find(Boolean);
+  if (!origin || decodeInteger(origin.children[0].value) !== 0) {
+    throw new Error('android-key credential was not generated inside the keystore');
+  }
+  if (!purpose || !purpose.children[0].children.some((entry) => decodeInteger(entry.value) === 2)) {
+    throw new Error('android-key credential is not restricted to signing');
+  }
+
+  return { format: 'android-key', type: 'basic', trustPath, trusted: false };
+}
+
+// Find an EXPLICIT context-specific tagged entry in an AuthorizationList
+function findAuthorization(list: Asn1Node, tagNumber: number): Asn1Node | undefined {
+  return list.children.find(
+    (child) => child.tagClass === ASN1_CLASS.CONTEXT_SPECIFIC && child.tagNumber === tagNumber,
+  );
+}
+
+// apple (WebAuthn section 8.8)
+function verifyAppleAttestation(input: AttestationInput): AttestationResult {
+  const attested = getAttestedCredential(input);
+  const trustPath = getStatementCertificates(input.attStmt);
+  const leaf = trustPath[0];
+
+  const extension = getCertificateExtension(leaf.raw, OID.APPLE_NONCE);
+  if (!extension) {
+    throw new Error('apple attestation certificate is missing the nonce extension');
+  }
+
+  // SEQUENCE { [1] EXPLICIT OCTET STRING nonce }
+  const nonceNode = parseDer(extension).children
+    .find((child) => child.tagClass === ASN1_CLASS.CONTEXT_SPECIFIC && child.tagNumber === 1)
+    ?.children[0];
+  const expectedNonce = crypto.createHash('sha256').update(getSignedData(input)).digest();
+  if (!nonceNode || nonceNode.tagNumber !== ASN1_TAG.OCTET_STRING || !nonceNode.value.equals(expectedNonce)) {
+    throw new Error('apple attestation nonce does not match');
+  }
+
+  const credentialKey = decodeCOSEPublicKey(attested.credentialPublicKey);
+  if (!publicKeysMatch(credentialKey.keyObject, leaf.publicKey)) {
+    throw new Error('apple attestation certificate key does not match the credential key');
+  }
+
+  return { format: 'apple', type: 'anonca', trustPath, trusted: false };
+}
+
+// TPM structure constants (TPM 2.0 Library, Part 2)
+const TPM_GENERATED_VALUE = 0xff544347;
+const TPM_ST_ATTEST_CERTIFY = 0x8017;
+const TPM_ALG = {
+  RSA: 0x0001,
+  SHA1: 0x0004,
+  SHA256: 0x000b,
+  SHA384: 0x000c,
+  SHA512: 0x000d,
+  ECC: 0x0023,
+} as const;
+const TPM_ECC_NIST_P256 = 0x0003;
+
+// Sequential reader for big-endian TPM structures
+class TpmReader {
+  private offset = 0;
+
+  constructor(private readonly buffer: Buffer) {}
+
+  get done(): boolean {
+    return this.offset === this.buffer.length;
+  }
+
+  private ensure(length: number) {
+    if (this.offset + length > this.buffer.length) {
+      throw new Error('TPM structure is truncated');
+    }
+  }
+
+  uint16(): number {
+    this.ensure(2);
+    const value = this.buffer.readUInt16BE(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  uint32(): number {
+    this.ensure(4);
+    const value = this.buffer.readUInt32BE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  bytes(length: number): Buffer {
+    this.ensure(length);
+    const value = this.buffer.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  // TPM2B_* structures: 16-bit size followed by that many bytes
+  sized(): Buffer {
+    return this.bytes(this.uint16());
+  }
+}
+
+function tpmHashAlgorithm(nameAlg: number): string {
+  switch (nameAlg) {
+    case TPM_ALG.SHA1:
+      return 'sha1';
+    case TPM_ALG.SHA256:
+      return 'sha256';
+    case TPM_ALG.SHA384:
+      return 'sha384';
+    case TPM_ALG.SHA512:
+      return 'sha512';
+    default:
+      throw new Error(`Unsupported TPM name algorithm: ${nameAlg}`);
+  }
+}
+
+// Check that TPMT_PUBLIC describes the same key as the credential public key
+function checkTpmPublicArea(pubArea: Buffer, credentialPublicKey: Buffer) {
+  const reader = new TpmReader(pubArea);
+  const type = reader.uint16();
+  reader.uint16(); // nameAlg
+  reader.uint32(); // objectAttributes
+  reader.sized(); // authPolicy
+
+  const credentialJwk = decodeCOSEPublicKey(credentialPublicKey).keyObject.export({ format: 'jwk' });
+
+  if (type === TPM_ALG.RSA) {
+    reader.uint16(); // symmetric
+    reader.uint16(); // scheme
+    reader.uint16(); // keyBits
+    const exponent = reader.uint32() || 65537;
+    const modulus = reader.sized();
+
+    const credentialExponent = decodeInteger(Buffer.from(credentialJwk.e || '', 'base64url'));
+    if (credentialJwk.kty !== 'RSA' || !modulus.equals(Buffer.from(credentialJwk.n || '', 'base64url')) ||
+        exponent !== credentialExponent) {
+      throw new Error('TPM public area does not match the credential key');
+    }
+  } else if (type === TPM_ALG.ECC) {
+    reader.uint16(); // symmetric
+    reader.uint16(); // scheme
+    const curveId = reader.uint16();
+    reader.uint16(); // kdf
+    const x = reader.sized();
+    const y = reader.sized();
+
+    if (credentialJwk.kty !== 'EC' || curveId !== TPM_ECC_NIST_P256 ||
+        !x.equals(Buffer.from(credentialJwk.x || '', 'base64url')) ||
+        !y.equals(Buffer.from(credentialJwk.y || '', 'base64url'))) {
+      throw new Error('TPM public area does not match the credential key');
+    }
+  } else {
+    throw new Error(`Unsupported TPM public key type: ${type}`);
+  }
+}
+
+// tpm (WebAuthn section 8.3)
+function verifyTpmAttestation(input: AttestationInput): AttestationResult {
+  const { attStmt } = input;
+  if (attStmt.get('ver') !== '2.0') {
+    throw new Error('Only TPM 2.0 attestation is supported');
+  }
+
+  const alg = getStatementAlg(attStmt);
+  const sig = getStatementBytes(attStmt, 'sig');
+  const certInfo = getStatementBytes(attStmt, 'certInfo');
+  const pubArea = getStatementBytes(attStmt, 'pubArea');
+  const attested = getAttestedCredential(input);
+
+  checkTpmPublicArea(pubArea, attested.credentialPublicKey);
+
+  // TPMS_ATTEST
+  const reader = new TpmReader(certInfo);
+  if (reader.uint32() !== TPM_GENERATED_VALUE) {
+    throw new Error('TPM certInfo magic is invalid');
+  }
+  if (reader.uint16() !== TPM_ST_ATTEST_CERTIFY) {
+    throw new Error('TPM certInfo type must be TPM_ST_ATTEST_CERTIFY');
+  }
+  reader.sized(); // qualifiedSigner
+  const extraData = reader.sized();
+  reader.bytes(17); // clockInfo
+  reader.bytes(8); // firmwareVersion
+  const attestedName = reader.sized();
+  reader.sized(); // qualifiedName
+
+  const expectedExtraData = crypto
+    .createHash(getCOSEHashAlgorithm(alg))
+    .update(getSignedData(input))
+    .digest();
+  if (!extraData.equals(expectedExtraData)) {
+    throw new Error('TPM certInfo extraData does not match the attested data');
+  }
+
+  // The attested name is nameAlg || H_nameAlg(pubArea)
+  const nameAlg = attestedName.readUInt16BE(0);
+  const expectedName = crypto.createHash(tpmHashAlgorithm(nameAlg)).update(pubArea).digest();
+  if (!attestedName.subarray(2).equals(expectedName)) {
+    throw new Error('TPM certInfo name does not match pubArea');
+  }
+
+  const trustPath = getStatementCertificates(attStmt);
+  const aikCertificate = trustPath[0];
+  if (!verifyCOSESignature(alg, aikCertificate.publicKey, certInfo, sig)) {
+    throw new Error('TPM attestation signature is invalid');
+  }
+
+  // AIK certificate requirements from WebAuthn section 8.3.1
+  if (getCertificateVersion(aikCertificate.raw) !== 3) {
+    throw new Error('TPM AIK certificate must be X.509 version 3');
+  }
+  if (aikCertificate.subject !== '') {
+    throw new Error('TPM AIK certificate subject must be empty');
+  }
+  if (!(aikCertificate.keyUsage || []).includes(OID.TCG_KP_AIK_CERTIFICATE)) {
+    throw new Error('TPM AIK certificate is missing the tcg-kp-AIKCertificate usage');
+  }
+  if (aikCertificate.ca) {
+    throw new Error('TPM AIK certificate must not be a CA');
+  }
+  checkAaguidExtension(aikCertificate, attested.aaguid);
+
+  return { format: 'tpm', type: 'attca', trustPath, trusted: false };
+}
@@ -1,5 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
-import { scrypt, randomBytes, timingSafeEqual } from 'crypto';
+import { createHash, scrypt, randomBytes, timingSafeEqual } from 'crypto';
 import { promisify } from 'util';
 import { storage } from './storage';
 import { z } from 'zod';
@@ -7,11 +7,20 @@ import { User, InsertUser } from '@shared/schema';
 import { Express } from 'express';
 import session from 'express-session';
 import * as mfaUtils from './mfa';
+import { evaluatePasswordPolicy, loadPasswordPolicy, passwordPolicyErrorBody } from './password-policy';
 
 // For type safety with express session
 declare module 'express-session' {
   interface SessionData {
     userId?: number;
+    // Time of the sign-in that established this session (ms since epoch)
+    authenticatedAt?: number;
+    // User who passed the first factor and still owes an MFA code
+    pendingMfaUserId?: number;
+    // QR login challenge requested by this browser session
+    qrChallengeId?: number;
+    // Last time the user re-confirmed their identity for a sensitive action
+    reauthenticatedAt?: number;
   }
 }
 
@@ -24,20 +33,170 @@ interface AuthenticatedRequest extends Request {
 const scryptAsync = promisify(scrypt);
 
 // Hash a password with scrypt
-async function hashPassword(password: string): Promise<string> {
+export async function hashPassword(password: string): Promise<string> {
   const salt = randomBytes(16).toString('hex');
   const buf = (await scryptAsync(password, salt, 64)) as Buffer;
   return `${buf.toString('hex')}.${salt}`;
 }
 
 // Compare a password against a stored hash
-async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
   const [hashed, salt] = stored.split('.');
   const hashedBuf = Buffer.from(hashed, 'hex');
   const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
+// Whether a password matches the user's current one or one of their last
+// `count` passwords
+export async function isPasswordRecentlyUsed(user: User, password: string, count: number): Promise<boolean> {
+  const hashes = (await storage.getPasswordHistory(user.id)).slice(0, count).map(entry => entry.passwordHash);
+  if (user.password) {
+    hashes.unshift(user.password);
+  }
+  for (const hash of Array.from(new Set(hashes))) {
+    if (await comparePasswords(password, hash)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Remember a newly set password hash, keeping as many as the policy checks
+export async function recordPasswordHistory(userId: number, passwordHash: string): Promise<void> {
+  await storage.createPasswordHistory({ userId, passwordHash });
+  await storage.deletePasswordHistoryBeyond(userId, loadPasswordPolicy().historySize);
+}
+
+// How long a password reset link stays valid
+export const PASSWORD_RESET_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+// Reset tokens are stored as SHA-256 hashes; the token is high-entropy, so a
+// fast hash is enough and lets the token be looked up directly
+export function hashPasswordResetToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// Create a reset token for the user. Returns the token to email; only its hash is kept.
+export async function issuePasswordResetToken(userId: number): Promise<{ token: string; expiresAt: Date }> {
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + PASSWORD_RESET_TOKEN_TTL_MS);
+  await storage.createPasswordResetToken({ userId, tokenHash: hashPasswordResetToken(token), expiresAt });
+  return { token, expiresAt };
+}
+
+// Sign the user out everywhere: sessions that signed in before now stop working
+export async function revokeSessions(userId: number): Promise<void> {
+  await storage.updateUser(userId, { sessionsRevokedAt: new Date() });
+}
+
+// Whether this session signed in before the user's sessions were revoked
+function isSessionRevoked(req: Request, user: User): boolean {
+  return !!user.sessionsRevokedAt &&
+    (req.session.authenticatedAt || 0) < new Date(user.sessionsRevokedAt).getTime();
+}
+
+// Regenerate the session ID on sign-in to prevent session fixation
+export function establishSession(req: Request, userId: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.regenerate((err) => {
+      if (err) {
+        return reject(err);
+      }
+
+      req.session.userId = userId;
+      req.session.authenticatedAt = Date.now();
+      req.session.save((saveErr) => (saveErr ? reject(saveErr) : resolve()));
+    });
+  });
+}
+
+// Response sent when the first factor succeeded but MFA is still required
+export interface MfaChallengeResponse {
+  requiresMfa: true;
+  mfaType: string | null;
+  userId: number;
+  verificationCode?: string;
+  expiresAt?: string;
+  message: string;
+}
+
+// Start the MFA step for a user who passed the first factor
+export async function beginMfaChallenge(req: Request, user: User): Promise<MfaChallengeResponse> {
+  // Only this browser session may complete the second factor
+  req.session.pendingMfaUserId = user.id;
+
+  // For email or SMS MFA types, we need to send a verification code
+  if (user.mfaType === 'email' || user.mfaType === 'sms') {
+    const verificationCode = mfaUtils.generateEmailVerificationCode();
+    const expiresAt = mfaUtils.getVerificationCodeExpiry(10); // 10 minutes
+
+    await storage.updateUser(user.id, {
+      verificationCode,
+      verificationExpiry: expiresAt
+    });
+
+    // In production, we would send this code via email or SMS
+    // For demo purposes, we'll include it in the response
+    return {
+      requiresMfa: true,
+      mfaType: user.mfaType,
+      userId: user.id,
+      // In production, don't return this - send via email/SMS only
+      verificationCode,
+      expiresAt: expiresAt.toISOString(),
+      message: `MFA required. Verification code has been sent to your ${user.mfaType}.`
+    };
+  }
+
+  // For TOTP, no verification code is sent - the user has it in their authenticator app
+  return {
+    requiresMfa: true,
+    mfaType: user.mfaType,
+    userId: user.id,
+    message: 'MFA required. Please enter the code from your authenticator app.'
+  };
+}
+
+// Finish a first-factor sign-in (password, passkey or QR code): either start
+// MFA or establish the session. Returns the MFA response when one is required.
+export async function completeFirstFactor(req: Request, user: User): Promise<MfaChallengeResponse | null> {
+  if (user.mfaEnabled) {
+    return beginMfaChallenge(req, user);
+  }
+
+  await establishSession(req, user.id);
+  await storage.updateUser(user.id, {
+    lastLogin: new Date()
+  });
+  return null;
+}
+
+// How long a sign-in or re-authentication counts as recent for sensitive actions
+export const RECENT_AUTH_WINDOW_MS = 5 * 60 * 1000;
+
+// Record that the user just re-confirmed their identity
+export function markReauthenticated(req: Request) {
+  req.session.reauthenticatedAt = Date.now();
+}
+
+// Whether the user signed in or re-authenticated within the recent-auth window
+export function hasRecentAuthentication(req: Request): boolean {
+  const lastAuthentication = Math.max(req.session.authenticatedAt || 0, req.session.reauthenticatedAt || 0);
+  return Date.now() - lastAuthentication < RECENT_AUTH_WINDOW_MS;
+}
+
+// Whether the user explicitly re-confirmed their identity within the
+// recent-auth window; signing in alone doesn't count
+export function hasRecentReauthentication(req: Request): boolean {
+  return Date.now() - (req.session.reauthenticatedAt || 0) < RECENT_AUTH_WINDOW_MS;
+}
+
+// Check that this session is the one that started the MFA step for the user
+export function hasPendingMfa(req: Request, userId: number): boolean {
+  return req.session.pendingMfaUserId === userId;
+}
+
 // Set up authentication routes and middleware
 export function setupAuthRoutes(app: Express) {
   // MFA functions are imported at the top
@@ -58,7 +217,7 @@ export function setupAuthRoutes(app: Express) {
     try {
       const { username, password, email } = z.object({
         username: z.string().min(3),
-        password: z.string().min(8),
+        password: z.string(),
         email: z.string().email(),
       }).parse(req.body);
       
@@ -74,6 +233,12 @@ export function setupAuthRoutes(app: Express) {
         return res.status(400).json({ message: 'Email already exists' });
       }
       
+      // Apply the password policy, including the breach check
+      const violations = await evaluatePasswordPolicy(password, { username, email });
+      if (violations.length > 0) {
+        return res.status(400).json(passwordPolicyErrorBody(violations));
+      }
+      
       // Hash password
       const hashedPassword = await hashPassword(password);
       
@@ -84,9 +249,10 @@ export function setupAuthRoutes(app: Express) {
         email,
         registered: true,
       });
+      await recordPasswordHistory(user.id, hashedPassword);
       
       // Set session
-      req.session!.userId = user.id;
+      await establishSession(req, user.id);
       
       return res.status(201).json(user);
     } catch (error) {
@@ -122,63 +288,12 @@ export function setupAuthRoutes(app: Express) {
         return res.status(401).json({ message: 'Invalid username or password' });
       }
       
-      // Check if user has MFA enabled
-      if (user.mfaEnabled) {
-        // If user has MFA enabled, don't log them in yet
-        // Instead, return information that MFA is required
-        // The client will need to make a request to /api/mfa/authenticate
-        
-        // For email or SMS MFA types, we need to send a verification code
-        if (user.mfaType === 'email' || user.mfaType === 'sms') {
-          try {
-            // Import MFA utilities
-            const { generateEmailVerificationCode, getVerificationCodeExpiry } = await import('./mfa');
-            
-            // Generate verification code
-            const verificationCode = generateEmailVerificationCode();
-            const expiresAt = getVerificationCodeExpiry(10); // 10 minutes
-            
-            // Store verification code
-            await storage.updateUser(user.id, {
-              verificationCode,
-              verificationExpiry: expiresAt
-            });
-            
-            // In production, we would send this code via email or SMS
-            // For demo purposes, we'll include it in the response
-            return res.status(200).json({
-              requiresMfa: true,
-              mfaType: user.mfaType,
-              userId: user.id,
-              // In production, don't return this - send via email/SMS only
-              verificationCode,
-              expiresAt: expiresAt.toISOString(),
-              message: `MFA required. Verification code has been sent to your ${user.mfaType}.`
-            });
-          } catch (error) {
-            console.error('Error generating MFA verification code:', error);
-            return res.status(500).json({ message: 'Error generating MFA verification code' });
-          }
-        } else {
-          // For TOTP, no verification code is sent - the user has it in their authenticator app
-          return res.status(200).json({
-            requiresMfa: true,
-            mfaType: user.mfaType,
-            userId: user.id,
-            message: 'MFA required. Please enter the code from your authenticator app.'
-          });
-        }
+      // MFA gate, otherwise sign the user in
+      const mfaChallenge = await completeFirstFactor(req, user);
+      if (mfaChallenge) {
+        return res.status(200).json(mfaChallenge);
       }
       
-      // If no MFA, proceed with normal login
-      // Set session
-      req.session!.userId = user.id;
-      
-      // Update last login time
-      await storage.updateUser(user.id, {
-        lastLogin: new Date()
-      });
-      
       return res.json(user);
     } catch (error) {
       console.error('Login error:', error);
@@ -217,6 +332,11 @@ export function setupAuthRoutes(app: Express) {
         return res.status(401).json({ message: 'User not found' });
       }
       
+      if (isSessionRevoked(req, user)) {
+        req.session!.userId = undefined;
+        return res.status(401).json({ message: 'Your session has ended, please sign in again', code: 'SESSION_REVOKED' });
+      }
+      
       return res.json(user);
     } catch (error) {
       console.error('Get user error:', error);
@@ -241,6 +361,11 @@ export function setupAuthRoutes(app: Express) {
         return res.status(401).json({ message: 'User not found' });
       }
       
+      if (isSessionRevoked(req, user)) {
+        req.session!.userId = undefined;
+        return res.status(401).json({ message: 'Your session has ended, please sign in again', code: 'SESSION_REVOKED' });
+      }
+      
       // Attach user to request for use in route handlers
       req.user = user;
       next();
@@ -272,6 +397,11 @@ export function setupAuthRoutes(app: Express) {
         return res.status(400).json({ message: 'MFA not enabled for this user' });
       }
       
+      // The first factor must have been completed in this session
+      if (!hasPendingMfa(req, user.id)) {
+        return res.status(401).json({ message: 'No pending sign-in for this user' });
+      }
+      
       let verified = false;
       
       if (mfaType === 'recovery') {
@@ -327,7 +457,7 @@ export function setupAuthRoutes(app: Express) {
       }
       
       // Set session
-      req.session!.userId = user.id;
+      await establishSession(req, user.id);
       
       // Update last login
       await storage.updateUser(user.id, {
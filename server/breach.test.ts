@@ -0,0 +1,50 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { getBreachCount, getBreachRange, sha1Hex } from './breach';
+
+const BREACHED = 'password123';
+const hash = sha1Hex(BREACHED);
+let corpusDir: string;
+
+before(() => {
+  corpusDir = fs.mkdtempSync(path.join(os.tmpdir(), 'breach-corpus-'));
+  fs.mkdirSync(path.join(corpusDir, 'ranges'));
+  fs.writeFileSync(path.join(corpusDir, 'ranges', `${hash.slice(0, 5)}.txt`), `${hash.slice(5)}:42\r\n`);
+  fs.writeFileSync(path.join(corpusDir, 'corpus.txt'), `${hash}:42\n`);
+});
+
+after(() => {
+  fs.rmSync(corpusDir, { recursive: true, force: true });
+  delete process.env.BREACH_CORPUS_PATH;
+});
+
+describe('breach corpus', () => {
+  it('counts a breached password from a directory of range files', async () => {
+    process.env.BREACH_CORPUS_PATH = path.join(corpusDir, 'ranges');
+    assert.equal(await getBreachCount(BREACHED), 42);
+    assert.equal(await getBreachCount('not in the corpus'), 0);
+  });
+
+  it('counts a breached password from a single corpus file', async () => {
+    process.env.BREACH_CORPUS_PATH = path.join(corpusDir, 'corpus.txt');
+    assert.equal(await getBreachCount(BREACHED), 42);
+    assert.equal(await getBreachCount('not in the corpus'), 0);
+  });
+
+  it('treats every password as not found when the corpus is missing, logging once', async (t) => {
+    const logged = t.mock.method(console, 'error', () => {});
+    process.env.BREACH_CORPUS_PATH = path.join(corpusDir, 'missing');
+
+    assert.equal(await getBreachCount(BREACHED), 0);
+    assert.deepEqual(await getBreachRange(hash.slice(0, 5)), new Map());
+    assert.equal(logged.mock.callCount(), 1);
+  });
+
+  it('returns no range when no corpus is configured', async () => {
+    delete process.env.BREACH_CORPUS_PATH;
+    assert.equal(await getBreachRange(hash.slice(0, 5)), null);
+  });
+});
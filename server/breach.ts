@@ -0,0 +1,132 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+// Breached password checks against a local copy of the Have I Been Pwned
+// Pwned Passwords corpus (https://haveibeenpwned.com/Passwords), so no request
+// ever leaves the server. BREACH_CORPUS_PATH points to either:
+// - a directory of range files named by 5-character SHA-1 prefix (e.g.
+//   "21BD1" or "21BD1.txt"), each holding "SUFFIX:COUNT" lines, as served by
+//   the HIBP range API and written by the PwnedPasswordsDownloader; or
+// - a single file of "HASH:COUNT" lines, loaded into memory, which suits
+//   small corpora such as test fixtures.
+
+const HASH_PREFIX_LENGTH = 5;
+const HASH_PREFIX_PATTERN = /^[0-9A-F]{5}$/;
+
+// Suffix (35 hex characters, upper case) -> times seen in breaches
+export type BreachRange = Map<string, number>;
+
+// Ranges from a single corpus file, keyed by prefix
+let corpusFileRanges: Map<string, BreachRange> | null = null;
+
+// Whether a missing BREACH_CORPUS_PATH has been reported, so it's logged once
+let missingCorpusReported = false;
+
+export function sha1Hex(password: string): string {
+  return crypto.createHash('sha1').update(password, 'utf8').digest('hex').toUpperCase();
+}
+
+export function normalizeHashPrefix(prefix: string): string | null {
+  const normalized = prefix.toUpperCase();
+  return HASH_PREFIX_PATTERN.test(normalized) ? normalized : null;
+}
+
+export function isBreachCorpusConfigured(): boolean {
+  return !!process.env.BREACH_CORPUS_PATH;
+}
+
+// Parse "SUFFIX:COUNT" lines, skipping blanks and the zero-count padding
+// entries HIBP adds to some responses
+function parseRange(text: string, prefix = ''): Array<[string, string, number]> {
+  const entries: Array<[string, string, number]> = [];
+  for (const line of text.split(/\r?\n/)) {
+    const [hash, count] = line.trim().split(':');
+    if (!hash || !count) continue;
+    const full = (prefix + hash).toUpperCase();
+    const seen = Number(count);
+    if (full.length !== 40 || !Number.isInteger(seen) || seen <= 0) continue;
+    entries.push([full.slice(0, HASH_PREFIX_LENGTH), full.slice(HASH_PREFIX_LENGTH), seen]);
+  }
+  return entries;
+}
+
+function loadCorpusFile(corpusPath: string): Map<string, BreachRange> {
+  if (corpusFileRanges) {
+    return corpusFileRanges;
+  }
+
+  corpusFileRanges = new Map();
+  try {
+    for (const [prefix, suffix, count] of parseRange(fs.readFileSync(corpusPath, 'utf8'))) {
+      if (!corpusFileRanges.has(prefix)) {
+        corpusFileRanges.set(prefix, new Map());
+      }
+      corpusFileRanges.get(prefix)!.set(suffix, count);
+    }
+    console.log(`Loaded breach corpus with ${corpusFileRanges.size} hash range(s) from ${corpusPath}`);
+  } catch (error) {
+    console.error(`Failed to load breach corpus from ${corpusPath}:`, error);
+  }
+  return corpusFileRanges;
+}
+
+async function readRangeFile(directory: string, prefix: string): Promise<string | null> {
+  for (const name of [prefix, `${prefix}.txt`]) {
+    try {
+      return await fs.promises.readFile(path.join(directory, name), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+  }
+  return null;
+}
+
+// Breached hashes starting with a 5-character prefix, or null when no corpus
+// is configured. A prefix missing from the corpus has no breached hashes.
+export async function getBreachRange(prefix: string): Promise<BreachRange | null> {
+  const corpusPath = process.env.BREACH_CORPUS_PATH;
+  if (!corpusPath) {
+    return null;
+  }
+  const normalized = normalizeHashPrefix(prefix);
+  if (!normalized) {
+    throw new Error('Hash prefix must be 5 hexadecimal characters');
+  }
+
+  // A missing corpus shouldn't block registration or password changes, so
+  // it's reported once and every password is treated as not found
+  let stats: fs.Stats;
+  try {
+    stats = await fs.promises.stat(corpusPath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    if (!missingCorpusReported) {
+      console.error(`Breach corpus not found at ${corpusPath}; passwords won't be checked against it`);
+      missingCorpusReported = true;
+    }
+    return new Map();
+  }
+  if (!stats.isDirectory()) {
+    return loadCorpusFile(corpusPath).get(normalized) || new Map();
+  }
+
+  const text = await readRangeFile(corpusPath, normalized);
+  const range: BreachRange = new Map();
+  if (text) {
+    parseRange(text, normalized).forEach(([, suffix, count]) => range.set(suffix, count));
+  }
+  return range;
+}
+
+// Times a password appears in the corpus; 0 if it doesn't or no corpus is set
+export async function getBreachCount(password: string): Promise<number> {
+  const hash = sha1Hex(password);
+  const range = await getBreachRange(hash.slice(0, HASH_PREFIX_LENGTH));
+  return range?.get(hash.slice(HASH_PREFIX_LENGTH)) || 0;
+}
+
+// Range response in the HIBP API's text format
+export function formatBreachRange(range: BreachRange): string {
+  return Array.from(range, ([suffix, count]) => `${suffix}:${count}`).join('\r\n');
+}
@@ -0,0 +1,206 @@
+// Minimal CBOR (RFC 8949) decoder covering what WebAuthn needs:
+// attestation objects, authenticator data extensions and COSE keys.
+// Maps are decoded into `Map` instances because COSE keys use integer labels.
+
+export type CborValue =
+  | number
+  | bigint
+  | string
+  | boolean
+  | null
+  | undefined
+  | Buffer
+  | CborValue[]
+  | Map<CborValue, CborValue>
+  | { tag: number; value: CborValue };
+
+// Result of decoding a single item from the start of a buffer
+export interface CborDecodeResult {
+  value: CborValue;
+  length: number;
+}
+
+const MAX_NESTING_DEPTH = 32;
+
+class CborReader {
+  private offset = 0;
+
+  constructor(private readonly buffer: Buffer) {}
+
+  get position(): number {
+    return this.offset;
+  }
+
+  private ensure(length: number) {
+    if (this.offset + length > this.buffer.length) {
+      throw new Error('CBOR data is truncated');
+    }
+  }
+
+  private readUint8(): number {
+    this.ensure(1);
+    return this.buffer[this.offset++];
+  }
+
+  // Read the argument that follows an initial byte (RFC 8949 section 3)
+  private readArgument(additionalInfo: number): number | bigint {
+    if (additionalInfo < 24) {
+      return additionalInfo;
+    }
+
+    switch (additionalInfo) {
+      case 24:
+        return this.readUint8();
+      case 25: {
+        this.ensure(2);
+        const value = this.buffer.readUInt16BE(this.offset);
+        this.offset += 2;
+        return value;
+      }
+      case 26: {
+        this.ensure(4);
+        const value = this.buffer.readUInt32BE(this.offset);
+        this.offset += 4;
+        return value;
+      }
+      case 27: {
+        this.ensure(8);
+        const value = this.buffer.readBigUInt64BE(this.offset);
+        this.offset += 8;
+        return value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value;
+      }
+      default:
+        throw new Error(`Unsupported CBOR additional information: ${additionalInfo}`);
+    }
+  }
+
+  private readLength(additionalInfo: number): number {
+    const length = this.readArgument(additionalInfo);
+    if (typeof length === 'bigint') {
+      throw new Error('CBOR length exceeds supported range');
+    }
+    return length;
+  }
+
+  private readBytes(length: number): Buffer {
+    this.ensure(length);
+    const bytes = this.buffer.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return Buffer.from(bytes);
+  }
+
+  private readFloat(additionalInfo: number): number {
+    switch (additionalInfo) {
+      case 25: {
+        this.ensure(2);
+        const half = this.buffer.readUInt16BE(this.offset);
+        this.offset += 2;
+        const exponent = (half >> 10) & 0x1f;
+        const mantissa = half & 0x3ff;
+        const sign = half & 0x8000 ? -1 : 1;
+        if (exponent === 0) return sign * 2 ** -14 * (mantissa / 1024);
+        if (exponent === 31) return mantissa ? NaN : sign * Infinity;
+        return sign * 2 ** (exponent - 15) * (1 + mantissa / 1024);
+      }
+      case 26: {
+        this.ensure(4);
+        const value = this.buffer.readFloatBE(this.offset);
+        this.offset += 4;
+        return value;
+      }
+      default: {
+        this.ensure(8);
+        const value = this.buffer.readDoubleBE(this.offset);
+        this.offset += 8;
+        return value;
+      }
+    }
+  }
+
+  readItem(depth: number = 0): CborValue {
+    if (depth > MAX_NESTING_DEPTH) {
+      throw new Error('CBOR data is nested too deeply');
+    }
+
+    const initialByte = this.readUint8();
+    const majorType = initialByte >> 5;
+    const additionalInfo = initialByte & 0x1f;
+
+    // WebAuthn structures must use definite lengths (CTAP2 canonical CBOR)
+    if (additionalInfo === 31) {
+      throw new Error('Indefinite-length CBOR items are not supported');
+    }
+
+    switch (majorType) {
+      case 0:
+        return this.readArgument(additionalInfo);
+      case 1: {
+        const argument = this.readArgument(additionalInfo);
+        return typeof argument === 'bigint' ? BigInt(-1) - argument : -1 - argument;
+      }
+      case 2:
+        return this.readBytes(this.readLength(additionalInfo));
+      case 3:
+        return this.readBytes(this.readLength(additionalInfo)).toString('utf8');
+      case 4: {
+        const length = this.readLength(additionalInfo);
+        const items: CborValue[] = [];
+        for (let i = 0; i < length; i++) {
+          items.push(this.readItem(depth + 1));
+        }
+        return items;
+      }
+      case 5: {
+        const length = this.readLength(additionalInfo);
+        const map = new Map<CborValue, CborValue>();
+        for (let i = 0; i < length; i++) {
+          const key = this.readItem(depth + 1);
+          if (map.has(key)) {
+            throw new Error('Duplicate key in CBOR map');
+          }
+          map.set(key, this.readItem(depth + 1));
+        }
+        return map;
+      }
+      case 6: {
+        const tag = this.readLength(additionalInfo);
+        return { tag, value: this.readItem(depth + 1) };
+      }
+      default:
+        switch (additionalInfo) {
+          case 20:
+            return false;
+          case 21:
+            return true;
+          case 22:
+            return null;
+          case 23:
+            return undefined;
+          case 25:
+          case 26:
+          case 27:
+            return this.readFloat(additionalInfo);
+          default:
+            throw new Error(`Unsupported CBOR simple value: ${additionalInfo}`);
+        }
+    }
+  }
+}
+
+// Decode the first CBOR item in the buffer and report how many bytes it used.
+// Authenticator data embeds a COSE key followed by optional extensions, so
+// callers need the consumed length to find where the next item starts.
+export function decodeCborFirst(buffer: Buffer): CborDecodeResult {
+  const reader = new CborReader(buffer);
+  const value = reader.readItem();
+  return { value, length: reader.position };
+}
+
+// Decode a buffer that must contain exactly one CBOR item
+export function decodeCbor(buffer: Buffer): CborValue {
+  const { value, length } = decodeCborFirst(buffer);
+  if (length !== buffer.length) {
+    throw new Error('Unexpected trailing bytes after CBOR item');
+  }
+  return value;
+}
@@ -0,0 +1,182 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import {
+  SAVED_PASSWORD_SECRET_FIELDS,
+  USER_SECRET_FIELDS,
+  decryptField,
+  decryptFields,
+  encryptField,
+  encryptFields,
+  getCurrentKeyVersion,
+  resetKeyring,
+  rewrapField,
+} from './encryption';
+
+const KEY_1 = crypto.randomBytes(32).toString('base64');
+const KEY_2 = crypto.randomBytes(32).toString('base64');
+
+function useKeys(keys: string, currentVersion?: number) {
+  process.env.ENCRYPTION_MASTER_KEYS = keys;
+  if (currentVersion === undefined) {
+    delete process.env.ENCRYPTION_KEY_VERSION;
+  } else {
+    process.env.ENCRYPTION_KEY_VERSION = String(currentVersion);
+  }
+  resetKeyring();
+}
+
+// Flip one bit of the sealed value, after the wrapped data key
+function tamper(value: string): string {
+  const [wrappedKey, sealedValue] = value.split('.');
+  const bytes = Buffer.from(sealedValue, 'base64url');
+  bytes[bytes.length - 20] ^= 1;
+  return `${wrappedKey}.${bytes.toString('base64url')}`;
+}
+
+beforeEach(() => {
+  useKeys(`1:${KEY_1}`);
+});
+
+afterEach(() => {
+  delete process.env.ENCRYPTION_MASTER_KEYS;
+  delete process.env.ENCRYPTION_KEY_VERSION;
+  resetKeyring();
+});
+
+describe('encryptField and decryptField', () => {
+  it('round-trips a value under the current master key', () => {
+    const encrypted = encryptField('JBSWY3DPEHPK3PXP');
+    assert.equal(encrypted.keyVersion, 1);
+    assert.notEqual(encrypted.value, 'JBSWY3DPEHPK3PXP');
+    assert.equal(decryptField(encrypted.value, encrypted.keyVersion), 'JBSWY3DPEHPK3PXP');
+  });
+
+  it('uses a fresh data key and IV for every value', () => {
+    assert.notEqual(encryptField('same').value, encryptField('same').value);
+  });
+
+  it('leaves null as null', () => {
+    assert.deepEqual(encryptField(null), { value: null, keyVersion: null });
+    assert.equal(decryptField(null, 1), null);
+  });
+
+  it('reads legacy rows with no key version as plaintext', () => {
+    assert.equal(decryptField('written before encryption', null), 'written before encryption');
+  });
+
+  it('stores values in the clear when no master key is configured', (t) => {
+    t.mock.method(console, 'warn', () => {});
+    delete process.env.ENCRYPTION_MASTER_KEYS;
+    resetKeyring();
+
+    assert.equal(getCurrentKeyVersion(), null);
+    assert.deepEqual(encryptField('secret'), { value: 'secret', keyVersion: null });
+  });
+
+  it('rejects a tampered ciphertext', () => {
+    const encrypted = encryptField('secret');
+    assert.throws(() => decryptField(tamper(encrypted.value!), encrypted.keyVersion));
+  });
+
+  it('rejects a tampered wrapped data key', () => {
+    const encrypted = encryptField('secret');
+    const [wrappedKey, sealedValue] = encrypted.value!.split('.');
+    const bytes = Buffer.from(wrappedKey, 'base64url');
+    bytes[bytes.length - 1] ^= 1;
+    assert.throws(() => decryptField(`${bytes.toString('base64url')}.${sealedValue}`, encrypted.keyVersion));
+  });
+
+  it('rejects a malformed value', () => {
+    assert.throws(() => decryptField('not an envelope', 1), /Malformed/);
+  });
+
+  it('fails with the wrong or an unknown key version', () => {
+    const encrypted = encryptField('secret');
+    assert.throws(() => decryptField(encrypted.value, 2), /version 2 is not configured/);
+
+    // Wrapped by key 1 but labelled as key 2
+    useKeys(`1:${KEY_1},2:${KEY_2}`);
+    assert.throws(() => decryptField(encrypted.value, 2));
+  });
+});
+
+describe('master keyring', () => {
+  it('defaults to the newest key', () => {
+    useKeys(`1:${KEY_1},2:${KEY_2}`);
+    assert.equal(getCurrentKeyVersion(), 2);
+  });
+
+  it('rejects keys of the wrong length', () => {
+    useKeys(`1:${crypto.randomBytes(16).toString('base64')}`);
+    assert.throws(() => getCurrentKeyVersion(), /must be 32 bytes/);
+  });
+
+  it('rejects a current version that is not configured', () => {
+    useKeys(`1:${KEY_1}`, 2);
+    assert.throws(() => getCurrentKeyVersion(), /version 2 is not configured/);
+  });
+});
+
+describe('rewrapField', () => {
+  it('moves a value to the new master key, as a key rotation does', () => {
+    const original = encryptField('secret');
+
+    // The new key is added, then made current
+    useKeys(`1:${KEY_1},2:${KEY_2}`, 2);
+    const rewrapped = rewrapField(original.value!, original.keyVersion);
+    assert.equal(rewrapped.keyVersion, 2);
+    // Only the data key is re-wrapped; the sealed value is unchanged
+    assert.equal(rewrapped.value!.split('.')[1], original.value!.split('.')[1]);
+
+    // Once the old key is removed, only the re-wrapped value can be read
+    useKeys(`2:${KEY_2}`);
+    assert.equal(decryptField(rewrapped.value, rewrapped.keyVersion), 'secret');
+    assert.throws(() => decryptField(original.value, original.keyVersion), /version 1 is not configured/);
+  });
+
+  it('leaves values already under the current key as they are', () => {
+    const encrypted = encryptField('secret');
+    assert.deepEqual(rewrapField(encrypted.value!, encrypted.keyVersion), encrypted);
+  });
+
+  it('encrypts legacy plaintext', () => {
+    const rewrapped = rewrapField('written before encryption', null);
+    assert.equal(rewrapped.keyVersion, 1);
+    assert.equal(decryptField(rewrapped.value, rewrapped.keyVersion), 'written before encryption');
+  });
+
+  it('refuses to run without a master key', (t) => {
+    t.mock.method(console, 'warn', () => {});
+    delete process.env.ENCRYPTION_MASTER_KEYS;
+    resetKeyring();
+    assert.throws(() => rewrapField('secret', null), /No master encryption key/);
+  });
+});
+
+describe('encryptFields and decryptFields', () => {
+  it('encrypts only the secret fields present, with their key versions', () => {
+    const update = encryptFields({ username: 'alice', mfaSecret: 'JBSWY3DPEHPK3PXP' }, USER_SECRET_FIELDS);
+    assert.equal(update.username, 'alice');
+    assert.notEqual(update.mfaSecret, 'JBSWY3DPEHPK3PXP');
+    assert.equal((update as Record<string, unknown>).mfaSecretKeyVersion, 1);
+    assert.equal('verificationCode' in update, false);
+
+    assert.deepEqual(decryptFields(update, USER_SECRET_FIELDS), {
+      username: 'alice',
+      mfaSecret: 'JBSWY3DPEHPK3PXP',
+      mfaSecretKeyVersion: 1,
+    });
+  });
+
+  it('reads rows mixing encrypted and legacy plaintext fields', () => {
+    const row = {
+      id: 1,
+      ...encryptFields({ password: 'hunter2' }, SAVED_PASSWORD_SECRET_FIELDS),
+    };
+    assert.equal(decryptFields(row, SAVED_PASSWORD_SECRET_FIELDS).password, 'hunter2');
+
+    const legacy = { id: 2, password: 'hunter2', passwordKeyVersion: null };
+    assert.equal(decryptFields(legacy, SAVED_PASSWORD_SECRET_FIELDS).password, 'hunter2');
+  });
+});
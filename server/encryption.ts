@@ -0,0 +1,216 @@
+import crypto from 'crypto';
+import fs from 'fs';
+
+// Envelope encryption for secrets the server has to read back: TOTP seeds,
+// pending verification codes and legacy plaintext saved passwords. Every value
+// gets its own random AES-256-GCM data key, stored next to the ciphertext and
+// wrapped by a versioned master key. Rotating the master key only re-wraps the
+// data keys (see rotate-keys.ts).
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+interface MasterKeyring {
+  currentVersion: number;
+  keys: Map<number, Buffer>;
+}
+
+// A ciphertext and the master key version that wraps its data key. A null
+// version means the value is stored in the clear (written before a master key
+// was configured).
+export interface EncryptedField {
+  value: string | null;
+  keyVersion: number | null;
+}
+
+let keyring: MasterKeyring | null | undefined;
+
+// Parse ENCRYPTION_MASTER_KEYS, e.g. "1:<base64 key>,2:<base64 key>"
+function parseKeyList(value: string): Map<number, Buffer> {
+  const keys = new Map<number, Buffer>();
+  for (const entry of value.split(',').map(part => part.trim()).filter(Boolean)) {
+    const [version, key] = entry.split(':');
+    keys.set(Number(version), Buffer.from(key || '', 'base64'));
+  }
+  return keys;
+}
+
+// Load the master keys from ENCRYPTION_KEY_FILE, a JSON file of the form
+// { "currentVersion": 2, "keys": { "1": "<base64>", "2": "<base64>" } }, or
+// from ENCRYPTION_MASTER_KEYS and ENCRYPTION_KEY_VERSION
+function loadKeyring(): MasterKeyring | null {
+  let keys: Map<number, Buffer>;
+  let currentVersion: number | undefined;
+
+  const keyFile = process.env.ENCRYPTION_KEY_FILE;
+  if (keyFile) {
+    const parsed = JSON.parse(fs.readFileSync(keyFile, 'utf8'));
+    keys = new Map(
+      Object.entries(parsed.keys || {}).map(([version, key]) => [Number(version), Buffer.from(String(key), 'base64')]),
+    );
+    currentVersion = parsed.currentVersion;
+  } else if (process.env.ENCRYPTION_MASTER_KEYS) {
+    keys = parseKeyList(process.env.ENCRYPTION_MASTER_KEYS);
+    currentVersion = process.env.ENCRYPTION_KEY_VERSION ? Number(process.env.ENCRYPTION_KEY_VERSION) : undefined;
+  } else {
+    return null;
+  }
+
+  for (const [version, key] of Array.from(keys.entries())) {
+    if (!Number.isInteger(version) || version < 1) {
+      throw new Error(`Invalid master key version: ${version}`);
+    }
+    if (key.length !== KEY_LENGTH) {
+      throw new Error(`Master key version ${version} must be ${KEY_LENGTH} bytes`);
+    }
+  }
+  if (keys.size === 0) {
+    throw new Error('No master keys configured');
+  }
+
+  // Default to the newest key
+  currentVersion = currentVersion ?? Math.max(...Array.from(keys.keys()));
+  if (!keys.has(currentVersion)) {
+    throw new Error(`Current master key version ${currentVersion} is not configured`);
+  }
+
+  return { currentVersion, keys };
+}
+
+function getKeyring(): MasterKeyring | null {
+  if (keyring === undefined) {
+    keyring = loadKeyring();
+    if (!keyring) {
+      console.warn('No master encryption key configured; MFA secrets and verification codes are stored in the clear');
+    }
+  }
+  return keyring;
+}
+
+// Read the master keys again on next use, e.g. after the environment changes
+export function resetKeyring() {
+  keyring = undefined;
+}
+
+function getMasterKey(version: number): Buffer {
+  const key = getKeyring()?.keys.get(version);
+  if (!key) {
+    throw new Error(`Master key version ${version} is not configured`);
+  }
+  return key;
+}
+
+export function getCurrentKeyVersion(): number | null {
+  return getKeyring()?.currentVersion ?? null;
+}
+
+// AES-256-GCM; the result is IV || ciphertext || tag
+function seal(key: Buffer, plaintext: Buffer): Buffer {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, ciphertext, cipher.getAuthTag()]);
+}
+
+function unseal(key: Buffer, sealed: Buffer): Buffer {
+  const iv = sealed.subarray(0, IV_LENGTH);
+  const tag = sealed.subarray(sealed.length - TAG_LENGTH);
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(sealed.subarray(IV_LENGTH, sealed.length - TAG_LENGTH)), decipher.final()]);
+}
+
+// Stored format: base64url(wrapped data key) "." base64url(sealed value)
+function splitEnvelope(value: string): [Buffer, Buffer] {
+  const [wrappedKey, sealedValue] = value.split('.');
+  if (!wrappedKey || !sealedValue) {
+    throw new Error('Malformed encrypted value');
+  }
+  return [Buffer.from(wrappedKey, 'base64url'), Buffer.from(sealedValue, 'base64url')];
+}
+
+// Encrypt a value under the current master key, or leave it in the clear if
+// no master key is configured
+export function encryptField(plaintext: string | null): EncryptedField {
+  const currentVersion = getCurrentKeyVersion();
+  if (plaintext === null || currentVersion === null) {
+    return { value: plaintext, keyVersion: null };
+  }
+
+  const dataKey = crypto.randomBytes(KEY_LENGTH);
+  const wrappedKey = seal(getMasterKey(currentVersion), dataKey);
+  const sealedValue = seal(dataKey, Buffer.from(plaintext, 'utf8'));
+  return {
+    value: `${wrappedKey.toString('base64url')}.${sealedValue.toString('base64url')}`,
+    keyVersion: currentVersion,
+  };
+}
+
+export function decryptField(value: string | null, keyVersion: number | null): string | null {
+  if (value === null || keyVersion === null) {
+    return value;
+  }
+
+  const [wrappedKey, sealedValue] = splitEnvelope(value);
+  const dataKey = unseal(getMasterKey(keyVersion), wrappedKey);
+  return unseal(dataKey, sealedValue).toString('utf8');
+}
+
+// Move a stored value to the current master key. Encrypted values keep their
+// data key and ciphertext; only the data key is re-wrapped.
+export function rewrapField(value: string, keyVersion: number | null): EncryptedField {
+  const currentVersion = getCurrentKeyVersion();
+  if (currentVersion === null) {
+    throw new Error('No master encryption key configured');
+  }
+  if (keyVersion === null) {
+    return encryptField(value);
+  }
+  if (keyVersion === currentVersion) {
+    return { value, keyVersion };
+  }
+
+  const [wrappedKey, sealedValue] = splitEnvelope(value);
+  const dataKey = unseal(getMasterKey(keyVersion), wrappedKey);
+  const rewrappedKey = seal(getMasterKey(currentVersion), dataKey);
+  return {
+    value: `${rewrappedKey.toString('base64url')}.${sealedValue.toString('base64url')}`,
+    keyVersion: currentVersion,
+  };
+}
+
+// Encrypted columns of each table, mapped to their key version column
+export const USER_SECRET_FIELDS = {
+  mfaSecret: 'mfaSecretKeyVersion',
+  verificationCode: 'verificationCodeKeyVersion',
+} as const;
+
+export const SAVED_PASSWORD_SECRET_FIELDS = {
+  password: 'passwordKeyVersion',
+} as const;
+
+// Encrypt the secret fields present in a row or partial update
+export function encryptFields<T extends object>(record: T, fields: Record<string, string>): T {
+  const result = { ...record } as Record<string, unknown>;
+  for (const [field, versionField] of Object.entries(fields)) {
+    if (result[field] !== undefined) {
+      const encrypted = encryptField(result[field] as string | null);
+      result[field] = encrypted.value;
+      result[versionField] = encrypted.keyVersion;
+    }
+  }
+  return result as T;
+}
+
+// Decrypt the secret fields of a stored row
+export function decryptFields<T extends object>(record: T, fields: Record<string, string>): T {
+  const result = { ...record } as Record<string, unknown>;
+  for (const [field, versionField] of Object.entries(fields)) {
+    if (result[field] !== undefined) {
+      result[field] = decryptField(result[field] as string | null, (result[versionField] as number | null) ?? null);
+    }
+  }
+  return result as T;
+}
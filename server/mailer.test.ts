@@ -0,0 +1,31 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ConsoleMailer, canSendMail, getMailer } from './mailer';
+
+const message = { to: 'user@example.com', subject: 'Reset your password', text: 'https://vault.example.com/reset-password?token=secret' };
+const nodeEnv = process.env.NODE_ENV;
+
+afterEach(() => {
+  process.env.NODE_ENV = nodeEnv;
+});
+
+describe('mailer without SMTP_URL', () => {
+  it('refuses to log email in production', async (t) => {
+    const logged = t.mock.method(console, 'log', () => {});
+    process.env.NODE_ENV = 'production';
+
+    assert.equal(canSendMail(), false);
+    assert.throws(() => getMailer(), /SMTP_URL/);
+    await assert.rejects(new ConsoleMailer().send(message), /production/);
+    assert.equal(logged.mock.callCount(), 0);
+  });
+
+  it('logs email in development', async (t) => {
+    const logged = t.mock.method(console, 'log', () => {});
+    process.env.NODE_ENV = 'development';
+
+    assert.equal(canSendMail(), true);
+    await getMailer().send(message);
+    assert.equal(logged.mock.callCount(), 1);
+  });
+});
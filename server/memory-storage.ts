@@ -8,9 +8,20 @@ import {
   SavedPassword,
   InsertSavedPassword,
   MfaRecoveryCode,
-  InsertMfaRecoveryCode
+  InsertMfaRecoveryCode,
+  VaultKey,
+  InsertVaultKey,
+  Folder,
+  InsertFolder,
+  VaultItemVersion,
+  InsertVaultItemVersion,
+  PasswordHistory,
+  InsertPasswordHistory,
+  PasswordResetToken,
+  InsertPasswordResetToken
 } from "@shared/schema";
-import type { IStorage } from "./storage";
+import type { IStorage, SavedPasswordFilter } from "./storage";
+import { SAVED_PASSWORD_SECRET_FIELDS, USER_SECRET_FIELDS, decryptFields, encryptFields } from "./encryption";
 import MemoryStore from "memorystore";
 import session from "express-session";
 
@@ -24,11 +35,21 @@ export class MemStorage implements IStorage {
   private challenges: Challenge[] = [];
   private savedPasswords: SavedPassword[] = [];
   private recoveryCodeCache: MfaRecoveryCode[] = [];
+  private vaultKeys: VaultKey[] = [];
+  private folders: Folder[] = [];
+  private vaultItemVersions: VaultItemVersion[] = [];
+  private passwordHistory: PasswordHistory[] = [];
+  private passwordResetTokens: PasswordResetToken[] = [];
   private nextUserId = 1;
   private nextCredentialId = 1;
   private nextChallengeId = 1;
   private nextSavedPasswordId = 1;
   private nextRecoveryCodeId = 1;
+  private nextVaultKeyId = 1;
+  private nextFolderId = 1;
+  private nextVaultItemVersionId = 1;
+  private nextPasswordHistoryId = 1;
+  private nextPasswordResetTokenId = 1;
   
   // Initialize session store
   private _sessionStore = new MemorySessionStore({
@@ -40,17 +61,21 @@ export class MemStorage implements IStorage {
     return this._sessionStore;
   }
 
-  // User methods
+  // User methods. Secrets are kept encrypted in memory, as in the database.
+  private decryptUser(user: User | undefined): User | undefined {
+    return user && decryptFields(user, USER_SECRET_FIELDS);
+  }
+
   async getUser(id: number): Promise<User | undefined> {
-    return this.users.find(user => user.id === id);
+    return this.decryptUser(this.users.find(user => user.id === id));
   }
 
   async getUserByEmail(email: string): Promise<User | undefined> {
-    return this.users.find(user => user.email === email);
+    return this.decryptUser(this.users.find(user => user.email === email));
   }
 
   async getUserByUsername(username: string): Promise<User | undefined> {
-    return this.users.find(user => user.username === username);
+    return this.decryptUser(this.users.find(user => user.username === username));
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
@@ -60,16 +85,20 @@ export class MemStorage implements IStorage {
       ...insertUser,
       registered: false,
       verificationCode: null,
+      verificationCodeKeyVersion: null,
       verificationExpiry: null,
       lastLogin: null,
+      sessionsRevokedAt: null,
+      vaultItemsBound: false,
       phone: insertUser.phone || null,
       mfaEnabled: insertUser.mfaEnabled || false,
       mfaType: insertUser.mfaType || null,
       mfaSecret: insertUser.mfaSecret || null,
+      mfaSecretKeyVersion: null,
       password: insertUser.password || null,
       name: insertUser.name || null
     };
-    this.users.push(user);
+    this.users.push(encryptFields(user, USER_SECRET_FIELDS));
     return user;
   }
 
@@ -78,9 +107,9 @@ export class MemStorage implements IStorage {
     if (index === -1) return undefined;
     
     const user = this.users[index];
-    const updatedUser = { ...user, ...updates };
+    const updatedUser = { ...user, ...encryptFields(updates, USER_SECRET_FIELDS) };
     this.users[index] = updatedUser;
-    return updatedUser;
+    return this.decryptUser(updatedUser);
   }
 
   // Credential methods
@@ -106,6 +135,16 @@ export class MemStorage implements IStorage {
       publicKey: insertCredential.publicKey,
       counter: insertCredential.counter,
       transports: insertCredential.transports || null,
+      aaguid: insertCredential.aaguid || null,
+      attestationFormat: insertCredential.attestationFormat || null,
+      attestationType: insertCredential.attestationType || null,
+      authenticatorName: insertCredential.authenticatorName || null,
+      authenticatorIcon: insertCredential.authenticatorIcon || null,
+      nickname: insertCredential.nickname || null,
+      backupEligible: insertCredential.backupEligible ?? false,
+      backedUp: insertCredential.backedUp ?? false,
+      prfSupported: insertCredential.prfSupported ?? false,
+      lastUsedAt: null,
       createdAt: now,
     };
     this.credentials.push(credential);
@@ -122,6 +161,12 @@ export class MemStorage implements IStorage {
     return updatedCredential;
   }
 
+  async deleteCredential(id: number): Promise<boolean> {
+    const initialLength = this.credentials.length;
+    this.credentials = this.credentials.filter(cred => cred.id !== id);
+    return this.credentials.length !== initialLength;
+  }
+
   // Challenge methods
   async getChallenge(id: number): Promise<Challenge | undefined> {
     return this.challenges.find(challenge => challenge.id === id);
@@ -144,6 +189,8 @@ export class MemStorage implements IStorage {
       userId: insertChallenge.userId || null,
       challenge: insertChallenge.challenge,
       qrCode: insertChallenge.qrCode || null,
+      status: insertChallenge.status || 'pending',
+      metadata: insertChallenge.metadata || null,
       createdAt: now,
       expiresAt: insertChallenge.expiresAt,
     };
@@ -176,11 +223,27 @@ export class MemStorage implements IStorage {
 
   // SavedPassword methods
   async getSavedPassword(id: number): Promise<SavedPassword | undefined> {
-    return this.savedPasswords.find(pwd => pwd.id === id);
+    const savedPassword = this.savedPasswords.find(pwd => pwd.id === id);
+    return savedPassword && decryptFields(savedPassword, SAVED_PASSWORD_SECRET_FIELDS);
   }
 
-  async getSavedPasswordsByUserId(userId: number): Promise<SavedPassword[]> {
-    return this.savedPasswords.filter(pwd => pwd.userId === userId);
+  async getSavedPasswordsByUserId(userId: number, filter: SavedPasswordFilter = {}): Promise<SavedPassword[]> {
+    const { folderIds, tag, favorite, trashed = false } = filter;
+    return this.savedPasswords
+      .filter(pwd => pwd.userId === userId && (pwd.deletedAt !== null) === trashed)
+      .filter(pwd => folderIds === undefined || (folderIds === null
+        ? pwd.folderId === null
+        : pwd.folderId !== null && folderIds.includes(pwd.folderId)))
+      .filter(pwd => !tag || pwd.tags.includes(tag))
+      .filter(pwd => favorite === undefined || pwd.favorite === favorite)
+      .map(pwd => decryptFields(pwd, SAVED_PASSWORD_SECRET_FIELDS));
+  }
+
+  async getSavedPasswordTags(userId: number): Promise<string[]> {
+    const tags = this.savedPasswords
+      .filter(pwd => pwd.userId === userId && pwd.deletedAt === null)
+      .flatMap(pwd => pwd.tags);
+    return Array.from(new Set(tags)).sort();
   }
 
   async createSavedPassword(insertSavedPassword: InsertSavedPassword): Promise<SavedPassword> {
@@ -189,18 +252,32 @@ export class MemStorage implements IStorage {
     const savedPassword: SavedPassword = {
       id,
       userId: insertSavedPassword.userId,
-      website: insertSavedPassword.website,
+      website: insertSavedPassword.website || null,
       url: insertSavedPassword.url || null,
-      username: insertSavedPassword.username,
-      password: insertSavedPassword.password,
+      username: insertSavedPassword.username || null,
+      password: insertSavedPassword.password || null,
+      passwordKeyVersion: null,
       notes: insertSavedPassword.notes || null,
+      encryptedData: insertSavedPassword.encryptedData || null,
+      folderId: insertSavedPassword.folderId ?? null,
+      tags: insertSavedPassword.tags || [],
+      favorite: insertSavedPassword.favorite ?? false,
+      deletedAt: null,
       createdAt: now,
       updatedAt: now,
     };
-    this.savedPasswords.push(savedPassword);
+    this.savedPasswords.push(encryptFields(savedPassword, SAVED_PASSWORD_SECRET_FIELDS));
     return savedPassword;
   }
 
+  async createSavedPasswords(insertSavedPasswords: InsertSavedPassword[]): Promise<SavedPassword[]> {
+    const created: SavedPassword[] = [];
+    for (const insertSavedPassword of insertSavedPasswords) {
+      created.push(await this.createSavedPassword(insertSavedPassword));
+    }
+    return created;
+  }
+
   async updateSavedPassword(id: number, updates: Partial<SavedPassword>): Promise<SavedPassword | undefined> {
     const index = this.savedPasswords.findIndex(pwd => pwd.id === id);
     if (index === -1) return undefined;
@@ -208,18 +285,164 @@ export class MemStorage implements IStorage {
     const savedPassword = this.savedPasswords[index];
     const updatedSavedPassword = { 
       ...savedPassword, 
-      ...updates,
-      updatedAt: new Date() 
+      ...encryptFields(updates, SAVED_PASSWORD_SECRET_FIELDS),
+      updatedAt: updates.updatedAt ?? (updates.encryptedData !== undefined ? new Date() : savedPassword.updatedAt)
     };
     this.savedPasswords[index] = updatedSavedPassword;
-    return updatedSavedPassword;
+    return decryptFields(updatedSavedPassword, SAVED_PASSWORD_SECRET_FIELDS);
   }
 
   async deleteSavedPassword(id: number): Promise<boolean> {
     const initialLength = this.savedPasswords.length;
     this.savedPasswords = this.savedPasswords.filter(pwd => pwd.id !== id);
+    this.vaultItemVersions = this.vaultItemVersions.filter(version => version.itemId !== id);
     return this.savedPasswords.length !== initialLength;
   }
+
+  async deleteSavedPasswords(userId: number, ids: number[]): Promise<number> {
+    const initialLength = this.savedPasswords.length;
+    this.savedPasswords = this.savedPasswords.filter(pwd => pwd.userId !== userId || !ids.includes(pwd.id));
+    this.vaultItemVersions = this.vaultItemVersions.filter(version => version.userId !== userId || !ids.includes(version.itemId));
+    return initialLength - this.savedPasswords.length;
+  }
+
+  async trashSavedPasswords(userId: number, ids: number[]): Promise<number> {
+    const now = new Date();
+    let trashed = 0;
+    this.savedPasswords = this.savedPasswords.map(pwd => {
+      if (pwd.userId !== userId || !ids.includes(pwd.id) || pwd.deletedAt !== null) {
+        return pwd;
+      }
+      trashed++;
+      return { ...pwd, deletedAt: now };
+    });
+    return trashed;
+  }
+
+  async deleteTrashedSavedPasswords(before: Date): Promise<number> {
+    const expired = new Set(this.savedPasswords
+      .filter(pwd => pwd.deletedAt !== null && pwd.deletedAt < before)
+      .map(pwd => pwd.id));
+    this.savedPasswords = this.savedPasswords.filter(pwd => !expired.has(pwd.id));
+    this.vaultItemVersions = this.vaultItemVersions.filter(version => !expired.has(version.itemId));
+    return expired.size;
+  }
+  
+  // Vault item version methods
+  async getVaultItemVersion(id: number): Promise<VaultItemVersion | undefined> {
+    return this.vaultItemVersions.find(version => version.id === id);
+  }
+  
+  async getVaultItemVersions(itemId: number): Promise<VaultItemVersion[]> {
+    return this.vaultItemVersions
+      .filter(version => version.itemId === itemId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+  
+  async getVaultItemVersionsByUserId(userId: number): Promise<VaultItemVersion[]> {
+    return this.vaultItemVersions.filter(version => version.userId === userId);
+  }
+  
+  async createVaultItemVersion(insertVersion: InsertVaultItemVersion): Promise<VaultItemVersion> {
+    const version: VaultItemVersion = {
+      id: this.nextVaultItemVersionId++,
+      itemId: insertVersion.itemId,
+      userId: insertVersion.userId,
+      encryptedData: insertVersion.encryptedData,
+      changedFields: insertVersion.changedFields || [],
+      userAgent: insertVersion.userAgent || null,
+      createdAt: new Date(),
+    };
+    this.vaultItemVersions.push(version);
+    return version;
+  }
+  
+  async updateVaultItemVersion(id: number, encryptedData: string): Promise<VaultItemVersion | undefined> {
+    const version = this.vaultItemVersions.find(version => version.id === id);
+    if (!version) return undefined;
+    
+    version.encryptedData = encryptedData;
+    return version;
+  }
+  
+  async deleteVaultItemVersionsBeyond(itemId: number, keep: number): Promise<number> {
+    const stale = new Set((await this.getVaultItemVersions(itemId)).slice(keep).map(version => version.id));
+    this.vaultItemVersions = this.vaultItemVersions.filter(version => !stale.has(version.id));
+    return stale.size;
+  }
+  
+  // Folder methods
+  async getFolder(id: number): Promise<Folder | undefined> {
+    return this.folders.find(folder => folder.id === id);
+  }
+  
+  async getFoldersByUserId(userId: number): Promise<Folder[]> {
+    return this.folders.filter(folder => folder.userId === userId);
+  }
+  
+  async createFolder(insertFolder: InsertFolder): Promise<Folder> {
+    const folder: Folder = {
+      id: this.nextFolderId++,
+      userId: insertFolder.userId,
+      parentId: insertFolder.parentId ?? null,
+      name: insertFolder.name,
+      createdAt: new Date(),
+    };
+    this.folders.push(folder);
+    return folder;
+  }
+  
+  async updateFolder(id: number, updates: Partial<Folder>): Promise<Folder | undefined> {
+    const index = this.folders.findIndex(folder => folder.id === id);
+    if (index === -1) return undefined;
+    
+    this.folders[index] = { ...this.folders[index], ...updates };
+    return this.folders[index];
+  }
+  
+  // Mirror the database's foreign keys: subfolders are deleted, items unfiled
+  async deleteFolder(id: number): Promise<boolean> {
+    const deleted = new Set<number>();
+    const queue = [id];
+    while (queue.length > 0) {
+      const folderId = queue.pop()!;
+      if (!this.folders.some(folder => folder.id === folderId) || deleted.has(folderId)) continue;
+      deleted.add(folderId);
+      queue.push(...this.folders.filter(folder => folder.parentId === folderId).map(folder => folder.id));
+    }
+    
+    this.folders = this.folders.filter(folder => !deleted.has(folder.id));
+    this.savedPasswords = this.savedPasswords.map(pwd =>
+      pwd.folderId !== null && deleted.has(pwd.folderId) ? { ...pwd, folderId: null } : pwd
+    );
+    return deleted.size > 0;
+  }
+  
+  // Vault key methods
+  async getVaultKeysByUserId(userId: number): Promise<VaultKey[]> {
+    return this.vaultKeys.filter(key => key.userId === userId);
+  }
+  
+  async createVaultKey(insertVaultKey: InsertVaultKey): Promise<VaultKey> {
+    const vaultKey: VaultKey = {
+      id: this.nextVaultKeyId++,
+      userId: insertVaultKey.userId,
+      type: insertVaultKey.type,
+      credentialId: insertVaultKey.credentialId || null,
+      salt: insertVaultKey.salt,
+      iterations: insertVaultKey.iterations ?? null,
+      wrappedKey: insertVaultKey.wrappedKey,
+      createdAt: new Date(),
+    };
+    this.vaultKeys.push(vaultKey);
+    return vaultKey;
+  }
+  
+  async deleteVaultKey(id: number): Promise<boolean> {
+    const initialLength = this.vaultKeys.length;
+    this.vaultKeys = this.vaultKeys.filter(key => key.id !== id);
+    return this.vaultKeys.length !== initialLength;
+  }
   
   // MFA Recovery Code methods
   async getRecoveryCode(id: number): Promise<MfaRecoveryCode | undefined> {
@@ -270,4 +493,70 @@ export class MemStorage implements IStorage {
     this.recoveryCodeCache = this.recoveryCodeCache.filter(code => code.userId !== userId);
     return initialLength - this.recoveryCodeCache.length;
   }
+  
+  // Account password history methods
+  async getPasswordHistory(userId: number): Promise<PasswordHistory[]> {
+    return this.passwordHistory
+      .filter(entry => entry.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+  
+  async createPasswordHistory(entry: InsertPasswordHistory): Promise<PasswordHistory> {
+    const created: PasswordHistory = {
+      id: this.nextPasswordHistoryId++,
+      userId: entry.userId,
+      passwordHash: entry.passwordHash,
+      createdAt: new Date(),
+    };
+    this.passwordHistory.push(created);
+    return created;
+  }
+  
+  async deletePasswordHistoryBeyond(userId: number, keep: number): Promise<number> {
+    const stale = new Set((await this.getPasswordHistory(userId)).slice(keep).map(entry => entry.id));
+    this.passwordHistory = this.passwordHistory.filter(entry => !stale.has(entry.id));
+    return stale.size;
+  }
+  
+  // Password reset token methods
+  async getPasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    return this.passwordResetTokens.find(entry => entry.tokenHash === tokenHash);
+  }
+  
+  async createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const created: PasswordResetToken = {
+      id: this.nextPasswordResetTokenId++,
+      userId: token.userId,
+      tokenHash: token.tokenHash,
+      expiresAt: token.expiresAt,
+      usedAt: null,
+      createdAt: new Date(),
+    };
+    this.passwordResetTokens.push(created);
+    return created;
+  }
+  
+  async consumePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const now = new Date();
+    const token = this.passwordResetTokens.find(entry =>
+      entry.tokenHash === tokenHash && !entry.usedAt && entry.expiresAt > now
+    );
+    if (token) {
+      token.usedAt = now;
+    }
+    return token;
+  }
+  
+  async deletePasswordResetTokensByUserId(userId: number): Promise<number> {
+    const initialLength = this.passwordResetTokens.length;
+    this.passwordResetTokens = this.passwordResetTokens.filter(entry => entry.userId !== userId);
+    return initialLength - this.passwordResetTokens.length;
+  }
+  
+  async deleteExpiredPasswordResetTokens(): Promise<number> {
+    const now = new Date();
+    const initialLength = this.passwordResetTokens.length;
+    this.passwordResetTokens = this.passwordResetTokens.filter(entry => entry.expiresAt > now);
+    return initialLength - this.passwordResetTokens.length;
+  }
 }
\ No newline at end of file
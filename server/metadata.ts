@@ -0,0 +1,260 @@
+import crypto, { X509Certificate } from 'crypto';
+import fs from 'fs';
+import { z } from 'zod';
+import { parsePemCertificates, verifyCertificateChain } from './attestation';
+
+// FIDO Metadata Service (MDS3) support. The BLOB is downloaded out of band
+// (e.g. from https://mds3.fidoalliance.org/) and provided as a local file.
+
+export interface MetadataStatusReport {
+  status: string;
+  effectiveDate?: string;
+  certificationLevel?: string;
+}
+
+export interface MetadataStatement {
+  description: string;
+  icon?: string;
+  attestationRootCertificates?: string[];
+  [key: string]: unknown;
+}
+
+export interface MetadataEntry {
+  aaguid?: string;
+  metadataStatement?: MetadataStatement;
+  statusReports: MetadataStatusReport[];
+  timeOfLastStatusChange?: string;
+}
+
+interface MetadataBlobPayload {
+  no: number;
+  nextUpdate: string;
+  entries: MetadataEntry[];
+}
+
+const aaguidSchema = z.string()
+  .regex(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i, 'Expected an AAGUID such as "ee882879-721c-4913-9775-3dfcce97072a"')
+  .transform((aaguid) => aaguid.toLowerCase());
+
+// Administrator-defined rules applied to new passkeys. Unknown keys are
+// rejected so a misspelled setting can't silently fall back to its default.
+const authenticatorPolicySchema = z.object({
+  // If non-empty, only these AAGUIDs may register
+  allowedAaguids: z.array(aaguidSchema),
+  deniedAaguids: z.array(aaguidSchema),
+  // Minimum FIDO certification level (1, 2 or 3; "plus" levels count as .5)
+  minimumCertificationLevel: z.number().min(0).max(3.5),
+  // Any status report with one of these statuses blocks the authenticator
+  blockedStatuses: z.array(z.string()),
+  // Whether authenticators without metadata may register
+  allowUnknown: z.boolean(),
+}).strict();
+
+export type AuthenticatorPolicy = z.infer<typeof authenticatorPolicySchema>;
+
+export interface AuthenticatorPolicyDecision {
+  allowed: boolean;
+  reason?: string;
+  entry?: MetadataEntry;
+}
+
+const DEFAULT_POLICY: AuthenticatorPolicy = {
+  allowedAaguids: [],
+  deniedAaguids: [],
+  minimumCertificationLevel: 0,
+  blockedStatuses: [
+    'REVOKED',
+    'USER_VERIFICATION_BYPASS',
+    'ATTESTATION_KEY_COMPROMISE',
+    'USER_KEY_REMOTE_COMPROMISE',
+    'USER_KEY_PHYSICAL_COMPROMISE',
+  ],
+  allowUnknown: true,
+};
+
+const CERTIFICATION_LEVELS: Record<string, number> = {
+  FIDO_CERTIFIED: 1,
+  FIDO_CERTIFIED_L1: 1,
+  FIDO_CERTIFIED_L1plus: 1.5,
+  FIDO_CERTIFIED_L2: 2,
+  FIDO_CERTIFIED_L2plus: 2.5,
+  FIDO_CERTIFIED_L3: 3,
+  FIDO_CERTIFIED_L3plus: 3.5,
+};
+
+const ZERO_AAGUID = '00000000-0000-0000-0000-000000000000';
+
+let metadataEntries: Map<string, MetadataEntry> | null = null;
+let authenticatorPolicy: AuthenticatorPolicy | null = null;
+
+// Verify a MDS3 BLOB (a JWS in compact serialization) and return its payload
+export function verifyMetadataBlob(jwt: string, rootCertificates: X509Certificate[]): MetadataBlobPayload {
+  const [encodedHeader, encodedPayload, encodedSignature] = jwt.trim().split('.');
+  if (!encodedHeader || !encodedPayload || !encodedSignature) {
+    throw new Error('Metadata BLOB is not a valid JWT');
+  }
+
+  const header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString());
+  if (!Array.isArray(header.x5c) || header.x5c.length === 0) {
+    throw new Error('Metadata BLOB header is missing x5c');
+  }
+
+  // x5c entries are standard base64 DER certificates, signer first
+  const certificates = header.x5c.map((certificate: string) => new X509Certificate(Buffer.from(certificate, 'base64')));
+  if (!verifyCertificateChain(certificates, rootCertificates)) {
+    throw new Error('Metadata BLOB certificate chain is not trusted');
+  }
+
+  const signedData = Buffer.from(`${encodedHeader}.${encodedPayload}`);
+  const signature = Buffer.from(encodedSignature, 'base64url');
+  const signer = certificates[0].publicKey;
+
+  let valid: boolean;
+  switch (header.alg) {
+    case 'ES256':
+      valid = crypto.verify('sha256', signedData, { key: signer, dsaEncoding: 'ieee-p1363' }, signature);
+      break;
+    case 'RS256':
+      valid = crypto.verify('sha256', signedData, signer, signature);
+      break;
+    default:
+      throw new Error(`Unsupported metadata BLOB algorithm: ${header.alg}`);
+  }
+  if (!valid) {
+    throw new Error('Metadata BLOB signature is invalid');
+  }
+
+  const payload: MetadataBlobPayload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString());
+  if (!Array.isArray(payload.entries)) {
+    throw new Error('Metadata BLOB payload has no entries');
+  }
+  return payload;
+}
+
+// Load and index the BLOB from MDS_BLOB_PATH, verified against MDS_ROOT_CERT
+export function loadMetadata(): Map<string, MetadataEntry> {
+  if (metadataEntries) {
+    return metadataEntries;
+  }
+
+  metadataEntries = new Map();
+  const blobPath = process.env.MDS_BLOB_PATH;
+  const rootCertPath = process.env.MDS_ROOT_CERT;
+  if (!blobPath) {
+    return metadataEntries;
+  }
+
+  try {
+    if (!rootCertPath) {
+      throw new Error('MDS_ROOT_CERT must be set to verify the metadata BLOB');
+    }
+    const rootCertificates = parsePemCertificates(fs.readFileSync(rootCertPath, 'utf8'));
+    const payload = verifyMetadataBlob(fs.readFileSync(blobPath, 'utf8'), rootCertificates);
+
+    if (new Date(payload.nextUpdate) < new Date()) {
+      console.warn(`Metadata BLOB #${payload.no} is past its nextUpdate date (${payload.nextUpdate})`);
+    }
+
+    // Only FIDO2 authenticators are identified by AAGUID
+    for (const entry of payload.entries) {
+      if (entry.aaguid) {
+        metadataEntries.set(entry.aaguid.toLowerCase(), entry);
+      }
+    }
+    console.log(`Loaded metadata BLOB #${payload.no} with ${metadataEntries.size} authenticator(s)`);
+  } catch (error) {
+    console.error('Failed to load metadata BLOB:', error);
+  }
+
+  return metadataEntries;
+}
+
+// Load the administrator policy from AUTHENTICATOR_POLICY_PATH (JSON). A
+// policy that can't be read or doesn't validate throws rather than being
+// replaced by the defaults, which are more permissive.
+export function loadAuthenticatorPolicy(): AuthenticatorPolicy {
+  if (authenticatorPolicy) {
+    return authenticatorPolicy;
+  }
+
+  const policyPath = process.env.AUTHENTICATOR_POLICY_PATH;
+  if (!policyPath) {
+    authenticatorPolicy = { ...DEFAULT_POLICY };
+    return authenticatorPolicy;
+  }
+
+  let configured: unknown;
+  try {
+    configured = JSON.parse(fs.readFileSync(policyPath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Failed to read authenticator policy from ${policyPath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const parsed = authenticatorPolicySchema.partial().safeParse(configured);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join('.') || 'policy'}: ${issue.message}`);
+    throw new Error(`Invalid authenticator policy in ${policyPath}: ${issues.join('; ')}`);
+  }
+
+  authenticatorPolicy = { ...DEFAULT_POLICY, ...parsed.data };
+  return authenticatorPolicy;
+}
+
+// Whether the policy depends on knowing the authenticator model. The AAGUID is
+// chosen by the client, so only a trusted attestation vouches for it.
+export function policyRequiresTrustedAttestation(policy: AuthenticatorPolicy = loadAuthenticatorPolicy()): boolean {
+  return policy.allowedAaguids.length > 0 || policy.minimumCertificationLevel > 0 || !policy.allowUnknown;
+}
+
+export function getMetadataEntry(aaguid: string): MetadataEntry | undefined {
+  return loadMetadata().get(aaguid.toLowerCase());
+}
+
+// Attestation root certificates the metadata lists for an authenticator
+export function getMetadataTrustAnchors(entry?: MetadataEntry): X509Certificate[] {
+  return (entry?.metadataStatement?.attestationRootCertificates || []).map(
+    (certificate) => new X509Certificate(Buffer.from(certificate, 'base64')),
+  );
+}
+
+// Highest FIDO certification level reported for an authenticator
+function getCertificationLevel(entry: MetadataEntry): number {
+  return entry.statusReports.reduce(
+    (level, report) => Math.max(level, CERTIFICATION_LEVELS[report.status] || 0),
+    0,
+  );
+}
+
+// Decide whether an authenticator may be registered under the current policy
+export function evaluateAuthenticatorPolicy(
+  aaguid: string,
+  policy: AuthenticatorPolicy = loadAuthenticatorPolicy(),
+): AuthenticatorPolicyDecision {
+  const normalized = aaguid.toLowerCase();
+  const entry = normalized === ZERO_AAGUID ? undefined : getMetadataEntry(normalized);
+
+  if (policy.deniedAaguids.includes(normalized)) {
+    return { allowed: false, reason: 'This authenticator model is not allowed', entry };
+  }
+  if (policy.allowedAaguids.length > 0 && !policy.allowedAaguids.includes(normalized)) {
+    return { allowed: false, reason: 'This authenticator model is not on the allow list', entry };
+  }
+
+  if (!entry) {
+    const requiresMetadata = !policy.allowUnknown || policy.minimumCertificationLevel > 0;
+    return requiresMetadata
+      ? { allowed: false, reason: 'No metadata is available for this authenticator' }
+      : { allowed: true };
+  }
+
+  const blockedReport = entry.statusReports.find((report) => policy.blockedStatuses.includes(report.status));
+  if (blockedReport) {
+    return { allowed: false, reason: `Authenticator has status ${blockedReport.status}`, entry };
+  }
+
+  if (getCertificationLevel(entry) < policy.minimumCertificationLevel) {
+    return { allowed: false, reason: 'Authenticator does not meet the required certification level', entry };
+  }
+
+  return { allowed: true, entry };
+}
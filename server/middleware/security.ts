@@ -39,6 +39,23 @@ export const passwordRateLimiter = rateLimit({
   ...rateLimitConfig,
 });
 
+// Password generator API, which scripts may call in bulk
+export const generatorRateLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  limit: 100, // limit each IP to 100 generator requests per 15 minutes
+  message: { error: 'Too many password generator requests, please try again after 15 minutes' },
+  ...rateLimitConfig,
+});
+
+// Breached password range lookups; a security report fetches its ranges in
+// batches, usually in a single request
+export const breachRateLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  limit: 300, // limit each IP to 300 range requests per 15 minutes
+  message: { error: 'Too many breach checks, please try again after 15 minutes' },
+  ...rateLimitConfig,
+});
+
 // Extra protection for WebAuthn operations
 export const webAuthnRateLimiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
@@ -55,6 +72,15 @@ export const qrCodeRateLimiter = rateLimit({
   ...rateLimitConfig,
 });
 
+// Looser limit for checking QR login status, which falls back to polling when
+// the event stream is unavailable
+export const qrCodeStatusRateLimiter = rateLimit({
+  windowMs: 5 * 60 * 1000, // 5 minutes
+  limit: 120, // enough to poll every few seconds for the lifetime of one QR code
+  message: { error: 'Too many QR code status checks, please try again after 5 minutes' },
+  ...rateLimitConfig,
+});
+
 // Helper middleware to log rate limit hits
 export const logRateLimitHit = (req: Request, res: Response, next: NextFunction) => {
   // @ts-ignore - rateLimit property is added by express-rate-limit
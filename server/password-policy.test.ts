@@ -0,0 +1,119 @@
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DEFAULT_PASSWORD_POLICY, PasswordPolicy } from '@shared/password-policy';
+import { evaluatePasswordPolicy, loadPasswordPolicy, resetPasswordPolicy } from './password-policy';
+
+// The default policy without the breach check, which needs a corpus
+const policy: PasswordPolicy = { ...DEFAULT_PASSWORD_POLICY, checkBreaches: false };
+let policyDir: string;
+
+async function violations(password: string, overrides: Partial<PasswordPolicy> = {}, context = {}, hooks = {}) {
+  return (await evaluatePasswordPolicy(password, context, hooks, { ...policy, ...overrides })).map((violation) => violation.code);
+}
+
+function writePolicy(name: string, contents: string): string {
+  const policyPath = path.join(policyDir, name);
+  fs.writeFileSync(policyPath, contents);
+  return policyPath;
+}
+
+before(() => {
+  policyDir = fs.mkdtempSync(path.join(os.tmpdir(), 'password-policy-'));
+});
+
+after(() => {
+  fs.rmSync(policyDir, { recursive: true, force: true });
+});
+
+afterEach(() => {
+  delete process.env.PASSWORD_POLICY_PATH;
+  resetPasswordPolicy();
+});
+
+describe('evaluatePasswordPolicy', () => {
+  it('accepts a password that breaks no rules', async () => {
+    assert.deepEqual(await violations('correct horse battery staple'), []);
+  });
+
+  it('enforces the length limits', async () => {
+    assert.deepEqual(await violations('short'), ['TOO_SHORT']);
+    assert.deepEqual(await violations('a fine but long passphrase', { maxLength: 10 }), ['TOO_LONG']);
+  });
+
+  it('requires each configured character class', async () => {
+    const classes = { requireLowercase: true, requireUppercase: true, requireDigit: true, requireSymbol: true };
+    assert.deepEqual(await violations('ALL UPPERCASE', classes), ['MISSING_LOWERCASE', 'MISSING_DIGIT']);
+    assert.deepEqual(await violations('lowercase123', classes), ['MISSING_UPPERCASE', 'MISSING_SYMBOL']);
+    assert.deepEqual(await violations('Mixed case 123', classes), []);
+  });
+
+  it('limits repeated characters', async () => {
+    assert.deepEqual(await violations('correct horse aaaa'), ['TOO_MANY_REPEATS']);
+    assert.deepEqual(await violations('correct horse aaa'), []);
+    assert.deepEqual(await violations('correct horse aaaa', { maxRepeatedChars: 0 }), []);
+  });
+
+  it('rejects banned words in any case', async () => {
+    assert.deepEqual(await violations('MyPassWord for now'), ['BANNED_WORD']);
+    assert.deepEqual(await violations('tuesday morning coffee', { bannedWords: ['Coffee'] }), ['BANNED_WORD']);
+  });
+
+  it('rejects the username and parts of the email address', async () => {
+    const context = { username: 'alice', email: 'alice.smith@example.com' };
+    assert.deepEqual(await violations('hello alice 2024', {}, context), ['PERSONAL_INFO']);
+    assert.deepEqual(await violations('mrs smith forever', {}, context), ['PERSONAL_INFO']);
+    assert.deepEqual(await violations('mrs smith forever', { banPersonalInfo: false }, context), []);
+  });
+
+  it('rejects a recently used password', async () => {
+    let checkedCount = 0;
+    const hooks = {
+      isRecentlyUsed: async (password: string, count: number) => {
+        checkedCount = count;
+        return password === 'my previous passphrase';
+      },
+    };
+    assert.deepEqual(await violations('my previous passphrase', {}, {}, hooks), ['RECENTLY_USED']);
+    assert.equal(checkedCount, DEFAULT_PASSWORD_POLICY.historySize);
+    assert.deepEqual(await violations('a brand new passphrase', {}, {}, hooks), []);
+    // No history kept
+    assert.deepEqual(await violations('my previous passphrase', { historySize: 0 }, {}, hooks), []);
+  });
+
+  it('rejects a breached password', async () => {
+    const hooks = { getBreachCount: async (password: string) => (password === 'seen in a breach' ? 1234 : 0) };
+    const result = await evaluatePasswordPolicy('seen in a breach', {}, hooks, { ...policy, checkBreaches: true });
+    assert.deepEqual(result, [{ code: 'BREACHED', message: 'This password has been seen 1,234 times in data breaches' }]);
+    assert.deepEqual(await violations('never been breached', { checkBreaches: true }, {}, hooks), []);
+  });
+});
+
+describe('loadPasswordPolicy', () => {
+  it('uses the defaults without PASSWORD_POLICY_PATH', () => {
+    assert.deepEqual(loadPasswordPolicy(), DEFAULT_PASSWORD_POLICY);
+  });
+
+  it('overrides only the configured settings', () => {
+    process.env.PASSWORD_POLICY_PATH = writePolicy('policy.json', '{"minLength": 12, "requireDigit": true}');
+    assert.deepEqual(loadPasswordPolicy(), { ...DEFAULT_PASSWORD_POLICY, minLength: 12, requireDigit: true });
+  });
+
+  it('rejects an invalid policy file and keeps the defaults', (t) => {
+    const logged = t.mock.method(console, 'error', () => {});
+    for (const contents of ['{"minLength": 0}', '{"requireDigit": "yes"}', 'not json']) {
+      process.env.PASSWORD_POLICY_PATH = writePolicy('invalid.json', contents);
+      resetPasswordPolicy();
+      assert.deepEqual(loadPasswordPolicy(), DEFAULT_PASSWORD_POLICY, contents);
+    }
+    assert.equal(logged.mock.callCount(), 3);
+  });
+
+  it('keeps the defaults when the policy file is missing', (t) => {
+    t.mock.method(console, 'error', () => {});
+    process.env.PASSWORD_POLICY_PATH = path.join(policyDir, 'missing.json');
+    assert.deepEqual(loadPasswordPolicy(), DEFAULT_PASSWORD_POLICY);
+  });
+});
@@ -0,0 +1,90 @@
+import fs from 'fs';
+import {
+  DEFAULT_PASSWORD_POLICY,
+  PasswordPolicy,
+  PasswordPolicyContext,
+  PasswordPolicyViolation,
+  checkPasswordRules,
+  passwordPolicySchema,
+} from '@shared/password-policy';
+import { getBreachCount } from './breach';
+
+// Account password policy, configured by an administrator through
+// PASSWORD_POLICY_PATH (JSON), e.g. {"minLength": 12, "requireDigit": true}.
+// Settings left out keep their defaults.
+
+let passwordPolicy: PasswordPolicy | null = null;
+
+export function loadPasswordPolicy(): PasswordPolicy {
+  if (passwordPolicy) {
+    return passwordPolicy;
+  }
+
+  passwordPolicy = { ...DEFAULT_PASSWORD_POLICY };
+  const policyPath = process.env.PASSWORD_POLICY_PATH;
+  if (policyPath) {
+    try {
+      const configured = passwordPolicySchema.partial().parse(JSON.parse(fs.readFileSync(policyPath, 'utf8')));
+      passwordPolicy = { ...passwordPolicy, ...configured };
+    } catch (error) {
+      console.error(`Failed to load password policy from ${policyPath}:`, error);
+    }
+  }
+
+  return passwordPolicy;
+}
+
+// Read PASSWORD_POLICY_PATH again on next use, e.g. after the environment changes
+export function resetPasswordPolicy() {
+  passwordPolicy = null;
+}
+
+// Checks that need more than the password. Both are optional so callers can
+// leave out what doesn't apply, e.g. there is no history at registration.
+export interface PasswordPolicyHooks {
+  // Times the password has been seen in breaches
+  getBreachCount?: (password: string) => Promise<number>;
+  // Whether the password matches one of the user's last `count` passwords
+  isRecentlyUsed?: (password: string, count: number) => Promise<boolean>;
+}
+
+// Every rule the password breaks, in the order they are listed in the policy
+export async function evaluatePasswordPolicy(
+  password: string,
+  context: PasswordPolicyContext,
+  hooks: PasswordPolicyHooks = {},
+  policy: PasswordPolicy = loadPasswordPolicy(),
+): Promise<PasswordPolicyViolation[]> {
+  const violations = checkPasswordRules(password, policy, context);
+
+  const breachCheck = hooks.getBreachCount || getBreachCount;
+  if (policy.checkBreaches) {
+    const breachCount = await breachCheck(password);
+    if (breachCount > 0) {
+      violations.push({
+        code: 'BREACHED',
+        message: `This password has been seen ${breachCount.toLocaleString('en-US')} time${breachCount === 1 ? '' : 's'} in data breaches`,
+      });
+    }
+  }
+
+  if (policy.historySize > 0 && hooks.isRecentlyUsed && (await hooks.isRecentlyUsed(password, policy.historySize))) {
+    violations.push({
+      code: 'RECENTLY_USED',
+      message: policy.historySize === 1
+        ? "Choose a password that's different from your current one"
+        : `Don't reuse any of your last ${policy.historySize} passwords`,
+    });
+  }
+
+  return violations;
+}
+
+// 400 response body listing the violations; the first also serves as the message
+export function passwordPolicyErrorBody(violations: PasswordPolicyViolation[]) {
+  return {
+    message: violations[0].message,
+    code: 'PASSWORD_POLICY',
+    violations,
+  };
+}
@@ -0,0 +1,29 @@
+import { EventEmitter } from 'events';
+
+// QR login state transitions pushed to the waiting desktop browser
+export type QRLoginEvent = 'created' | 'scanned' | 'approved' | 'denied' | 'expired';
+
+// In-process event bus keyed by QR challenge ID. Subscribers only live as long
+// as their SSE connection, so this stays small; with several server instances
+// the polling endpoint remains the source of truth.
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+const channel = (challengeId: number) => `qr:${challengeId}`;
+
+// Map a stored challenge status to the event a new subscriber should see first
+export function statusToQRLoginEvent(status: string): QRLoginEvent {
+  return status === 'pending' ? 'created' : status as QRLoginEvent;
+}
+
+export function publishQRLoginEvent(challengeId: number, event: QRLoginEvent): void {
+  emitter.emit(channel(challengeId), event);
+}
+
+// Subscribe to a challenge's transitions; returns an unsubscribe function
+export function subscribeToQRLogin(challengeId: number, listener: (event: QRLoginEvent) => void): () => void {
+  emitter.on(channel(challengeId), listener);
+  return () => {
+    emitter.off(channel(challengeId), listener);
+  };
+}
@@ -0,0 +1,107 @@
+import pkg from 'pg';
+import { drizzle } from "drizzle-orm/node-postgres";
+import { and, eq, isNotNull, isNull, ne, or } from "drizzle-orm";
+import type { PgColumn, PgTable } from "drizzle-orm/pg-core";
+import { users, savedPasswords } from "@shared/schema";
+import { getCurrentKeyVersion, rewrapField } from "./encryption";
+
+// Re-wrap every encrypted column under the current master key, and encrypt
+// values written before a master key existed. Safe to run while the app is
+// serving traffic: each row is updated only if its value hasn't changed since
+// it was read, and the app can read both key versions in the meantime.
+//
+// Rotation:
+//   1. Add the new key to the keyring, keeping the old one as current, and
+//      restart every instance so they can all read the new version.
+//   2. Make the new key current and restart again; new writes use it.
+//   3. Run `npm run keys:rotate`.
+//   4. Remove the old key from the keyring.
+
+interface EncryptedColumn {
+  name: string;
+  table: PgTable;
+  id: PgColumn;
+  value: PgColumn;
+  keyVersion: PgColumn;
+  valueField: string;
+  keyVersionField: string;
+}
+
+const ENCRYPTED_COLUMNS: EncryptedColumn[] = [
+  {
+    name: 'users.mfa_secret',
+    table: users,
+    id: users.id,
+    value: users.mfaSecret,
+    keyVersion: users.mfaSecretKeyVersion,
+    valueField: 'mfaSecret',
+    keyVersionField: 'mfaSecretKeyVersion',
+  },
+  {
+    name: 'users.verification_code',
+    table: users,
+    id: users.id,
+    value: users.verificationCode,
+    keyVersion: users.verificationCodeKeyVersion,
+    valueField: 'verificationCode',
+    keyVersionField: 'verificationCodeKeyVersion',
+  },
+  {
+    name: 'saved_passwords.password',
+    table: savedPasswords,
+    id: savedPasswords.id,
+    value: savedPasswords.password,
+    keyVersion: savedPasswords.passwordKeyVersion,
+    valueField: 'password',
+    keyVersionField: 'passwordKeyVersion',
+  },
+];
+
+const { Pool } = pkg;
+const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+const db = drizzle(pool);
+
+async function rotateColumn(column: EncryptedColumn, currentVersion: number): Promise<number> {
+  const rows = await db
+    .select({ id: column.id, value: column.value, keyVersion: column.keyVersion })
+    .from(column.table)
+    .where(and(
+      isNotNull(column.value),
+      or(isNull(column.keyVersion), ne(column.keyVersion, currentVersion)),
+    ));
+
+  let rotated = 0;
+  for (const row of rows) {
+    const encrypted = rewrapField(row.value as string, row.keyVersion as number | null);
+    // Skip rows the app changed since we read them; they already use the current key
+    const result = await db
+      .update(column.table)
+      .set({ [column.valueField]: encrypted.value, [column.keyVersionField]: encrypted.keyVersion })
+      .where(and(eq(column.id, row.id as number), eq(column.value, row.value as string)))
+      .returning({ id: column.id });
+    rotated += result.length;
+  }
+  return rotated;
+}
+
+async function main() {
+  if (!process.env.DATABASE_URL) {
+    throw new Error('DATABASE_URL must be set');
+  }
+  const currentVersion = getCurrentKeyVersion();
+  if (currentVersion === null) {
+    throw new Error('No master encryption key configured');
+  }
+
+  for (const column of ENCRYPTED_COLUMNS) {
+    const rotated = await rotateColumn(column, currentVersion);
+    console.log(`${column.name}: ${rotated} value(s) moved to master key version ${currentVersion}`);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('Key rotation failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -1,5 +1,21 @@
 import type { Express, Request as ExpressRequest, Response, NextFunction } from "express";
-import { setupAuthRoutes } from "./auth";
+import {
+  setupAuthRoutes,
+  completeFirstFactor,
+  establishSession,
+  hasPendingMfa,
+  comparePasswords,
+  hashPassword,
+  isPasswordRecentlyUsed,
+  recordPasswordHistory,
+  hashPasswordResetToken,
+  issuePasswordResetToken,
+  revokeSessions,
+  hasRecentAuthentication,
+  hasRecentReauthentication,
+  markReauthenticated,
+  RECENT_AUTH_WINDOW_MS,
+} from "./auth";
 
 // Extend Request type to include user
 interface Request extends ExpressRequest {
@@ -7,13 +23,16 @@ interface Request extends ExpressRequest {
   login?: (user: any, callback: (err?: any) => void) => void;
 }
 import { createServer, type Server } from "http";
-import { storage, IStorage } from "./storage";
+import { storage, IStorage, SavedPasswordFilter } from "./storage";
 import { 
   authRateLimiter, 
   authSpeedLimiter, 
   webAuthnRateLimiter, 
   passwordRateLimiter,
-  qrCodeRateLimiter
+  generatorRateLimiter,
+  breachRateLimiter,
+  qrCodeRateLimiter,
+  qrCodeStatusRateLimiter
 } from "./middleware/security";
 import { 
   generateChallenge, 
@@ -24,11 +43,28 @@ import {
   createAuthenticationOptions,
   verifyOrigin,
   verifyRpIdHash,
-  parseAuthenticatorData
+  parseAuthenticatorData,
+  parseAttestationObject,
+  verifyAssertionSignature,
+  isSignCountValid,
+  AUTH_DATA_FLAGS,
+  type ParsedAuthenticatorData
 } from "./webAuthn";
+import { publishQRLoginEvent, subscribeToQRLogin, statusToQRLoginEvent, type QRLoginEvent } from "./qr-events";
+import { getAttestationPolicy, loadTrustAnchors, verifyAttestation } from "./attestation";
+import {
+  evaluateAuthenticatorPolicy,
+  getMetadataTrustAnchors,
+  loadAuthenticatorPolicy,
+  policyRequiresTrustedAttestation,
+} from "./metadata";
+import { formatBreachRange, getBreachRange, normalizeHashPrefix } from "./breach";
+import { evaluatePasswordPolicy, loadPasswordPolicy, passwordPolicyErrorBody } from "./password-policy";
+import { canSendMail, getMailer } from "./mailer";
 import crypto from 'crypto';
 import { z } from "zod";
-import { webAuthnRegistrationInputSchema, webAuthnLoginInputSchema, insertUserSchema, SavedPassword, Challenge, Credential } from "@shared/schema";
+import { DEFAULT_GENERATOR_PRESET, GENERATOR_PRESETS, generatePassword, generatorOptionsSchema, getGeneratorPreset } from "@shared/password-generator";
+import { webAuthnRegistrationInputSchema, webAuthnLoginInputSchema, insertUserSchema, SavedPassword, Challenge, Credential, InsertCredential, Folder, VaultItemMetadata, folderInputSchema, vaultItemMetadataSchema } from "@shared/schema";
 
 // Configuration for WebAuthn
 const WEBAUTHN_CONFIG = {
@@ -39,6 +75,7 @@ const WEBAUTHN_CONFIG = {
   origin: process.env.ORIGIN || `https://${process.env.REPLIT_DOMAINS?.split(',')[0]}` || 'http://localhost:5000',
   timeout: 60000,
   challengeTimeout: 300000, // 5 minutes in milliseconds
+  attestation: getAttestationPolicy(),
 };
 
 // Helper to get the host from request
@@ -56,7 +93,467 @@ function getOrigin(req: Request): string {
   return `${protocol}://${host}`;
 }
 
+// Public URL of the app for emailed links (APP_URL). Links are never built from
+// the request's Host headers, which the client controls. Throws if APP_URL is
+// set but isn't an http(s) URL; null if it isn't set.
+function getAppUrl(): string | null {
+  const configured = process.env.APP_URL;
+  if (!configured) {
+    return null;
+  }
+  let url: URL;
+  try {
+    url = new URL(configured);
+  } catch {
+    throw new Error(`APP_URL is not a valid URL: ${configured}`);
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new Error(`APP_URL must be an http(s) URL: ${configured}`);
+  }
+  return configured.replace(/\/+$/, '');
+}
+
+// Most items accepted by one import request; the client sends larger imports in batches
+const MAX_IMPORT_BATCH = 200;
+
+// Most hash prefixes looked up by one breach check request
+const MAX_BREACH_PREFIXES = 1000;
+
+// Days an item stays in the trash before it is deleted for good (TRASH_RETENTION_DAYS)
+function getTrashRetentionDays(): number {
+  const configured = process.env.TRASH_RETENTION_DAYS;
+  const days = Number(configured || 30);
+  if (!Number.isInteger(days) || days < 1) {
+    console.warn(`Invalid TRASH_RETENTION_DAYS value "${configured}", falling back to 30`);
+    return 30;
+  }
+  return days;
+}
+
+const TRASH_RETENTION_DAYS = getTrashRetentionDays();
+
+// Most passwords returned by one password generator request
+const MAX_GENERATED_PASSWORDS = 50;
+
+// Earlier versions kept for each vault item; the oldest are dropped beyond this
+const MAX_VERSIONS_PER_ITEM = 50;
+
+// Names of the fields a change touched, worked out by the client since only it
+// can read the item. Used as a label in the history view, never trusted.
+const changedFieldsSchema = z.array(z.string().min(1).max(32)).max(32).optional();
+
+// Shape check for a client-side encrypted vault item; the server can't read it
+function isEncryptedItem(value: unknown): value is string {
+  if (typeof value !== 'string' || value.length > 64 * 1024) {
+    return false;
+  }
+  try {
+    const envelope = JSON.parse(value);
+    return typeof envelope.v === 'number' && typeof envelope.iv === 'string' && typeof envelope.ct === 'string';
+  } catch {
+    return false;
+  }
+}
+
+// An item that was created but never filled in, e.g. because saving its
+// encrypted contents failed; it isn't listed
+function isEmptyItem(item: SavedPassword): boolean {
+  return !item.encryptedData && !item.website && !item.url && !item.username && !item.password && !item.notes;
+}
+
+// A folder and all of its subfolders
+function getFolderSubtree(folders: Folder[], folderId: number): number[] {
+  const ids = [folderId];
+  for (let i = 0; i < ids.length; i++) {
+    ids.push(...folders.filter(folder => folder.parentId === ids[i]).map(folder => folder.id));
+  }
+  return ids;
+}
+
+// Validate the folder, tags and favorite flag sent with an item. The folder
+// must belong to the user; duplicate tags are dropped.
+async function parseItemMetadata(userId: number, body: unknown): Promise<{ metadata: VaultItemMetadata } | { error: string }> {
+  const parsed = vaultItemMetadataSchema.safeParse(body);
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0].message };
+  }
+  
+  const metadata = parsed.data;
+  if (metadata.folderId != null) {
+    const folder = await storage.getFolder(metadata.folderId);
+    if (!folder || folder.userId !== userId) {
+      return { error: 'Folder not found' };
+    }
+  }
+  if (metadata.tags) {
+    metadata.tags = Array.from(new Set(metadata.tags));
+  }
+  return { metadata };
+}
+
+// Keep the current contents of an item as a version before they are replaced.
+// Items that still hold legacy plaintext have nothing encrypted to keep.
+async function recordVaultItemVersion(item: SavedPassword, changedFields: string[] | undefined, req: Request): Promise<void> {
+  if (!item.encryptedData) {
+    return;
+  }
+  
+  await storage.createVaultItemVersion({
+    itemId: item.id,
+    userId: item.userId,
+    encryptedData: item.encryptedData,
+    changedFields: changedFields || [],
+    userAgent: req.get('User-Agent'),
+  });
+  await storage.deleteVaultItemVersionsBeyond(item.id, MAX_VERSIONS_PER_ITEM);
+}
+
+// Approximate location of a request, from geo headers set by the hosting proxy
+function getRequestLocation(req: Request): string | undefined {
+  const city = req.get('CF-IPCity') || req.get('X-Vercel-IP-City');
+  const country = req.get('CF-IPCountry') || req.get('X-Vercel-IP-Country');
+  const parts = [city && decodeURIComponent(city), country].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : undefined;
+}
+
+// Find an unexpired QR login challenge by the code encoded in the QR image
+async function getActiveQRChallenge(code: string): Promise<Challenge | undefined> {
+  const challenge = await storage.getChallengeByChallenge(code);
+  if (!challenge || challenge.type !== 'qrcode' || new Date(challenge.expiresAt) < new Date()) {
+    return undefined;
+  }
+  return challenge;
+}
+
+// WebAuthn attestation (navigator.credentials.create) as sent by the client
+const registrationCredentialSchema = z.object({
+  id: z.string(),
+  rawId: z.string(),
+  type: z.string(),
+  response: z.object({
+    attestationObject: z.string(),
+    clientDataJSON: z.string(),
+  }),
+  authenticatorAttachment: z.string().optional(),
+  clientExtensionResults: z.record(z.any()).default({}),
+  transports: z.array(z.string()).optional(),
+});
+
+type RegistrationCredential = z.infer<typeof registrationCredentialSchema>;
+
+type RegistrationVerification =
+  | { verified: true; credential: Omit<InsertCredential, 'userId'> }
+  | { verified: false; status: number; body: { message?: string; code?: string } };
+
+// Normalize base64 vs base64url challenge encodings before comparing
+function challengesMatch(clientChallenge: unknown, expectedChallenge: string): boolean {
+  const normalize = (value: string) => value.replace(/=/g, '').replace(/\+/g, '-').replace(/\//g, '_');
+  return typeof clientChallenge === 'string' && normalize(clientChallenge) === normalize(expectedChallenge);
+}
+
+// Verify a registration response (client data, authenticator data, authenticator
+// policy and attestation) and build the credential record to store
+async function verifyRegistration(
+  req: Request,
+  credential: RegistrationCredential,
+  expectedChallenge: string,
+): Promise<RegistrationVerification> {
+  const clientDataBuffer = base64URLToBuffer(credential.response.clientDataJSON);
+  const clientData = JSON.parse(clientDataBuffer.toString());
+
+  if (clientData.type !== 'webauthn.create') {
+    return { verified: false, status: 400, body: { message: 'Invalid client data type' } };
+  }
+
+  if (!challengesMatch(clientData.challenge, expectedChallenge)) {
+    console.warn(`Challenge mismatch: ${clientData.challenge} vs ${expectedChallenge}`);
+    return { verified: false, status: 400, body: { message: 'Challenge mismatch' } };
+  }
+
+  // Verify origin
+  const origin = getOrigin(req);
+  if (clientData.origin !== origin) {
+    // In development mode, be more lenient with origin checks
+    console.warn(`Origin mismatch: ${clientData.origin} !== ${origin}`);
+  }
+
+  // Decode the attestation object and the authenticator data it carries
+  const attestationObject = base64URLToBuffer(credential.response.attestationObject);
+  let parsedAttestation;
+  let parsedAuthData;
+  try {
+    parsedAttestation = parseAttestationObject(attestationObject);
+    parsedAuthData = parseAuthenticatorData(parsedAttestation.authData);
+  } catch (error) {
+    console.error('Error decoding attestation object:', error);
+    return { verified: false, status: 400, body: { message: 'Malformed attestation object' } };
+  }
+
+  // Get host for rpId - use only domain for WebAuthn
+  const domain = getHost(req).split(':')[0];
+  if (!verifyRpIdHash(parsedAttestation.authData, domain)) {
+    return { verified: false, status: 400, body: { message: `RP ID hash verification failed for domain: ${domain}` } };
+  }
+
+  if (!(parsedAuthData.flags & AUTH_DATA_FLAGS.USER_PRESENT)) {
+    return { verified: false, status: 400, body: { message: 'User presence flag not set in authenticator data' } };
+  }
+
+  const attestedCredential = parsedAuthData.attestedCredentialData;
+  if (!attestedCredential) {
+    return { verified: false, status: 400, body: { message: 'Attestation does not contain a credential public key' } };
+  }
+
+  // The credential ID inside authData must match the one the browser reported
+  const attestedCredentialId = bufferToBase64URL(attestedCredential.credentialId);
+  if (attestedCredentialId !== credential.rawId) {
+    return { verified: false, status: 400, body: { message: 'Credential ID does not match attested credential data' } };
+  }
+
+  if (await storage.getCredentialByCredentialId(attestedCredentialId)) {
+    return { verified: false, status: 400, body: { message: 'This passkey is already registered' } };
+  }
+
+  // Apply the authenticator allow/deny policy using MDS metadata.
+  // The AAGUID is only vouched for when attestation is verified (below).
+  const authenticatorDecision = evaluateAuthenticatorPolicy(attestedCredential.aaguid);
+  if (!authenticatorDecision.allowed) {
+    return {
+      verified: false,
+      status: 400,
+      body: { message: authenticatorDecision.reason, code: 'AUTHENTICATOR_NOT_ALLOWED' },
+    };
+  }
+
+  // Verify the attestation statement according to the configured policy
+  let attestation;
+  try {
+    attestation = verifyAttestation({
+      fmt: parsedAttestation.fmt,
+      attStmt: parsedAttestation.attStmt,
+      authData: parsedAttestation.authData,
+      clientDataHash: crypto.createHash('sha256').update(clientDataBuffer).digest(),
+      authenticatorData: parsedAuthData,
+    }, WEBAUTHN_CONFIG.attestation, [
+      ...loadTrustAnchors(),
+      ...getMetadataTrustAnchors(authenticatorDecision.entry),
+    ]);
+  } catch (error) {
+    console.warn('Attestation rejected:', error);
+    return {
+      verified: false,
+      status: 400,
+      body: {
+        message: error instanceof Error ? error.message : 'Attestation verification failed',
+        code: 'ATTESTATION_REJECTED',
+      },
+    };
+  }
+
+  // Without a trusted attestation the AAGUID is whatever the client claimed, so
+  // it can't satisfy a policy that depends on the model, and its metadata
+  // name and icon aren't shown
+  if (!attestation.trusted && policyRequiresTrustedAttestation()) {
+    return {
+      verified: false,
+      status: 400,
+      body: {
+        message: 'This authenticator could not prove its model, which the authenticator policy requires',
+        code: 'ATTESTATION_REQUIRED',
+      },
+    };
+  }
+  const authenticatorMetadata = attestation.trusted ? authenticatorDecision.entry?.metadataStatement : undefined;
+
+  return {
+    verified: true,
+    credential: {
+      credentialId: attestedCredentialId,
+      // COSE public key, base64url-encoded CBOR
+      publicKey: bufferToBase64URL(attestedCredential.credentialPublicKey),
+      counter: parsedAuthData.counter,
+      transports: credential.transports || [],
+      aaguid: attestedCredential.aaguid,
+      attestationFormat: attestation.format,
+      attestationType: attestation.type,
+      authenticatorName: authenticatorMetadata?.description,
+      authenticatorIcon: authenticatorMetadata?.icon,
+      backupEligible: (parsedAuthData.flags & AUTH_DATA_FLAGS.BACKUP_ELIGIBLE) !== 0,
+      backedUp: (parsedAuthData.flags & AUTH_DATA_FLAGS.BACKED_UP) !== 0,
+      prfSupported: credential.clientExtensionResults.prf?.enabled === true,
+    },
+  };
+}
+
+// WebAuthn assertion (navigator.credentials.get) as sent by the client
+const assertionCredentialSchema = z.object({
+  id: z.string(),
+  rawId: z.string(),
+  type: z.string(),
+  response: z.object({
+    authenticatorData: z.string(),
+    clientDataJSON: z.string(),
+    signature: z.string(),
+    userHandle: z.string().nullable(),
+  }),
+  clientExtensionResults: z.record(z.any()).default({}),
+});
+
+type AssertionCredential = z.infer<typeof assertionCredentialSchema>;
+
+type AssertionVerification =
+  | { verified: true; authData: ParsedAuthenticatorData }
+  | { verified: false; status: number; body: { message: string; code?: string } };
+
+// Verify an assertion against a stored credential and the expected challenge,
+// then record the new signature counter
+async function verifyAssertion(
+  req: Request,
+  credential: AssertionCredential,
+  userCredential: Credential,
+  expectedChallenge: string,
+  requireUserVerification: boolean = false,
+): Promise<AssertionVerification> {
+  const clientDataBuffer = base64URLToBuffer(credential.response.clientDataJSON);
+  const clientData = JSON.parse(clientDataBuffer.toString());
+
+  if (clientData.type !== 'webauthn.get') {
+    return { verified: false, status: 400, body: { message: 'Invalid client data type' } };
+  }
+
+  // Verify origin
+  const origin = getOrigin(req);
+  if (clientData.origin !== origin) {
+    // In development mode, be more lenient with origin checks
+    console.warn(`Origin mismatch: ${clientData.origin} !== ${origin}`);
+  }
+
+  if (!challengesMatch(clientData.challenge, expectedChallenge)) {
+    console.warn(`Login challenge mismatch: ${clientData.challenge} vs ${expectedChallenge}`);
+    return { verified: false, status: 400, body: { message: 'Challenge mismatch' } };
+  }
+
+  // Verify RP ID hash - use only domain for WebAuthn
+  const authData = base64URLToBuffer(credential.response.authenticatorData);
+  const parsedAuthData = parseAuthenticatorData(authData);
+  const domain = getHost(req).split(':')[0];
+  if (!verifyRpIdHash(authData, domain)) {
+    return { verified: false, status: 400, body: { message: `RP ID hash verification failed for domain: ${domain}` } };
+  }
+
+  // Verify the assertion signature with the stored credential public key
+  let signatureVerified;
+  try {
+    signatureVerified = verifyAssertionSignature(
+      userCredential.publicKey,
+      authData,
+      clientDataBuffer,
+      base64URLToBuffer(credential.response.signature),
+    );
+  } catch (error) {
+    // Credentials registered before COSE keys were stored cannot be verified
+    console.error(`Unusable public key for credential ${userCredential.id}:`, error);
+    return {
+      verified: false,
+      status: 400,
+      body: {
+        message: 'Stored credential key is not supported, please register a new passkey',
+        code: 'UNSUPPORTED_CREDENTIAL_KEY'
+      }
+    };
+  }
+
+  if (!signatureVerified) {
+    console.warn(`Signature verification failed for credential ${userCredential.id}`);
+    return {
+      verified: false,
+      status: 401,
+      body: { message: 'Signature verification failed', code: 'INVALID_SIGNATURE' }
+    };
+  }
+
+  // Check user verified flag
+  if (!(parsedAuthData.flags & AUTH_DATA_FLAGS.USER_VERIFIED)) {
+    if (requireUserVerification) {
+      return { verified: false, status: 400, body: { message: 'User verification is required' } };
+    }
+    // In development/testing, we'll allow non-verified users 
+    // but log a warning (in production you might want to enforce this)
+    console.warn('User was not verified by the authenticator - allowing in dev/test mode');
+  }
+
+  // Verify counter; one that didn't increase could indicate a cloned credential
+  if (!isSignCountValid(parsedAuthData.counter, userCredential.counter)) {
+    console.warn(`Counter did not increase for credential ${userCredential.id}`);
+    return {
+      verified: false,
+      status: 401,
+      body: { message: 'Signature counter did not increase', code: 'COUNTER_NOT_INCREASED' }
+    };
+  }
+
+  // Update credential counter and usage; the backup state (BS) can change over time.
+  // Some authenticators only reveal PRF support when it is first evaluated.
+  await storage.updateCredential(userCredential.id, {
+    counter: parsedAuthData.counter,
+    lastUsedAt: new Date(),
+    backedUp: (parsedAuthData.flags & AUTH_DATA_FLAGS.BACKED_UP) !== 0,
+    ...(credential.clientExtensionResults.prf?.evaluated === true && { prfSupported: true }),
+  });
+
+  return { verified: true, authData: parsedAuthData };
+}
+
+// Look up the stored challenge an assertion's clientDataJSON was signed over
+async function getAssertionChallenge(credential: AssertionCredential): Promise<Challenge | undefined> {
+  const clientData = JSON.parse(base64URLToBuffer(credential.response.clientDataJSON).toString());
+  if (typeof clientData.challenge !== 'string') {
+    return undefined;
+  }
+  return storage.getChallengeByChallenge(clientData.challenge);
+}
+
+// Credential fields that are safe to send to the client (no key material)
+function toCredentialSummary(credential: Credential) {
+  return {
+    id: credential.id,
+    credentialId: credential.credentialId,
+    nickname: credential.nickname,
+    authenticatorName: credential.authenticatorName,
+    authenticatorIcon: credential.authenticatorIcon,
+    aaguid: credential.aaguid,
+    transports: credential.transports || [],
+    backupEligible: credential.backupEligible,
+    backedUp: credential.backedUp,
+    prfSupported: credential.prfSupported,
+    createdAt: credential.createdAt,
+    lastUsedAt: credential.lastUsedAt,
+  };
+}
+
+// PRF salts for the user's passkeys that wrap a copy of the vault key, keyed by credential ID
+async function getVaultPrfSalts(userId: number): Promise<Record<string, string>> {
+  const vaultKeys = await storage.getVaultKeysByUserId(userId);
+  return Object.fromEntries(
+    vaultKeys
+      .filter(key => key.type === 'prf' && key.credentialId)
+      .map(key => [key.credentialId!, key.salt]),
+  );
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Fail at startup on an invalid authenticator policy rather than at the first registration
+  const authenticatorPolicy = loadAuthenticatorPolicy();
+  if (policyRequiresTrustedAttestation(authenticatorPolicy) && WEBAUTHN_CONFIG.attestation === 'none') {
+    console.warn('The authenticator policy needs trusted attestation, but WEBAUTHN_ATTESTATION is "none", so no passkey can be registered');
+  }
+  if (!getAppUrl()) {
+    console.warn('APP_URL is not set, so password reset links can\'t be emailed');
+  }
+  if (!canSendMail()) {
+    console.warn('SMTP_URL is not set, so password reset emails are turned off in production');
+  }
+
   // Setup auth routes and get the requireAuth middleware
   const { requireAuth } = setupAuthRoutes(app);
   // Clean up expired challenges periodically
@@ -73,6 +570,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (deleted > 0) {
         console.log(`Deleted ${deleted} expired challenges`);
       }
+      const deletedResetTokens = await storage.deleteExpiredPasswordResetTokens();
+      if (deletedResetTokens > 0) {
+        console.log(`Deleted ${deletedResetTokens} expired password reset tokens`);
+      }
     } catch (error) {
       // Don't log full error details for expected intermittent DB errors
       if (error instanceof Error) {
@@ -85,6 +586,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   }, 120000); // Run every 2 minutes instead
 
+  // Permanently delete items that have been in the trash for longer than the retention period
+  let trashPurgeRunning = false;
+  setInterval(async () => {
+    if (trashPurgeRunning) {
+      return;
+    }
+    
+    trashPurgeRunning = true;
+    try {
+      const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+      const deleted = await storage.deleteTrashedSavedPasswords(cutoff);
+      if (deleted > 0) {
+        console.log(`Purged ${deleted} vault item(s) from the trash`);
+      }
+    } catch (error) {
+      if (error instanceof Error) {
+        console.warn(`Trash purge skipped: ${error.message}`);
+      } else {
+        console.error('Error purging trash:', error);
+      }
+    } finally {
+      trashPurgeRunning = false;
+    }
+  }, 60 * 60 * 1000); // Hourly
+
   // Health check endpoint
   app.get('/api/health', async (_req: Request, res: Response) => {
     try {
@@ -168,6 +694,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         WEBAUTHN_CONFIG.rpName,
         domain, // Use request domain as rpId
         WEBAUTHN_CONFIG.timeout,
+        WEBAUTHN_CONFIG.attestation,
       );
       
       return res.json(registrationOptions);
@@ -182,18 +709,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { email, credential, expectedChallenge } = z.object({
         email: z.string().email(),
-        credential: z.object({
-          id: z.string(),
-          rawId: z.string(),
-          type: z.string(),
-          response: z.object({
-            attestationObject: z.string(),
-            clientDataJSON: z.string(),
-          }),
-          authenticatorAttachment: z.string().optional(),
-          clientExtensionResults: z.record(z.any()).default({}),
-          transports: z.array(z.string()).optional(),
-        }),
+        credential: registrationCredentialSchema,
         expectedChallenge: z.string().nullable().optional(),
       }).parse(req.body);
       
@@ -211,19 +727,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'No active challenge found' });
       }
       
-      // Verify client data
-      const clientDataJSON = base64URLToBuffer(credential.response.clientDataJSON).toString();
-      const clientData = JSON.parse(clientDataJSON);
-      
-      // ============ Challenge Verification ============
-      // Log all challenges for debugging
-      console.log('Client challenge:', clientData.challenge);
-      console.log('Server challenge from DB:', challenge.challenge);
-      
-      if (expectedChallenge) {
-        console.log('Client-provided expectedChallenge:', expectedChallenge);
-      }
-      
       // Use the client-provided expected challenge if available
       if (expectedChallenge && expectedChallenge !== challenge.challenge) {
         // Check if there's another matching challenge
@@ -234,66 +737,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         );
         
         if (matchingChallenge) {
-          console.log('Found a matching challenge using expectedChallenge:', matchingChallenge.challenge);
           challenge = matchingChallenge;
         } else {
           console.warn('Expected challenge provided but not found in active challenges');
         }
       }
       
-      // Compare challenges with more flexibility for encoding issues
-      if (clientData.challenge !== challenge.challenge) {
-        // Normalize both challenges for comparison
-        try {
-          const clientChallenge = clientData.challenge.replace(/=/g, '').replace(/\+/g, '-').replace(/\//g, '_');
-          const serverChallenge = challenge.challenge.replace(/=/g, '').replace(/\+/g, '-').replace(/\//g, '_');
-          
-          if (clientChallenge !== serverChallenge) {
-            console.warn(`Challenge mismatch: ${clientData.challenge} vs ${challenge.challenge}`);
-            return res.status(400).json({ 
-              message: 'Challenge mismatch',
-              details: {
-                clientChallenge: clientData.challenge,
-                serverChallenge: challenge.challenge,
-                expectedChallenge: expectedChallenge || 'not provided'
-              }
-            });
-          } else {
-            console.log('Challenge match after normalization');
-          }
-        } catch (error) {
-          console.error('Error comparing challenges:', error);
-          return res.status(400).json({ message: 'Challenge verification error' });
-        }
-      } else {
-        console.log('Direct challenge match!');
-      }
-      
-      // Verify origin
-      const origin = getOrigin(req);
-      console.log(`Registration - Verifying origin: ${clientData.origin} against expected: ${origin}`);
-      if (clientData.origin !== origin) {
-        // In development mode, be more lenient with origin checks
-        console.warn(`Origin mismatch: ${clientData.origin} !== ${origin}`);
-        console.warn("This is likely due to development environment differences.");
-        // In production, you would want to fail here:
-        // return res.status(400).json({ message: "Origin mismatch" });
+      const verification = await verifyRegistration(req, credential, challenge.challenge);
+      if (!verification.verified) {
+        return res.status(verification.status).json(verification.body);
       }
       
-      // Extract credential public key from attestation object
-      // Note: This is a simplified example, real implementation would need CBOR decoding
-      // For production, use a WebAuthn library like @simplewebauthn/server
-      const attestationObject = base64URLToBuffer(credential.response.attestationObject);
-      const publicKey = crypto.createHash('sha256').update(attestationObject).digest('base64');
-      
-      // Save credential
-      const credentialData = await storage.createCredential({
-        userId: user.id,
-        credentialId: credential.rawId,
-        publicKey,
-        counter: 0,
-        transports: credential.transports || [],
-      });
+      // Save credential with the COSE public key (base64url-encoded CBOR)
+      await storage.createCredential({ ...verification.credential, userId: user.id });
       
       // Update user as registered
       const updatedUser = await storage.updateUser(user.id, { registered: true });
@@ -360,6 +816,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         domain, // Use request domain as rpId
         allowCredentials,
         WEBAUTHN_CONFIG.timeout,
+        'preferred',
+        await getVaultPrfSalts(user.id),
       );
       
       return res.json(authenticationOptions);
@@ -374,18 +832,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { email, credential, expectedChallenge } = z.object({
         email: z.string().email(),
-        credential: z.object({
-          id: z.string(),
-          rawId: z.string(),
-          type: z.string(),
-          response: z.object({
-            authenticatorData: z.string(),
-            clientDataJSON: z.string(),
-            signature: z.string(),
-            userHandle: z.string().nullable(),
-          }),
-          clientExtensionResults: z.record(z.any()).default({}),
-        }),
+        credential: assertionCredentialSchema,
         expectedChallenge: z.string().nullable().optional(),
       }).parse(req.body);
       
@@ -414,30 +861,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'No active challenge found' });
       }
       
-      // Verify client data
-      const clientDataJSON = base64URLToBuffer(credential.response.clientDataJSON).toString();
-      const clientData = JSON.parse(clientDataJSON);
-      
-      // Verify origin
-      const origin = getOrigin(req);
-      console.log(`Login - Verifying origin: ${clientData.origin} against expected: ${origin}`);
-      if (clientData.origin !== origin) {
-        // In development mode, be more lenient with origin checks
-        console.warn(`Origin mismatch: ${clientData.origin} !== ${origin}`);
-        console.warn("This is likely due to development environment differences.");
-        // In production, you would want to fail here:
-        // return res.status(400).json({ message: "Origin mismatch" });
-      }
-      
-      // ============ Challenge Verification ============
-      // Log all challenges for debugging
-      console.log('Client login challenge:', clientData.challenge);
-      console.log('Server login challenge from DB:', challenge.challenge);
-      
-      if (expectedChallenge) {
-        console.log('Client-provided expected login challenge:', expectedChallenge);
-      }
-      
       // Use the client-provided expected challenge if available
       if (expectedChallenge && expectedChallenge !== challenge.challenge) {
         // Check if there's another matching challenge
@@ -448,134 +871,153 @@ export async function registerRoutes(app: Express): Promise<Server> {
         );
         
         if (matchingChallenge) {
-          console.log('Found a matching login challenge using expectedChallenge:', matchingChallenge.challenge);
           challenge = matchingChallenge;
         } else {
           console.warn('Expected login challenge provided but not found in active challenges');
         }
       }
       
-      // Compare challenges with more flexibility for encoding issues
-      if (clientData.challenge !== challenge.challenge) {
-        // Normalize both challenges for comparison
-        try {
-          const clientChallenge = clientData.challenge.replace(/=/g, '').replace(/\+/g, '-').replace(/\//g, '_');
-          const serverChallenge = challenge.challenge.replace(/=/g, '').replace(/\+/g, '-').replace(/\//g, '_');
-          
-          if (clientChallenge !== serverChallenge) {
-            console.warn(`Login challenge mismatch: ${clientData.challenge} vs ${challenge.challenge}`);
-            return res.status(400).json({ 
-              message: 'Challenge mismatch',
-              details: {
-                clientChallenge: clientData.challenge,
-                serverChallenge: challenge.challenge,
-                expectedChallenge: expectedChallenge || 'not provided'
-              }
-            });
-          } else {
-            console.log('Login challenge match after normalization');
-          }
-        } catch (error) {
-          console.error('Error comparing login challenges:', error);
-          return res.status(400).json({ message: 'Challenge verification error' });
-        }
-      } else {
-        console.log('Direct login challenge match!');
+      const verification = await verifyAssertion(req, credential, userCredential, challenge.challenge);
+      if (!verification.verified) {
+        return res.status(verification.status).json(verification.body);
       }
       
-      // Verify authenticator data
-      const authData = base64URLToBuffer(credential.response.authenticatorData);
-      const parsedAuthData = parseAuthenticatorData(authData);
+      // Delete used challenge
+      await storage.deleteChallenge(challenge.id);
       
-      // Get host for rpId - use only domain for WebAuthn
-      const host = getHost(req);
-      // Extract domain without port for rpId (required by WebAuthn)
-      const domain = host.split(':')[0];
-      console.log(`Login completion request from host: ${host}, using domain: ${domain} as rpId`);
+      // MFA gate, otherwise sign the user in
+      const mfaChallenge = await completeFirstFactor(req, user);
+      if (mfaChallenge) {
+        return res.json(mfaChallenge);
+      }
+      
+      return res.json({ 
+        user,
+        message: 'Login successful' 
+      });
+    } catch (error) {
+      console.error('Error completing login:', error);
+      return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid request' });
+    }
+  });
+
+  // Start usernameless login with a discoverable credential
+  app.post('/api/auth/login/discoverable/start', authRateLimiter, authSpeedLimiter, async (req: Request, res: Response) => {
+    try {
+      // Conditional mediation (passkey autofill) keeps the request pending while the form is open
+      const { mediation } = z.object({
+        mediation: z.enum(['optional', 'conditional']).default('optional'),
+      }).parse(req.body ?? {});
+      
+      // The user is unknown until the authenticator returns a userHandle
+      const challenge = generateChallenge();
+      const expiresAt = new Date(Date.now() + WEBAUTHN_CONFIG.challengeTimeout);
+      
+      await storage.createChallenge({
+        challenge,
+        type: mediation === 'conditional' ? 'conditional-authentication' : 'discoverable-authentication',
+        expiresAt,
+      });
+      
+      const domain = getHost(req).split(':')[0];
       
-      // Verify RP ID hash
-      const rpIdVerified = verifyRpIdHash(authData, domain);
-      if (!rpIdVerified) {
-        return res.status(400).json({ message: `RP ID hash verification failed for domain: ${domain}` });
+      // An empty allowCredentials list lets the authenticator offer its resident credentials
+      const authenticationOptions = createAuthenticationOptions(
+        challenge,
+        domain,
+        [],
+        WEBAUTHN_CONFIG.timeout,
+        'required',
+      );
+      
+      return res.json(authenticationOptions);
+    } catch (error) {
+      console.error('Error starting discoverable login:', error);
+      return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid request' });
+    }
+  });
+
+  // Complete usernameless login, resolving the user from the userHandle
+  app.post('/api/auth/login/discoverable/complete', authRateLimiter, authSpeedLimiter, webAuthnRateLimiter, async (req: Request, res: Response) => {
+    try {
+      const { credential } = z.object({
+        credential: assertionCredentialSchema,
+      }).parse(req.body);
+      
+      if (!credential.response.userHandle) {
+        return res.status(400).json({ message: 'Authenticator did not return a user handle' });
       }
       
-      // Check user verified flag (bit 0 of flags)
-      const userVerifiedFlag = (parsedAuthData.flags & 0x04) !== 0;
-      if (!userVerifiedFlag) {
-        // In development/testing, we'll allow non-verified users 
-        // but log a warning (in production you might want to enforce this)
-        console.warn('User was not verified by the authenticator - allowing in dev/test mode');
+      // userHandle is the user ID we set as user.id during registration
+      const userId = parseInt(base64URLToBuffer(credential.response.userHandle).toString(), 10);
+      const user = Number.isNaN(userId) ? undefined : await storage.getUser(userId);
+      const userCredential = await storage.getCredentialByCredentialId(credential.rawId);
+      if (!user || !userCredential || userCredential.userId !== user.id) {
+        return res.status(400).json({ message: 'Credential not found' });
       }
       
-      // Verify counter
-      if (parsedAuthData.counter <= userCredential.counter) {
-        // This could indicate a cloned credential
-        console.warn(`Counter did not increase for credential ${userCredential.id}`);
+      // Find the challenge the client signed
+      const challenge = await getAssertionChallenge(credential);
+      const discoverableTypes = ['discoverable-authentication', 'conditional-authentication'];
+      if (!challenge || !discoverableTypes.includes(challenge.type) || challenge.userId !== null ||
+          new Date(challenge.expiresAt) < new Date()) {
+        return res.status(400).json({ message: 'No active challenge found' });
       }
       
-      // Update credential counter
-      await storage.updateCredential(userCredential.id, {
-        counter: parsedAuthData.counter,
-      });
+      const verification = await verifyAssertion(req, credential, userCredential, challenge.challenge, true);
+      if (!verification.verified) {
+        return res.status(verification.status).json(verification.body);
+      }
       
       // Delete used challenge
       await storage.deleteChallenge(challenge.id);
       
+      // MFA gate, otherwise sign the user in
+      const mfaChallenge = await completeFirstFactor(req, user);
+      if (mfaChallenge) {
+        return res.json(mfaChallenge);
+      }
+      
       return res.json({ 
         user,
         message: 'Login successful' 
       });
     } catch (error) {
-      console.error('Error completing login:', error);
+      console.error('Error completing discoverable login:', error);
       return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid request' });
     }
   });
 
-  // Generate QR code for login
+  // Generate QR code for login. The QR code carries an unguessable code that an
+  // already signed-in phone scans and approves; only this browser session can
+  // then claim the approved sign-in.
   app.post('/api/auth/qrcode', authRateLimiter, authSpeedLimiter, qrCodeRateLimiter, async (req: Request, res: Response) => {
     try {
-      // Email is now optional - allowing anonymous QR codes (e.g. for login from another device)
-      // A special case will handle actual user association during verification
-      const { email } = z.object({ email: z.string().email().optional() }).parse(req.body);
-      
-      let userId;
-      
-      // If email is provided, check if user exists
-      if (email) {
-        const user = await storage.getUserByEmail(email);
-        if (user) {
-          if (!user.registered) {
-            return res.status(400).json({ message: 'User not registered, please register first' });
-          }
-          userId = user.id;
-        } else {
-          console.log(`QR code requested for non-existent user: ${email}, allowing anonymous QR code`);
-          // We'll still create a QR code but without a user association
-        }
-      }
-      
       // Generate challenge with limited-time validity
       const challenge = generateChallenge();
       
       // Set expiration to 5 minutes from now (shortened for security)
       const expiresAt = new Date(Date.now() + 5 * 60 * 1000);
       
-      // Generate unique challenge ID for QR code
-      // If userId is undefined, we're creating an anonymous QR code
-      // The scanning device will need to associate it with a user during verification
-      const qrCodeData = userId 
-        ? `${challenge}:${userId}` 
-        : `${challenge}:anonymous`;
+      const qrCodeData = generateQRCodeUrl(challenge, getOrigin(req));
       
-      // Create challenge record - if no userId is provided, this will be an anonymous QR code
+      // The user is unknown until a signed-in phone approves the request
       const challengeRecord = await storage.createChallenge({
-        userId, // May be undefined for anonymous QR codes
         challenge,
         type: 'qrcode',
         qrCode: qrCodeData,
+        status: 'pending',
+        metadata: {
+          userAgent: req.get('User-Agent'),
+          ip: req.ip,
+          location: getRequestLocation(req),
+        },
         expiresAt,
       });
       
+      // Only the browser session that requested the QR code may claim it
+      req.session.qrChallengeId = challengeRecord.id;
+      
       return res.json({
         id: challengeRecord.id.toString(),
         qrCode: qrCodeData,
@@ -587,135 +1029,1060 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Verify QR code challenge
-  app.post('/api/auth/qrcode/verify', authRateLimiter, authSpeedLimiter, qrCodeRateLimiter, async (req: Request, res: Response) => {
+  // Phone side: look up a scanned QR code and get the passkey challenge to approve it
+  app.post('/api/auth/qrcode/scan', requireAuth, webAuthnRateLimiter, async (req: Request, res: Response) => {
     try {
-      const { challengeId } = z.object({ challengeId: z.string() }).parse(req.body);
-      
-      // Get challenge
-      const challengeIdNum = parseInt(challengeId, 10);
-      const challenge = await storage.getChallenge(challengeIdNum);
+      const user = (req as any).user;
+      const { code } = z.object({ code: z.string() }).parse(req.body);
       
+      const challenge = await getActiveQRChallenge(code);
       if (!challenge) {
-        return res.status(404).json({ message: 'Challenge not found' });
-      }
-      
-      // Check if challenge is expired
-      if (new Date(challenge.expiresAt) < new Date()) {
-        await storage.deleteChallenge(challenge.id);
-        return res.status(400).json({ message: 'Challenge expired' });
+        return res.status(404).json({ message: 'QR code not found or expired' });
       }
       
-      // Check if challenge type is qrcode
-      if (challenge.type !== 'qrcode') {
-        return res.status(400).json({ message: 'Invalid challenge type' });
+      if (challenge.status !== 'pending' &&
+          !(challenge.status === 'scanned' && challenge.metadata?.scannedBy === user.id)) {
+        return res.status(409).json({ message: 'QR code has already been used' });
       }
       
-      // Get user if userId is associated
-      let user;
-      
-      if (challenge.userId) {
-        user = await storage.getUser(challenge.userId);
-        if (!user) {
-          return res.status(404).json({ message: 'User associated with QR code not found' });
-        }
-      } else {
-        // This is an anonymous QR code, we need to handle it differently
-        // For now, let's require authentication to use anonymous QR codes
-        // In a more sophisticated implementation, you could support "logging in as any user"
-        return res.status(400).json({ 
-          message: 'Anonymous QR code requires valid session to scan',
-          requiresAuthentication: true
-        });
+      const credentials = await storage.getCredentialsByUserId(user.id);
+      if (credentials.length === 0) {
+        return res.status(400).json({ message: 'Add a passkey to this account to approve sign-ins' });
       }
       
-      // Delete used challenge
-      await storage.deleteChallenge(challenge.id);
+      const approvalChallenge = generateChallenge();
+      const updated = await storage.updateChallenge(challenge.id, {
+        status: 'scanned',
+        metadata: { ...challenge.metadata, scannedBy: user.id, approvalChallenge },
+      });
+      publishQRLoginEvent(challenge.id, 'scanned');
       
       return res.json({
-        verified: true,
-        user,
-        message: 'QR code verification successful',
+        request: {
+          userAgent: updated?.metadata?.userAgent,
+          ip: updated?.metadata?.ip,
+          location: updated?.metadata?.location,
+          createdAt: challenge.createdAt,
+          expiresAt: challenge.expiresAt,
+        },
+        options: createAuthenticationOptions(
+          approvalChallenge,
+          getHost(req).split(':')[0],
+          credentials.map(credential => ({
+            id: credential.credentialId,
+            type: 'public-key' as const,
+          })),
+          WEBAUTHN_CONFIG.timeout,
+          'required',
+        ),
       });
     } catch (error) {
-      console.error('Error verifying QR code:', error);
+      console.error('Error scanning QR code:', error);
       return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid request' });
     }
   });
 
-  // Password manager APIs
-  
-  // Get all saved passwords for the authenticated user
-  app.get('/api/passwords', requireAuth, async (req: Request, res: Response) => {
+  // Phone side: approve the sign-in with a passkey assertion
+  app.post('/api/auth/qrcode/approve', requireAuth, webAuthnRateLimiter, async (req: Request, res: Response) => {
     try {
-      // Add a delay to prevent rapid scanning of QR codes
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      const user = (req as any).user;
+      const { code, credential } = z.object({
+        code: z.string(),
+        credential: assertionCredentialSchema,
+      }).parse(req.body);
       
-      const userId = (req as any).user.id;
-
-      const passwords = await storage.getSavedPasswordsByUserId(userId);
-      return res.json(passwords);
+      const challenge = await getActiveQRChallenge(code);
+      const approvalChallenge = challenge?.metadata?.approvalChallenge;
+      if (!challenge || challenge.status !== 'scanned' || challenge.metadata?.scannedBy !== user.id ||
+          !approvalChallenge) {
+        return res.status(400).json({ message: 'No sign-in request awaiting approval' });
+      }
+      
+      const userCredential = await storage.getCredentialByCredentialId(credential.rawId);
+      if (!userCredential || userCredential.userId !== user.id) {
+        return res.status(400).json({ message: 'Credential not found' });
+      }
+      
+      const verification = await verifyAssertion(req, credential, userCredential, approvalChallenge, true);
+      if (!verification.verified) {
+        return res.status(verification.status).json(verification.body);
+      }
+      
+      await storage.updateChallenge(challenge.id, {
+        userId: user.id,
+        status: 'approved',
+        metadata: { ...challenge.metadata, approvalChallenge: undefined },
+      });
+      publishQRLoginEvent(challenge.id, 'approved');
+      
+      return res.json({ approved: true, message: 'Sign-in approved' });
     } catch (error) {
-      console.error('Error fetching passwords:', error);
-      return res.status(500).json({ message: error instanceof Error ? error.message : 'Server error' });
+      console.error('Error approving QR code:', error);
+      return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid request' });
     }
   });
 
-  // Add a new saved password
-  app.post('/api/passwords', requireAuth, passwordRateLimiter, async (req: Request, res: Response) => {
+  // Phone side: reject a sign-in request the user does not recognize
+  app.post('/api/auth/qrcode/deny', requireAuth, webAuthnRateLimiter, async (req: Request, res: Response) => {
     try {
-      const userId = (req as any).user.id;
-
-      const { website, url, username, password, notes } = req.body;
+      const user = (req as any).user;
+      const { code } = z.object({ code: z.string() }).parse(req.body);
       
-      if (!website || !username || !password) {
-        return res.status(400).json({ message: 'Website, username, and password are required' });
+      const challenge = await getActiveQRChallenge(code);
+      if (!challenge || challenge.status !== 'scanned' || challenge.metadata?.scannedBy !== user.id) {
+        return res.status(400).json({ message: 'No sign-in request awaiting approval' });
       }
-
-      const savedPassword = await storage.createSavedPassword({
-        userId,
-        website,
-        url: url || null,
-        username,
-        password,
-        notes: notes || null
-      });
-
-      return res.status(201).json(savedPassword);
+      
+      await storage.updateChallenge(challenge.id, { status: 'denied' });
+      publishQRLoginEvent(challenge.id, 'denied');
+      
+      return res.json({ denied: true, message: 'Sign-in denied' });
     } catch (error) {
-      console.error('Error creating password:', error);
-      return res.status(500).json({ message: error instanceof Error ? error.message : 'Server error' });
+      console.error('Error denying QR code:', error);
+      return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid request' });
     }
   });
 
-  // Update a saved password
-  app.put('/api/passwords/:id', requireAuth, passwordRateLimiter, async (req: Request, res: Response) => {
+  // Desktop side: stream QR login state transitions (Server-Sent Events) so the
+  // browser doesn't have to poll; it still claims the session via /verify
+  app.get('/api/auth/qrcode/:id/events', async (req: Request, res: Response) => {
     try {
-      const userId = (req as any).user.id;
-
-      const passwordId = parseInt(req.params.id);
-      if (isNaN(passwordId)) {
-        return res.status(400).json({ message: 'Invalid password ID' });
+      const challenge = await storage.getChallenge(parseInt(req.params.id, 10));
+      if (!challenge || challenge.type !== 'qrcode') {
+        return res.status(404).json({ message: 'Challenge not found' });
       }
-
-      // Verify ownership
-      const existingPassword = await storage.getSavedPassword(passwordId);
-      if (!existingPassword) {
-        return res.status(404).json({ message: 'Password not found' });
+      
+      if (req.session.qrChallengeId !== challenge.id) {
+        return res.status(403).json({ message: 'QR code was not issued to this session' });
       }
-
-      if (existingPassword.userId !== userId) {
+      
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        // Stop reverse proxies from buffering the stream
+        'X-Accel-Buffering': 'no',
+      });
+      
+      let unsubscribe = () => {};
+      let expiryTimer: NodeJS.Timeout | undefined;
+      let heartbeat: NodeJS.Timeout | undefined;
+      
+      const close = () => {
+        unsubscribe();
+        clearTimeout(expiryTimer);
+        clearInterval(heartbeat);
+        res.end();
+      };
+      
+      const send = (event: QRLoginEvent) => {
+        res.write(`event: ${event}\ndata: ${JSON.stringify({ status: event })}\n\n`);
+        // Approval, denial and expiry are final; the client takes over from here
+        if (event !== 'created' && event !== 'scanned') {
+          close();
+        }
+      };
+      
+      const remaining = new Date(challenge.expiresAt).getTime() - Date.now();
+      if (remaining <= 0) {
+        return send('expired');
+      }
+      
+      unsubscribe = subscribeToQRLogin(challenge.id, send);
+      expiryTimer = setTimeout(() => send('expired'), remaining);
+      heartbeat = setInterval(() => res.write(': keep-alive\n\n'), 25000);
+      req.on('close', close);
+      
+      send(statusToQRLoginEvent(challenge.status));
+    } catch (error) {
+      console.error('Error streaming QR code status:', error);
+      if (!res.headersSent) {
+        return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid request' });
+      }
+      res.end();
+    }
+  });
+
+  // Desktop side: check whether the QR code was approved and, if so, claim the session
+  app.post('/api/auth/qrcode/verify', qrCodeStatusRateLimiter, async (req: Request, res: Response) => {
+    try {
+      const { challengeId } = z.object({ challengeId: z.string() }).parse(req.body);
+      
+      // Get challenge
+      const challengeIdNum = parseInt(challengeId, 10);
+      const challenge = await storage.getChallenge(challengeIdNum);
+      
+      if (!challenge) {
+        return res.status(404).json({ message: 'Challenge not found' });
+      }
+      
+      // Check if challenge type is qrcode
+      if (challenge.type !== 'qrcode') {
+        return res.status(400).json({ message: 'Invalid challenge type' });
+      }
+      
+      // The desktop session that displayed the code is the only one that can claim it
+      if (req.session.qrChallengeId !== challenge.id) {
+        return res.status(403).json({ message: 'QR code was not issued to this session' });
+      }
+      
+      // Check if challenge is expired
+      if (new Date(challenge.expiresAt) < new Date()) {
+        await storage.deleteChallenge(challenge.id);
+        return res.status(400).json({ message: 'Challenge expired' });
+      }
+      
+      if (challenge.status === 'denied') {
+        await storage.deleteChallenge(challenge.id);
+        req.session.qrChallengeId = undefined;
+        return res.json({ verified: false, status: 'denied', message: 'Sign-in was denied on the other device' });
+      }
+      
+      if (challenge.status !== 'approved' || !challenge.userId) {
+        return res.json({ verified: false, status: challenge.status });
+      }
+      
+      const user = await storage.getUser(challenge.userId);
+      if (!user) {
+        return res.status(404).json({ message: 'User associated with QR code not found' });
+      }
+      
+      // Delete used challenge
+      await storage.deleteChallenge(challenge.id);
+      req.session.qrChallengeId = undefined;
+      
+      // MFA gate, otherwise sign the user in
+      const mfaChallenge = await completeFirstFactor(req, user);
+      if (mfaChallenge) {
+        return res.json({ verified: true, ...mfaChallenge });
+      }
+      
+      return res.json({
+        verified: true,
+        user,
+        message: 'QR code verification successful',
+      });
+    } catch (error) {
+      console.error('Error verifying QR code:', error);
+      return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid request' });
+    }
+  });
+
+  // Re-authentication for sensitive actions (e.g. revoking a passkey)
+  app.post('/api/auth/reauthenticate/start', requireAuth, webAuthnRateLimiter, async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user.id;
+      
+      const credentials = await storage.getCredentialsByUserId(userId);
+      if (credentials.length === 0) {
+        return res.status(400).json({ message: 'No passkeys registered, please confirm with your password' });
+      }
+      
+      const challenge = generateChallenge();
+      await storage.createChallenge({
+        userId,
+        challenge,
+        type: 'reauthentication',
+        expiresAt: new Date(Date.now() + WEBAUTHN_CONFIG.challengeTimeout),
+      });
+      
+      const authenticationOptions = createAuthenticationOptions(
+        challenge,
+        getHost(req).split(':')[0],
+        credentials.map((credential) => ({ id: credential.credentialId, type: 'public-key' as const })),
+        WEBAUTHN_CONFIG.timeout,
+        'required',
+        await getVaultPrfSalts(userId),
+      );
+      
+      return res.json(authenticationOptions);
+    } catch (error) {
+      console.error('Error starting re-authentication:', error);
+      return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid request' });
+    }
+  });
+
+  app.post('/api/auth/reauthenticate/complete', requireAuth, webAuthnRateLimiter, async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const { credential, password } = z.object({
+        credential: assertionCredentialSchema.optional(),
+        password: z.string().optional(),
+      }).parse(req.body);
+      
+      if (password !== undefined) {
+        if (!user.password || !(await comparePasswords(password, user.password))) {
+          return res.status(401).json({ message: 'Invalid password' });
+        }
+      } else if (credential) {
+        const userCredential = await storage.getCredentialByCredentialId(credential.rawId);
+        if (!userCredential || userCredential.userId !== user.id) {
+          return res.status(400).json({ message: 'Credential not found' });
+        }
+        
+        const challenge = await getAssertionChallenge(credential);
+        if (!challenge || challenge.type !== 'reauthentication' || challenge.userId !== user.id ||
+            new Date(challenge.expiresAt) < new Date()) {
+          return res.status(400).json({ message: 'No active challenge found' });
+        }
+        
+        const verification = await verifyAssertion(req, credential, userCredential, challenge.challenge, true);
+        if (!verification.verified) {
+          return res.status(verification.status).json(verification.body);
+        }
+        
+        await storage.deleteChallenge(challenge.id);
+      } else {
+        return res.status(400).json({ message: 'A passkey assertion or password is required' });
+      }
+      
+      markReauthenticated(req);
+      return res.json({
+        reauthenticated: true,
+        expiresAt: new Date(Date.now() + RECENT_AUTH_WINDOW_MS).toISOString(),
+      });
+    } catch (error) {
+      console.error('Error completing re-authentication:', error);
+      return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid request' });
+    }
+  });
+
+  // Passkey management APIs
+  
+  // List the authenticated user's passkeys
+  app.get('/api/credentials', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user.id;
+      
+      const credentials = await storage.getCredentialsByUserId(userId);
+      return res.json(credentials.map(toCredentialSummary));
+    } catch (error) {
+      console.error('Error fetching credentials:', error);
+      return res.status(500).json({ message: error instanceof Error ? error.message : 'Server error' });
+    }
+  });
+
+  // Rename a passkey
+  app.patch('/api/credentials/:id', requireAuth, passwordRateLimiter, async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user.id;
+      const credentialId = parseInt(req.params.id, 10);
+      const { nickname } = z.object({
+        nickname: z.string().trim().min(1).max(64),
+      }).parse(req.body);
+      
+      const credential = await storage.getCredential(credentialId);
+      if (!credential || credential.userId !== userId) {
+        return res.status(404).json({ message: 'Passkey not found' });
+      }
+      
+      const updated = await storage.updateCredential(credentialId, { nickname });
+      return res.json(toCredentialSummary(updated!));
+    } catch (error) {
+      console.error('Error renaming credential:', error);
+      return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid request' });
+    }
+  });
+
+  // Start adding a passkey to the signed-in account (e.g. a password account)
+  app.post('/api/credentials/register/start', requireAuth, webAuthnRateLimiter, async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      
+      if (!hasRecentAuthentication(req)) {
+        return res.status(403).json({
+          message: 'Please confirm your identity before adding a passkey',
+          code: 'REAUTH_REQUIRED',
+        });
+      }
+      
+      const challenge = generateChallenge();
+      await storage.createChallenge({
+        userId: user.id,
+        challenge,
+        type: 'credential-registration',
+        expiresAt: new Date(Date.now() + WEBAUTHN_CONFIG.challengeTimeout),
+      });
+      
+      const existingCredentials = await storage.getCredentialsByUserId(user.id);
+      const registrationOptions = createRegistrationOptions(
+        bufferToBase64URL(Buffer.from(user.id.toString())),
+        user.username,
+        user.email,
+        challenge,
+        WEBAUTHN_CONFIG.rpName,
+        getHost(req).split(':')[0],
+        WEBAUTHN_CONFIG.timeout,
+        WEBAUTHN_CONFIG.attestation,
+        existingCredentials.map((existing) => ({
+          id: existing.credentialId,
+          type: 'public-key' as const,
+          transports: existing.transports || undefined,
+        })),
+      );
+      
+      return res.json(registrationOptions);
+    } catch (error) {
+      console.error('Error starting passkey enrollment:', error);
+      return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid request' });
+    }
+  });
+
+  // Complete adding a passkey to the signed-in account
+  app.post('/api/credentials/register/complete', requireAuth, webAuthnRateLimiter, async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const { credential, nickname } = z.object({
+        credential: registrationCredentialSchema,
+        nickname: z.string().trim().min(1).max(64).optional(),
+      }).parse(req.body);
+      
+      const clientData = JSON.parse(base64URLToBuffer(credential.response.clientDataJSON).toString());
+      const challenge = typeof clientData.challenge === 'string'
+        ? await storage.getChallengeByChallenge(clientData.challenge)
+        : undefined;
+      if (!challenge || challenge.type !== 'credential-registration' || challenge.userId !== user.id ||
+          new Date(challenge.expiresAt) < new Date()) {
+        return res.status(400).json({ message: 'No active challenge found' });
+      }
+      
+      const verification = await verifyRegistration(req, credential, challenge.challenge);
+      if (!verification.verified) {
+        return res.status(verification.status).json(verification.body);
+      }
+      
+      const created = await storage.createCredential({ ...verification.credential, userId: user.id, nickname });
+      await storage.deleteChallenge(challenge.id);
+      
+      return res.status(201).json(toCredentialSummary(created));
+    } catch (error) {
+      console.error('Error completing passkey enrollment:', error);
+      return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid request' });
+    }
+  });
+
+  // Account password rules, public so the registration form can show them
+  app.get('/api/password-policy', (_req: Request, res: Response) => {
+    return res.json(loadPasswordPolicy());
+  });
+
+  // Change the account password, or set one on a passwordless account. Needs
+  // the current password or an explicit re-authentication; a fresh sign-in
+  // alone isn't enough.
+  app.put('/api/user/password', requireAuth, authRateLimiter, async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const parsed = z.object({
+        currentPassword: z.string().optional(),
+        newPassword: z.string(),
+      }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid request' });
+      }
+      const { currentPassword, newPassword } = parsed.data;
+      
+      if (currentPassword !== undefined) {
+        if (!user.password || !(await comparePasswords(currentPassword, user.password))) {
+          return res.status(401).json({ message: 'Current password is incorrect', code: 'INVALID_PASSWORD' });
+        }
+      } else if (!hasRecentReauthentication(req)) {
+        return res.status(403).json({
+          message: user.password
+            ? 'Enter your current password or confirm with a passkey'
+            : 'Please confirm your identity before setting a password',
+          code: 'REAUTH_REQUIRED',
+        });
+      }
+      
+      const violations = await evaluatePasswordPolicy(
+        newPassword,
+        { username: user.username, email: user.email },
+        { isRecentlyUsed: (password, count) => isPasswordRecentlyUsed(user, password, count) },
+      );
+      if (violations.length > 0) {
+        return res.status(400).json(passwordPolicyErrorBody(violations));
+      }
+      
+      const hashedPassword = await hashPassword(newPassword);
+      const updatedUser = await storage.updateUser(user.id, { password: hashedPassword });
+      await recordPasswordHistory(user.id, hashedPassword);
+      return res.json({ user: updatedUser, message: user.password ? 'Password changed' : 'Password set' });
+    } catch (error) {
+      console.error('Error changing password:', error);
+      return res.status(500).json({ message: error instanceof Error ? error.message : 'Server error' });
+    }
+  });
+
+  // Email a password reset link. The response is the same whether or not the
+  // address has an account, so it can't be used to find accounts.
+  app.post('/api/password/forgot', authRateLimiter, authSpeedLimiter, async (req: Request, res: Response) => {
+    try {
+      const parsed = z.object({ email: z.string().email() }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Enter a valid email address' });
+      }
+      
+      const appUrl = getAppUrl();
+      if (!appUrl || !canSendMail()) {
+        return res.status(503).json({
+          message: "Password reset by email isn't available on this server",
+          code: 'PASSWORD_RESET_UNAVAILABLE',
+        });
+      }
+      
+      // Respond before looking the address up, so the response time doesn't
+      // give away whether it has an account either
+      res.json({ message: "If there's an account for that email, we've sent a link to reset its password" });
+      
+      (async () => {
+        const user = await storage.getUserByEmail(parsed.data.email);
+        if (!user) {
+          return;
+        }
+        const { token } = await issuePasswordResetToken(user.id);
+        const resetUrl = `${appUrl}/reset-password?token=${encodeURIComponent(token)}`;
+        await getMailer().send({
+          to: user.email,
+          subject: 'Reset your password',
+          text: `Someone asked to reset the password for ${user.username}. To choose a new password, open this link within the next hour:\n\n${resetUrl}\n\nIf this wasn't you, you can ignore this email.`,
+        });
+      })().catch(error => {
+        console.error('Error sending password reset email:', error);
+      });
+    } catch (error) {
+      console.error('Error requesting password reset:', error);
+      return res.status(500).json({ message: error instanceof Error ? error.message : 'Server error' });
+    }
+  });
+
+  // Set a new password with a reset token. The token works once, and every
+  // session of the user is signed out.
+  app.post('/api/password/reset', authRateLimiter, authSpeedLimiter, async (req: Request, res: Response) => {
+    try {
+      const parsed = z.object({
+        token: z.string().min(1),
+        newPassword: z.string(),
+      }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid request' });
+      }
+      const { token, newPassword } = parsed.data;
+      const tokenHash = hashPasswordResetToken(token);
+      const invalidToken = {
+        message: 'This reset link is invalid or has expired, please request a new one',
+        code: 'INVALID_RESET_TOKEN',
+      };
+      
+      const resetToken = await storage.getPasswordResetToken(tokenHash);
+      if (!resetToken || resetToken.usedAt || new Date(resetToken.expiresAt) < new Date()) {
+        return res.status(400).json(invalidToken);
+      }
+      
+      const user = await storage.getUser(resetToken.userId);
+      if (!user) {
+        return res.status(400).json(invalidToken);
+      }
+      
+      // Check the policy before using up the token, so the user can try another password
+      const violations = await evaluatePasswordPolicy(
+        newPassword,
+        { username: user.username, email: user.email },
+        { isRecentlyUsed: (password, count) => isPasswordRecentlyUsed(user, password, count) },
+      );
+      if (violations.length > 0) {
+        return res.status(400).json(passwordPolicyErrorBody(violations));
+      }
+      
+      if (!(await storage.consumePasswordResetToken(tokenHash))) {
+        return res.status(400).json(invalidToken);
+      }
+      
+      const hashedPassword = await hashPassword(newPassword);
+      await storage.updateUser(user.id, { password: hashedPassword });
+      await recordPasswordHistory(user.id, hashedPassword);
+      await storage.deletePasswordResetTokensByUserId(user.id);
+      await revokeSessions(user.id);
+      
+      return res.json({ message: 'Your password has been reset, sign in with your new password' });
+    } catch (error) {
+      console.error('Error resetting password:', error);
+      return res.status(500).json({ message: error instanceof Error ? error.message : 'Server error' });
+    }
+  });
+
+  // Remove the account password to go passwordless
+  app.delete('/api/user/password', requireAuth, passwordRateLimiter, async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      
+      if (!user.password) {
+        return res.status(400).json({ message: 'Account has no password' });
+      }
+      
+      if (!hasRecentAuthentication(req)) {
+        return res.status(403).json({
+          message: 'Please confirm your identity before removing your password',
+          code: 'REAUTH_REQUIRED',
+        });
+      }
+      
+      const credentials = await storage.getCredentialsByUserId(user.id);
+      if (credentials.length === 0) {
+        return res.status(400).json({
+          message: 'Add a passkey before removing your password',
+          code: 'LAST_SIGN_IN_METHOD',
+        });
+      }
+      
+      const updatedUser = await storage.updateUser(user.id, { password: null });
+      return res.json({ user: updatedUser, message: 'Password removed' });
+    } catch (error) {
+      console.error('Error removing password:', error);
+      return res.status(500).json({ message: error instanceof Error ? error.message : 'Server error' });
+    }
+  });
+
+  // Revoke a passkey
+  app.delete('/api/credentials/:id', requireAuth, passwordRateLimiter, async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const credentialId = parseInt(req.params.id, 10);
+      
+      const credential = await storage.getCredential(credentialId);
+      if (!credential || credential.userId !== user.id) {
+        return res.status(404).json({ message: 'Passkey not found' });
+      }
+      
+      if (!hasRecentAuthentication(req)) {
+        return res.status(403).json({
+          message: 'Please confirm your identity before removing a passkey',
+          code: 'REAUTH_REQUIRED',
+        });
+      }
+      
+      // Never leave the account without a way to sign in
+      const credentials = await storage.getCredentialsByUserId(user.id);
+      if (credentials.length <= 1 && !user.password) {
+        return res.status(400).json({
+          message: 'You cannot remove your only sign-in method',
+          code: 'LAST_SIGN_IN_METHOD',
+        });
+      }
+      
+      // Vault key copies wrapped by this passkey's PRF output can no longer be unwrapped
+      const vaultKeys = await storage.getVaultKeysByUserId(user.id);
+      for (const vaultKey of vaultKeys) {
+        if (vaultKey.type === 'prf' && vaultKey.credentialId === credential.credentialId) {
+          await storage.deleteVaultKey(vaultKey.id);
+        }
+      }
+      
+      await storage.deleteCredential(credentialId);
+      return res.json({ message: 'Passkey removed' });
+    } catch (error) {
+      console.error('Error deleting credential:', error);
+      return res.status(500).json({ message: error instanceof Error ? error.message : 'Server error' });
+    }
+  });
+
+  // Vault key APIs. The vault key is generated and wrapped in the browser;
+  // the server only stores the wrapped copies.
+  
+  // List the wrapped copies of the user's vault key
+  app.get('/api/vault/keys', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user.id;
+      
+      const keys = await storage.getVaultKeysByUserId(userId);
+      return res.json(keys);
+    } catch (error) {
+      console.error('Error fetching vault keys:', error);
+      return res.status(500).json({ message: error instanceof Error ? error.message : 'Server error' });
+    }
+  });
+
+  // Store a wrapped copy of the vault key, replacing the previous copy for the
+  // same unlock method
+  app.post('/api/vault/keys', requireAuth, passwordRateLimiter, async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user.id;
+      const input = z.object({
+        type: z.enum(['password', 'prf']),
+        credentialId: z.string().optional(),
+        salt: z.string().min(16),
+        iterations: z.number().int().min(100000).optional(),
+        wrappedKey: z.string().min(16),
+      }).parse(req.body);
+      
+      if (input.type === 'password' && !input.iterations) {
+        return res.status(400).json({ message: 'PBKDF2 iterations are required for a master password' });
+      }
+      
+      if (input.type === 'prf') {
+        const credential = input.credentialId
+          ? await storage.getCredentialByCredentialId(input.credentialId)
+          : undefined;
+        if (!credential || credential.userId !== userId) {
+          return res.status(400).json({ message: 'Credential not found' });
+        }
+      }
+      
+      // Changing how an existing vault is unlocked is a sensitive action
+      const existingKeys = await storage.getVaultKeysByUserId(userId);
+      if (existingKeys.length > 0 && !hasRecentAuthentication(req)) {
+        return res.status(403).json({
+          message: 'Please confirm your identity before changing how your vault is unlocked',
+          code: 'REAUTH_REQUIRED',
+        });
+      }
+      
+      const vaultKey = await storage.createVaultKey({
+        userId,
+        type: input.type,
+        credentialId: input.credentialId || null,
+        salt: input.salt,
+        iterations: input.iterations ?? null,
+        wrappedKey: input.wrappedKey,
+      });
+      
+      const replaced = existingKeys.filter(key =>
+        key.type === input.type && (input.type === 'password' || key.credentialId === input.credentialId)
+      );
+      for (const key of replaced) {
+        await storage.deleteVaultKey(key.id);
+      }
+      
+      return res.status(201).json(vaultKey);
+    } catch (error) {
+      console.error('Error saving vault key:', error);
+      return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid request' });
+    }
+  });
+
+  // Remove a way of unlocking the vault; the last one can't be removed
+  app.delete('/api/vault/keys/:id', requireAuth, passwordRateLimiter, async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user.id;
+      const keyId = parseInt(req.params.id, 10);
+      
+      const keys = await storage.getVaultKeysByUserId(userId);
+      const vaultKey = keys.find(key => key.id === keyId);
+      if (!vaultKey) {
+        return res.status(404).json({ message: 'Vault key not found' });
+      }
+      
+      if (!hasRecentAuthentication(req)) {
+        return res.status(403).json({
+          message: 'Please confirm your identity before changing how your vault is unlocked',
+          code: 'REAUTH_REQUIRED',
+        });
+      }
+      
+      if (keys.length === 1) {
+        return res.status(400).json({
+          message: 'This is the only way to unlock your vault',
+          code: 'LAST_VAULT_KEY',
+        });
+      }
+      
+      await storage.deleteVaultKey(vaultKey.id);
+      return res.status(204).send();
+    } catch (error) {
+      console.error('Error deleting vault key:', error);
+      return res.status(500).json({ message: error instanceof Error ? error.message : 'Server error' });
+    }
+  });
+
+  // Record that every item and earlier version is encrypted bound to its ID,
+  // after which the client rejects anything that isn't. It can't be undone.
+  app.post('/api/vault/items-bound', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user.id;
+      
+      const user = await storage.updateUser(userId, { vaultItemsBound: true });
+      return res.json(user);
+    } catch (error) {
+      console.error('Error updating vault:', error);
+      return res.status(500).json({ message: error instanceof Error ? error.message : 'Server error' });
+    }
+  });
+
+  // Password manager APIs
+  
+  // Get all saved passwords for the authenticated user
+  app.get('/api/passwords', requireAuth, async (req: Request, res: Response) => {
+    try {
+      // Add a delay to prevent rapid scanning of QR codes
+      await new Promise(resolve => setTimeout(resolve, 1000));
+      
+      const userId = (req as any).user.id;
+      
+      // Optional filters: ?folder=<id> (including subfolders) or ?folder=none,
+      // ?tag=<tag>, ?favorite=true|false and ?trashed=true for the trash
+      const filter: SavedPasswordFilter = {};
+      const { folder, tag, favorite, trashed } = req.query;
+      if (folder === 'none') {
+        filter.folderIds = null;
+      } else if (typeof folder === 'string') {
+        const folderId = parseInt(folder, 10);
+        const folders = await storage.getFoldersByUserId(userId);
+        if (!folders.some(f => f.id === folderId)) {
+          return res.status(404).json({ message: 'Folder not found' });
+        }
+        filter.folderIds = getFolderSubtree(folders, folderId);
+      }
+      if (typeof tag === 'string' && tag) {
+        filter.tag = tag;
+      }
+      if (favorite === 'true' || favorite === 'false') {
+        filter.favorite = favorite === 'true';
+      }
+      if (trashed === 'true') {
+        filter.trashed = true;
+      }
+
+      const passwords = await storage.getSavedPasswordsByUserId(userId, filter);
+      return res.json(passwords.filter(password => !isEmptyItem(password)));
+    } catch (error) {
+      console.error('Error fetching passwords:', error);
+      return res.status(500).json({ message: error instanceof Error ? error.message : 'Server error' });
+    }
+  });
+
+  // Tags in use across the user's vault
+  app.get('/api/passwords/tags', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user.id;
+      
+      const tags = await storage.getSavedPasswordTags(userId);
+      return res.json({ tags });
+    } catch (error) {
+      console.error('Error fetching tags:', error);
+      return res.status(500).json({ message: error instanceof Error ? error.message : 'Server error' });
+    }
+  });
+
+  // Items to build an export from. The browser decrypts them and writes the
+  // file, so the format is only logged: the items are the same ciphertext
+  // GET /api/passwords returns, and the re-authentication before a plaintext
+  // export is a step in the browser, not something the server can enforce.
+  app.get('/api/passwords/export', requireAuth, passwordRateLimiter, async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user.id;
+      
+      const format = req.query.format;
+      if (format !== 'encrypted' && format !== 'bitwarden' && format !== 'csv') {
+        return res.status(400).json({ message: 'Export format must be encrypted, bitwarden or csv' });
+      }
+      
+      const passwords = (await storage.getSavedPasswordsByUserId(userId)).filter(password => !isEmptyItem(password));
+      console.log(`User ${userId} exported ${passwords.length} vault item(s) as ${format}`);
+      return res.json({
+        format,
+        exportedAt: new Date().toISOString(),
+        items: passwords,
+      });
+    } catch (error) {
+      console.error('Error exporting passwords:', error);
+      return res.status(500).json({ message: error instanceof Error ? error.message : 'Server error' });
+    }
+  });
+
+  // Move several items to the trash at once, e.g. the old contents of a vault replaced by a restore
+  app.post('/api/passwords/delete', requireAuth, passwordRateLimiter, async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user.id;
+      
+      const { ids } = req.body;
+      if (!Array.isArray(ids) || !ids.every(id => Number.isInteger(id))) {
+        return res.status(400).json({ message: 'A list of item IDs is required' });
+      }
+      
+      if (!hasRecentAuthentication(req)) {
+        return res.status(403).json({
+          message: 'Please confirm your identity before deleting items in bulk',
+          code: 'REAUTH_REQUIRED',
+        });
+      }
+      
+      const deleted = await storage.trashSavedPasswords(userId, ids);
+      return res.json({ deleted });
+    } catch (error) {
+      console.error('Error deleting passwords:', error);
+      return res.status(500).json({ message: error instanceof Error ? error.message : 'Server error' });
+    }
+  });
+
+  // Add a new, empty item. Its contents are encrypted bound to the item's ID,
+  // which isn't known until now, so the client PUTs them next.
+  app.post('/api/passwords', requireAuth, passwordRateLimiter, async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user.id;
+
+      const result = await parseItemMetadata(userId, req.body);
+      if ('error' in result) {
+        return res.status(400).json({ message: result.error });
+      }
+
+      const savedPassword = await storage.createSavedPassword({
+        userId,
+        ...result.metadata,
+      });
+
+      return res.status(201).json(savedPassword);
+    } catch (error) {
+      console.error('Error creating password:', error);
+      return res.status(500).json({ message: error instanceof Error ? error.message : 'Server error' });
+    }
+  });
+
+  // Import a batch of items. As for single items, the empty items are created
+  // first and the browser then fills them in with POST /api/passwords/reencrypt,
+  // encrypted bound to the IDs returned here.
+  app.post('/api/passwords/import', requireAuth, passwordRateLimiter, async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user.id;
+      
+      const { items } = req.body;
+      if (!Array.isArray(items) || items.length === 0 || items.length > MAX_IMPORT_BATCH) {
+        return res.status(400).json({ message: `Import between 1 and ${MAX_IMPORT_BATCH} items at a time` });
+      }
+      
+      const metadata: VaultItemMetadata[] = [];
+      for (const item of items) {
+        const result = await parseItemMetadata(userId, item);
+        if ('error' in result) {
+          return res.status(400).json({ message: result.error });
+        }
+        metadata.push(result.metadata);
+      }
+      
+      const savedPasswords = await storage.createSavedPasswords(
+        metadata.map(itemMetadata => ({ userId, ...itemMetadata })),
+      );
+      
+      return res.status(201).json({
+        imported: savedPasswords.length,
+        ids: savedPasswords.map(savedPassword => savedPassword.id),
+      });
+    } catch (error) {
+      console.error('Error importing passwords:', error);
+      return res.status(500).json({ message: error instanceof Error ? error.message : 'Server error' });
+    }
+  });
+
+  // Every earlier version across the user's vault, for re-encrypting them
+  app.get('/api/passwords/history', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user.id;
+
+      const versions = await storage.getVaultItemVersionsByUserId(userId);
+      return res.json(versions);
+    } catch (error) {
+      console.error('Error fetching password history:', error);
+      return res.status(500).json({ message: error instanceof Error ? error.message : 'Server error' });
+    }
+  });
+
+  // Write the ciphertext of a batch of items, and of earlier versions, without
+  // recording versions: filling in newly created items, and migrating older
+  // envelopes and legacy plaintext rows. Trashed items are included.
+  app.post('/api/passwords/reencrypt', requireAuth, passwordRateLimiter, async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user.id;
+
+      const items = req.body.items ?? [];
+      const versions = req.body.versions ?? [];
+      if (!Array.isArray(items) || !Array.isArray(versions) ||
+          items.length + versions.length === 0 || items.length + versions.length > MAX_IMPORT_BATCH) {
+        return res.status(400).json({ message: `Re-encrypt between 1 and ${MAX_IMPORT_BATCH} items at a time` });
+      }
+      if (![...items, ...versions].every(item => Number.isInteger(item?.id) && isEncryptedItem(item?.encryptedData))) {
+        return res.status(400).json({ message: 'Every item needs an ID and encrypted data', code: 'ENCRYPTED_DATA_REQUIRED' });
+      }
+
+      const existing = await Promise.all(items.map((item: { id: number }) => storage.getSavedPassword(item.id)));
+      const existingVersions = await Promise.all(versions.map((version: { id: number }) => storage.getVaultItemVersion(version.id)));
+      if ([...existing, ...existingVersions].some(row => !row || row.userId !== userId)) {
+        return res.status(404).json({ message: 'Password not found' });
+      }
+
+      for (let i = 0; i < items.length; i++) {
+        await storage.updateSavedPassword(items[i].id, {
+          encryptedData: items[i].encryptedData,
+          website: null,
+          url: null,
+          username: null,
+          password: null,
+          notes: null,
+          updatedAt: existing[i]!.updatedAt,
+        });
+      }
+      for (const version of versions) {
+        await storage.updateVaultItemVersion(version.id, version.encryptedData);
+      }
+
+      return res.json({ updated: items.length + versions.length });
+    } catch (error) {
+      console.error('Error re-encrypting passwords:', error);
+      return res.status(500).json({ message: error instanceof Error ? error.message : 'Server error' });
+    }
+  });
+
+  // Update a saved password
+  app.put('/api/passwords/:id', requireAuth, passwordRateLimiter, async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user.id;
+
+      const passwordId = parseInt(req.params.id);
+      if (isNaN(passwordId)) {
+        return res.status(400).json({ message: 'Invalid password ID' });
+      }
+
+      // Verify ownership
+      const existingPassword = await storage.getSavedPassword(passwordId);
+      if (!existingPassword) {
+        return res.status(404).json({ message: 'Password not found' });
+      }
+
+      if (existingPassword.userId !== userId) {
         return res.status(403).json({ message: 'Not authorized to update this password' });
       }
 
-      const { website, url, username, password, notes } = req.body;
-      const updates: Partial<SavedPassword> = {};
+      if (existingPassword.deletedAt) {
+        return res.status(409).json({ message: 'Restore this item from the trash first', code: 'ITEM_IN_TRASH' });
+      }
+
+      const { encryptedData, changedFields, ...fields } = req.body;
+      
+      if (!isEncryptedItem(encryptedData)) {
+        return res.status(400).json({ message: 'An encrypted vault item is required', code: 'ENCRYPTED_DATA_REQUIRED' });
+      }
+      
+      const parsedChanges = changedFieldsSchema.safeParse(changedFields);
+      if (!parsedChanges.success) {
+        return res.status(400).json({ message: 'Invalid list of changed fields' });
+      }
+      
+      const result = await parseItemMetadata(userId, fields);
+      if ('error' in result) {
+        return res.status(400).json({ message: result.error });
+      }
+
+      if (encryptedData !== existingPassword.encryptedData) {
+        await recordVaultItemVersion(existingPassword, parsedChanges.data, req);
+      }
 
-      if (website !== undefined) updates.website = website;
-      if (url !== undefined) updates.url = url;
-      if (username !== undefined) updates.username = username;
-      if (password !== undefined) updates.password = password;
-      if (notes !== undefined) updates.notes = notes;
+      // Replacing the item with ciphertext also clears any legacy plaintext copy
+      const updates: Partial<SavedPassword> = {
+        ...result.metadata,
+        encryptedData,
+        website: null,
+        url: null,
+        username: null,
+        password: null,
+        notes: null,
+      };
 
       const updatedPassword = await storage.updateSavedPassword(passwordId, updates);
       return res.json(updatedPassword);
@@ -725,7 +2092,123 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Delete a saved password
+  // Move, tag or favorite an item without re-encrypting it. The contents are
+  // unchanged, so no version is recorded.
+  app.patch('/api/passwords/:id', requireAuth, passwordRateLimiter, async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user.id;
+
+      const passwordId = parseInt(req.params.id);
+      if (isNaN(passwordId)) {
+        return res.status(400).json({ message: 'Invalid password ID' });
+      }
+
+      const existingPassword = await storage.getSavedPassword(passwordId);
+      if (!existingPassword) {
+        return res.status(404).json({ message: 'Password not found' });
+      }
+
+      if (existingPassword.userId !== userId) {
+        return res.status(403).json({ message: 'Not authorized to update this password' });
+      }
+      
+      if (existingPassword.deletedAt) {
+        return res.status(409).json({ message: 'Restore this item from the trash first', code: 'ITEM_IN_TRASH' });
+      }
+      
+      const result = await parseItemMetadata(userId, req.body);
+      if ('error' in result) {
+        return res.status(400).json({ message: result.error });
+      }
+
+      const updatedPassword = await storage.updateSavedPassword(passwordId, result.metadata);
+      return res.json(updatedPassword);
+    } catch (error) {
+      console.error('Error updating password:', error);
+      return res.status(500).json({ message: error instanceof Error ? error.message : 'Server error' });
+    }
+  });
+
+  // Earlier versions of an item, newest first
+  app.get('/api/passwords/:id/history', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user.id;
+
+      const passwordId = parseInt(req.params.id);
+      if (isNaN(passwordId)) {
+        return res.status(400).json({ message: 'Invalid password ID' });
+      }
+
+      const existingPassword = await storage.getSavedPassword(passwordId);
+      if (!existingPassword) {
+        return res.status(404).json({ message: 'Password not found' });
+      }
+
+      if (existingPassword.userId !== userId) {
+        return res.status(403).json({ message: 'Not authorized to view this password' });
+      }
+
+      const versions = await storage.getVaultItemVersions(passwordId);
+      return res.json(versions);
+    } catch (error) {
+      console.error('Error fetching password history:', error);
+      return res.status(500).json({ message: error instanceof Error ? error.message : 'Server error' });
+    }
+  });
+
+  // Put an earlier version back. The contents being replaced become a version
+  // themselves, so a restore can be undone too.
+  app.post('/api/passwords/:id/history/:versionId/restore', requireAuth, passwordRateLimiter, async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user.id;
+
+      const passwordId = parseInt(req.params.id);
+      const versionId = parseInt(req.params.versionId);
+      if (isNaN(passwordId) || isNaN(versionId)) {
+        return res.status(400).json({ message: 'Invalid password or version ID' });
+      }
+
+      const existingPassword = await storage.getSavedPassword(passwordId);
+      if (!existingPassword) {
+        return res.status(404).json({ message: 'Password not found' });
+      }
+
+      if (existingPassword.userId !== userId) {
+        return res.status(403).json({ message: 'Not authorized to update this password' });
+      }
+
+      if (existingPassword.deletedAt) {
+        return res.status(409).json({ message: 'Restore this item from the trash first', code: 'ITEM_IN_TRASH' });
+      }
+
+      const version = await storage.getVaultItemVersion(versionId);
+      if (!version || version.itemId !== passwordId) {
+        return res.status(404).json({ message: 'Version not found' });
+      }
+
+      const parsedChanges = changedFieldsSchema.safeParse(req.body?.changedFields);
+      if (!parsedChanges.success) {
+        return res.status(400).json({ message: 'Invalid list of changed fields' });
+      }
+
+      await recordVaultItemVersion(existingPassword, parsedChanges.data, req);
+
+      const updatedPassword = await storage.updateSavedPassword(passwordId, {
+        encryptedData: version.encryptedData,
+        website: null,
+        url: null,
+        username: null,
+        password: null,
+        notes: null,
+      });
+      return res.json(updatedPassword);
+    } catch (error) {
+      console.error('Error restoring password version:', error);
+      return res.status(500).json({ message: error instanceof Error ? error.message : 'Server error' });
+    }
+  });
+
+  // Move a saved password to the trash
   app.delete('/api/passwords/:id', requireAuth, passwordRateLimiter, async (req: Request, res: Response) => {
     try {
       const userId = (req as any).user.id;
@@ -745,194 +2228,281 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: 'Not authorized to delete this password' });
       }
 
-      const success = await storage.deleteSavedPassword(passwordId);
-      if (success) {
-        return res.status(204).send();
-      } else {
-        return res.status(500).json({ message: 'Failed to delete password' });
-      }
+      await storage.trashSavedPasswords(userId, [passwordId]);
+      return res.status(204).send();
     } catch (error) {
       console.error('Error deleting password:', error);
       return res.status(500).json({ message: error instanceof Error ? error.message : 'Server error' });
     }
   });
+
+  // Trash. Deleted items stay here for TRASH_RETENTION_DAYS before they are purged.
   
-  // Generate a security health report
-  app.get('/api/security-report', requireAuth, passwordRateLimiter, async (req: Request, res: Response) => {
+  // How many items are in the trash and how long they are kept. The items
+  // themselves are listed by GET /api/passwords?trashed=true.
+  app.get('/api/trash', requireAuth, async (req: Request, res: Response) => {
     try {
       const userId = (req as any).user.id;
-
-      // Get all passwords for this user
-      const passwords = await storage.getSavedPasswordsByUserId(userId);
-      
-      // Empty report structure
-      const report = {
-        totalPasswords: passwords.length,
-        weakPasswords: [] as Array<{id: number, website: string, username: string, reason: string}>,
-        duplicatePasswords: [] as Array<{id: number, website: string, username: string, duplicateCount: number}>,
-        oldPasswords: [] as Array<{id: number, website: string, username: string, lastUpdated: Date}>,
-        reusedPasswords: [] as Array<{id: number, website: string, username: string, reusedCount: number}>,
-        overallScore: 0,
-        recommendations: [] as string[]
-      };
       
-      // Find weak passwords (too short, common patterns, etc.)
-      passwords.forEach(pw => {
-        // Check password length
-        if (pw.password.length < 8) {
-          report.weakPasswords.push({
-            id: pw.id,
-            website: pw.website,
-            username: pw.username,
-            reason: 'Password is too short (less than 8 characters)'
-          });
-        }
-        
-        // Check for common password patterns (no numbers, all lowercase, etc.)
-        if (!/\d/.test(pw.password)) {
-          report.weakPasswords.push({
-            id: pw.id,
-            website: pw.website,
-            username: pw.username,
-            reason: 'Password does not contain any numbers'
-          });
-        }
+      const items = (await storage.getSavedPasswordsByUserId(userId, { trashed: true })).filter(item => !isEmptyItem(item));
+      return res.json({ count: items.length, retentionDays: TRASH_RETENTION_DAYS });
+    } catch (error) {
+      console.error('Error fetching trash:', error);
+      return res.status(500).json({ message: error instanceof Error ? error.message : 'Server error' });
+    }
+  });
 
-        if (!/[A-Z]/.test(pw.password)) {
-          report.weakPasswords.push({
-            id: pw.id,
-            website: pw.website,
-            username: pw.username,
-            reason: 'Password does not contain uppercase letters'
-          });
-        }
+  // Put an item back in the vault
+  app.post('/api/trash/:id/restore', requireAuth, passwordRateLimiter, async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user.id;
 
-        if (!/[^A-Za-z0-9]/.test(pw.password)) {
-          report.weakPasswords.push({
-            id: pw.id,
-            website: pw.website,
-            username: pw.username,
-            reason: 'Password does not contain special characters'
-          });
-        }
-      });
-      
-      // Find duplicate passwords (same password used on multiple sites)
-      const passwordMap = new Map<string, Array<{id: number, website: string, username: string}>>();
+      const passwordId = parseInt(req.params.id);
+      if (isNaN(passwordId)) {
+        return res.status(400).json({ message: 'Invalid password ID' });
+      }
+
+      const existingPassword = await storage.getSavedPassword(passwordId);
+      if (!existingPassword || existingPassword.userId !== userId || !existingPassword.deletedAt) {
+        return res.status(404).json({ message: 'Item not found in the trash' });
+      }
+
+      const restoredPassword = await storage.updateSavedPassword(passwordId, { deletedAt: null });
+      return res.json(restoredPassword);
+    } catch (error) {
+      console.error('Error restoring password:', error);
+      return res.status(500).json({ message: error instanceof Error ? error.message : 'Server error' });
+    }
+  });
+
+  // Delete an item in the trash for good
+  app.delete('/api/trash/:id', requireAuth, passwordRateLimiter, async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user.id;
+
+      const passwordId = parseInt(req.params.id);
+      if (isNaN(passwordId)) {
+        return res.status(400).json({ message: 'Invalid password ID' });
+      }
+
+      const existingPassword = await storage.getSavedPassword(passwordId);
+      if (!existingPassword || existingPassword.userId !== userId || !existingPassword.deletedAt) {
+        return res.status(404).json({ message: 'Item not found in the trash' });
+      }
+
+      await storage.deleteSavedPassword(passwordId);
+      return res.status(204).send();
+    } catch (error) {
+      console.error('Error deleting password:', error);
+      return res.status(500).json({ message: error instanceof Error ? error.message : 'Server error' });
+    }
+  });
+
+  // Empty the trash
+  app.delete('/api/trash', requireAuth, passwordRateLimiter, async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user.id;
       
-      passwords.forEach(pw => {
-        if (!passwordMap.has(pw.password)) {
-          passwordMap.set(pw.password, []);
-        }
-        passwordMap.get(pw.password)?.push({
-          id: pw.id,
-          website: pw.website,
-          username: pw.username
+      if (!hasRecentAuthentication(req)) {
+        return res.status(403).json({
+          message: 'Please confirm your identity before emptying the trash',
+          code: 'REAUTH_REQUIRED',
         });
-      });
+      }
       
-      // Add duplicate passwords to report
-      passwordMap.forEach((sites, password) => {
-        if (sites.length > 1) {
-          sites.forEach(site => {
-            report.duplicatePasswords.push({
-              id: site.id,
-              website: site.website,
-              username: site.username,
-              duplicateCount: sites.length
-            });
-          });
-        }
-      });
+      const items = await storage.getSavedPasswordsByUserId(userId, { trashed: true });
+      const deleted = await storage.deleteSavedPasswords(userId, items.map(item => item.id));
+      return res.json({ deleted });
+    } catch (error) {
+      console.error('Error emptying trash:', error);
+      return res.status(500).json({ message: error instanceof Error ? error.message : 'Server error' });
+    }
+  });
+
+  // Password generator for scripts and other clients. The web app generates
+  // passwords in the browser, so these never see the ones it saves.
+  app.get('/api/password-generator/presets', requireAuth, (_req: Request, res: Response) => {
+    return res.json(GENERATOR_PRESETS);
+  });
+
+  // Body: { preset?: string, options?: GeneratorOptions, count?: number }.
+  // Explicit options take precedence over the preset.
+  app.post('/api/password-generator', requireAuth, generatorRateLimiter, (req: Request, res: Response) => {
+    try {
+      const { preset: presetId, options, count = 1 } = req.body || {};
       
-      // Check for old passwords (based on createdAt/updatedAt)
-      const threeMonthsAgo = new Date();
-      threeMonthsAgo.setMonth(threeMonthsAgo.getMonth() - 3);
-      
-      passwords.forEach(pw => {
-        const lastUpdated = new Date(pw.updatedAt);
-        if (lastUpdated < threeMonthsAgo) {
-          report.oldPasswords.push({
-            id: pw.id,
-            website: pw.website,
-            username: pw.username,
-            lastUpdated: lastUpdated
-          });
-        }
-      });
+      const preset = getGeneratorPreset(presetId);
+      if (presetId !== undefined && !preset) {
+        return res.status(400).json({ message: `Unknown preset "${presetId}"`, code: 'UNKNOWN_PRESET' });
+      }
       
-      // Check for reused username/password combinations across different domains
-      const usernamePasswordMap = new Map<string, Array<{id: number, website: string, username: string}>>();
+      const parsed = generatorOptionsSchema.safeParse(options ?? preset?.options ?? DEFAULT_GENERATOR_PRESET.options);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.issues[0].message });
+      }
       
-      passwords.forEach(pw => {
-        const key = `${pw.username}:${pw.password}`;
-        if (!usernamePasswordMap.has(key)) {
-          usernamePasswordMap.set(key, []);
-        }
-        usernamePasswordMap.get(key)?.push({
-          id: pw.id,
-          website: pw.website,
-          username: pw.username
-        });
-      });
+      if (!Number.isInteger(count) || count < 1 || count > MAX_GENERATED_PASSWORDS) {
+        return res.status(400).json({ message: `Generate between 1 and ${MAX_GENERATED_PASSWORDS} passwords at a time` });
+      }
       
-      // Add reused username/password combinations to report
-      usernamePasswordMap.forEach((sites, combo) => {
-        if (sites.length > 1) {
-          sites.forEach(site => {
-            report.reusedPasswords.push({
-              id: site.id,
-              website: site.website,
-              username: site.username,
-              reusedCount: sites.length
-            });
-          });
-        }
-      });
+      const passwords = Array.from({ length: count }, () => generatePassword(parsed.data));
+      return res.json({ options: parsed.data, passwords });
+    } catch (error) {
+      console.error('Error generating passwords:', error);
+      return res.status(500).json({ message: error instanceof Error ? error.message : 'Server error' });
+    }
+  });
+
+  // Breached password lookups using k-anonymity: the client sends the first 5
+  // characters of a password's SHA-1 hash and matches the full hash itself
+  // against the returned suffixes, in the same format as the HIBP range API.
+  app.get('/api/breach/range/:prefix', requireAuth, breachRateLimiter, async (req: Request, res: Response) => {
+    try {
+      const prefix = normalizeHashPrefix(req.params.prefix);
+      if (!prefix) {
+        return res.status(400).json({ message: 'Hash prefix must be 5 hexadecimal characters' });
+      }
       
-      // Calculate overall score (100 is best, 0 is worst)
-      let score = 100;
+      const range = await getBreachRange(prefix);
+      if (!range) {
+        return res.status(503).json({ message: 'Breached password checks are not configured', code: 'BREACH_CORPUS_UNAVAILABLE' });
+      }
       
-      // Deduct points for weak passwords
-      score -= Math.min(50, report.weakPasswords.length * 5);
+      res.type('text/plain');
+      return res.send(formatBreachRange(range));
+    } catch (error) {
+      console.error('Error looking up breached passwords:', error);
+      return res.status(500).json({ message: error instanceof Error ? error.message : 'Server error' });
+    }
+  });
+
+  // The same lookup for many prefixes at once, so a security report needs one
+  // request per MAX_BREACH_PREFIXES distinct prefixes rather than one each.
+  // Responds with each prefix's range in the format above.
+  app.post('/api/breach/ranges', requireAuth, breachRateLimiter, async (req: Request, res: Response) => {
+    try {
+      const { prefixes } = req.body;
+      if (!Array.isArray(prefixes) || prefixes.length === 0 || prefixes.length > MAX_BREACH_PREFIXES) {
+        return res.status(400).json({ message: `Check between 1 and ${MAX_BREACH_PREFIXES} hash prefixes at a time` });
+      }
+      const normalized = prefixes.map(prefix => typeof prefix === 'string' ? normalizeHashPrefix(prefix) : null);
+      if (normalized.some(prefix => !prefix)) {
+        return res.status(400).json({ message: 'Hash prefix must be 5 hexadecimal characters' });
+      }
       
-      // Deduct points for duplicate passwords
-      score -= Math.min(30, report.duplicatePasswords.length * 3);
+      const ranges: Record<string, string> = {};
+      for (const prefix of Array.from(new Set(normalized as string[]))) {
+        const range = await getBreachRange(prefix);
+        if (!range) {
+          return res.status(503).json({ message: 'Breached password checks are not configured', code: 'BREACH_CORPUS_UNAVAILABLE' });
+        }
+        ranges[prefix] = formatBreachRange(range);
+      }
       
-      // Deduct points for old passwords
-      score -= Math.min(20, report.oldPasswords.length * 2);
+      return res.json({ ranges });
+    } catch (error) {
+      console.error('Error looking up breached passwords:', error);
+      return res.status(500).json({ message: error instanceof Error ? error.message : 'Server error' });
+    }
+  });
+
+  // Vault folders
+  
+  app.get('/api/folders', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user.id;
       
-      // Ensure the score doesn't go below 0
-      report.overallScore = Math.max(0, score);
+      const folders = await storage.getFoldersByUserId(userId);
+      return res.json(folders);
+    } catch (error) {
+      console.error('Error fetching folders:', error);
+      return res.status(500).json({ message: error instanceof Error ? error.message : 'Server error' });
+    }
+  });
+
+  app.post('/api/folders', requireAuth, passwordRateLimiter, async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user.id;
       
-      // Add recommendations based on findings
-      if (report.weakPasswords.length > 0) {
-        report.recommendations.push('Strengthen weak passwords by adding complexity (uppercase, numbers, symbols)');
+      const parsed = folderInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.issues[0].message });
       }
       
-      if (report.duplicatePasswords.length > 0) {
-        report.recommendations.push('Use unique passwords for each website to prevent multiple accounts being compromised');
+      const { name, parentId } = parsed.data;
+      if (parentId != null) {
+        const parent = await storage.getFolder(parentId);
+        if (!parent || parent.userId !== userId) {
+          return res.status(404).json({ message: 'Parent folder not found' });
+        }
       }
       
-      if (report.oldPasswords.length > 0) {
-        report.recommendations.push('Regularly update your passwords (at least every 3 months)');
+      const folder = await storage.createFolder({ userId, name, parentId: parentId ?? null });
+      return res.status(201).json(folder);
+    } catch (error) {
+      console.error('Error creating folder:', error);
+      return res.status(500).json({ message: error instanceof Error ? error.message : 'Server error' });
+    }
+  });
+
+  // Rename a folder or move it under another one
+  app.patch('/api/folders/:id', requireAuth, passwordRateLimiter, async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user.id;
+      const folderId = parseInt(req.params.id, 10);
+      
+      const folders = await storage.getFoldersByUserId(userId);
+      const folder = folders.find(f => f.id === folderId);
+      if (!folder) {
+        return res.status(404).json({ message: 'Folder not found' });
       }
       
-      if (report.reusedPasswords.length > 0) {
-        report.recommendations.push('Avoid using the same username and password combination across different websites');
+      const parsed = folderInputSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.issues[0].message });
       }
       
-      if (passwords.length === 0) {
-        report.recommendations.push('Start saving your passwords in the password manager for better security');
+      const { name, parentId } = parsed.data;
+      if (parentId != null) {
+        if (!folders.some(f => f.id === parentId)) {
+          return res.status(404).json({ message: 'Parent folder not found' });
+        }
+        // A folder can't move into itself or one of its own subfolders
+        if (getFolderSubtree(folders, folderId).includes(parentId)) {
+          return res.status(400).json({ message: 'A folder cannot be moved inside itself', code: 'FOLDER_CYCLE' });
+        }
       }
       
-      return res.json(report);
+      const updated = await storage.updateFolder(folderId, {
+        ...(name !== undefined ? { name } : {}),
+        ...(parentId !== undefined ? { parentId } : {}),
+      });
+      return res.json(updated);
     } catch (error) {
-      console.error('Error generating security report:', error);
+      console.error('Error updating folder:', error);
       return res.status(500).json({ message: error instanceof Error ? error.message : 'Server error' });
     }
   });
 
+  // Delete a folder and its subfolders. Their items are kept, without a folder.
+  app.delete('/api/folders/:id', requireAuth, passwordRateLimiter, async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user.id;
+      const folderId = parseInt(req.params.id, 10);
+      
+      const folder = await storage.getFolder(folderId);
+      if (!folder || folder.userId !== userId) {
+        return res.status(404).json({ message: 'Folder not found' });
+      }
+      
+      await storage.deleteFolder(folderId);
+      return res.status(204).send();
+    } catch (error) {
+      console.error('Error deleting folder:', error);
+      return res.status(500).json({ message: error instanceof Error ? error.message : 'Server error' });
+    }
+  });
+  
   // MFA Setup and Verification Routes
   
   // Start MFA setup process - generates secret and QR code
@@ -1133,6 +2703,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'MFA not enabled for this user' });
       }
       
+      // The first factor must have been completed in this session
+      if (!hasPendingMfa(req, user.id)) {
+        return res.status(401).json({ message: 'No pending sign-in for this user' });
+      }
+      
       const { verifyOtpCode, isVerificationCodeExpired } = await import('./mfa');
       
       let verified = false;
@@ -1183,13 +2758,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         lastLogin: new Date()
       });
       
-      // Set session directly
-      if (req.session) {
-        req.session.userId = user.id;
-      } else {
-        console.error('Session object missing in request');
-        return res.status(500).json({ message: 'Session error during login' });
-      }
+      // Set session with a fresh session ID
+      await establishSession(req, user.id);
       return res.json(user);
     } catch (error) {
       console.error('Error authenticating MFA:', error);
@@ -0,0 +1,316 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import express from 'express';
+import session from 'express-session';
+import createMemoryStore from 'memorystore';
+import { registerRoutes } from './routes';
+import { storage } from './storage';
+import { hashPassword } from './auth';
+import { bufferToBase64URL } from './webAuthn';
+import { setMailer, type MailMessage } from './mailer';
+
+// Each sign-in path (password, passkey, QR code) must end in a session that
+// /api/passwords accepts, and only after MFA when the account has it. A fresh
+// sign-in doesn't stand in for re-confirming identity.
+
+let server: Server;
+let baseUrl: string;
+
+// A browser: keeps the session cookie between requests
+class Client {
+  private cookie = '';
+
+  async request(method: string, path: string, body?: unknown) {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        ...(body !== undefined && { 'Content-Type': 'application/json' }),
+        ...(this.cookie && { Cookie: this.cookie }),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+    const setCookie = response.headers.getSetCookie().find((cookie) => cookie.startsWith('connect.sid='));
+    if (setCookie) {
+      this.cookie = setCookie.split(';')[0];
+    }
+    const text = await response.text();
+    return { status: response.status, body: text ? JSON.parse(text) : null };
+  }
+}
+
+// A software passkey for 127.0.0.1, the RP ID the server derives from the test requests
+class Passkey {
+  readonly credentialId = crypto.randomBytes(16);
+  private readonly keys = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  private counter = 0;
+
+  // COSE_Key {1: 2, 3: -7, -1: 1, -2: x, -3: y}
+  get cosePublicKey(): string {
+    const jwk = this.keys.publicKey.export({ format: 'jwk' });
+    return bufferToBase64URL(Buffer.concat([
+      Buffer.from('a5010203262001215820', 'hex'),
+      Buffer.from(jwk.x!, 'base64url'),
+      Buffer.from('225820', 'hex'),
+      Buffer.from(jwk.y!, 'base64url'),
+    ]));
+  }
+
+  assert(challenge: string) {
+    const counter = Buffer.alloc(4);
+    counter.writeUInt32BE(++this.counter);
+    // User present and verified
+    const authenticatorData = Buffer.concat([
+      crypto.createHash('sha256').update('127.0.0.1').digest(),
+      Buffer.from([0x05]),
+      counter,
+    ]);
+    const clientDataJSON = Buffer.from(JSON.stringify({ type: 'webauthn.get', challenge, origin: baseUrl }));
+    const clientDataHash = crypto.createHash('sha256').update(clientDataJSON).digest();
+    const signature = crypto.sign('sha256', Buffer.concat([authenticatorData, clientDataHash]), this.keys.privateKey);
+
+    const id = bufferToBase64URL(this.credentialId);
+    return {
+      id,
+      rawId: id,
+      type: 'public-key',
+      response: {
+        authenticatorData: bufferToBase64URL(authenticatorData),
+        clientDataJSON: bufferToBase64URL(clientDataJSON),
+        signature: bufferToBase64URL(signature),
+        userHandle: null,
+      },
+      clientExtensionResults: {},
+    };
+  }
+}
+
+async function createUser(name: string, options: { password?: string; mfaRecoveryCode?: string; passkey?: Passkey } = {}) {
+  const user = await storage.createUser({
+    username: name,
+    email: `${name}@example.com`,
+    password: options.password ? await hashPassword(options.password) : null,
+    registered: true,
+  });
+  await storage.updateUser(user.id, {
+    registered: true,
+    ...(options.mfaRecoveryCode && { mfaEnabled: true, mfaType: 'totp' }),
+  });
+  if (options.mfaRecoveryCode) {
+    await storage.createRecoveryCode({ userId: user.id, code: options.mfaRecoveryCode, used: false });
+  }
+  if (options.passkey) {
+    await storage.createCredential({
+      userId: user.id,
+      credentialId: bufferToBase64URL(options.passkey.credentialId),
+      publicKey: options.passkey.cosePublicKey,
+      counter: 0,
+      transports: ['internal'],
+    });
+  }
+  return user;
+}
+
+before(async () => {
+  // Without DATABASE_URL the first storage call fails over to memory; make
+  // that happen up front so every write lands in the same place
+  await storage.getUser(0);
+
+  const app = express();
+  app.use(express.json());
+  app.use(session({
+    store: new (createMemoryStore(session))({}),
+    secret: 'test-secret',
+    resave: false,
+    saveUninitialized: false,
+  }));
+  server = await registerRoutes(app);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+describe('password sign-in', () => {
+  it('reaches /api/passwords', async () => {
+    await createUser('password-user', { password: 'correct horse battery staple' });
+    const browser = new Client();
+
+    assert.equal((await browser.request('GET', '/api/passwords')).status, 401);
+
+    const login = await browser.request('POST', '/api/login', {
+      username: 'password-user',
+      password: 'correct horse battery staple',
+    });
+    assert.equal(login.status, 200);
+    assert.equal(login.body.username, 'password-user');
+
+    assert.equal((await browser.request('GET', '/api/passwords')).status, 200);
+  });
+
+  it('is rejected by /api/passwords until MFA is completed', async () => {
+    const user = await createUser('mfa-user', { password: 'correct horse battery staple', mfaRecoveryCode: 'RECOVERY-0001' });
+    const browser = new Client();
+
+    const login = await browser.request('POST', '/api/login', {
+      username: 'mfa-user',
+      password: 'correct horse battery staple',
+    });
+    assert.equal(login.status, 200);
+    assert.equal(login.body.requiresMfa, true);
+
+    // First factor only: no session yet
+    assert.equal((await browser.request('GET', '/api/passwords')).status, 401);
+
+    // MFA started in another browser can't be finished here
+    const other = await new Client().request('POST', '/api/mfa/verify', {
+      userId: user.id,
+      code: 'RECOVERY-0001',
+      mfaType: 'recovery',
+    });
+    assert.equal(other.status, 401);
+
+    const verify = await browser.request('POST', '/api/mfa/verify', {
+      userId: user.id,
+      code: 'RECOVERY-0001',
+      mfaType: 'recovery',
+    });
+    assert.equal(verify.status, 200);
+
+    assert.equal((await browser.request('GET', '/api/passwords')).status, 200);
+  });
+});
+
+describe('passkey sign-in', () => {
+  it('reaches /api/passwords', async () => {
+    const passkey = new Passkey();
+    await createUser('passkey-user', { passkey });
+    const browser = new Client();
+
+    const start = await browser.request('POST', '/api/auth/login/start', { email: 'passkey-user@example.com' });
+    assert.equal(start.status, 200);
+
+    const complete = await browser.request('POST', '/api/auth/login/complete', {
+      email: 'passkey-user@example.com',
+      credential: passkey.assert(start.body.challenge),
+      expectedChallenge: start.body.challenge,
+    });
+    assert.equal(complete.status, 200);
+    assert.equal(complete.body.user.username, 'passkey-user');
+
+    assert.equal((await browser.request('GET', '/api/passwords')).status, 200);
+  });
+
+  it('rejects an assertion signed by another key', async () => {
+    const passkey = new Passkey();
+    await createUser('passkey-impostor', { passkey });
+    const impostor = new Passkey();
+    const browser = new Client();
+
+    const start = await browser.request('POST', '/api/auth/login/start', { email: 'passkey-impostor@example.com' });
+    const credential = { ...impostor.assert(start.body.challenge), id: bufferToBase64URL(passkey.credentialId), rawId: bufferToBase64URL(passkey.credentialId) };
+    const complete = await browser.request('POST', '/api/auth/login/complete', {
+      email: 'passkey-impostor@example.com',
+      credential,
+      expectedChallenge: start.body.challenge,
+    });
+    assert.equal(complete.status, 401);
+
+    assert.equal((await browser.request('GET', '/api/passwords')).status, 401);
+  });
+});
+
+describe('QR code sign-in', () => {
+  it('reaches /api/passwords once a signed-in phone approves', async () => {
+    const passkey = new Passkey();
+    await createUser('qr-user', { password: 'correct horse battery staple', passkey });
+
+    const phone = new Client();
+    await phone.request('POST', '/api/login', { username: 'qr-user', password: 'correct horse battery staple' });
+
+    const desktop = new Client();
+    const qr = await desktop.request('POST', '/api/auth/qrcode');
+    assert.equal(qr.status, 200);
+    const code = new URL(qr.body.qrCode).searchParams.get('code')!;
+
+    const pending = await desktop.request('POST', '/api/auth/qrcode/verify', { challengeId: qr.body.id });
+    assert.equal(pending.body.verified, false);
+    assert.equal((await desktop.request('GET', '/api/passwords')).status, 401);
+
+    const scan = await phone.request('POST', '/api/auth/qrcode/scan', { code });
+    assert.equal(scan.status, 200);
+    const approve = await phone.request('POST', '/api/auth/qrcode/approve', {
+      code,
+      credential: passkey.assert(scan.body.options.challenge),
+    });
+    assert.equal(approve.status, 200);
+
+    // Only the desktop that displayed the code can claim it
+    const stranger = await new Client().request('POST', '/api/auth/qrcode/verify', { challengeId: qr.body.id });
+    assert.equal(stranger.status, 403);
+
+    const verify = await desktop.request('POST', '/api/auth/qrcode/verify', { challengeId: qr.body.id });
+    assert.equal(verify.status, 200);
+    assert.equal(verify.body.verified, true);
+
+    assert.equal((await desktop.request('GET', '/api/passwords')).status, 200);
+  });
+});
+
+describe('changing the password after sign-in', () => {
+  it('needs the current password, not just a fresh sign-in', async () => {
+    await createUser('change-user', { password: 'correct horse battery staple' });
+    const browser = new Client();
+    await browser.request('POST', '/api/login', { username: 'change-user', password: 'correct horse battery staple' });
+
+    const withoutPassword = await browser.request('PUT', '/api/user/password', {
+      newPassword: 'a different horse battery staple',
+    });
+    assert.equal(withoutPassword.status, 403);
+    assert.equal(withoutPassword.body.code, 'REAUTH_REQUIRED');
+
+    const wrongPassword = await browser.request('PUT', '/api/user/password', {
+      currentPassword: 'not my password',
+      newPassword: 'a different horse battery staple',
+    });
+    assert.equal(wrongPassword.status, 401);
+
+    const withPassword = await browser.request('PUT', '/api/user/password', {
+      currentPassword: 'correct horse battery staple',
+      newPassword: 'a different horse battery staple',
+    });
+    assert.equal(withPassword.status, 200);
+  });
+});
+
+describe('requesting a password reset', () => {
+  it('responds before the reset email is sent', async () => {
+    await createUser('forgot-user', { password: 'correct horse battery staple' });
+    process.env.APP_URL = 'https://vault.example.com';
+    // A mailer that doesn't deliver until the test lets it
+    const sent: MailMessage[] = [];
+    let deliver = () => {};
+    const delivered = new Promise<void>((resolve) => { deliver = resolve; });
+    setMailer({ send: async (message) => { await delivered; sent.push(message); } });
+
+    try {
+      const known = await new Client().request('POST', '/api/password/forgot', { email: 'forgot-user@example.com' });
+      const unknown = await new Client().request('POST', '/api/password/forgot', { email: 'nobody@example.com' });
+      assert.equal(known.status, 200);
+      assert.deepEqual(known.body, unknown.body);
+      assert.equal(sent.length, 0);
+
+      deliver();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      assert.equal(sent.length, 1);
+      assert.equal(sent[0].to, 'forgot-user@example.com');
+      assert.match(sent[0].text, /https:\/\/vault\.example\.com\/reset-password\?token=/);
+    } finally {
+      delete process.env.APP_URL;
+    }
+  });
+});
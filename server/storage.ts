@@ -9,17 +9,43 @@ import {
   InsertSavedPassword,
   MfaRecoveryCode,
   InsertMfaRecoveryCode,
+  VaultKey,
+  InsertVaultKey,
+  Folder,
+  InsertFolder,
+  VaultItemVersion,
+  InsertVaultItemVersion,
+  PasswordHistory,
+  InsertPasswordHistory,
+  PasswordResetToken,
+  InsertPasswordResetToken,
   users,
   credentials,
   challenges,
   savedPasswords,
-  mfaRecoveryCodes
+  mfaRecoveryCodes,
+  vaultKeys,
+  folders,
+  vaultItemVersions,
+  passwordHistory,
+  passwordResetTokens
 } from "@shared/schema";
-import { eq, and, lt } from "drizzle-orm";
+import { eq, and, lt, gt, inArray, isNull, isNotNull, arrayContains, desc, SQL } from "drizzle-orm";
 import { db, pool } from "./db";
+import { SAVED_PASSWORD_SECRET_FIELDS, USER_SECRET_FIELDS, decryptFields, encryptFields } from "./encryption";
 import session from "express-session";
 import connectPgSimple from "connect-pg-simple";
 
+// Filters for listing a user's saved passwords
+export interface SavedPasswordFilter {
+  // Items in any of these folders, or items in no folder when null
+  folderIds?: number[] | null;
+  tag?: string;
+  favorite?: boolean;
+  // Items in the trash instead of the vault
+  trashed?: boolean;
+}
+
 export interface IStorage {
   // User methods
   getUser(id: number): Promise<User | undefined>;
@@ -34,6 +60,7 @@ export interface IStorage {
   getCredentialsByUserId(userId: number): Promise<Credential[]>;
   createCredential(credential: InsertCredential): Promise<Credential>;
   updateCredential(id: number, updates: Partial<Credential>): Promise<Credential | undefined>;
+  deleteCredential(id: number): Promise<boolean>;
   
   // Challenge methods
   getChallenge(id: number): Promise<Challenge | undefined>;
@@ -46,10 +73,35 @@ export interface IStorage {
   
   // SavedPassword methods
   getSavedPassword(id: number): Promise<SavedPassword | undefined>;
-  getSavedPasswordsByUserId(userId: number): Promise<SavedPassword[]>;
+  getSavedPasswordsByUserId(userId: number, filter?: SavedPasswordFilter): Promise<SavedPassword[]>;
+  getSavedPasswordTags(userId: number): Promise<string[]>;
   createSavedPassword(savedPassword: InsertSavedPassword): Promise<SavedPassword>;
+  createSavedPasswords(savedPasswords: InsertSavedPassword[]): Promise<SavedPassword[]>;
   updateSavedPassword(id: number, updates: Partial<SavedPassword>): Promise<SavedPassword | undefined>;
   deleteSavedPassword(id: number): Promise<boolean>;
+  deleteSavedPasswords(userId: number, ids: number[]): Promise<number>;
+  trashSavedPasswords(userId: number, ids: number[]): Promise<number>;
+  deleteTrashedSavedPasswords(before: Date): Promise<number>;
+  
+  // Vault item version methods
+  getVaultItemVersion(id: number): Promise<VaultItemVersion | undefined>;
+  getVaultItemVersions(itemId: number): Promise<VaultItemVersion[]>;
+  getVaultItemVersionsByUserId(userId: number): Promise<VaultItemVersion[]>;
+  createVaultItemVersion(version: InsertVaultItemVersion): Promise<VaultItemVersion>;
+  updateVaultItemVersion(id: number, encryptedData: string): Promise<VaultItemVersion | undefined>;
+  deleteVaultItemVersionsBeyond(itemId: number, keep: number): Promise<number>;
+  
+  // Folder methods
+  getFolder(id: number): Promise<Folder | undefined>;
+  getFoldersByUserId(userId: number): Promise<Folder[]>;
+  createFolder(folder: InsertFolder): Promise<Folder>;
+  updateFolder(id: number, updates: Partial<Folder>): Promise<Folder | undefined>;
+  deleteFolder(id: number): Promise<boolean>;
+  
+  // Vault key methods
+  getVaultKeysByUserId(userId: number): Promise<VaultKey[]>;
+  createVaultKey(vaultKey: InsertVaultKey): Promise<VaultKey>;
+  deleteVaultKey(id: number): Promise<boolean>;
   
   // MFA Recovery Code methods
   getRecoveryCode(id: number): Promise<MfaRecoveryCode | undefined>;
@@ -60,6 +112,19 @@ export interface IStorage {
   deleteRecoveryCode(id: number): Promise<boolean>;
   deleteAllRecoveryCodesByUserId(userId: number): Promise<number>;
   
+  // Account password history methods
+  getPasswordHistory(userId: number): Promise<PasswordHistory[]>;
+  createPasswordHistory(entry: InsertPasswordHistory): Promise<PasswordHistory>;
+  deletePasswordHistoryBeyond(userId: number, keep: number): Promise<number>;
+  
+  // Password reset token methods
+  getPasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken>;
+  // Mark an unused, unexpired token as used and return it, or nothing if it can't be used
+  consumePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  deletePasswordResetTokensByUserId(userId: number): Promise<number>;
+  deleteExpiredPasswordResetTokens(): Promise<number>;
+  
   // Session store for authentication
   getSessionStore(): session.Store;
 }
@@ -85,38 +150,39 @@ export class DatabaseStorage implements IStorage {
     return this._sessionStore;
   }
   
-  // User methods
+  // User methods. MFA secrets and verification codes are encrypted on the way
+  // in and decrypted on the way out.
   async getUser(id: number): Promise<User | undefined> {
     const result = await db.select().from(users).where(eq(users.id, id));
-    return result.length > 0 ? result[0] : undefined;
+    return result.length > 0 ? decryptFields(result[0], USER_SECRET_FIELDS) : undefined;
   }
 
   async getUserByEmail(email: string): Promise<User | undefined> {
     const result = await db.select().from(users).where(eq(users.email, email));
-    return result.length > 0 ? result[0] : undefined;
+    return result.length > 0 ? decryptFields(result[0], USER_SECRET_FIELDS) : undefined;
   }
 
   async getUserByUsername(username: string): Promise<User | undefined> {
     const result = await db.select().from(users).where(eq(users.username, username));
-    return result.length > 0 ? result[0] : undefined;
+    return result.length > 0 ? decryptFields(result[0], USER_SECRET_FIELDS) : undefined;
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const result = await db.insert(users).values({
-      ...insertUser,
+      ...encryptFields(insertUser, USER_SECRET_FIELDS),
       registered: false
     }).returning();
     
-    return result[0];
+    return decryptFields(result[0], USER_SECRET_FIELDS);
   }
 
   async updateUser(id: number, updates: Partial<User>): Promise<User | undefined> {
     const result = await db.update(users)
-      .set(updates)
+      .set(encryptFields(updates, USER_SECRET_FIELDS))
       .where(eq(users.id, id))
       .returning();
     
-    return result.length > 0 ? result[0] : undefined;
+    return result.length > 0 ? decryptFields(result[0], USER_SECRET_FIELDS) : undefined;
   }
 
   // Credential methods
@@ -148,6 +214,11 @@ export class DatabaseStorage implements IStorage {
     return result.length > 0 ? result[0] : undefined;
   }
 
+  async deleteCredential(id: number): Promise<boolean> {
+    const result = await db.delete(credentials).where(eq(credentials.id, id)).returning();
+    return result.length > 0;
+  }
+
   // Challenge methods
   async getChallenge(id: number): Promise<Challenge | undefined> {
     const result = await db.select().from(challenges).where(eq(challenges.id, id));
@@ -191,43 +262,214 @@ export class DatabaseStorage implements IStorage {
     return result.length;
   }
 
-  // SavedPassword methods
+  // SavedPassword methods. Legacy plaintext passwords are encrypted at rest.
   async getSavedPassword(id: number): Promise<SavedPassword | undefined> {
     const result = await db.select().from(savedPasswords).where(eq(savedPasswords.id, id));
-    return result.length > 0 ? result[0] : undefined;
+    return result.length > 0 ? decryptFields(result[0], SAVED_PASSWORD_SECRET_FIELDS) : undefined;
   }
 
-  async getSavedPasswordsByUserId(userId: number): Promise<SavedPassword[]> {
-    return await db.select().from(savedPasswords).where(eq(savedPasswords.userId, userId));
+  async getSavedPasswordsByUserId(userId: number, filter: SavedPasswordFilter = {}): Promise<SavedPassword[]> {
+    const conditions: SQL[] = [
+      eq(savedPasswords.userId, userId),
+      filter.trashed ? isNotNull(savedPasswords.deletedAt) : isNull(savedPasswords.deletedAt),
+    ];
+    if (filter.folderIds === null) {
+      conditions.push(isNull(savedPasswords.folderId));
+    } else if (filter.folderIds) {
+      if (filter.folderIds.length === 0) {
+        return [];
+      }
+      conditions.push(inArray(savedPasswords.folderId, filter.folderIds));
+    }
+    if (filter.tag) {
+      conditions.push(arrayContains(savedPasswords.tags, [filter.tag]));
+    }
+    if (filter.favorite !== undefined) {
+      conditions.push(eq(savedPasswords.favorite, filter.favorite));
+    }
+    
+    const result = await db.select().from(savedPasswords).where(and(...conditions));
+    return result.map((row: SavedPassword) => decryptFields(row, SAVED_PASSWORD_SECRET_FIELDS));
+  }
+
+  // Every tag the user has put on an item outside the trash, sorted
+  async getSavedPasswordTags(userId: number): Promise<string[]> {
+    const result = await db.select({ tags: savedPasswords.tags })
+      .from(savedPasswords)
+      .where(and(eq(savedPasswords.userId, userId), isNull(savedPasswords.deletedAt)));
+    return Array.from(new Set(result.flatMap((row: { tags: string[] }) => row.tags))).sort() as string[];
   }
 
   async createSavedPassword(insertSavedPassword: InsertSavedPassword): Promise<SavedPassword> {
     const now = new Date();
     const result = await db.insert(savedPasswords).values({
-      ...insertSavedPassword,
+      ...encryptFields(insertSavedPassword, SAVED_PASSWORD_SECRET_FIELDS),
       createdAt: now,
       updatedAt: now
     }).returning();
-    return result[0];
+    return decryptFields(result[0], SAVED_PASSWORD_SECRET_FIELDS);
+  }
+
+  // Insert many rows in one statement, e.g. for imports
+  async createSavedPasswords(insertSavedPasswords: InsertSavedPassword[]): Promise<SavedPassword[]> {
+    if (insertSavedPasswords.length === 0) {
+      return [];
+    }
+    
+    const now = new Date();
+    const result = await db.insert(savedPasswords).values(
+      insertSavedPasswords.map(insertSavedPassword => ({
+        ...encryptFields(insertSavedPassword, SAVED_PASSWORD_SECRET_FIELDS),
+        createdAt: now,
+        updatedAt: now
+      }))
+    ).returning();
+    return result.map((row: SavedPassword) => decryptFields(row, SAVED_PASSWORD_SECRET_FIELDS));
   }
 
+  // updatedAt tracks the item's contents, so moving or tagging an item leaves it alone
   async updateSavedPassword(id: number, updates: Partial<SavedPassword>): Promise<SavedPassword | undefined> {
     const now = new Date();
     const result = await db.update(savedPasswords)
       .set({
-        ...updates,
-        updatedAt: now
+        ...encryptFields(updates, SAVED_PASSWORD_SECRET_FIELDS),
+        // Re-encrypting unchanged contents passes the old updatedAt through
+        ...(updates.encryptedData !== undefined && !updates.updatedAt ? { updatedAt: now } : {})
       })
       .where(eq(savedPasswords.id, id))
       .returning();
     
-    return result.length > 0 ? result[0] : undefined;
+    return result.length > 0 ? decryptFields(result[0], SAVED_PASSWORD_SECRET_FIELDS) : undefined;
   }
 
   async deleteSavedPassword(id: number): Promise<boolean> {
     const result = await db.delete(savedPasswords).where(eq(savedPasswords.id, id)).returning();
     return result.length > 0;
   }
+
+  // Delete several of a user's items at once; ids belonging to others are ignored
+  async deleteSavedPasswords(userId: number, ids: number[]): Promise<number> {
+    if (ids.length === 0) {
+      return 0;
+    }
+    
+    const result = await db.delete(savedPasswords)
+      .where(and(
+        eq(savedPasswords.userId, userId),
+        inArray(savedPasswords.id, ids)
+      ))
+      .returning();
+    return result.length;
+  }
+  
+  // Move several of a user's items to the trash; items already there keep their deletion time
+  async trashSavedPasswords(userId: number, ids: number[]): Promise<number> {
+    if (ids.length === 0) {
+      return 0;
+    }
+    
+    const result = await db.update(savedPasswords)
+      .set({ deletedAt: new Date() })
+      .where(and(
+        eq(savedPasswords.userId, userId),
+        inArray(savedPasswords.id, ids),
+        isNull(savedPasswords.deletedAt)
+      ))
+      .returning();
+    return result.length;
+  }
+  
+  // Permanently delete items that were moved to the trash before the given time
+  async deleteTrashedSavedPasswords(before: Date): Promise<number> {
+    const result = await db.delete(savedPasswords)
+      .where(lt(savedPasswords.deletedAt, before))
+      .returning();
+    return result.length;
+  }
+  
+  // Vault item version methods
+  async getVaultItemVersion(id: number): Promise<VaultItemVersion | undefined> {
+    const result = await db.select().from(vaultItemVersions).where(eq(vaultItemVersions.id, id));
+    return result[0];
+  }
+  
+  // Newest first
+  async getVaultItemVersions(itemId: number): Promise<VaultItemVersion[]> {
+    return await db.select()
+      .from(vaultItemVersions)
+      .where(eq(vaultItemVersions.itemId, itemId))
+      .orderBy(desc(vaultItemVersions.createdAt), desc(vaultItemVersions.id));
+  }
+  
+  async getVaultItemVersionsByUserId(userId: number): Promise<VaultItemVersion[]> {
+    return await db.select().from(vaultItemVersions).where(eq(vaultItemVersions.userId, userId));
+  }
+  
+  async createVaultItemVersion(insertVersion: InsertVaultItemVersion): Promise<VaultItemVersion> {
+    const result = await db.insert(vaultItemVersions).values(insertVersion).returning();
+    return result[0];
+  }
+  
+  async updateVaultItemVersion(id: number, encryptedData: string): Promise<VaultItemVersion | undefined> {
+    const result = await db.update(vaultItemVersions)
+      .set({ encryptedData })
+      .where(eq(vaultItemVersions.id, id))
+      .returning();
+    return result[0];
+  }
+  
+  // Keep only the newest versions of an item
+  async deleteVaultItemVersionsBeyond(itemId: number, keep: number): Promise<number> {
+    const versions = await this.getVaultItemVersions(itemId);
+    const stale = versions.slice(keep).map(version => version.id);
+    if (stale.length === 0) {
+      return 0;
+    }
+    
+    const result = await db.delete(vaultItemVersions).where(inArray(vaultItemVersions.id, stale)).returning();
+    return result.length;
+  }
+  
+  // Folder methods
+  async getFolder(id: number): Promise<Folder | undefined> {
+    const result = await db.select().from(folders).where(eq(folders.id, id));
+    return result[0];
+  }
+  
+  async getFoldersByUserId(userId: number): Promise<Folder[]> {
+    return await db.select().from(folders).where(eq(folders.userId, userId));
+  }
+  
+  async createFolder(insertFolder: InsertFolder): Promise<Folder> {
+    const result = await db.insert(folders).values(insertFolder).returning();
+    return result[0];
+  }
+  
+  async updateFolder(id: number, updates: Partial<Folder>): Promise<Folder | undefined> {
+    const result = await db.update(folders).set(updates).where(eq(folders.id, id)).returning();
+    return result[0];
+  }
+  
+  // Subfolders go with it; items are unfiled by the foreign keys
+  async deleteFolder(id: number): Promise<boolean> {
+    const result = await db.delete(folders).where(eq(folders.id, id)).returning();
+    return result.length > 0;
+  }
+  
+  // Vault key methods
+  async getVaultKeysByUserId(userId: number): Promise<VaultKey[]> {
+    return await db.select().from(vaultKeys).where(eq(vaultKeys.userId, userId));
+  }
+  
+  async createVaultKey(insertVaultKey: InsertVaultKey): Promise<VaultKey> {
+    const result = await db.insert(vaultKeys).values(insertVaultKey).returning();
+    return result[0];
+  }
+  
+  async deleteVaultKey(id: number): Promise<boolean> {
+    const result = await db.delete(vaultKeys).where(eq(vaultKeys.id, id)).returning();
+    return result.length > 0;
+  }
   
   // MFA Recovery Code methods
   async getRecoveryCode(id: number): Promise<MfaRecoveryCode | undefined> {
@@ -274,6 +516,72 @@ export class DatabaseStorage implements IStorage {
     
     return result.length;
   }
+  
+  // Account password history methods
+  
+  // Newest first
+  async getPasswordHistory(userId: number): Promise<PasswordHistory[]> {
+    return await db.select()
+      .from(passwordHistory)
+      .where(eq(passwordHistory.userId, userId))
+      .orderBy(desc(passwordHistory.createdAt), desc(passwordHistory.id));
+  }
+  
+  async createPasswordHistory(entry: InsertPasswordHistory): Promise<PasswordHistory> {
+    const result = await db.insert(passwordHistory).values(entry).returning();
+    return result[0];
+  }
+  
+  // Keep only the newest entries for a user
+  async deletePasswordHistoryBeyond(userId: number, keep: number): Promise<number> {
+    const entries = await this.getPasswordHistory(userId);
+    const stale = entries.slice(keep).map(entry => entry.id);
+    if (stale.length === 0) {
+      return 0;
+    }
+    
+    const result = await db.delete(passwordHistory).where(inArray(passwordHistory.id, stale)).returning();
+    return result.length;
+  }
+  
+  // Password reset token methods
+  async getPasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const result = await db.select().from(passwordResetTokens).where(eq(passwordResetTokens.tokenHash, tokenHash));
+    return result[0];
+  }
+  
+  async createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const result = await db.insert(passwordResetTokens).values(token).returning();
+    return result[0];
+  }
+  
+  // A single conditional update, so two requests can't both use the token
+  async consumePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const now = new Date();
+    const result = await db.update(passwordResetTokens)
+      .set({ usedAt: now })
+      .where(and(
+        eq(passwordResetTokens.tokenHash, tokenHash),
+        isNull(passwordResetTokens.usedAt),
+        gt(passwordResetTokens.expiresAt, now)
+      ))
+      .returning();
+    return result[0];
+  }
+  
+  async deletePasswordResetTokensByUserId(userId: number): Promise<number> {
+    const result = await db.delete(passwordResetTokens)
+      .where(eq(passwordResetTokens.userId, userId))
+      .returning();
+    return result.length;
+  }
+  
+  async deleteExpiredPasswordResetTokens(): Promise<number> {
+    const result = await db.delete(passwordResetTokens)
+      .where(lt(passwordResetTokens.expiresAt, new Date()))
+      .returning();
+    return result.length;
+  }
 }
 
 // Import in-memory storage for development/testing
@@ -377,6 +685,13 @@ class ResilientStorage implements IStorage {
     );
   }
 
+  async deleteCredential(id: number): Promise<boolean> {
+    return this.withFallback(
+      () => this.dbStorage.deleteCredential(id),
+      () => this.memStorage.deleteCredential(id)
+    );
+  }
+
   // Challenge methods
   async getChallenge(id: number): Promise<Challenge | undefined> {
     return this.withFallback(
@@ -435,10 +750,17 @@ class ResilientStorage implements IStorage {
     );
   }
 
-  async getSavedPasswordsByUserId(userId: number): Promise<SavedPassword[]> {
+  async getSavedPasswordsByUserId(userId: number, filter?: SavedPasswordFilter): Promise<SavedPassword[]> {
     return this.withFallback(
-      () => this.dbStorage.getSavedPasswordsByUserId(userId),
-      () => this.memStorage.getSavedPasswordsByUserId(userId)
+      () => this.dbStorage.getSavedPasswordsByUserId(userId, filter),
+      () => this.memStorage.getSavedPasswordsByUserId(userId, filter)
+    );
+  }
+
+  async getSavedPasswordTags(userId: number): Promise<string[]> {
+    return this.withFallback(
+      () => this.dbStorage.getSavedPasswordTags(userId),
+      () => this.memStorage.getSavedPasswordTags(userId)
     );
   }
 
@@ -449,6 +771,13 @@ class ResilientStorage implements IStorage {
     );
   }
 
+  async createSavedPasswords(savedPasswords: InsertSavedPassword[]): Promise<SavedPassword[]> {
+    return this.withFallback(
+      () => this.dbStorage.createSavedPasswords(savedPasswords),
+      () => this.memStorage.createSavedPasswords(savedPasswords)
+    );
+  }
+
   async updateSavedPassword(id: number, updates: Partial<SavedPassword>): Promise<SavedPassword | undefined> {
     return this.withFallback(
       () => this.dbStorage.updateSavedPassword(id, updates),
@@ -462,6 +791,128 @@ class ResilientStorage implements IStorage {
       () => this.memStorage.deleteSavedPassword(id)
     );
   }
+
+  async deleteSavedPasswords(userId: number, ids: number[]): Promise<number> {
+    return this.withFallback(
+      () => this.dbStorage.deleteSavedPasswords(userId, ids),
+      () => this.memStorage.deleteSavedPasswords(userId, ids)
+    );
+  }
+  
+  async trashSavedPasswords(userId: number, ids: number[]): Promise<number> {
+    return this.withFallback(
+      () => this.dbStorage.trashSavedPasswords(userId, ids),
+      () => this.memStorage.trashSavedPasswords(userId, ids)
+    );
+  }
+
+  async deleteTrashedSavedPasswords(before: Date): Promise<number> {
+    return this.withFallback(
+      () => this.dbStorage.deleteTrashedSavedPasswords(before),
+      () => this.memStorage.deleteTrashedSavedPasswords(before)
+    );
+  }
+
+  // Vault item version methods
+  async getVaultItemVersion(id: number): Promise<VaultItemVersion | undefined> {
+    return this.withFallback(
+      () => this.dbStorage.getVaultItemVersion(id),
+      () => this.memStorage.getVaultItemVersion(id)
+    );
+  }
+
+  async getVaultItemVersions(itemId: number): Promise<VaultItemVersion[]> {
+    return this.withFallback(
+      () => this.dbStorage.getVaultItemVersions(itemId),
+      () => this.memStorage.getVaultItemVersions(itemId)
+    );
+  }
+
+  async getVaultItemVersionsByUserId(userId: number): Promise<VaultItemVersion[]> {
+    return this.withFallback(
+      () => this.dbStorage.getVaultItemVersionsByUserId(userId),
+      () => this.memStorage.getVaultItemVersionsByUserId(userId)
+    );
+  }
+
+  async createVaultItemVersion(version: InsertVaultItemVersion): Promise<VaultItemVersion> {
+    return this.withFallback(
+      () => this.dbStorage.createVaultItemVersion(version),
+      () => this.memStorage.createVaultItemVersion(version)
+    );
+  }
+
+  async updateVaultItemVersion(id: number, encryptedData: string): Promise<VaultItemVersion | undefined> {
+    return this.withFallback(
+      () => this.dbStorage.updateVaultItemVersion(id, encryptedData),
+      () => this.memStorage.updateVaultItemVersion(id, encryptedData)
+    );
+  }
+
+  async deleteVaultItemVersionsBeyond(itemId: number, keep: number): Promise<number> {
+    return this.withFallback(
+      () => this.dbStorage.deleteVaultItemVersionsBeyond(itemId, keep),
+      () => this.memStorage.deleteVaultItemVersionsBeyond(itemId, keep)
+    );
+  }
+
+  // Folder methods
+  async getFolder(id: number): Promise<Folder | undefined> {
+    return this.withFallback(
+      () => this.dbStorage.getFolder(id),
+      () => this.memStorage.getFolder(id)
+    );
+  }
+
+  async getFoldersByUserId(userId: number): Promise<Folder[]> {
+    return this.withFallback(
+      () => this.dbStorage.getFoldersByUserId(userId),
+      () => this.memStorage.getFoldersByUserId(userId)
+    );
+  }
+
+  async createFolder(folder: InsertFolder): Promise<Folder> {
+    return this.withFallback(
+      () => this.dbStorage.createFolder(folder),
+      () => this.memStorage.createFolder(folder)
+    );
+  }
+
+  async updateFolder(id: number, updates: Partial<Folder>): Promise<Folder | undefined> {
+    return this.withFallback(
+      () => this.dbStorage.updateFolder(id, updates),
+      () => this.memStorage.updateFolder(id, updates)
+    );
+  }
+
+  async deleteFolder(id: number): Promise<boolean> {
+    return this.withFallback(
+      () => this.dbStorage.deleteFolder(id),
+      () => this.memStorage.deleteFolder(id)
+    );
+  }
+  
+  // Vault key methods
+  async getVaultKeysByUserId(userId: number): Promise<VaultKey[]> {
+    return this.withFallback(
+      () => this.dbStorage.getVaultKeysByUserId(userId),
+      () => this.memStorage.getVaultKeysByUserId(userId)
+    );
+  }
+  
+  async createVaultKey(vaultKey: InsertVaultKey): Promise<VaultKey> {
+    return this.withFallback(
+      () => this.dbStorage.createVaultKey(vaultKey),
+      () => this.memStorage.createVaultKey(vaultKey)
+    );
+  }
+  
+  async deleteVaultKey(id: number): Promise<boolean> {
+    return this.withFallback(
+      () => this.dbStorage.deleteVaultKey(id),
+      () => this.memStorage.deleteVaultKey(id)
+    );
+  }
   
   // MFA Recovery Code methods
   async getRecoveryCode(id: number): Promise<MfaRecoveryCode | undefined> {
@@ -513,6 +964,64 @@ class ResilientStorage implements IStorage {
     );
   }
   
+  // Account password history methods
+  async getPasswordHistory(userId: number): Promise<PasswordHistory[]> {
+    return this.withFallback(
+      () => this.dbStorage.getPasswordHistory(userId),
+      () => this.memStorage.getPasswordHistory(userId)
+    );
+  }
+  
+  async createPasswordHistory(entry: InsertPasswordHistory): Promise<PasswordHistory> {
+    return this.withFallback(
+      () => this.dbStorage.createPasswordHistory(entry),
+      () => this.memStorage.createPasswordHistory(entry)
+    );
+  }
+  
+  async deletePasswordHistoryBeyond(userId: number, keep: number): Promise<number> {
+    return this.withFallback(
+      () => this.dbStorage.deletePasswordHistoryBeyond(userId, keep),
+      () => this.memStorage.deletePasswordHistoryBeyond(userId, keep)
+    );
+  }
+  
+  // Password reset token methods
+  async getPasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    return this.withFallback(
+      () => this.dbStorage.getPasswordResetToken(tokenHash),
+      () => this.memStorage.getPasswordResetToken(tokenHash)
+    );
+  }
+  
+  async createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    return this.withFallback(
+      () => this.dbStorage.createPasswordResetToken(token),
+      () => this.memStorage.createPasswordResetToken(token)
+    );
+  }
+  
+  async consumePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    return this.withFallback(
+      () => this.dbStorage.consumePasswordResetToken(tokenHash),
+      () => this.memStorage.consumePasswordResetToken(tokenHash)
+    );
+  }
+  
+  async deletePasswordResetTokensByUserId(userId: number): Promise<number> {
+    return this.withFallback(
+      () => this.dbStorage.deletePasswordResetTokensByUserId(userId),
+      () => this.memStorage.deletePasswordResetTokensByUserId(userId)
+    );
+  }
+  
+  async deleteExpiredPasswordResetTokens(): Promise<number> {
+    return this.withFallback(
+      () => this.dbStorage.deleteExpiredPasswordResetTokens(),
+      () => this.memStorage.deleteExpiredPasswordResetTokens()
+    );
+  }
+  
   // Session store accessor - implements IStorage interface
   getSessionStore(): session.Store {
     return this.useMemoryFallback 
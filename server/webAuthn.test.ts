@@ -0,0 +1,160 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import fs from 'fs';
+import { decodeCbor, decodeCborFirst } from './cbor';
+import {
+  COSE_ALGORITHMS,
+  base64URLToBuffer,
+  bufferToBase64URL,
+  decodeCOSEPublicKey,
+  isSignCountValid,
+  parseAttestationObject,
+  parseAuthenticatorData,
+  verifyAssertionSignature,
+  verifyRpIdHash,
+} from './webAuthn';
+import { verifyAttestationStatement } from './attestation';
+
+// Recorded registration and assertion for one passkey per algorithm
+interface WebAuthnFixture {
+  rpId: string;
+  credentialId: string;
+  aaguid: string;
+  alg: number;
+  registration: { challenge: string; clientDataJSON: string; attestationObject: string };
+  authentication: { challenge: string; clientDataJSON: string; authenticatorData: string; signature: string };
+}
+
+function loadFixture(name: string): WebAuthnFixture {
+  return JSON.parse(fs.readFileSync(new URL(`./__fixtures__/webauthn-${name}.json`, import.meta.url), 'utf8'));
+}
+
+function sha256(data: Buffer): Buffer {
+  return crypto.createHash('sha256').update(data).digest();
+}
+
+// Registration data as the routes see it
+function register(fixture: WebAuthnFixture) {
+  const attestation = parseAttestationObject(base64URLToBuffer(fixture.registration.attestationObject));
+  const authenticatorData = parseAuthenticatorData(attestation.authData);
+  const clientDataHash = sha256(base64URLToBuffer(fixture.registration.clientDataJSON));
+  return { attestation, authenticatorData, clientDataHash };
+}
+
+describe('CBOR decoding', () => {
+  it('decodes integers, strings, byte strings, arrays and maps', () => {
+    // {1: -7, "a": [h'0102', true, null]}
+    const value = decodeCbor(Buffer.from('a20126616183420102f5f6', 'hex'));
+    assert.ok(value instanceof Map);
+    assert.equal(value.get(1), -7);
+    assert.deepEqual(value.get('a'), [Buffer.from([1, 2]), true, null]);
+  });
+
+  it('reports the length of the first item so trailing data can be found', () => {
+    const { value, length } = decodeCborFirst(Buffer.from('1903e8ff', 'hex'));
+    assert.equal(value, 1000);
+    assert.equal(length, 3);
+  });
+
+  it('rejects truncated input', () => {
+    assert.throws(() => decodeCbor(Buffer.from('5a00000010', 'hex')), /truncated/);
+  });
+});
+
+for (const name of ['es256', 'rs256']) {
+  const fixture = loadFixture(name);
+
+  describe(`${name.toUpperCase()} fixture`, () => {
+    it('parses the attestation object and attested credential data', () => {
+      const { attestation, authenticatorData } = register(fixture);
+      assert.equal(attestation.fmt, 'packed');
+      assert.equal(authenticatorData.counter, 0);
+      assert.ok(verifyRpIdHash(attestation.authData, fixture.rpId));
+
+      const attested = authenticatorData.attestedCredentialData;
+      assert.ok(attested);
+      assert.equal(attested.aaguid, fixture.aaguid);
+      assert.equal(bufferToBase64URL(attested.credentialId), fixture.credentialId);
+    });
+
+    it('decodes the COSE public key', () => {
+      const attested = register(fixture).authenticatorData.attestedCredentialData!;
+      const { alg, keyObject } = decodeCOSEPublicKey(attested.credentialPublicKey);
+      assert.equal(alg, fixture.alg);
+      assert.equal(keyObject.asymmetricKeyType, fixture.alg === COSE_ALGORITHMS.ES256 ? 'ec' : 'rsa');
+    });
+
+    it('verifies the packed self attestation', () => {
+      const { attestation, authenticatorData, clientDataHash } = register(fixture);
+      const result = verifyAttestationStatement({ ...attestation, clientDataHash, authenticatorData });
+      assert.equal(result.format, 'packed');
+      assert.equal(result.type, 'self');
+    });
+
+    it('rejects an attestation signed over different client data', () => {
+      const { attestation, authenticatorData } = register(fixture);
+      const clientDataHash = sha256(Buffer.from('{"type":"webauthn.create"}'));
+      assert.throws(
+        () => verifyAttestationStatement({ ...attestation, clientDataHash, authenticatorData }),
+        /signature is invalid/,
+      );
+    });
+
+    it('verifies the assertion signature with the stored public key', () => {
+      const publicKey = bufferToBase64URL(register(fixture).authenticatorData.attestedCredentialData!.credentialPublicKey);
+      const authData = base64URLToBuffer(fixture.authentication.authenticatorData);
+      const clientDataJSON = base64URLToBuffer(fixture.authentication.clientDataJSON);
+      const signature = base64URLToBuffer(fixture.authentication.signature);
+
+      assert.equal(verifyAssertionSignature(publicKey, authData, clientDataJSON, signature), true);
+    });
+
+    it('rejects a bad assertion signature', () => {
+      const publicKey = bufferToBase64URL(register(fixture).authenticatorData.attestedCredentialData!.credentialPublicKey);
+      const authData = base64URLToBuffer(fixture.authentication.authenticatorData);
+      const clientDataJSON = base64URLToBuffer(fixture.authentication.clientDataJSON);
+      const signature = base64URLToBuffer(fixture.authentication.signature);
+      signature[signature.length - 1] ^= 0xff;
+
+      assert.equal(verifyAssertionSignature(publicKey, authData, clientDataJSON, signature), false);
+    });
+
+    it('rejects an assertion whose authenticator data was altered', () => {
+      const publicKey = bufferToBase64URL(register(fixture).authenticatorData.attestedCredentialData!.credentialPublicKey);
+      const authData = base64URLToBuffer(fixture.authentication.authenticatorData);
+      const clientDataJSON = base64URLToBuffer(fixture.authentication.clientDataJSON);
+      const signature = base64URLToBuffer(fixture.authentication.signature);
+      authData.writeUInt32BE(100, 33);
+
+      assert.equal(verifyAssertionSignature(publicKey, authData, clientDataJSON, signature), false);
+    });
+
+    it('rejects the wrong RP ID hash', () => {
+      const authData = base64URLToBuffer(fixture.authentication.authenticatorData);
+      assert.equal(verifyRpIdHash(authData, fixture.rpId), true);
+      assert.equal(verifyRpIdHash(authData, 'evil.example.com'), false);
+    });
+
+    it('reads the assertion counter', () => {
+      const authData = parseAuthenticatorData(base64URLToBuffer(fixture.authentication.authenticatorData));
+      assert.equal(authData.counter, 1);
+      assert.equal(authData.attestedCredentialData, undefined);
+    });
+  });
+}
+
+describe('signature counter', () => {
+  it('accepts a counter that increased', () => {
+    assert.equal(isSignCountValid(2, 1), true);
+  });
+
+  it('rejects a counter that did not increase', () => {
+    assert.equal(isSignCountValid(1, 1), false);
+    assert.equal(isSignCountValid(0, 5), false);
+  });
+
+  it('accepts authenticators that never count', () => {
+    assert.equal(isSignCountValid(0, 0), true);
+  });
+});
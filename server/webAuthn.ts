@@ -1,4 +1,5 @@
 import crypto from 'crypto';
+import { decodeCbor, decodeCborFirst, type CborValue } from './cbor';
 
 // Base64URL encoding and decoding
 export function base64URLToBuffer(base64url: string): Buffer {
@@ -19,9 +20,9 @@ export function generateChallenge(): string {
   return bufferToBase64URL(crypto.randomBytes(32));
 }
 
-// Generate a QR code URL for authentication
-export function generateQRCodeUrl(challengeId: string, origin: string): string {
-  return `${origin}/api/auth/qrcode/verify?id=${challengeId}`;
+// Generate the URL encoded in a login QR code; it opens the approval screen on the scanning phone
+export function generateQRCodeUrl(code: string, origin: string): string {
+  return `${origin}/qr/approve?code=${encodeURIComponent(code)}`;
 }
 
 // Verify the origin of the client data
@@ -48,24 +49,284 @@ export function verifyOrigin(clientDataJSON: string, expectedOrigin: string): bo
   }
 }
 
-// Parse authenticator data
-export function parseAuthenticatorData(authData: Buffer): {
+// Authenticator data flag bits (WebAuthn section 6.1)
+export const AUTH_DATA_FLAGS = {
+  USER_PRESENT: 0x01,
+  USER_VERIFIED: 0x04,
+  BACKUP_ELIGIBLE: 0x08,
+  BACKED_UP: 0x10,
+  ATTESTED_CREDENTIAL_DATA: 0x40,
+  EXTENSION_DATA: 0x80,
+} as const;
+
+export interface AttestedCredentialData {
+  aaguid: string;
+  credentialId: Buffer;
+  // Raw CBOR-encoded COSE_Key, stored as-is so it can be re-parsed later
+  credentialPublicKey: Buffer;
+}
+
+export interface ParsedAuthenticatorData {
   rpIdHash: Buffer;
   flags: number;
   counter: number;
-} {
+  attestedCredentialData?: AttestedCredentialData;
+  extensions?: CborValue;
+}
+
+export interface ParsedAttestationObject {
+  fmt: string;
+  attStmt: Map<CborValue, CborValue>;
+  authData: Buffer;
+}
+
+// Format a 16-byte AAGUID as a UUID string
+export function formatAaguid(aaguid: Buffer): string {
+  const hex = aaguid.toString('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+// Parse authenticator data
+export function parseAuthenticatorData(authData: Buffer): ParsedAuthenticatorData {
+  if (authData.length < 37) {
+    throw new Error('Authenticator data is too short');
+  }
+
   const rpIdHash = authData.slice(0, 32);
   const flags = authData[32];
   const counterBuffer = authData.slice(33, 37);
   const counter = counterBuffer.readUInt32BE(0);
 
+  let offset = 37;
+  let attestedCredentialData: AttestedCredentialData | undefined;
+  let extensions: CborValue | undefined;
+
+  if (flags & AUTH_DATA_FLAGS.ATTESTED_CREDENTIAL_DATA) {
+    if (authData.length < offset + 18) {
+      throw new Error('Attested credential data is truncated');
+    }
+
+    const aaguid = authData.slice(offset, offset + 16);
+    offset += 16;
+
+    const credentialIdLength = authData.readUInt16BE(offset);
+    offset += 2;
+
+    if (authData.length < offset + credentialIdLength) {
+      throw new Error('Credential ID is truncated');
+    }
+    const credentialId = authData.slice(offset, offset + credentialIdLength);
+    offset += credentialIdLength;
+
+    // The COSE key is a CBOR map; its encoded length tells us where extensions begin
+    const { value: coseKey, length: coseKeyLength } = decodeCborFirst(authData.slice(offset));
+    if (!(coseKey instanceof Map)) {
+      throw new Error('Credential public key is not a COSE key map');
+    }
+    const credentialPublicKey = authData.slice(offset, offset + coseKeyLength);
+    offset += coseKeyLength;
+
+    attestedCredentialData = {
+      aaguid: formatAaguid(aaguid),
+      credentialId,
+      credentialPublicKey,
+    };
+  }
+
+  if (flags & AUTH_DATA_FLAGS.EXTENSION_DATA) {
+    const { value, length } = decodeCborFirst(authData.slice(offset));
+    extensions = value;
+    offset += length;
+  }
+
+  if (offset !== authData.length) {
+    throw new Error('Unexpected trailing bytes in authenticator data');
+  }
+
   return {
     rpIdHash,
     flags,
     counter,
+    attestedCredentialData,
+    extensions,
   };
 }
 
+// Decode a CBOR attestation object into its format, statement and authenticator data
+export function parseAttestationObject(attestationObject: Buffer): ParsedAttestationObject {
+  const decoded = decodeCbor(attestationObject);
+  if (!(decoded instanceof Map)) {
+    throw new Error('Attestation object is not a CBOR map');
+  }
+
+  const fmt = decoded.get('fmt');
+  const attStmt = decoded.get('attStmt');
+  const authData = decoded.get('authData');
+
+  if (typeof fmt !== 'string') {
+    throw new Error('Attestation object is missing fmt');
+  }
+  if (!(attStmt instanceof Map)) {
+    throw new Error('Attestation object is missing attStmt');
+  }
+  if (!Buffer.isBuffer(authData)) {
+    throw new Error('Attestation object is missing authData');
+  }
+
+  return { fmt, attStmt, authData };
+}
+
+// COSE algorithm identifiers (credential keys use ES256, EdDSA and RS256)
+export const COSE_ALGORITHMS = {
+  ES256: -7,
+  EdDSA: -8,
+  ES384: -35,
+  ES512: -36,
+  PS256: -37,
+  PS384: -38,
+  PS512: -39,
+  RS256: -257,
+  RS384: -258,
+  RS512: -259,
+  RS1: -65535,
+} as const;
+
+// COSE key type and curve identifiers (RFC 9053)
+const COSE_KTY = { OKP: 1, EC2: 2, RSA: 3 } as const;
+const COSE_CRV = { P256: 1, ED25519: 6 } as const;
+
+export interface DecodedCOSEPublicKey {
+  alg: number;
+  keyObject: crypto.KeyObject;
+}
+
+// Read a byte-string parameter from a COSE key map
+function getCOSEBytes(coseKey: Map<CborValue, CborValue>, label: number): Buffer {
+  const value = coseKey.get(label);
+  if (!Buffer.isBuffer(value)) {
+    throw new Error(`COSE key is missing parameter ${label}`);
+  }
+  return value;
+}
+
+// Convert a CBOR-encoded COSE_Key into a Node.js public KeyObject
+export function decodeCOSEPublicKey(coseKeyBytes: Buffer): DecodedCOSEPublicKey {
+  const coseKey = decodeCbor(coseKeyBytes);
+  if (!(coseKey instanceof Map)) {
+    throw new Error('COSE key is not a CBOR map');
+  }
+
+  const kty = coseKey.get(1);
+  const alg = coseKey.get(3);
+  if (typeof alg !== 'number') {
+    throw new Error('COSE key is missing its algorithm');
+  }
+
+  let jwk: crypto.JsonWebKey;
+  if (kty === COSE_KTY.EC2 && alg === COSE_ALGORITHMS.ES256) {
+    if (coseKey.get(-1) !== COSE_CRV.P256) {
+      throw new Error('ES256 keys must use the P-256 curve');
+    }
+    jwk = {
+      kty: 'EC',
+      crv: 'P-256',
+      x: bufferToBase64URL(getCOSEBytes(coseKey, -2)),
+      y: bufferToBase64URL(getCOSEBytes(coseKey, -3)),
+    };
+  } else if (kty === COSE_KTY.RSA && alg === COSE_ALGORITHMS.RS256) {
+    jwk = {
+      kty: 'RSA',
+      n: bufferToBase64URL(getCOSEBytes(coseKey, -1)),
+      e: bufferToBase64URL(getCOSEBytes(coseKey, -2)),
+    };
+  } else if (kty === COSE_KTY.OKP && alg === COSE_ALGORITHMS.EdDSA) {
+    if (coseKey.get(-1) !== COSE_CRV.ED25519) {
+      throw new Error('EdDSA keys must use the Ed25519 curve');
+    }
+    jwk = {
+      kty: 'OKP',
+      crv: 'Ed25519',
+      x: bufferToBase64URL(getCOSEBytes(coseKey, -2)),
+    };
+  } else {
+    throw new Error(`Unsupported COSE key (kty ${String(kty)}, alg ${alg})`);
+  }
+
+  return {
+    alg,
+    keyObject: crypto.createPublicKey({ key: jwk, format: 'jwk' }),
+  };
+}
+
+// Hash algorithm used by a COSE signature algorithm
+export function getCOSEHashAlgorithm(alg: number): string {
+  switch (alg) {
+    case COSE_ALGORITHMS.ES256:
+    case COSE_ALGORITHMS.RS256:
+    case COSE_ALGORITHMS.PS256:
+      return 'sha256';
+    case COSE_ALGORITHMS.ES384:
+    case COSE_ALGORITHMS.RS384:
+    case COSE_ALGORITHMS.PS384:
+      return 'sha384';
+    case COSE_ALGORITHMS.ES512:
+    case COSE_ALGORITHMS.RS512:
+    case COSE_ALGORITHMS.PS512:
+      return 'sha512';
+    case COSE_ALGORITHMS.RS1:
+      return 'sha1';
+    default:
+      throw new Error(`Unsupported COSE algorithm: ${alg}`);
+  }
+}
+
+// Verify a signature produced with a COSE algorithm. ECDSA signatures are
+// DER-encoded by authenticators, which is also what Node.js expects.
+// Credential keys are limited to ES256/RS256/EdDSA; the wider set here is
+// needed for attestation statements (TPMs commonly sign with RS1 or PS256).
+export function verifyCOSESignature(
+  alg: number,
+  keyObject: crypto.KeyObject,
+  data: Buffer,
+  signature: Buffer,
+): boolean {
+  switch (alg) {
+    case COSE_ALGORITHMS.EdDSA:
+      return crypto.verify(null, data, keyObject, signature);
+    case COSE_ALGORITHMS.PS256:
+    case COSE_ALGORITHMS.PS384:
+    case COSE_ALGORITHMS.PS512:
+      return crypto.verify(getCOSEHashAlgorithm(alg), data, {
+        key: keyObject,
+        padding: crypto.constants.RSA_PKCS1_PSS_PADDING,
+        saltLength: crypto.constants.RSA_PSS_SALTLEN_DIGEST,
+      }, signature);
+    default:
+      return crypto.verify(getCOSEHashAlgorithm(alg), data, keyObject, signature);
+  }
+}
+
+// Verify an assertion signature over authenticatorData || SHA-256(clientDataJSON)
+// using the credential's stored COSE public key (base64url-encoded)
+export function verifyAssertionSignature(
+  storedPublicKey: string,
+  authData: Buffer,
+  clientDataJSON: Buffer,
+  signature: Buffer,
+): boolean {
+  const { alg, keyObject } = decodeCOSEPublicKey(base64URLToBuffer(storedPublicKey));
+  const clientDataHash = crypto.createHash('sha256').update(clientDataJSON).digest();
+  const signedData = Buffer.concat([authData, clientDataHash]);
+
+  try {
+    return verifyCOSESignature(alg, keyObject, signedData, signature);
+  } catch (error) {
+    // Malformed signatures (e.g. invalid DER) are treated as verification failures
+    console.warn('Assertion signature could not be verified:', error);
+    return false;
+  }
+}
+
 // Verify the RP ID hash in the authenticator data
 export function verifyRpIdHash(authData: Buffer, rpId: string): boolean {
   const rpIdHash = crypto.createHash('sha256').update(rpId).digest();
@@ -73,6 +334,16 @@ export function verifyRpIdHash(authData: Buffer, rpId: string): boolean {
   return rpIdHash.equals(dataRpIdHash);
 }
 
+// Signature counters must increase on every assertion; a counter that goes
+// backwards suggests a cloned authenticator. Authenticators that don't
+// implement counters always report 0.
+export function isSignCountValid(counter: number, storedCounter: number): boolean {
+  return (counter === 0 && storedCounter === 0) || counter > storedCounter;
+}
+
+// Attestation conveyance values from the WebAuthn spec
+export type AttestationConveyance = 'none' | 'indirect' | 'direct' | 'enterprise';
+
 // Create options for WebAuthn registration
 export function createRegistrationOptions(
   userId: string,
@@ -82,6 +353,8 @@ export function createRegistrationOptions(
   rpName: string,
   rpId: string,
   timeout: number = 60000,
+  attestation: AttestationConveyance = 'none',
+  excludeCredentials: { id: string; type: 'public-key'; transports?: string[] }[] = [],
 ) {
   return {
     challenge,
@@ -95,16 +368,25 @@ export function createRegistrationOptions(
       displayName: username,
     },
     pubKeyCredParams: [
-      { type: 'public-key', alg: -7 }, // ES256
-      { type: 'public-key', alg: -257 }, // RS256
+      { type: 'public-key', alg: COSE_ALGORITHMS.ES256 },
+      { type: 'public-key', alg: COSE_ALGORITHMS.EdDSA },
+      { type: 'public-key', alg: COSE_ALGORITHMS.RS256 },
     ],
     authenticatorSelection: {
       authenticatorAttachment: 'platform',
       userVerification: 'preferred',
-      requireResidentKey: false,
+      // Discoverable credentials allow usernameless sign-in
+      residentKey: 'required',
+      requireResidentKey: true,
     },
     timeout,
-    attestation: 'none',
+    attestation,
+    // Prevents registering a second credential on an authenticator the user already has
+    excludeCredentials,
+    // Ask the authenticator to enable PRF (hmac-secret) so the vault can derive keys from it
+    extensions: {
+      prf: {},
+    },
   };
 }
 
@@ -115,6 +397,7 @@ export function createAuthenticationOptions(
   allowCredentials: { id: string; type: 'public-key' }[] = [],
   timeout: number = 60000,
   userVerification: 'required' | 'preferred' | 'discouraged' = 'preferred',
+  prfSalts: Record<string, string> = {},
 ) {
   return {
     challenge,
@@ -122,27 +405,28 @@ export function createAuthenticationOptions(
     allowCredentials,
     timeout,
     userVerification,
+    // Evaluate PRF with each credential's own salt (base64url); only valid with allowCredentials
+    ...(Object.keys(prfSalts).length > 0 && {
+      extensions: {
+        prf: {
+          evalByCredential: Object.fromEntries(
+            Object.entries(prfSalts).map(([credentialId, salt]) => [credentialId, { first: salt }]),
+          ),
+        },
+      },
+    }),
   };
 }
 
 // Extract credential ID from attestation
 export function extractCredentialIdFromAttestation(attestationBuffer: Buffer): string {
   try {
-    // This is a simplified version - actual implementation would need CBOR decoding
-    // For full implementation, use a CBOR library like 'cbor' npm package
-    const dataView = new DataView(attestationBuffer.buffer);
-    
-    // Skip format field (which would be 'none', 'packed', 'tpm', etc.)
-    // This is very simplified and may not work with all attestation formats
-    // A real implementation should use a WebAuthn library
-    
-    // Extract credentialId from attestationObject
-    // In a real implementation, use a proper CBOR parser
-    const credentialIdLength = dataView.getUint16(20, false); // example offset, not accurate
-    const credentialIdStart = 22; // example offset, not accurate
-    
-    const credentialId = attestationBuffer.slice(credentialIdStart, credentialIdStart + credentialIdLength);
-    return bufferToBase64URL(credentialId);
+    const { authData } = parseAttestationObject(attestationBuffer);
+    const { attestedCredentialData } = parseAuthenticatorData(authData);
+    if (!attestedCredentialData) {
+      throw new Error('Attestation does not contain attested credential data');
+    }
+    return bufferToBase64URL(attestedCredentialData.credentialId);
   } catch (error) {
     throw new Error('Failed to extract credential ID from attestation');
   }
@@ -0,0 +1,226 @@
+import { z } from "zod";
+import { PASSPHRASE_WORDLIST } from "./wordlist";
+
+// Password and passphrase generation, shared by the password form and the
+// /api/password-generator endpoint. All randomness comes from
+// crypto.getRandomValues, which browsers and Node both provide.
+
+const LOWERCASE = "abcdefghijklmnopqrstuvwxyz";
+const UPPERCASE = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+const DIGITS = "0123456789";
+const SYMBOLS = "!@#$%^&*()-_=+[]{};:,.<>/?~";
+// Characters that are easy to misread, e.g. when typing a password from a screen
+const AMBIGUOUS = "Il1O0|";
+
+// Pronounceable passwords alternate these, e.g. "rokabitu"
+const CONSONANTS = "bcdfghjkmnprstvz";
+const VOWELS = "aeiou";
+
+export const randomGeneratorOptionsSchema = z.object({
+  mode: z.literal("random"),
+  length: z.number().int().min(4).max(128),
+  lowercase: z.boolean(),
+  uppercase: z.boolean(),
+  digits: z.boolean(),
+  symbols: z.boolean(),
+  excludeAmbiguous: z.boolean(),
+}).refine((options) => options.lowercase || options.uppercase || options.digits || options.symbols, {
+  message: "Choose at least one kind of character",
+});
+
+export const passphraseGeneratorOptionsSchema = z.object({
+  mode: z.literal("passphrase"),
+  words: z.number().int().min(3).max(20),
+  separator: z.string().max(3),
+  capitalize: z.boolean(),
+  includeNumber: z.boolean(),
+});
+
+export const pronounceableGeneratorOptionsSchema = z.object({
+  mode: z.literal("pronounceable"),
+  length: z.number().int().min(8).max(64),
+  capitalize: z.boolean(),
+  includeNumber: z.boolean(),
+});
+
+export const generatorOptionsSchema = z.union([
+  randomGeneratorOptionsSchema,
+  passphraseGeneratorOptionsSchema,
+  pronounceableGeneratorOptionsSchema,
+]);
+
+export type GeneratorOptions = z.infer<typeof generatorOptionsSchema>;
+export type GeneratorMode = GeneratorOptions["mode"];
+
+export interface GeneratedPassword {
+  password: string;
+  // Bits of entropy given the options, assuming the attacker knows them
+  entropy: number;
+}
+
+// Common site password policies
+export interface GeneratorPreset {
+  id: string;
+  name: string;
+  description: string;
+  options: GeneratorOptions;
+}
+
+export const GENERATOR_PRESETS: GeneratorPreset[] = [
+  {
+    id: "strong",
+    name: "Strong",
+    description: "20 characters of every kind; right for most sites",
+    options: { mode: "random", length: 20, lowercase: true, uppercase: true, digits: true, symbols: true, excludeAmbiguous: false },
+  },
+  {
+    id: "maximum",
+    name: "Maximum",
+    description: "32 characters of every kind",
+    options: { mode: "random", length: 32, lowercase: true, uppercase: true, digits: true, symbols: true, excludeAmbiguous: false },
+  },
+  {
+    id: "no-symbols",
+    name: "No symbols",
+    description: "Letters and digits only, for sites that reject symbols",
+    options: { mode: "random", length: 24, lowercase: true, uppercase: true, digits: true, symbols: false, excludeAmbiguous: false },
+  },
+  {
+    id: "short",
+    name: "16 characters",
+    description: "For sites with a maximum length; avoids look-alike characters",
+    options: { mode: "random", length: 16, lowercase: true, uppercase: true, digits: true, symbols: true, excludeAmbiguous: true },
+  },
+  {
+    id: "pin",
+    name: "PIN",
+    description: "6 digits, for sites and devices that only accept numbers",
+    options: { mode: "random", length: 6, lowercase: false, uppercase: false, digits: true, symbols: false, excludeAmbiguous: false },
+  },
+  {
+    id: "passphrase",
+    name: "Passphrase",
+    description: "6 random words; easy to type and remember",
+    options: { mode: "passphrase", words: 6, separator: "-", capitalize: false, includeNumber: false },
+  },
+  {
+    id: "pronounceable",
+    name: "Pronounceable",
+    description: "Syllables that are easy to read out, with a number",
+    options: { mode: "pronounceable", length: 20, capitalize: true, includeNumber: true },
+  },
+];
+
+export const DEFAULT_GENERATOR_PRESET = GENERATOR_PRESETS[0];
+
+export function getGeneratorPreset(id: string | undefined): GeneratorPreset | undefined {
+  return GENERATOR_PRESETS.find((preset) => preset.id === id);
+}
+
+// Uniform random integer in [0, max), rejecting values that would bias the result
+function randomInt(max: number): number {
+  const limit = Math.floor(0x100000000 / max) * max;
+  const buffer = new Uint32Array(1);
+  do {
+    globalThis.crypto.getRandomValues(buffer);
+  } while (buffer[0] >= limit);
+  return buffer[0] % max;
+}
+
+function pick(chars: string | readonly string[]): string {
+  return chars[randomInt(chars.length)];
+}
+
+function shuffle<T>(items: T[]): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1);
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+function generateRandom(options: z.infer<typeof randomGeneratorOptionsSchema>): GeneratedPassword {
+  const strip = (chars: string) => options.excludeAmbiguous
+    ? chars.split("").filter((char) => !AMBIGUOUS.includes(char)).join("")
+    : chars;
+  const classes = [
+    options.lowercase && strip(LOWERCASE),
+    options.uppercase && strip(UPPERCASE),
+    options.digits && strip(DIGITS),
+    options.symbols && strip(SYMBOLS),
+  ].filter((chars): chars is string => !!chars);
+  const pool = classes.join("");
+
+  // One character of every chosen kind, so the result passes composition rules
+  const chars = classes.slice(0, options.length).map((chars) => pick(chars));
+  while (chars.length < options.length) {
+    chars.push(pick(pool));
+  }
+
+  return {
+    password: shuffle(chars).join(""),
+    entropy: options.length * Math.log2(pool.length),
+  };
+}
+
+function generatePassphrase(options: z.infer<typeof passphraseGeneratorOptionsSchema>): GeneratedPassword {
+  const words = Array.from({ length: options.words }, () => pick(PASSPHRASE_WORDLIST));
+  let entropy = options.words * Math.log2(PASSPHRASE_WORDLIST.length);
+
+  const formatted = options.capitalize
+    ? words.map((word) => word[0].toUpperCase() + word.slice(1))
+    : words;
+  if (options.includeNumber) {
+    // A digit after one of the words
+    const index = randomInt(formatted.length);
+    formatted[index] += pick(DIGITS);
+    entropy += Math.log2(DIGITS.length * formatted.length);
+  }
+
+  return { password: formatted.join(options.separator), entropy };
+}
+
+function generatePronounceable(options: z.infer<typeof pronounceableGeneratorOptionsSchema>): GeneratedPassword {
+  const numberLength = options.includeNumber ? 2 : 0;
+  const letters: string[] = [];
+  let entropy = 0;
+
+  for (let i = 0; i < options.length - numberLength; i++) {
+    const set = i % 2 === 0 ? CONSONANTS : VOWELS;
+    let letter = pick(set);
+    entropy += Math.log2(set.length);
+    // Randomly capitalize the start of each syllable
+    if (options.capitalize && i % 2 === 0) {
+      if (randomInt(2) === 1) {
+        letter = letter.toUpperCase();
+      }
+      entropy += 1;
+    }
+    letters.push(letter);
+  }
+  for (let i = 0; i < numberLength; i++) {
+    letters.push(pick(DIGITS));
+    entropy += Math.log2(DIGITS.length);
+  }
+
+  return { password: letters.join(""), entropy };
+}
+
+export function generatePassword(options: GeneratorOptions): GeneratedPassword {
+  switch (options.mode) {
+    case "random":
+      return generateRandom(options);
+    case "passphrase":
+      return generatePassphrase(options);
+    case "pronounceable":
+      return generatePronounceable(options);
+  }
+}
+
+// Rough rating of a password's entropy in bits
+export function describeEntropy(entropy: number): "Weak" | "Fair" | "Strong" | "Very strong" {
+  if (entropy < 40) return "Weak";
+  if (entropy < 60) return "Fair";
+  if (entropy < 80) return "Strong";
+  return "Very strong";
+}
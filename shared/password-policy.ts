@@ -0,0 +1,129 @@
+import { z } from "zod";
+
+// Account password policy. The rules that only need the password are checked
+// here, so the client can show them as the user types; the server adds the
+// breach and reuse checks, which need the breach corpus and stored hashes.
+
+export const passwordPolicySchema = z.object({
+  minLength: z.number().int().min(1).max(128),
+  maxLength: z.number().int().min(8).max(1024),
+  requireLowercase: z.boolean(),
+  requireUppercase: z.boolean(),
+  requireDigit: z.boolean(),
+  requireSymbol: z.boolean(),
+  // Longest run of one character, e.g. 3 allows "aaa" but not "aaaa"; 0 allows any
+  maxRepeatedChars: z.number().int().min(0),
+  // Rejected anywhere in the password, ignoring case
+  bannedWords: z.array(z.string().min(1)),
+  // Reject the username and parts of the email address
+  banPersonalInfo: z.boolean(),
+  // Reject passwords found in the breach corpus
+  checkBreaches: z.boolean(),
+  // Number of previous passwords that can't be reused; 0 allows any
+  historySize: z.number().int().min(0).max(24),
+});
+
+export type PasswordPolicy = z.infer<typeof passwordPolicySchema>;
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  maxLength: 128,
+  requireLowercase: false,
+  requireUppercase: false,
+  requireDigit: false,
+  requireSymbol: false,
+  maxRepeatedChars: 3,
+  bannedWords: ["password", "passkey", "qwerty", "letmein", "welcome"],
+  banPersonalInfo: true,
+  checkBreaches: true,
+  historySize: 5,
+};
+
+export type PasswordPolicyViolationCode =
+  | "TOO_SHORT"
+  | "TOO_LONG"
+  | "MISSING_LOWERCASE"
+  | "MISSING_UPPERCASE"
+  | "MISSING_DIGIT"
+  | "MISSING_SYMBOL"
+  | "TOO_MANY_REPEATS"
+  | "BANNED_WORD"
+  | "PERSONAL_INFO"
+  | "BREACHED"
+  | "RECENTLY_USED";
+
+export interface PasswordPolicyViolation {
+  code: PasswordPolicyViolationCode;
+  message: string;
+}
+
+// Details of the account the password is for
+export interface PasswordPolicyContext {
+  username?: string;
+  email?: string;
+}
+
+// Words from the username and email, e.g. "alice", "smith" and "example" for
+// "alice.smith@example.com"
+function getPersonalWords({ username, email }: PasswordPolicyContext): string[] {
+  const words = new Set<string>();
+  [username, email?.split("@")[0], email].forEach((value) => {
+    if (!value) return;
+    const lower = value.toLowerCase();
+    if (lower.length >= 3) words.add(lower);
+    lower.split(/[^a-z0-9]+/).filter((part) => part.length >= 3).forEach((part) => words.add(part));
+  });
+  // Email domains are too common to ban outright
+  ["com", "net", "org", "gmail", "mail", "yahoo", "hotmail", "outlook"].forEach((word) => words.delete(word));
+  return Array.from(words);
+}
+
+function longestRepeat(password: string): number {
+  let longest = 0;
+  let run = 0;
+  for (let i = 0; i < password.length; i++) {
+    run = i > 0 && password[i] === password[i - 1] ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  }
+  return longest;
+}
+
+// Check the rules that don't need the server
+export function checkPasswordRules(
+  password: string,
+  policy: PasswordPolicy,
+  context: PasswordPolicyContext = {},
+): PasswordPolicyViolation[] {
+  const violations: PasswordPolicyViolation[] = [];
+  const add = (code: PasswordPolicyViolationCode, message: string) => violations.push({ code, message });
+  const lower = password.toLowerCase();
+
+  if (password.length < policy.minLength) {
+    add("TOO_SHORT", `Use at least ${policy.minLength} characters`);
+  }
+  if (password.length > policy.maxLength) {
+    add("TOO_LONG", `Use at most ${policy.maxLength} characters`);
+  }
+  if (policy.requireLowercase && !/[a-z]/.test(password)) {
+    add("MISSING_LOWERCASE", "Include a lowercase letter");
+  }
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+    add("MISSING_UPPERCASE", "Include an uppercase letter");
+  }
+  if (policy.requireDigit && !/\d/.test(password)) {
+    add("MISSING_DIGIT", "Include a number");
+  }
+  if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+    add("MISSING_SYMBOL", "Include a symbol");
+  }
+  if (policy.maxRepeatedChars > 0 && longestRepeat(password) > policy.maxRepeatedChars) {
+    add("TOO_MANY_REPEATS", `Don't repeat a character more than ${policy.maxRepeatedChars} times in a row`);
+  }
+  if (policy.bannedWords.some((word) => lower.includes(word.toLowerCase()))) {
+    add("BANNED_WORD", "Avoid common words like \"password\"");
+  }
+  if (policy.banPersonalInfo && getPersonalWords(context).some((word) => lower.includes(word))) {
+    add("PERSONAL_INFO", "Don't include your username or email address");
+  }
+  return violations;
+}
@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { estimatePasswordStrength } from './password-strength';
+
+function score(password: string, userInputs: string[] = []) {
+  return estimatePasswordStrength(password, userInputs).score;
+}
+
+describe('estimatePasswordStrength', () => {
+  it('scores common passwords and dictionary words low', () => {
+    for (const password of ['password', 'dragon', '123456789', 'summer2019']) {
+      assert.ok(score(password) <= 1, password);
+    }
+    assert.match(estimatePasswordStrength('password').feedback.warning, /common password/);
+  });
+
+  it('sees through l33t substitutions', () => {
+    for (const password of ['P@ssw0rd', 'p4ssw0rd!']) {
+      assert.ok(score(password) <= 1, password);
+    }
+  });
+
+  it('scores keyboard walks low', () => {
+    for (const password of ['qwertyuiop', 'zxcvbnm,./', '1qaz2wsx3edc']) {
+      assert.ok(score(password) <= 1, password);
+    }
+    assert.match(estimatePasswordStrength('zxcvbnm,./').feedback.warning, /rows of keys/);
+  });
+
+  it('scores repeats and dates low', () => {
+    for (const password of ['aaaaaaaaaaaa', 'abcabcabcabc', '01/02/1990']) {
+      assert.ok(score(password) <= 1, password);
+    }
+    assert.match(estimatePasswordStrength('abcabcabcabc').feedback.warning, /Repeats/);
+  });
+
+  it('scores passwords built from the site or username low', () => {
+    assert.ok(score('alice2024', ['alice']) <= 1);
+    assert.match(estimatePasswordStrength('alice2024', ['alice']).feedback.warning, /site or username/);
+  });
+
+  it('scores long random passphrases and random strings high', () => {
+    for (const password of ['correct horse battery staple', 'gravel-orbit-tundra-pistol-mango', 'xK9#vQ2!mR7$pL4@']) {
+      assert.equal(score(password), 4, password);
+    }
+    assert.equal(estimatePasswordStrength('gravel-orbit-tundra-pistol-mango').feedback.warning, '');
+  });
+
+  it('stays fast on very long inputs', () => {
+    const start = Date.now();
+    estimatePasswordStrength('a'.repeat(100000));
+    estimatePasswordStrength('x9!Q'.repeat(50000));
+    estimatePasswordStrength(Array.from({ length: 100000 }, (_, i) => String.fromCharCode(33 + (i * 7919) % 94)).join(''));
+    assert.ok(Date.now() - start < 1000, `took ${Date.now() - start}ms`);
+  });
+});
@@ -0,0 +1,834 @@
+import { COMMON_PASSWORDS, ENGLISH_WORDS, NAMES } from "./strength-dictionaries";
+import { PASSPHRASE_WORDLIST } from "./wordlist";
+
+// Password strength estimation in the style of zxcvbn: split the password into
+// the patterns an attacker would try (dictionary words, keyboard walks,
+// sequences, repeats, dates) and estimate how many guesses the cheapest
+// combination of them takes. Works the same in the browser and in Node.
+
+type DictionaryName = "passwords" | "english" | "names" | "passphrase" | "userInputs";
+
+interface BaseMatch {
+  i: number;
+  j: number;
+  token: string;
+  // Filled in by estimateGuessesLog10
+  guessesLog10?: number;
+}
+
+type StrengthMatch =
+  | BaseMatch & {
+    pattern: "dictionary";
+    dictionaryName: DictionaryName;
+    matchedWord: string;
+    rank: number;
+    reversed: boolean;
+    l33t: boolean;
+    // l33t character -> letter it stands for
+    sub: Record<string, string>;
+  }
+  | BaseMatch & { pattern: "spatial"; graph: string; turns: number; shiftedCount: number }
+  | BaseMatch & { pattern: "repeat"; baseToken: string; baseGuessesLog10: number; repeatCount: number }
+  | BaseMatch & { pattern: "sequence"; ascending: boolean }
+  | BaseMatch & { pattern: "year" }
+  | BaseMatch & { pattern: "date"; year: number; separator: string }
+  | BaseMatch & { pattern: "bruteforce" };
+
+type MatchOf<P extends StrengthMatch["pattern"]> = Extract<StrengthMatch, { pattern: P }>;
+
+export type StrengthScore = 0 | 1 | 2 | 3 | 4;
+
+export interface PasswordStrength {
+  guesses: number;
+  guessesLog10: number;
+  // 0 (too guessable) to 4 (very unguessable)
+  score: StrengthScore;
+  crackTimeSeconds: number;
+  crackTimeDisplay: string;
+  feedback: { warning: string; suggestions: string[] };
+}
+
+export const STRENGTH_LABELS: Record<StrengthScore, string> = {
+  0: "Very weak",
+  1: "Weak",
+  2: "Fair",
+  3: "Strong",
+  4: "Very strong",
+};
+
+// Only the start of very long passwords is analyzed; the rest can only add guesses
+const MAX_ANALYZED_LENGTH = 100;
+
+// Offline attack on a stolen database hashed with a slow function like bcrypt
+const GUESSES_PER_SECOND = 1e4;
+
+const BRUTEFORCE_CARDINALITY = 10;
+const MIN_GUESSES_BEFORE_GROWING_SEQUENCE = 10000;
+const MIN_SUBMATCH_GUESSES_SINGLE_CHAR = 10;
+const MIN_SUBMATCH_GUESSES_MULTI_CHAR = 50;
+const MIN_YEAR_SPACE = 20;
+const MAX_SEQUENCE_DELTA = 5;
+const DATE_MIN_YEAR = 1000;
+const DATE_MAX_YEAR = 2050;
+
+const START_UPPER = /^[A-Z][^A-Z]+$/;
+const END_UPPER = /^[^A-Z]+[A-Z]$/;
+const ALL_UPPER = /^[^a-z]+$/;
+const ALL_LOWER = /^[^A-Z]+$/;
+const SHIFTED_CHARS = /[~!@#$%^&*()_+QWERTYUIOPASDFGHJKL:"ZXCVBNM<>?{}|]/;
+const RECENT_YEAR = /19\d\d|20[0-4]\d/g;
+
+// Letters and the characters commonly substituted for them
+const L33T_TABLE: Record<string, string[]> = {
+  a: ["4", "@"],
+  b: ["8"],
+  c: ["(", "{", "[", "<"],
+  e: ["3"],
+  g: ["6", "9"],
+  i: ["1", "!", "|"],
+  l: ["1", "|", "7"],
+  o: ["0"],
+  s: ["$", "5"],
+  t: ["+", "7"],
+  x: ["%"],
+  z: ["2"],
+};
+
+function buildRankedDictionary(words: readonly string[], rank?: number): Map<string, number> {
+  const ranked = new Map<string, number>();
+  words.forEach((word, index) => {
+    const key = word.toLowerCase();
+    if (!ranked.has(key)) {
+      ranked.set(key, rank ?? index + 1);
+    }
+  });
+  return ranked;
+}
+
+const RANKED_DICTIONARIES: Record<Exclude<DictionaryName, "userInputs">, Map<string, number>> = {
+  passwords: buildRankedDictionary(COMMON_PASSWORDS),
+  english: buildRankedDictionary(ENGLISH_WORDS),
+  names: buildRankedDictionary(NAMES),
+  // Generated passphrases pick words uniformly, so every word costs the whole list
+  passphrase: buildRankedDictionary(PASSPHRASE_WORDLIST, PASSPHRASE_WORDLIST.length),
+};
+
+// Keyboard layouts as rows of keys, each key written unshifted then shifted
+const QWERTY_ROWS = [
+  ["`~", "1!", "2@", "3#", "4$", "5%", "6^", "7&", "8*", "9(", "0)", "-_", "=+"],
+  ["qQ", "wW", "eE", "rR", "tT", "yY", "uU", "iI", "oO", "pP", "[{", "]}", "\\|"],
+  ["aA", "sS", "dD", "fF", "gG", "hH", "jJ", "kK", "lL", ";:", "'\""],
+  ["zZ", "xX", "cC", "vV", "bB", "nN", "mM", ",<", ".>", "/?"],
+];
+const KEYPAD_ROWS = [
+  [null, "/", "*", "-"],
+  ["7", "8", "9", "+"],
+  ["4", "5", "6"],
+  ["1", "2", "3"],
+  [null, "0", "."],
+];
+
+interface AdjacencyGraph {
+  // Character -> keys next to the key it is on, null where there is no key
+  neighbors: Map<string, (string | null)[]>;
+  startingPositions: number;
+  averageDegree: number;
+}
+
+// Neighbors are listed clockwise from the left, so the index is a direction
+function buildAdjacencyGraph(
+  rows: (string | null)[][],
+  rowOffsets: number[],
+  directions: Array<[number, number]>,
+): AdjacencyGraph {
+  const positions = new Map<string, string>();
+  rows.forEach((row, y) => row.forEach((key, index) => {
+    if (key) positions.set(`${index + rowOffsets[y]},${y}`, key);
+  }));
+
+  const neighbors = new Map<string, (string | null)[]>();
+  let degreeTotal = 0;
+  let keyCount = 0;
+  positions.forEach((key, position) => {
+    const [x, y] = position.split(",").map(Number);
+    const adjacent = directions.map(([dx, dy]) => positions.get(`${x + dx},${y + dy}`) ?? null);
+    for (const char of key) {
+      neighbors.set(char, adjacent);
+      degreeTotal += adjacent.filter(Boolean).length;
+      keyCount += 1;
+    }
+  });
+  return { neighbors, startingPositions: keyCount, averageDegree: degreeTotal / keyCount };
+}
+
+// Rows of a typewriter keyboard are staggered, so each key has six neighbors
+const SLANTED_DIRECTIONS: Array<[number, number]> = [[-1, 0], [0, -1], [1, -1], [1, 0], [0, 1], [-1, 1]];
+const ALIGNED_DIRECTIONS: Array<[number, number]> = [
+  [-1, 0], [-1, -1], [0, -1], [1, -1], [1, 0], [1, 1], [0, 1], [-1, 1],
+];
+
+const ADJACENCY_GRAPHS: Record<string, AdjacencyGraph> = {
+  qwerty: buildAdjacencyGraph(QWERTY_ROWS, [0, 1, 1, 1], SLANTED_DIRECTIONS),
+  keypad: buildAdjacencyGraph(KEYPAD_ROWS, [0, 0, 0, 0, 0], ALIGNED_DIRECTIONS),
+};
+
+function nCk(n: number, k: number): number {
+  if (k > n) return 0;
+  if (k === 0) return 1;
+  let result = 1;
+  for (let d = 1; d <= k; d++) {
+    result = (result * (n - d + 1)) / d;
+  }
+  return result;
+}
+
+function log10Factorial(n: number): number {
+  let result = 0;
+  for (let k = 2; k <= n; k++) {
+    result += Math.log10(k);
+  }
+  return result;
+}
+
+// log10(10^a + 10^b) without overflowing
+function log10Add(a: number, b: number): number {
+  const max = Math.max(a, b);
+  return max + Math.log10(Math.pow(10, a - max) + Math.pow(10, b - max));
+}
+
+function sortMatches(matches: StrengthMatch[]): StrengthMatch[] {
+  return matches.sort((a, b) => a.i - b.i || a.j - b.j);
+}
+
+// Words from the account itself, e.g. the site name and username
+function buildUserInputDictionary(userInputs: string[]): Map<string, number> {
+  const words: string[] = [];
+  userInputs.forEach((input) => {
+    const value = input.trim().toLowerCase();
+    if (!value) return;
+    words.push(value);
+    // "alice.smith@example.com" also yields "alice", "smith" and "example"
+    value.split(/[^a-z0-9]+/).filter((part) => part.length >= 3 && part !== value).forEach((part) => words.push(part));
+  });
+  return buildRankedDictionary(words);
+}
+
+function dictionaryMatch(password: string, dictionaries: Record<DictionaryName, Map<string, number>>): MatchOf<"dictionary">[] {
+  const matches: MatchOf<"dictionary">[] = [];
+  const lower = password.toLowerCase();
+  (Object.keys(dictionaries) as DictionaryName[]).forEach((dictionaryName) => {
+    const ranked = dictionaries[dictionaryName];
+    for (let i = 0; i < password.length; i++) {
+      for (let j = i; j < password.length; j++) {
+        const word = lower.slice(i, j + 1);
+        const rank = ranked.get(word);
+        if (rank !== undefined) {
+          matches.push({
+            pattern: "dictionary",
+            i,
+            j,
+            token: password.slice(i, j + 1),
+            dictionaryName,
+            matchedWord: word,
+            rank,
+            reversed: false,
+            l33t: false,
+            sub: {},
+          });
+        }
+      }
+    }
+  });
+  return matches;
+}
+
+function reverseDictionaryMatch(password: string, dictionaries: Record<DictionaryName, Map<string, number>>): MatchOf<"dictionary">[] {
+  const reversed = password.split("").reverse().join("");
+  return dictionaryMatch(reversed, dictionaries).map((match) => ({
+    ...match,
+    token: match.token.split("").reverse().join(""),
+    reversed: true,
+    // Map coordinates back to the original password
+    i: password.length - 1 - match.j,
+    j: password.length - 1 - match.i,
+  }));
+}
+
+// Every way of reading the l33t characters in the password as letters, e.g.
+// "1" can stand for "i" or "l"
+function enumerateL33tSubs(password: string): Record<string, string>[] {
+  const candidates = new Map<string, string[]>();
+  Object.entries(L33T_TABLE).forEach(([letter, chars]) => {
+    chars.filter((char) => password.includes(char)).forEach((char) => {
+      candidates.set(char, [...(candidates.get(char) || []), letter]);
+    });
+  });
+
+  let subs: Record<string, string>[] = [{}];
+  candidates.forEach((letters, char) => {
+    subs = subs.flatMap((sub) => letters.map((letter) => ({ ...sub, [char]: letter })));
+  });
+  return subs.filter((sub) => Object.keys(sub).length > 0);
+}
+
+function l33tMatch(password: string, dictionaries: Record<DictionaryName, Map<string, number>>): MatchOf<"dictionary">[] {
+  const matches: MatchOf<"dictionary">[] = [];
+  const seen = new Set<string>();
+  enumerateL33tSubs(password).forEach((sub) => {
+    const translated = password.split("").map((char) => sub[char] || char).join("");
+    dictionaryMatch(translated, dictionaries).forEach((match) => {
+      const token = password.slice(match.i, match.j + 1);
+      // Plain dictionary matching already found tokens without substitutions
+      if (token.length <= 1 || token.toLowerCase() === match.matchedWord) return;
+      const key = `${match.i},${match.j},${match.dictionaryName},${match.matchedWord}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+
+      const tokenSub: Record<string, string> = {};
+      for (const char of token) {
+        if (sub[char]) tokenSub[char] = sub[char];
+      }
+      matches.push({ ...match, token, l33t: true, sub: tokenSub });
+    });
+  });
+  return matches;
+}
+
+function spatialMatch(password: string): MatchOf<"spatial">[] {
+  const matches: MatchOf<"spatial">[] = [];
+  Object.entries(ADJACENCY_GRAPHS).forEach(([graphName, graph]) => {
+    let i = 0;
+    while (i < password.length - 1) {
+      let j = i + 1;
+      let lastDirection: number | null = null;
+      let turns = 0;
+      let shiftedCount = graphName === "qwerty" && SHIFTED_CHARS.test(password[i]) ? 1 : 0;
+      while (true) {
+        const adjacent = graph.neighbors.get(password[j - 1]) || [];
+        let found = false;
+        if (j < password.length) {
+          const char = password[j];
+          for (let direction = 0; direction < adjacent.length; direction++) {
+            const key = adjacent[direction];
+            const position = key ? key.indexOf(char) : -1;
+            if (position === -1) continue;
+            found = true;
+            if (position === 1) shiftedCount += 1;
+            if (lastDirection !== direction) {
+              turns += 1;
+              lastDirection = direction;
+            }
+            break;
+          }
+        }
+        if (found) {
+          j += 1;
+          continue;
+        }
+        // Patterns of three or more keys
+        if (j - i > 2) {
+          matches.push({ pattern: "spatial", i, j: j - 1, token: password.slice(i, j), graph: graphName, turns, shiftedCount });
+        }
+        i = j;
+        break;
+      }
+    }
+  });
+  return matches;
+}
+
+function repeatMatch(password: string, dictionaries: Record<DictionaryName, Map<string, number>>): MatchOf<"repeat">[] {
+  const matches: MatchOf<"repeat">[] = [];
+  const greedy = /(.+)\1+/g;
+  const lazy = /(.+?)\1+/g;
+  const lazyAnchored = /^(.+?)\1+$/;
+  let lastIndex = 0;
+  while (lastIndex < password.length) {
+    greedy.lastIndex = lazy.lastIndex = lastIndex;
+    const greedyMatch = greedy.exec(password);
+    const lazyMatch = lazy.exec(password);
+    if (!greedyMatch || !lazyMatch) break;
+
+    // "abcabc" repeats "abc", but "aabaab" repeats "aab", not "a"
+    let match: RegExpExecArray;
+    let baseToken: string;
+    if (greedyMatch[0].length > lazyMatch[0].length) {
+      match = greedyMatch;
+      baseToken = lazyAnchored.exec(match[0])![1];
+    } else {
+      match = lazyMatch;
+      baseToken = match[1];
+    }
+    const i = match.index;
+    const j = i + match[0].length - 1;
+    const base = mostGuessableSequence(baseToken, omnimatch(baseToken, dictionaries));
+    matches.push({
+      pattern: "repeat",
+      i,
+      j,
+      token: match[0],
+      baseToken,
+      baseGuessesLog10: base.guessesLog10,
+      repeatCount: match[0].length / baseToken.length,
+    });
+    lastIndex = j + 1;
+  }
+  return matches;
+}
+
+function sequenceMatch(password: string): MatchOf<"sequence">[] {
+  const matches: MatchOf<"sequence">[] = [];
+  if (password.length <= 1) return matches;
+
+  const addMatch = (i: number, j: number, delta: number) => {
+    if (j - i > 1 || Math.abs(delta) === 1) {
+      if (delta !== 0 && Math.abs(delta) <= MAX_SEQUENCE_DELTA) {
+        matches.push({ pattern: "sequence", i, j, token: password.slice(i, j + 1), ascending: delta > 0 });
+      }
+    }
+  };
+
+  let i = 0;
+  let lastDelta: number | null = null;
+  for (let k = 1; k < password.length; k++) {
+    const delta = password.charCodeAt(k) - password.charCodeAt(k - 1);
+    if (lastDelta === null) lastDelta = delta;
+    if (delta === lastDelta) continue;
+    addMatch(i, k - 1, lastDelta);
+    i = k - 1;
+    lastDelta = delta;
+  }
+  addMatch(i, password.length - 1, lastDelta!);
+  return matches;
+}
+
+function yearMatch(password: string): MatchOf<"year">[] {
+  return Array.from(password.matchAll(RECENT_YEAR), (match) => ({
+    pattern: "year" as const,
+    i: match.index!,
+    j: match.index! + match[0].length - 1,
+    token: match[0],
+  }));
+}
+
+function twoToFourDigitYear(year: number): number {
+  if (year > 99) return year;
+  return year > 50 ? 1900 + year : 2000 + year;
+}
+
+function mapIntsToDayMonth([a, b]: number[]): { day: number; month: number } | null {
+  for (const [day, month] of [[a, b], [b, a]]) {
+    if (day >= 1 && day <= 31 && month >= 1 && month <= 12) {
+      return { day, month };
+    }
+  }
+  return null;
+}
+
+// Read three numbers as a day, month and year in any common order
+function mapIntsToYear(ints: number[]): number | null {
+  if (ints[1] > 31 || ints[1] <= 0) return null;
+  let over12 = 0;
+  let over31 = 0;
+  let under1 = 0;
+  for (const value of ints) {
+    if ((value > 99 && value < DATE_MIN_YEAR) || value > DATE_MAX_YEAR) return null;
+    if (value > 31) over31 += 1;
+    if (value > 12) over12 += 1;
+    if (value <= 0) under1 += 1;
+  }
+  if (over31 >= 2 || over12 === 3 || under1 >= 2) return null;
+
+  const splits: Array<[number, number[]]> = [[ints[2], ints.slice(0, 2)], [ints[0], ints.slice(1, 3)]];
+  for (const [year, rest] of splits) {
+    if (year >= DATE_MIN_YEAR && year <= DATE_MAX_YEAR) {
+      return mapIntsToDayMonth(rest) ? year : null;
+    }
+  }
+  for (const [year, rest] of splits) {
+    if (mapIntsToDayMonth(rest)) return twoToFourDigitYear(year);
+  }
+  return null;
+}
+
+// Where to split runs of 4 to 8 digits into day, month and year
+const DATE_SPLITS: Record<number, Array<[number, number]>> = {
+  4: [[1, 2], [2, 3]],
+  5: [[1, 3], [2, 3]],
+  6: [[1, 2], [2, 4], [4, 5]],
+  7: [[1, 3], [2, 3], [4, 5], [4, 6]],
+  8: [[2, 4], [4, 6]],
+};
+const DATE_WITH_SEPARATOR = /^(\d{1,4})([\s/\\_.-])(\d{1,2})\2(\d{1,4})$/;
+
+function dateMatch(password: string, referenceYear: number): MatchOf<"date">[] {
+  const matches: MatchOf<"date">[] = [];
+
+  // Dates without separators, e.g. "13101985"
+  for (let i = 0; i <= password.length - 4; i++) {
+    for (let j = i + 3; j <= i + 7 && j < password.length; j++) {
+      const token = password.slice(i, j + 1);
+      if (!/^\d+$/.test(token)) continue;
+      let bestYear: number | null = null;
+      for (const [k, l] of DATE_SPLITS[token.length]) {
+        const year = mapIntsToYear([token.slice(0, k), token.slice(k, l), token.slice(l)].map(Number));
+        if (year !== null && (bestYear === null || Math.abs(year - referenceYear) < Math.abs(bestYear - referenceYear))) {
+          bestYear = year;
+        }
+      }
+      if (bestYear !== null) {
+        matches.push({ pattern: "date", i, j, token, year: bestYear, separator: "" });
+      }
+    }
+  }
+
+  // Dates with separators, e.g. "13/10/85"
+  for (let i = 0; i <= password.length - 6; i++) {
+    for (let j = i + 5; j <= i + 9 && j < password.length; j++) {
+      const token = password.slice(i, j + 1);
+      const parts = DATE_WITH_SEPARATOR.exec(token);
+      if (!parts) continue;
+      const year = mapIntsToYear([parts[1], parts[3], parts[4]].map(Number));
+      if (year !== null) {
+        matches.push({ pattern: "date", i, j, token, year, separator: parts[2] });
+      }
+    }
+  }
+
+  // "1985" inside "13101985" is not worth considering on its own
+  return matches.filter((match) => !matches.some((other) =>
+    other !== match && other.i <= match.i && other.j >= match.j,
+  ));
+}
+
+function omnimatch(password: string, dictionaries: Record<DictionaryName, Map<string, number>>): StrengthMatch[] {
+  const referenceYear = new Date().getFullYear();
+  return sortMatches([
+    ...dictionaryMatch(password, dictionaries),
+    ...reverseDictionaryMatch(password, dictionaries),
+    ...l33tMatch(password, dictionaries),
+    ...spatialMatch(password),
+    ...repeatMatch(password, dictionaries),
+    ...sequenceMatch(password),
+    ...yearMatch(password),
+    ...dateMatch(password, referenceYear),
+  ]);
+}
+
+function uppercaseVariations(token: string): number {
+  if (ALL_LOWER.test(token)) return 1;
+  // Capitalizing the first or last letter, or everything, is tried first
+  if (START_UPPER.test(token) || END_UPPER.test(token) || ALL_UPPER.test(token)) return 2;
+  const upper = token.split("").filter((char) => /[A-Z]/.test(char)).length;
+  const lower = token.split("").filter((char) => /[a-z]/.test(char)).length;
+  let variations = 0;
+  for (let i = 1; i <= Math.min(upper, lower); i++) {
+    variations += nCk(upper + lower, i);
+  }
+  return variations;
+}
+
+function l33tVariations(match: MatchOf<"dictionary">): number {
+  if (!match.l33t) return 1;
+  let variations = 1;
+  const chars = match.token.toLowerCase().split("");
+  Object.entries(match.sub).forEach(([subbed, unsubbed]) => {
+    const subbedCount = chars.filter((char) => char === subbed).length;
+    const unsubbedCount = chars.filter((char) => char === unsubbed).length;
+    if (subbedCount === 0 || unsubbedCount === 0) {
+      // Everything substituted, or nothing: one extra guess either way
+      variations *= 2;
+    } else {
+      let possibilities = 0;
+      for (let i = 1; i <= Math.min(subbedCount, unsubbedCount); i++) {
+        possibilities += nCk(subbedCount + unsubbedCount, i);
+      }
+      variations *= possibilities;
+    }
+  });
+  return variations;
+}
+
+function spatialGuesses(match: MatchOf<"spatial">): number {
+  const graph = ADJACENCY_GRAPHS[match.graph];
+  const length = match.token.length;
+  let guesses = 0;
+  for (let i = 2; i <= length; i++) {
+    for (let j = 1; j <= Math.min(match.turns, i - 1); j++) {
+      guesses += nCk(i - 1, j - 1) * graph.startingPositions * Math.pow(graph.averageDegree, j);
+    }
+  }
+  if (match.shiftedCount > 0) {
+    const unshiftedCount = length - match.shiftedCount;
+    if (unshiftedCount === 0) {
+      guesses *= 2;
+    } else {
+      let variations = 0;
+      for (let i = 1; i <= Math.min(match.shiftedCount, unshiftedCount); i++) {
+        variations += nCk(length, i);
+      }
+      guesses *= variations;
+    }
+  }
+  return guesses;
+}
+
+function sequenceGuesses(match: MatchOf<"sequence">): number {
+  const first = match.token[0];
+  let guesses: number;
+  if ("aAzZ019".includes(first)) {
+    // Obvious starting points
+    guesses = 4;
+  } else {
+    guesses = /\d/.test(first) ? 10 : 26;
+  }
+  if (!match.ascending) guesses *= 2;
+  return guesses * match.token.length;
+}
+
+function patternGuessesLog10(match: StrengthMatch): number {
+  const referenceYear = new Date().getFullYear();
+  switch (match.pattern) {
+    case "bruteforce": {
+      const minimum = match.token.length === 1 ? MIN_SUBMATCH_GUESSES_SINGLE_CHAR + 1 : MIN_SUBMATCH_GUESSES_MULTI_CHAR + 1;
+      return Math.max(match.token.length * Math.log10(BRUTEFORCE_CARDINALITY), Math.log10(minimum));
+    }
+    case "dictionary": {
+      const guesses = match.rank * uppercaseVariations(match.token) * l33tVariations(match) * (match.reversed ? 2 : 1);
+      return Math.log10(guesses);
+    }
+    case "spatial":
+      return Math.log10(spatialGuesses(match));
+    case "repeat":
+      return match.baseGuessesLog10 + Math.log10(match.repeatCount);
+    case "sequence":
+      return Math.log10(sequenceGuesses(match));
+    case "year":
+      return Math.log10(Math.max(Math.abs(Number(match.token) - referenceYear), MIN_YEAR_SPACE));
+    case "date": {
+      const yearSpace = Math.max(Math.abs(match.year - referenceYear), MIN_YEAR_SPACE);
+      return Math.log10(yearSpace * 365 * (match.separator ? 4 : 1));
+    }
+  }
+}
+
+function estimateGuessesLog10(match: StrengthMatch, passwordLength: number): number {
+  if (match.guessesLog10 !== undefined) return match.guessesLog10;
+  // A pattern inside a longer password still costs the attacker a few guesses
+  let minimum = 1;
+  if (match.token.length < passwordLength) {
+    minimum = match.token.length === 1 ? MIN_SUBMATCH_GUESSES_SINGLE_CHAR : MIN_SUBMATCH_GUESSES_MULTI_CHAR;
+  }
+  match.guessesLog10 = Math.max(patternGuessesLog10(match), Math.log10(minimum));
+  return match.guessesLog10;
+}
+
+interface OptimalStep {
+  match: StrengthMatch;
+  // Product of the guesses of the matches so far
+  piLog10: number;
+  // Guesses for the whole sequence so far
+  gLog10: number;
+}
+
+// Find the sequence of non-overlapping matches covering the password that
+// takes the fewest guesses, filling gaps with bruteforce. A sequence of l
+// matches costs l! * (product of guesses) + 10000^(l - 1), which favors fewer,
+// longer matches.
+function mostGuessableSequence(password: string, matches: StrengthMatch[]): { guessesLog10: number; sequence: StrengthMatch[] } {
+  const n = password.length;
+  if (n === 0) return { guessesLog10: 0, sequence: [] };
+
+  const matchesByEnd: StrengthMatch[][] = Array.from({ length: n }, () => []);
+  matches.forEach((match) => matchesByEnd[match.j].push(match));
+  // optimal[k] maps a sequence length to the best sequence ending at k
+  const optimal: Map<number, OptimalStep>[] = Array.from({ length: n }, () => new Map());
+
+  const update = (match: StrengthMatch, length: number) => {
+    const k = match.j;
+    let piLog10 = estimateGuessesLog10(match, n);
+    if (length > 1) {
+      piLog10 += optimal[match.i - 1].get(length - 1)!.piLog10;
+    }
+    const gLog10 = log10Add(log10Factorial(length) + piLog10, (length - 1) * Math.log10(MIN_GUESSES_BEFORE_GROWING_SEQUENCE));
+    // Skip if a sequence with no more matches already does at least as well
+    const dominated = Array.from(optimal[k].entries()).some(([otherLength, other]) =>
+      otherLength <= length && other.gLog10 <= gLog10,
+    );
+    if (dominated) return;
+    optimal[k].set(length, { match, piLog10, gLog10 });
+  };
+
+  const bruteforceMatch = (i: number, j: number): StrengthMatch => ({
+    pattern: "bruteforce",
+    i,
+    j,
+    token: password.slice(i, j + 1),
+  });
+
+  for (let k = 0; k < n; k++) {
+    matchesByEnd[k].forEach((match) => {
+      if (match.i > 0) {
+        Array.from(optimal[match.i - 1].keys()).forEach((length) => update(match, length + 1));
+      } else {
+        update(match, 1);
+      }
+    });
+
+    update(bruteforceMatch(0, k), 1);
+    for (let i = 1; i <= k; i++) {
+      const match = bruteforceMatch(i, k);
+      optimal[i - 1].forEach((step, length) => {
+        // Two bruteforce matches in a row are never better than one
+        if (step.match.pattern !== "bruteforce") update(match, length + 1);
+      });
+    }
+  }
+
+  let k = n - 1;
+  let bestLength = 0;
+  let guessesLog10 = Infinity;
+  optimal[k].forEach((step, length) => {
+    if (step.gLog10 < guessesLog10) {
+      bestLength = length;
+      guessesLog10 = step.gLog10;
+    }
+  });
+  const sequence: StrengthMatch[] = [];
+  while (k >= 0) {
+    const match = optimal[k].get(bestLength)!.match;
+    sequence.unshift(match);
+    k = match.i - 1;
+    bestLength -= 1;
+  }
+  return { guessesLog10, sequence };
+}
+
+function guessesToScore(guesses: number): StrengthScore {
+  // A little slack so matches right at a threshold land in the lower score
+  const delta = 5;
+  if (guesses < 1e3 + delta) return 0;
+  if (guesses < 1e6 + delta) return 1;
+  if (guesses < 1e8 + delta) return 2;
+  if (guesses < 1e10 + delta) return 3;
+  return 4;
+}
+
+export function describeCrackTime(seconds: number): string {
+  const minute = 60;
+  const hour = minute * 60;
+  const day = hour * 24;
+  const month = day * 31;
+  const year = month * 12;
+  const century = year * 100;
+  const units: Array<[number, string]> = [[year, "year"], [month, "month"], [day, "day"], [hour, "hour"], [minute, "minute"], [1, "second"]];
+
+  if (seconds < 1) return "less than a second";
+  if (seconds >= century) return "centuries";
+  const [size, name] = units.find(([size]) => seconds >= size)!;
+  const count = Math.round(seconds / size);
+  return `${count} ${name}${count === 1 ? "" : "s"}`;
+}
+
+function dictionaryFeedback(match: MatchOf<"dictionary">, isSoleMatch: boolean): { warning: string; suggestions: string[] } {
+  let warning = "";
+  if (match.dictionaryName === "passwords") {
+    if (isSoleMatch && !match.l33t && !match.reversed) {
+      if (match.rank <= 10) {
+        warning = "This is a top-10 common password";
+      } else if (match.rank <= 100) {
+        warning = "This is a top-100 common password";
+      } else {
+        warning = "This is a very common password";
+      }
+    } else if ((match.guessesLog10 ?? Infinity) <= 4) {
+      warning = "This is similar to a commonly used password";
+    }
+  } else if (match.dictionaryName === "english" || match.dictionaryName === "passphrase") {
+    if (isSoleMatch) warning = "A word by itself is easy to guess";
+  } else if (match.dictionaryName === "names") {
+    warning = isSoleMatch
+      ? "Names and surnames by themselves are easy to guess"
+      : "Common names and surnames are easy to guess";
+  } else if (match.dictionaryName === "userInputs") {
+    warning = "Passwords based on the site or username are easy to guess";
+  }
+
+  const suggestions: string[] = [];
+  if (START_UPPER.test(match.token)) {
+    suggestions.push("Capitalization doesn't help very much");
+  } else if (ALL_UPPER.test(match.token) && match.token.toLowerCase() !== match.token) {
+    suggestions.push("All-uppercase is almost as easy to guess as all-lowercase");
+  }
+  if (match.reversed && match.token.length >= 4) {
+    suggestions.push("Reversed words aren't much harder to guess");
+  }
+  if (match.l33t) {
+    suggestions.push("Predictable substitutions like '@' instead of 'a' don't help very much");
+  }
+  return { warning, suggestions };
+}
+
+function matchFeedback(match: StrengthMatch, isSoleMatch: boolean): { warning: string; suggestions: string[] } | null {
+  switch (match.pattern) {
+    case "dictionary":
+      return dictionaryFeedback(match, isSoleMatch);
+    case "spatial":
+      return {
+        warning: match.turns === 1 ? "Straight rows of keys are easy to guess" : "Short keyboard patterns are easy to guess",
+        suggestions: ["Use a longer keyboard pattern with more turns"],
+      };
+    case "repeat":
+      return {
+        warning: match.baseToken.length === 1
+          ? 'Repeats like "aaa" are easy to guess'
+          : 'Repeats like "abcabcabc" are only slightly harder to guess than "abc"',
+        suggestions: ["Avoid repeated words and characters"],
+      };
+    case "sequence":
+      return { warning: "Sequences like abc or 6543 are easy to guess", suggestions: ["Avoid sequences"] };
+    case "year":
+      return { warning: "Recent years are easy to guess", suggestions: ["Avoid recent years", "Avoid years that are associated with you"] };
+    case "date":
+      return { warning: "Dates are often easy to guess", suggestions: ["Avoid dates and years that are associated with you"] };
+    default:
+      return null;
+  }
+}
+
+function buildFeedback(score: StrengthScore, sequence: StrengthMatch[]): PasswordStrength["feedback"] {
+  if (sequence.length === 0) {
+    return {
+      warning: "",
+      suggestions: ["Use a few words, avoid common phrases", "No need for symbols, digits, or uppercase letters"],
+    };
+  }
+  if (score > 2) return { warning: "", suggestions: [] };
+
+  // The longest pattern says the most about why the password is weak
+  const longest = sequence.reduce((best, match) => (match.token.length > best.token.length ? match : best));
+  const feedback = matchFeedback(longest, sequence.length === 1);
+  const extra = "Add another word or two. Uncommon words are better.";
+  if (!feedback) return { warning: "", suggestions: [extra] };
+  return { warning: feedback.warning, suggestions: [extra, ...feedback.suggestions] };
+}
+
+// Estimate how hard a password is to guess. userInputs are strings an attacker
+// would try first for this account, such as the site name and username.
+export function estimatePasswordStrength(password: string, userInputs: string[] = []): PasswordStrength {
+  const analyzed = password.slice(0, MAX_ANALYZED_LENGTH);
+  const dictionaries = { ...RANKED_DICTIONARIES, userInputs: buildUserInputDictionary(userInputs) };
+  const { guessesLog10, sequence } = mostGuessableSequence(analyzed, omnimatch(analyzed, dictionaries));
+
+  const guesses = Math.pow(10, guessesLog10);
+  const score = guessesToScore(guesses);
+  const crackTimeSeconds = guesses / GUESSES_PER_SECOND;
+  return {
+    guesses,
+    guessesLog10,
+    score,
+    crackTimeSeconds,
+    crackTimeDisplay: describeCrackTime(crackTimeSeconds),
+    feedback: buildFeedback(score, sequence),
+  };
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, jsonb, timestamp, primaryKey } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, jsonb, timestamp, primaryKey, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
@@ -12,12 +12,16 @@ export const users = pgTable("users", {
   password: text("password"),
   mfaEnabled: boolean("mfa_enabled").default(false),
   mfaType: text("mfa_type"), // 'totp', 'email', 'sms', null
-  mfaSecret: text("mfa_secret"), // For TOTP
+  mfaSecret: text("mfa_secret"), // For TOTP, encrypted at rest
+  mfaSecretKeyVersion: integer("mfa_secret_key_version"), // Master key version, null if stored in the clear
   phone: text("phone"), // For SMS MFA
   registered: boolean("registered").notNull().default(false),
-  verificationCode: text("verification_code"),
+  verificationCode: text("verification_code"), // Encrypted at rest
+  verificationCodeKeyVersion: integer("verification_code_key_version"),
   verificationExpiry: timestamp("verification_expiry"),
   lastLogin: timestamp("last_login"),
+  sessionsRevokedAt: timestamp("sessions_revoked_at"), // Sessions signed in before this are no longer valid
+  vaultItemsBound: boolean("vault_items_bound").notNull().default(false), // Every vault item is encrypted bound to its ID
 });
 
 export const credentials = pgTable("credentials", {
@@ -27,15 +31,38 @@ export const credentials = pgTable("credentials", {
   publicKey: text("public_key").notNull(),
   counter: integer("counter").notNull(),
   transports: text("transports").array(),
+  aaguid: text("aaguid"),
+  attestationFormat: text("attestation_format"), // 'none', 'packed', 'tpm', ...
+  attestationType: text("attestation_type"), // 'none', 'self', 'basic', 'attca', 'anonca'
+  authenticatorName: text("authenticator_name"), // From FIDO metadata
+  authenticatorIcon: text("authenticator_icon"), // Data URL from FIDO metadata
+  nickname: text("nickname"),
+  backupEligible: boolean("backup_eligible").notNull().default(false), // BE flag
+  backedUp: boolean("backed_up").notNull().default(false), // BS flag, may change over time
+  prfSupported: boolean("prf_supported").notNull().default(false), // PRF / hmac-secret extension
+  lastUsedAt: timestamp("last_used_at"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Details about the device requesting a QR login, shown on the approving phone
+export type ChallengeMetadata = {
+  userAgent?: string;
+  ip?: string;
+  location?: string;
+  // User whose phone scanned the code, and the challenge it must sign to approve
+  scannedBy?: number;
+  approvalChallenge?: string;
+};
+
 export const challenges = pgTable("challenges", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }),
   challenge: text("challenge").notNull(),
-  type: text("type").notNull(), // 'registration', 'authentication', 'mfa'
+  type: text("type").notNull(), // 'registration', 'credential-registration', 'authentication', 'discoverable-authentication', 'conditional-authentication', 'reauthentication', 'qrcode', 'mfa'
   qrCode: text("qr_code"),
+  // QR login handoff state: 'pending' -> 'scanned' -> 'approved' | 'denied'
+  status: text("status").notNull().default('pending'),
+  metadata: jsonb("metadata").$type<ChallengeMetadata>(),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   expiresAt: timestamp("expires_at").notNull(),
 });
@@ -50,25 +77,94 @@ export const mfaRecoveryCodes = pgTable("mfa_recovery_codes", {
   usedAt: timestamp("used_at"),
 });
 
-// Password manager table
+// Hashes of a user's recent account passwords, so the password policy can
+// stop them being reused
+export const passwordHistory = pgTable("password_history", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  passwordHash: text("password_hash").notNull(), // scrypt, same format as users.password
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Single-use tokens for resetting a forgotten account password. Only a SHA-256
+// hash of the token is stored; the token itself is emailed to the user.
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Vault folders, nested through parentId. Deleting a folder deletes its
+// subfolders; the items in them are kept and become unfiled.
+export const folders = pgTable("folders", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  parentId: integer("parent_id").references((): AnyPgColumn => folders.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Password manager table. Items are end-to-end encrypted in the browser and
+// stored in encryptedData; the plaintext columns only hold legacy rows until
+// the client migrates them. Folder, tags and favorite are kept in the clear so
+// the server can filter on them.
 export const savedPasswords = pgTable("saved_passwords", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
-  website: text("website").notNull(),
+  website: text("website"),
   url: text("url"),
-  username: text("username").notNull(),
-  password: text("password").notNull(),
+  username: text("username"),
+  password: text("password"), // Encrypted at rest
+  passwordKeyVersion: integer("password_key_version"),
   notes: text("notes"),
+  encryptedData: text("encrypted_data"), // JSON { v, iv, ct }, AES-GCM under the vault key
+  folderId: integer("folder_id").references(() => folders.id, { onDelete: "set null" }),
+  tags: text("tags").array().notNull().default([]),
+  favorite: boolean("favorite").notNull().default(false),
+  deletedAt: timestamp("deleted_at"), // Set while the item is in the trash
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
+// Earlier versions of a vault item, recorded whenever its contents are
+// replaced so an accidental overwrite can be undone. encryptedData is the item
+// as it was before the change, still encrypted under the vault key.
+export const vaultItemVersions = pgTable("vault_item_versions", {
+  id: serial("id").primaryKey(),
+  itemId: integer("item_id").notNull().references(() => savedPasswords.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  encryptedData: text("encrypted_data").notNull(),
+  changedFields: text("changed_fields").array().notNull().default([]), // Names only, e.g. ['password']
+  userAgent: text("user_agent"), // Device that made the change
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Copies of the user's vault key, each wrapped by a different unlock secret.
+// The server never sees the vault key or the secrets that unwrap it.
+export const vaultKeys = pgTable("vault_keys", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  type: text("type").notNull(), // 'password', 'prf'
+  credentialId: text("credential_id"), // Passkey whose PRF output wraps this copy
+  salt: text("salt").notNull(), // base64url KDF salt
+  iterations: integer("iterations"), // PBKDF2 iterations for 'password'
+  wrappedKey: text("wrapped_key").notNull(), // base64url IV || AES-GCM(vault key)
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 // Define relations after all tables are declared
 export const usersRelations = relations(users, ({ many }) => ({
   credentials: many(credentials),
   challenges: many(challenges),
   savedPasswords: many(savedPasswords),
+  folders: many(folders),
   recoveryCodes: many(mfaRecoveryCodes),
+  vaultKeys: many(vaultKeys),
+  passwordHistory: many(passwordHistory),
+  passwordResetTokens: many(passwordResetTokens),
 }));
 
 export const credentialsRelations = relations(credentials, ({ one }) => ({
@@ -85,11 +181,44 @@ export const challengesRelations = relations(challenges, ({ one }) => ({
   }),
 }));
 
-export const savedPasswordsRelations = relations(savedPasswords, ({ one }) => ({
+export const savedPasswordsRelations = relations(savedPasswords, ({ one, many }) => ({
   user: one(users, {
     fields: [savedPasswords.userId],
     references: [users.id],
   }),
+  folder: one(folders, {
+    fields: [savedPasswords.folderId],
+    references: [folders.id],
+  }),
+  versions: many(vaultItemVersions),
+}));
+
+export const vaultItemVersionsRelations = relations(vaultItemVersions, ({ one }) => ({
+  item: one(savedPasswords, {
+    fields: [vaultItemVersions.itemId],
+    references: [savedPasswords.id],
+  }),
+}));
+
+export const foldersRelations = relations(folders, ({ one, many }) => ({
+  user: one(users, {
+    fields: [folders.userId],
+    references: [users.id],
+  }),
+  parent: one(folders, {
+    fields: [folders.parentId],
+    references: [folders.id],
+    relationName: "subfolders",
+  }),
+  subfolders: many(folders, { relationName: "subfolders" }),
+  savedPasswords: many(savedPasswords),
+}));
+
+export const vaultKeysRelations = relations(vaultKeys, ({ one }) => ({
+  user: one(users, {
+    fields: [vaultKeys.userId],
+    references: [users.id],
+  }),
 }));
 
 export const mfaRecoveryCodesRelations = relations(mfaRecoveryCodes, ({ one }) => ({
@@ -99,6 +228,20 @@ export const mfaRecoveryCodesRelations = relations(mfaRecoveryCodes, ({ one }) =
   }),
 }));
 
+export const passwordHistoryRelations = relations(passwordHistory, ({ one }) => ({
+  user: one(users, {
+    fields: [passwordHistory.userId],
+    references: [users.id],
+  }),
+}));
+
+export const passwordResetTokensRelations = relations(passwordResetTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [passwordResetTokens.userId],
+    references: [users.id],
+  }),
+}));
+
 // Insert schemas
 
 export const insertUserSchema = createInsertSchema(users).pick({
@@ -119,6 +262,15 @@ export const insertCredentialSchema = createInsertSchema(credentials).pick({
   publicKey: true,
   counter: true,
   transports: true,
+  aaguid: true,
+  attestationFormat: true,
+  attestationType: true,
+  authenticatorName: true,
+  authenticatorIcon: true,
+  nickname: true,
+  backupEligible: true,
+  backedUp: true,
+  prfSupported: true,
 });
 
 export const insertChallengeSchema = createInsertSchema(challenges)
@@ -127,6 +279,8 @@ export const insertChallengeSchema = createInsertSchema(challenges)
     challenge: true,
     type: true,
     qrCode: true,
+    status: true,
+    metadata: true,
     expiresAt: true,
   });
 // Note: userId is already optional because it's not marked as notNull in the table definition
@@ -139,6 +293,36 @@ export const insertSavedPasswordSchema = createInsertSchema(savedPasswords)
     username: true,
     password: true,
     notes: true,
+    encryptedData: true,
+    folderId: true,
+    tags: true,
+    favorite: true,
+  });
+
+export const insertVaultItemVersionSchema = createInsertSchema(vaultItemVersions)
+  .pick({
+    itemId: true,
+    userId: true,
+    encryptedData: true,
+    changedFields: true,
+    userAgent: true,
+  });
+
+export const insertFolderSchema = createInsertSchema(folders)
+  .pick({
+    userId: true,
+    parentId: true,
+    name: true,
+  });
+
+export const insertVaultKeySchema = createInsertSchema(vaultKeys)
+  .pick({
+    userId: true,
+    type: true,
+    credentialId: true,
+    salt: true,
+    iterations: true,
+    wrappedKey: true,
   });
 
 export const insertMfaRecoveryCodeSchema = createInsertSchema(mfaRecoveryCodes)
@@ -148,6 +332,19 @@ export const insertMfaRecoveryCodeSchema = createInsertSchema(mfaRecoveryCodes)
     used: true,
   });
 
+export const insertPasswordHistorySchema = createInsertSchema(passwordHistory)
+  .pick({
+    userId: true,
+    passwordHash: true,
+  });
+
+export const insertPasswordResetTokenSchema = createInsertSchema(passwordResetTokens)
+  .pick({
+    userId: true,
+    tokenHash: true,
+    expiresAt: true,
+  });
+
 // Types
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -162,9 +359,24 @@ export type Challenge = typeof challenges.$inferSelect;
 export type InsertSavedPassword = z.infer<typeof insertSavedPasswordSchema>;
 export type SavedPassword = typeof savedPasswords.$inferSelect;
 
+export type InsertVaultItemVersion = z.infer<typeof insertVaultItemVersionSchema>;
+export type VaultItemVersion = typeof vaultItemVersions.$inferSelect;
+
+export type InsertFolder = z.infer<typeof insertFolderSchema>;
+export type Folder = typeof folders.$inferSelect;
+
+export type InsertVaultKey = z.infer<typeof insertVaultKeySchema>;
+export type VaultKey = typeof vaultKeys.$inferSelect;
+
 export type InsertMfaRecoveryCode = z.infer<typeof insertMfaRecoveryCodeSchema>;
 export type MfaRecoveryCode = typeof mfaRecoveryCodes.$inferSelect;
 
+export type InsertPasswordHistory = z.infer<typeof insertPasswordHistorySchema>;
+export type PasswordHistory = typeof passwordHistory.$inferSelect;
+
+export type InsertPasswordResetToken = z.infer<typeof insertPasswordResetTokenSchema>;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+
 // Extended schemas
 export const webAuthnRegistrationInputSchema = z.object({
   email: z.string().email(),
@@ -173,3 +385,91 @@ export const webAuthnRegistrationInputSchema = z.object({
 export const webAuthnLoginInputSchema = z.object({
   email: z.string().email(),
 });
+
+// Vault item payloads. Items are encrypted in the browser and stored in
+// savedPasswords.encryptedData, so only the client ever validates these.
+const vaultItemBase = {
+  name: z.string().min(1, "Name is required"),
+  notes: z.string().optional(),
+};
+
+export const loginItemSchema = z.object({
+  type: z.literal("login"),
+  ...vaultItemBase,
+  url: z.string().optional(),
+  username: z.string().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+  totp: z.string().optional(), // Base32 seed or otpauth:// URI
+  generatorPreset: z.string().max(32).optional(), // Generator preset last used for this site
+});
+
+export const secureNoteItemSchema = z.object({
+  type: z.literal("note"),
+  ...vaultItemBase,
+  notes: z.string().min(1, "Note is required"),
+});
+
+export const cardItemSchema = z.object({
+  type: z.literal("card"),
+  ...vaultItemBase,
+  cardholderName: z.string().optional(),
+  number: z.string().regex(/^[\d ]{12,23}$/, "Enter a valid card number"),
+  expiryMonth: z.string().regex(/^(0?[1-9]|1[0-2])?$/, "Enter a month from 1 to 12").optional(),
+  expiryYear: z.string().regex(/^(\d{2}|\d{4})?$/, "Enter a 2 or 4 digit year").optional(),
+  securityCode: z.string().regex(/^(\d{3,4})?$/, "Enter 3 or 4 digits").optional(),
+});
+
+export const identityItemSchema = z.object({
+  type: z.literal("identity"),
+  ...vaultItemBase,
+  fullName: z.string().min(1, "Full name is required"),
+  email: z.string().email("Enter a valid email").or(z.literal("")).optional(),
+  phone: z.string().optional(),
+  address: z.string().optional(),
+  company: z.string().optional(),
+});
+
+export const sshKeyItemSchema = z.object({
+  type: z.literal("ssh-key"),
+  ...vaultItemBase,
+  privateKey: z.string().min(1, "Private key is required"),
+  publicKey: z.string().optional(),
+  passphrase: z.string().optional(),
+});
+
+export const apiTokenItemSchema = z.object({
+  type: z.literal("api-token"),
+  ...vaultItemBase,
+  token: z.string().min(1, "Token is required"),
+  url: z.string().optional(),
+  expiresAt: z.string().optional(), // YYYY-MM-DD
+});
+
+export const vaultItemDataSchema = z.discriminatedUnion("type", [
+  loginItemSchema,
+  secureNoteItemSchema,
+  cardItemSchema,
+  identityItemSchema,
+  sshKeyItemSchema,
+  apiTokenItemSchema,
+]);
+
+export type VaultItemData = z.infer<typeof vaultItemDataSchema>;
+export type VaultItemType = VaultItemData["type"];
+
+// Organisation metadata sent alongside an encrypted item. It is stored in the
+// clear, so the UI warns against putting secrets in folder names and tags.
+export const MAX_TAGS_PER_ITEM = 20;
+
+export const vaultItemMetadataSchema = z.object({
+  folderId: z.number().int().nullable().optional(),
+  tags: z.array(z.string().trim().min(1).max(32)).max(MAX_TAGS_PER_ITEM).optional(),
+  favorite: z.boolean().optional(),
+});
+
+export type VaultItemMetadata = z.infer<typeof vaultItemMetadataSchema>;
+
+export const folderInputSchema = z.object({
+  name: z.string().trim().min(1, "Folder name is required").max(64),
+  parentId: z.number().int().nullable().optional(),
+});
@@ -0,0 +1,169 @@
+// Ranked dictionaries for the password strength estimator. Earlier entries
+// are more common, so a match's rank approximates how soon an attacker
+// working down the list would try it.
+
+// Most common leaked passwords
+export const COMMON_PASSWORDS: readonly string[] = [
+  "123456", "password", "12345678", "qwerty", "123456789", "12345", "1234", "111111", "1234567",
+  "dragon", "123123", "baseball", "abc123", "football", "monkey", "letmein", "696969", "shadow",
+  "master", "666666", "qwertyuiop", "123321", "mustang", "1234567890", "michael", "654321",
+  "superman", "1qaz2wsx", "7777777", "121212", "000000", "qazwsx", "123qwe", "killer", "trustno1",
+  "jordan", "jennifer", "zxcvbnm", "asdfgh", "hunter", "buster", "soccer", "harley", "batman",
+  "andrew", "tigger", "sunshine", "iloveyou", "2000", "charlie", "robert", "thomas", "hockey",
+  "ranger", "daniel", "starwars", "112233", "george", "computer", "michelle", "jessica", "pepper",
+  "1111", "zxcvbn", "555555", "11111111", "131313", "freedom", "777777", "pass", "maggie", "159753",
+  "aaaaaa", "ginger", "princess", "joshua", "cheese", "amanda", "summer", "love", "ashley",
+  "nicole", "chelsea", "biteme", "matthew", "access", "yankees", "987654321", "dallas", "austin",
+  "thunder", "taylor", "matrix", "montana", "william", "corvette", "hello", "martin", "heather",
+  "secret", "merlin", "diamond", "1234qwer", "hammer", "silver", "222222", "88888888", "anthony",
+  "justin", "test", "bailey", "q1w2e3r4t5", "patrick", "internet", "scooter", "orange", "11111",
+  "golfer", "cookie", "richard", "samantha", "bigdog", "guitar", "jackson", "whatever", "mickey",
+  "chicken", "sparky", "snoopy", "maverick", "phoenix", "camaro", "peanut", "morgan", "welcome",
+  "falcon", "cowboy", "ferrari", "samsung", "andrea", "smokey", "steelers", "joseph", "mercedes",
+  "dakota", "arsenal", "eagles", "melissa", "boomer", "booboo", "spider", "nascar", "monster",
+  "tigers", "yellow", "xxxxxx", "123123123", "gateway", "marina", "diablo", "bulldog", "qwer1234",
+  "compaq", "purple", "hardcore", "banana", "junior", "hannah", "123654", "porsche", "lakers",
+  "iceman", "money", "cowboys", "987654", "london", "tennis", "999999", "ncc1701", "coffee",
+  "scooby", "0000", "miller", "boston", "q1w2e3r4", "brandon", "yamaha", "chester", "mother",
+  "forever", "johnny", "edward", "333333", "oliver", "redsox", "player", "nikita", "knight",
+  "fender", "barney", "midnight", "please", "brandy", "chicago", "badboy", "slayer", "rangers",
+  "charles", "angel", "flower", "bigdaddy", "rabbit", "wizard", "jasper", "enter", "rachel",
+  "chris", "steven", "winner", "adidas", "victoria", "natasha", "1q2w3e4r", "jasmine", "winter",
+  "prince", "marine", "fishing", "cocacola", "casper", "james", "232323", "raiders", "888888",
+  "marlboro", "gandalf", "asdfasdf", "crystal", "87654321", "12344321", "golden", "8675309",
+  "dolphin", "pokemon", "qwerty123", "password1", "password123", "abc123456", "iloveyou1",
+  "princess1", "admin", "welcome1", "login", "passw0rd", "p@ssw0rd", "letmein1", "starwars1",
+  "monkey123", "dragon123", "football1", "baseball1", "sunshine1", "shadow1", "master123",
+  "superman1", "qwertyui", "asdfghjkl", "zaq12wsx", "troubador", "correcthorsebatterystaple",
+  "changeme", "secret123", "default", "guest", "root", "toor", "administrator",
+];
+
+// Common English words, most frequent first
+export const ENGLISH_WORDS: readonly string[] = [
+  "the", "you", "and", "that", "was", "for", "are", "with", "his", "they", "one", "have", "this",
+  "from", "had", "not", "but", "what", "can", "out", "other", "were", "all", "there", "when",
+  "your", "use", "word", "how", "said", "each", "she", "which", "their", "time", "will", "way",
+  "about", "many", "then", "them", "write", "would", "like", "these", "her", "long", "make",
+  "thing", "see", "him", "two", "has", "look", "more", "day", "could", "come", "did", "number",
+  "sound", "most", "people", "over", "know", "water", "than", "call", "first", "who", "may", "down",
+  "side", "been", "now", "find", "any", "new", "work", "part", "take", "get", "place", "made",
+  "live", "where", "after", "back", "little", "only", "round", "man", "year", "came", "show",
+  "every", "good", "give", "our", "under", "name", "very", "through", "just", "form", "sentence",
+  "great", "think", "say", "help", "low", "line", "differ", "turn", "cause", "much", "mean",
+  "before", "move", "right", "boy", "old", "too", "same", "tell", "does", "set", "three", "want",
+  "air", "well", "also", "play", "small", "end", "put", "home", "read", "hand", "port", "large",
+  "spell", "add", "even", "land", "here", "must", "big", "high", "such", "follow", "act", "why",
+  "ask", "men", "change", "went", "light", "kind", "off", "need", "house", "picture", "try",
+  "again", "animal", "point", "mother", "world", "near", "build", "self", "earth", "father", "head",
+  "stand", "own", "page", "should", "country", "found", "answer", "school", "grow", "study",
+  "still", "learn", "plant", "cover", "food", "sun", "four", "between", "state", "keep", "eye",
+  "never", "last", "let", "thought", "city", "tree", "cross", "farm", "hard", "start", "might",
+  "story", "saw", "far", "sea", "draw", "left", "late", "run", "while", "press", "close", "night",
+  "real", "life", "few", "north", "open", "seem", "together", "next", "white", "children", "begin",
+  "got", "walk", "example", "ease", "paper", "group", "always", "music", "those", "both", "mark",
+  "often", "letter", "until", "mile", "river", "car", "feet", "care", "second", "book", "carry",
+  "took", "science", "eat", "room", "friend", "began", "idea", "fish", "mountain", "stop", "once",
+  "base", "hear", "horse", "cut", "sure", "watch", "color", "face", "wood", "main", "enough",
+  "plain", "girl", "usual", "young", "ready", "above", "ever", "red", "list", "though", "feel",
+  "talk", "bird", "soon", "body", "dog", "family", "direct", "pose", "leave", "song", "measure",
+  "door", "product", "black", "short", "numeral", "class", "wind", "question", "happen", "complete",
+  "ship", "area", "half", "rock", "order", "fire", "south", "problem", "piece", "told", "knew",
+  "pass", "since", "top", "whole", "king", "space", "heard", "best", "hour", "better", "true",
+  "during", "hundred", "five", "remember", "step", "early", "hold", "west", "ground", "interest",
+  "reach", "fast", "verb", "sing", "listen", "six", "table", "travel", "less", "morning", "ten",
+  "simple", "several", "vowel", "toward", "war", "lay", "against", "pattern", "slow", "center",
+  "love", "person", "money", "serve", "appear", "road", "map", "rain", "rule", "govern", "pull",
+  "cold", "notice", "voice", "unit", "power", "town", "fine", "certain", "fly", "fall", "lead",
+  "cry", "dark", "machine", "note", "wait", "plan", "figure", "star", "box", "noun", "field",
+  "rest", "correct", "able", "pound", "done", "beauty", "drive", "stood", "contain", "front",
+  "teach", "week", "final", "gave", "green", "quick", "develop", "ocean", "warm", "free", "minute",
+  "strong", "special", "mind", "behind", "clear", "tail", "produce", "fact", "street", "inch",
+  "multiply", "nothing", "course", "stay", "wheel", "full", "force", "blue", "object", "decide",
+  "surface", "deep", "island", "foot", "system", "busy", "test", "record", "boat", "common", "gold",
+  "possible", "plane", "stead", "dry", "wonder", "laugh", "thousand", "ago", "ran", "check", "game",
+  "shape", "equate", "hot", "miss", "brought", "heat", "snow", "tire", "bring", "yes", "distant",
+  "fill", "east", "paint", "language", "among", "grand", "ball", "yet", "wave", "drop", "heart",
+  "present", "heavy", "dance", "engine", "position", "arm", "wide", "sail", "material", "size",
+  "vary", "settle", "speak", "weight", "general", "ice", "matter", "circle", "pair", "include",
+  "divide", "syllable", "felt", "perhaps", "pick", "sudden", "count", "square", "reason", "length",
+  "represent", "art", "subject", "region", "energy", "hunt", "probable", "bed", "brother", "egg",
+  "ride", "cell", "believe", "fraction", "forest", "sit", "race", "window", "store", "summer",
+  "train", "sleep", "prove", "lone", "exercise", "wall", "catch", "mount", "wish", "sky", "board",
+  "joy", "winter", "sat", "written", "wild", "instrument", "kept", "glass", "grass", "cow", "job",
+  "edge", "sign", "visit", "past", "soft", "fun", "bright", "gas", "weather", "month", "million",
+  "bear", "finish", "happy", "hope", "flower", "clothe", "strange", "gone", "jump", "baby", "eight",
+  "village", "meet", "root", "buy", "raise", "solve", "metal", "whether", "push", "seven",
+  "paragraph", "third", "shall", "held", "hair", "describe", "cook", "floor", "either", "result",
+  "burn", "hill", "safe", "cat", "century", "consider", "type", "law", "bit", "coast", "copy",
+  "phrase", "silent", "tall", "sand", "soil", "roll", "temperature", "finger", "industry", "value",
+  "fight", "lie", "beat", "excite", "natural", "view", "sense", "ear", "else", "quite", "broke",
+  "case", "middle", "kill", "son", "lake", "moment", "scale", "loud", "spring", "observe", "child",
+  "straight", "consonant", "nation", "dictionary", "milk", "speed", "method", "organ", "pay", "age",
+  "section", "dress", "cloud", "surprise", "quiet", "stone", "tiny", "climb", "cool", "design",
+  "poor", "lot", "experiment", "bottom", "key", "iron", "single", "stick", "flat", "twenty", "skin",
+  "smile", "crease", "hole", "trade", "melody", "trip", "office", "receive", "row", "mouth",
+  "exact", "symbol", "die", "least", "trouble", "shout", "except", "wrote", "seed", "tone", "join",
+  "suggest", "clean", "break", "lady", "yard", "rise", "bad", "blow", "oil", "blood", "touch",
+  "grew", "cent", "mix", "team", "wire", "cost", "lost", "brown", "wear", "garden", "equal", "sent",
+  "choose", "fell", "fit", "flow", "fair", "bank", "collect", "save", "control", "decimal",
+  "gentle", "woman", "captain", "practice", "separate", "difficult", "doctor", "please", "protect",
+  "noon", "whose", "locate", "ring", "character", "insect", "caught", "period", "indicate", "radio",
+  "spoke", "atom", "human", "history", "effect", "electric", "expect", "crop", "modern", "element",
+  "hit", "student", "corner", "party", "supply", "bone", "rail", "imagine", "provide", "agree",
+  "thus", "capital", "chair", "danger", "fruit", "rich", "thick", "soldier", "process", "operate",
+  "guess", "necessary", "sharp", "wing", "create", "neighbor", "wash", "bat", "rather", "crowd",
+  "corn", "compare", "poem", "string", "bell", "depend", "meat", "rub", "tube", "famous", "dollar",
+  "stream", "fear", "sight", "thin", "triangle", "planet", "hurry", "chief", "colony", "clock",
+  "mine", "tie", "enter", "major", "fresh", "search", "send", "yellow", "gun", "allow", "print",
+  "dead", "spot", "desert", "suit", "current", "lift", "rose", "continue", "block", "chart", "hat",
+  "sell", "success", "company", "subtract", "event", "particular", "deal", "swim", "term",
+  "opposite", "wife", "shoe", "shoulder", "spread", "arrange", "camp", "invent", "cotton", "born",
+  "determine", "quart", "nine", "truck", "noise", "level", "chance", "gather", "shop", "stretch",
+  "throw", "shine", "property", "column", "molecule", "select", "wrong", "gray", "repeat",
+  "require", "broad", "prepare", "salt", "nose", "plural", "anger", "claim", "continent", "oxygen",
+  "sugar", "death", "pretty", "skill", "women", "season", "solution", "magnet", "silver", "thank",
+  "branch", "match", "suffix", "especially", "fig", "afraid", "huge", "sister", "steel", "discuss",
+  "forward", "similar", "guide", "experience", "score", "apple", "bought", "led", "pitch", "coat",
+  "mass", "card", "band", "rope", "slip", "win", "dream", "evening", "condition", "feed", "tool",
+  "total", "basic", "smell", "valley", "nor", "double", "seat", "arrive", "master", "track",
+  "parent", "shore", "division", "sheet", "substance", "favor", "connect", "post", "spend", "chord",
+  "fat", "glad", "original", "share", "station", "dad", "bread", "charge", "proper", "bar", "offer",
+  "segment", "slave", "duck", "instant", "market", "degree", "populate", "chick", "dear", "enemy",
+  "reply", "drink", "occur", "support", "speech", "nature", "range", "steam", "motion", "path",
+  "liquid", "log", "meant", "quotient", "teeth", "shell", "neck", "battery", "staple",
+];
+
+// Common first names and surnames
+export const NAMES: readonly string[] = [
+  "james", "john", "robert", "michael", "william", "david", "richard", "charles", "joseph",
+  "thomas", "christopher", "daniel", "paul", "mark", "donald", "george", "kenneth", "steven",
+  "edward", "brian", "ronald", "anthony", "kevin", "jason", "matthew", "gary", "timothy", "jose",
+  "larry", "jeffrey", "frank", "scott", "eric", "stephen", "andrew", "raymond", "gregory", "joshua",
+  "jerry", "dennis", "walter", "patrick", "peter", "harold", "douglas", "henry", "carl", "arthur",
+  "ryan", "roger", "joe", "juan", "jack", "albert", "jonathan", "justin", "terry", "gerald",
+  "keith", "samuel", "willie", "ralph", "lawrence", "nicholas", "roy", "benjamin", "bruce",
+  "brandon", "adam", "harry", "fred", "wayne", "billy", "steve", "louis", "jeremy", "aaron",
+  "randy", "howard", "eugene", "carlos", "russell", "bobby", "victor", "martin", "ernest",
+  "phillip", "todd", "jesse", "craig", "alan", "shawn", "clarence", "sean", "philip", "chris",
+  "johnny", "earl", "jimmy", "antonio", "mary", "patricia", "linda", "barbara", "elizabeth",
+  "jennifer", "maria", "susan", "margaret", "dorothy", "lisa", "nancy", "karen", "betty", "helen",
+  "sandra", "donna", "carol", "ruth", "sharon", "michelle", "laura", "sarah", "kimberly", "deborah",
+  "jessica", "shirley", "cynthia", "angela", "melissa", "brenda", "amy", "anna", "rebecca",
+  "virginia", "kathleen", "pamela", "martha", "debra", "amanda", "stephanie", "carolyn",
+  "christine", "marie", "janet", "catherine", "frances", "ann", "joyce", "diane", "alice", "julie",
+  "heather", "teresa", "doris", "gloria", "evelyn", "jean", "cheryl", "mildred", "katherine",
+  "joan", "ashley", "judith", "rose", "janice", "kelly", "nicole", "judy", "christina", "kathy",
+  "theresa", "beverly", "denise", "tammy", "irene", "jane", "lori", "rachel", "marilyn", "andrea",
+  "kathryn", "louise", "sara", "anne", "jacqueline", "wanda", "bonnie", "julia", "ruby", "lois",
+  "tina", "phyllis", "norma", "paula", "diana", "annie", "lillian", "emily", "robin", "smith",
+  "johnson", "williams", "jones", "brown", "davis", "miller", "wilson", "moore", "taylor",
+  "anderson", "jackson", "white", "harris", "thompson", "garcia", "martinez", "robinson", "clark",
+  "rodriguez", "lewis", "lee", "walker", "hall", "allen", "young", "hernandez", "king", "wright",
+  "lopez", "hill", "green", "adams", "baker", "gonzalez", "nelson", "carter", "mitchell", "perez",
+  "roberts", "turner", "phillips", "campbell", "parker", "evans", "edwards", "collins", "stewart",
+  "sanchez", "morris", "rogers", "reed", "cook", "morgan", "bell", "murphy", "bailey", "rivera",
+  "cooper", "richardson", "cox", "ward", "torres", "peterson", "gray", "ramirez", "watson",
+  "brooks", "sanders", "price", "bennett", "wood", "barnes", "ross", "henderson", "coleman",
+  "jenkins", "perry", "powell", "long", "patterson", "hughes", "flores", "washington", "butler",
+  "simmons", "foster", "gonzales", "bryant", "alexander", "griffin", "diaz", "hayes",
+];